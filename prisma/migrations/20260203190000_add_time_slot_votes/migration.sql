@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "public"."TimeSlotVote" (
+    "time_slot_vote_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "time_slot_id" UUID NOT NULL,
+    "event_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "available" BOOLEAN NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "TimeSlotVote_pkey" PRIMARY KEY ("time_slot_vote_id")
+);
+
+-- CreateIndex
+CREATE INDEX "TimeSlotVote_event_id_idx" ON "public"."TimeSlotVote"("event_id");
+
+-- CreateIndex
+CREATE INDEX "TimeSlotVote_member_id_idx" ON "public"."TimeSlotVote"("member_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TimeSlotVote_time_slot_id_member_id_key" ON "public"."TimeSlotVote"("time_slot_id", "member_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."TimeSlotVote" ADD CONSTRAINT "TimeSlotVote_time_slot_id_fkey" FOREIGN KEY ("time_slot_id") REFERENCES "public"."TimeSlot"("time_slot_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TimeSlotVote" ADD CONSTRAINT "TimeSlotVote_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "public"."Event"("event_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."TimeSlotVote" ADD CONSTRAINT "TimeSlotVote_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "public"."Member"("member_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "cancelled_at" TIMESTAMPTZ(6);
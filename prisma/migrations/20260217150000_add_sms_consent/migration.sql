@@ -0,0 +1,19 @@
+-- CreateEnum
+CREATE TYPE "public"."SmsConsentStatus" AS ENUM ('opted_in', 'opted_out');
+
+-- CreateTable
+CREATE TABLE "public"."SmsConsent" (
+    "phone_number" TEXT NOT NULL,
+    "status" "public"."SmsConsentStatus" NOT NULL DEFAULT 'opted_in',
+    "source" TEXT,
+    "last_keyword" TEXT,
+    "opted_out_at" TIMESTAMPTZ(6),
+    "opted_in_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "SmsConsent_pkey" PRIMARY KEY ("phone_number")
+);
+
+-- CreateIndex
+CREATE INDEX "SmsConsent_status_idx" ON "public"."SmsConsent"("status");
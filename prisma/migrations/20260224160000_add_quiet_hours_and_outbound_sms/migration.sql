@@ -0,0 +1,37 @@
+-- CreateEnum
+CREATE TYPE "public"."OutboundSmsStatus" AS ENUM ('pending', 'sending', 'sent', 'failed', 'cancelled');
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "quiet_hours_end_minute" INTEGER NOT NULL DEFAULT 420,
+ADD COLUMN     "quiet_hours_start_minute" INTEGER NOT NULL DEFAULT 1320;
+
+-- AlterTable
+ALTER TABLE "public"."Member" ADD COLUMN     "quiet_hours_end_minute" INTEGER,
+ADD COLUMN     "quiet_hours_start_minute" INTEGER,
+ADD COLUMN     "timezone" TEXT;
+
+-- CreateTable
+CREATE TABLE "public"."OutboundSms" (
+    "outbound_sms_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "to_phone" TEXT NOT NULL,
+    "body" TEXT NOT NULL,
+    "status" "public"."OutboundSmsStatus" NOT NULL DEFAULT 'pending',
+    "send_after" TIMESTAMPTZ(6) NOT NULL,
+    "conversation_id" UUID,
+    "event_id" UUID,
+    "member_id" UUID,
+    "attributes" JSONB,
+    "twilio_sid" TEXT,
+    "sent_at" TIMESTAMPTZ(6),
+    "error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "OutboundSms_pkey" PRIMARY KEY ("outbound_sms_id")
+);
+
+-- CreateIndex
+CREATE INDEX "OutboundSms_status_send_after_idx" ON "public"."OutboundSms"("status", "send_after");
+
+-- CreateIndex
+CREATE INDEX "OutboundSms_event_id_idx" ON "public"."OutboundSms"("event_id");
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."OutboundSms" ADD COLUMN     "attempt_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "last_attempt_at" TIMESTAMPTZ(6);
+
+-- AlterTable
+ALTER TABLE "public"."EventMember" ADD COLUMN     "invite_failed_at" TIMESTAMPTZ(6);
@@ -0,0 +1,71 @@
+-- CreateEnum
+CREATE TYPE "public"."ScheduledJobKind" AS ENUM ('invite_expiry', 'invite_reminder', 'event_start');
+
+-- CreateEnum
+CREATE TYPE "public"."ScheduledJobStatus" AS ENUM ('pending', 'running', 'done', 'failed', 'cancelled');
+
+-- CreateTable
+CREATE TABLE "public"."ScheduledJob" (
+    "job_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "kind" "public"."ScheduledJobKind" NOT NULL,
+    "status" "public"."ScheduledJobStatus" NOT NULL DEFAULT 'pending',
+    "run_at" TIMESTAMPTZ(6) NOT NULL,
+    "dedupe_key" TEXT NOT NULL,
+    "event_id" UUID,
+    "member_id" UUID,
+    "locked_by" TEXT,
+    "locked_until" TIMESTAMPTZ(6),
+    "attempt_count" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "ScheduledJob_pkey" PRIMARY KEY ("job_id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ScheduledJob_dedupe_key_key" ON "public"."ScheduledJob"("dedupe_key");
+
+-- CreateIndex
+CREATE INDEX "ScheduledJob_status_run_at_idx" ON "public"."ScheduledJob"("status", "run_at");
+
+-- CreateIndex
+CREATE INDEX "ScheduledJob_event_id_idx" ON "public"."ScheduledJob"("event_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduledJob" ADD CONSTRAINT "ScheduledJob_event_id_fkey" FOREIGN KEY ("event_id") REFERENCES "public"."Event"("event_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ScheduledJob" ADD CONSTRAINT "ScheduledJob_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "public"."Member"("member_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill: jobs for invites that were in flight under the old pollers.
+INSERT INTO "public"."ScheduledJob" ("kind", "run_at", "dedupe_key", "event_id", "member_id", "updated_at")
+SELECT 'invite_expiry', em."invite_expires_at",
+       'invite_expiry:' || em."event_id" || ':' || em."member_id",
+       em."event_id", em."member_id", CURRENT_TIMESTAMP
+FROM "public"."EventMember" em
+JOIN "public"."Event" e ON e."event_id" = em."event_id"
+WHERE em."status" = 'invited'
+  AND em."invite_timed_out" = false
+  AND em."invite_expires_at" IS NOT NULL
+  AND e."cancelled_at" IS NULL;
+
+INSERT INTO "public"."ScheduledJob" ("kind", "run_at", "dedupe_key", "event_id", "member_id", "updated_at")
+SELECT 'invite_reminder', em."invite_expires_at" - INTERVAL '30 minutes',
+       'invite_reminder:' || em."event_id" || ':' || em."member_id",
+       em."event_id", em."member_id", CURRENT_TIMESTAMP
+FROM "public"."EventMember" em
+JOIN "public"."Event" e ON e."event_id" = em."event_id"
+WHERE em."status" = 'invited'
+  AND em."invite_timed_out" = false
+  AND em."reminder_sent" = false
+  AND em."invite_expires_at" > CURRENT_TIMESTAMP
+  AND e."cancelled_at" IS NULL;
+
+INSERT INTO "public"."ScheduledJob" ("kind", "run_at", "dedupe_key", "event_id", "updated_at")
+SELECT 'event_start', MIN(ts."start_time"), 'event_start:' || e."event_id", e."event_id", CURRENT_TIMESTAMP
+FROM "public"."Event" e
+JOIN "public"."TimeSlot" ts ON ts."event_id" = e."event_id" AND ts."status" <> 'declined'
+WHERE e."cancelled_at" IS NULL
+GROUP BY e."event_id"
+HAVING MIN(ts."start_time") > CURRENT_TIMESTAMP;
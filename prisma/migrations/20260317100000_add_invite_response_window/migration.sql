@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "default_invite_response_minutes" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "invite_response_minutes" INTEGER;
@@ -0,0 +1,5 @@
+-- AlterEnum
+ALTER TYPE "public"."EventMemberStatus" ADD VALUE 'waitlisted';
+
+-- AlterTable
+ALTER TABLE "public"."EventMember" ADD COLUMN     "waitlisted_at" TIMESTAMPTZ(6);
@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "public"."EventMemberStatus" ADD VALUE 'maybe';
+
+-- AlterEnum
+ALTER TYPE "public"."ScheduledJobKind" ADD VALUE 'maybe_follow_up';
+
+-- AlterTable
+ALTER TABLE "public"."EventMember" ADD COLUMN     "maybe_decide_by" TIMESTAMPTZ(6),
+ADD COLUMN     "maybe_followed_up_at" TIMESTAMPTZ(6);
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "default_max_guests_per_member" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "max_guests_per_member" INTEGER;
+
+-- AlterTable
+ALTER TABLE "public"."EventMember" ADD COLUMN     "guest_count" INTEGER NOT NULL DEFAULT 0;
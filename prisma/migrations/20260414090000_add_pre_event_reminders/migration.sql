@@ -0,0 +1,11 @@
+-- AlterEnum
+ALTER TYPE "public"."ScheduledJobKind" ADD VALUE 'event_reminder_day_before';
+ALTER TYPE "public"."ScheduledJobKind" ADD VALUE 'event_reminder_soon';
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "default_day_before_reminder" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN     "default_pre_event_reminder_minutes" INTEGER NOT NULL DEFAULT 60;
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "day_before_reminder" BOOLEAN,
+ADD COLUMN     "pre_event_reminder_minutes" INTEGER;
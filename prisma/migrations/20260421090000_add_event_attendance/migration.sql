@@ -0,0 +1,14 @@
+-- AlterEnum
+ALTER TYPE "public"."ScheduledJobKind" ADD VALUE 'attendance_check';
+
+-- AlterTable
+ALTER TABLE "public"."User" ADD COLUMN     "order_backups_by_reliability" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "attendance_requested_at" TIMESTAMPTZ(6),
+ADD COLUMN     "attendance_recorded_at" TIMESTAMPTZ(6);
+
+-- AlterTable
+ALTER TABLE "public"."EventMember" ADD COLUMN     "invited_at" TIMESTAMPTZ(6),
+ADD COLUMN     "responded_at" TIMESTAMPTZ(6),
+ADD COLUMN     "attended" BOOLEAN;
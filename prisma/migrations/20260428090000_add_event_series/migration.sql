@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "public"."RecurrenceFrequency" AS ENUM ('weekly', 'monthly');
+
+-- AlterEnum
+ALTER TYPE "public"."ScheduledJobKind" ADD VALUE 'series_invites';
+
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "series_id" UUID;
+
+-- CreateTable
+CREATE TABLE "public"."EventSeries" (
+    "series_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "created_by_user_id" UUID NOT NULL,
+    "activity_id" UUID,
+    "frequency" "public"."RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "week_of_month" INTEGER,
+    "anchor_start" TIMESTAMPTZ(6) NOT NULL,
+    "duration_minutes" INTEGER NOT NULL,
+    "timezone" TEXT NOT NULL,
+    "invite_policy" "public"."EventInvitePolicy" NOT NULL DEFAULT 'max_only',
+    "preferred_member_ids" UUID[],
+    "invite_lead_minutes" INTEGER NOT NULL DEFAULT 2880,
+    "paused_at" TIMESTAMPTZ(6),
+    "ended_at" TIMESTAMPTZ(6),
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "EventSeries_pkey" PRIMARY KEY ("series_id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventSeries_created_by_user_id_idx" ON "public"."EventSeries"("created_by_user_id");
+
+-- CreateIndex
+CREATE INDEX "Event_series_id_idx" ON "public"."Event"("series_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."Event" ADD CONSTRAINT "Event_series_id_fkey" FOREIGN KEY ("series_id") REFERENCES "public"."EventSeries"("series_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EventSeries" ADD CONSTRAINT "EventSeries_created_by_user_id_fkey" FOREIGN KEY ("created_by_user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EventSeries" ADD CONSTRAINT "EventSeries_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "public"."Activity"("activity_id") ON DELETE SET NULL ON UPDATE CASCADE;
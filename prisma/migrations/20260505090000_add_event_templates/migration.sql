@@ -0,0 +1,34 @@
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "preferred_member_ids" UUID[];
+
+-- CreateTable
+CREATE TABLE "public"."EventTemplate" (
+    "template_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "activity_id" UUID,
+    "location" TEXT,
+    "invite_message" TEXT,
+    "duration_minutes" INTEGER,
+    "max_participants" INTEGER,
+    "invite_policy" "public"."EventInvitePolicy" NOT NULL DEFAULT 'max_only',
+    "preferred_member_ids" UUID[],
+    "invite_response_minutes" INTEGER,
+    "max_guests_per_member" INTEGER,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMPTZ(6) NOT NULL,
+
+    CONSTRAINT "EventTemplate_pkey" PRIMARY KEY ("template_id")
+);
+
+-- CreateIndex
+CREATE INDEX "EventTemplate_user_id_idx" ON "public"."EventTemplate"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "EventTemplate_user_id_name_key" ON "public"."EventTemplate"("user_id", "name");
+
+-- AddForeignKey
+ALTER TABLE "public"."EventTemplate" ADD CONSTRAINT "EventTemplate_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EventTemplate" ADD CONSTRAINT "EventTemplate_activity_id_fkey" FOREIGN KEY ("activity_id") REFERENCES "public"."Activity"("activity_id") ON DELETE SET NULL ON UPDATE CASCADE;
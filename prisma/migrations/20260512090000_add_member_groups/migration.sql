@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "public"."Event" ADD COLUMN     "member_group_id" UUID;
+
+-- AlterTable
+ALTER TABLE "public"."EventSeries" ADD COLUMN     "member_group_id" UUID;
+
+-- AlterTable
+ALTER TABLE "public"."EventTemplate" ADD COLUMN     "member_group_id" UUID;
+
+-- CreateTable
+CREATE TABLE "public"."MemberGroup" (
+    "member_group_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "user_id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MemberGroup_pkey" PRIMARY KEY ("member_group_id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."MemberGroupMembership" (
+    "member_group_membership_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "member_group_id" UUID NOT NULL,
+    "member_id" UUID NOT NULL,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MemberGroupMembership_pkey" PRIMARY KEY ("member_group_membership_id")
+);
+
+-- CreateIndex
+CREATE INDEX "MemberGroup_user_id_idx" ON "public"."MemberGroup"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MemberGroup_user_id_name_key" ON "public"."MemberGroup"("user_id", "name");
+
+-- CreateIndex
+CREATE INDEX "MemberGroupMembership_member_id_idx" ON "public"."MemberGroupMembership"("member_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MemberGroupMembership_member_group_id_member_id_key" ON "public"."MemberGroupMembership"("member_group_id", "member_id");
+
+-- CreateIndex
+CREATE INDEX "Event_member_group_id_idx" ON "public"."Event"("member_group_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."MemberGroup" ADD CONSTRAINT "MemberGroup_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."User"("user_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MemberGroupMembership" ADD CONSTRAINT "MemberGroupMembership_member_group_id_fkey" FOREIGN KEY ("member_group_id") REFERENCES "public"."MemberGroup"("member_group_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."MemberGroupMembership" ADD CONSTRAINT "MemberGroupMembership_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "public"."Member"("member_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."Event" ADD CONSTRAINT "Event_member_group_id_fkey" FOREIGN KEY ("member_group_id") REFERENCES "public"."MemberGroup"("member_group_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EventSeries" ADD CONSTRAINT "EventSeries_member_group_id_fkey" FOREIGN KEY ("member_group_id") REFERENCES "public"."MemberGroup"("member_group_id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."EventTemplate" ADD CONSTRAINT "EventTemplate_member_group_id_fkey" FOREIGN KEY ("member_group_id") REFERENCES "public"."MemberGroup"("member_group_id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."Member" ADD COLUMN     "aliases" TEXT[];
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "public"."MemberAvailabilityRuleKind" AS ENUM ('blackout', 'weekly');
+
+-- CreateTable
+CREATE TABLE "public"."MemberAvailabilityRule" (
+    "member_availability_rule_id" UUID NOT NULL DEFAULT gen_random_uuid(),
+    "member_id" UUID NOT NULL,
+    "kind" "public"."MemberAvailabilityRuleKind" NOT NULL,
+    "starts_at" TIMESTAMPTZ(6),
+    "ends_at" TIMESTAMPTZ(6),
+    "weekdays" INTEGER[],
+    "start_minute" INTEGER,
+    "end_minute" INTEGER,
+    "note" TEXT,
+    "created_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "MemberAvailabilityRule_pkey" PRIMARY KEY ("member_availability_rule_id")
+);
+
+-- CreateIndex
+CREATE INDEX "MemberAvailabilityRule_member_id_idx" ON "public"."MemberAvailabilityRule"("member_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."MemberAvailabilityRule" ADD CONSTRAINT "MemberAvailabilityRule_member_id_fkey" FOREIGN KEY ("member_id") REFERENCES "public"."Member"("member_id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "public"."OutboundSms" ADD COLUMN     "locked_by" TEXT,
+ADD COLUMN     "locked_until" TIMESTAMPTZ(6);
+
+-- Rows stuck in "sending" under the old poller go back to the queue.
+UPDATE "public"."OutboundSms" SET "status" = 'pending' WHERE "status" = 'sending';
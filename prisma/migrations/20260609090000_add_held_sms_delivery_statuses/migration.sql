@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "public"."HeldSmsDeliveryStatus" (
+    "twilio_sid" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "error_code" TEXT,
+    "received_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "HeldSmsDeliveryStatus_pkey" PRIMARY KEY ("twilio_sid")
+);
+
+-- CreateIndex
+CREATE INDEX "HeldSmsDeliveryStatus_received_at_idx" ON "public"."HeldSmsDeliveryStatus"("received_at");
@@ -0,0 +1,8 @@
+-- CreateTable
+CREATE TABLE "public"."ProcessedInboundSms" (
+    "twilio_sid" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "processed_at" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProcessedInboundSms_pkey" PRIMARY KEY ("twilio_sid")
+);
@@ -0,0 +1,79 @@
+import { chat, type ChatMessage } from "../../utils/openAiClient";
+import logger from "../../utils/logger";
+import { parseJsonFromLLMText } from "../llm/llmJson";
+
+export type ActivitySelection = {
+  /** Exact name from the user's list, or a new activity name when isNew. */
+  activityName: string | null;
+  /** True when the user is clearly planning something that isn't on their list. */
+  isNew: boolean;
+  confidence: "high" | "medium" | "low";
+  reason: string;
+};
+
+export function buildActivitySelectionAnalyzerSystemPrompt(args: {
+  /** One line per activity, e.g. "- Poker". */
+  activitiesList: string;
+}): string {
+  return `You pick which of the user's activities their scheduling SMS is about.
+
+The user's activities:
+${args.activitiesList}
+
+Return ONLY JSON:
+{
+  "activityName": string|null,
+  "isNew": boolean,
+  "confidence": "high"|"medium"|"low",
+  "reason": "short reason"
+}
+
+Rules:
+- If the messages clearly refer to one of the listed activities (by name, synonym or obvious description, e.g. "cards night" -> "Poker"), return that name EXACTLY as listed and isNew=false.
+- If they clearly name an activity that is NOT listed ("frisbee saturday"), return that activity name (short, title case) and isNew=true.
+- If the messages only contain time/location/homies with no activity, return activityName=null.
+- Do not guess; use low confidence when unsure.`;
+}
+
+export async function analyzeActivitySelection(args: {
+  messages: ChatMessage[];
+  systemPrompt: string;
+}): Promise<{ selection: ActivitySelection; rawText: string }> {
+  const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+
+  try {
+    const { text } = await chat({
+      tag: "analyzeActivitySelection",
+      system: args.systemPrompt,
+      messages: args.messages,
+      model,
+      temperature: 0.0,
+    });
+
+    const raw = (text ?? "").trim();
+    const parsed = parseJsonFromLLMText(raw);
+
+    const activityName =
+      typeof parsed.activityName === "string" && parsed.activityName.trim()
+        ? parsed.activityName.trim().slice(0, 40)
+        : null;
+    const confidence =
+      parsed.confidence === "high" || parsed.confidence === "medium" ? parsed.confidence : "low";
+
+    return {
+      selection: {
+        activityName,
+        isNew: activityName !== null && parsed.isNew === true,
+        confidence,
+        reason: typeof parsed.reason === "string" ? parsed.reason : "",
+      },
+      rawText: raw,
+    };
+  } catch (err: any) {
+    logger.warn(`analyzeActivitySelection error: ${err?.message ?? err}`);
+    return {
+      selection: { activityName: null, isNew: false, confidence: "low", reason: "error" },
+      rawText: String(err?.message ?? err),
+    };
+  }
+}
@@ -0,0 +1,82 @@
+import { chat, type ChatMessage } from "../../utils/openAiClient";
+import logger from "../../utils/logger";
+import { parseJsonFromLLMText } from "../llm/llmJson";
+
+export type EventChangeIntent = {
+  intent: "cancel" | "reschedule" | null;
+  /** How the user referred to the event ("Saturday's run"), if at all. */
+  eventReference: string | null;
+  confidence: "high" | "medium" | "low";
+  reason: string;
+};
+
+export function buildEventChangeIntentAnalyzerSystemPrompt(args: {
+  /** One line per upcoming event, e.g. "- Pickleball, Sat, Jan 17 9:00 AM". */
+  upcomingEventsList: string;
+}): string {
+  return `You classify whether the event creator's LAST SMS is asking to CANCEL or MOVE an event that is already scheduled (invites already went out). Earlier messages are context only.
+
+Their upcoming events:
+${args.upcomingEventsList}
+
+Return ONLY JSON:
+{
+  "intent": "cancel"|"reschedule"|null,
+  "eventReference": string|null,
+  "confidence": "high"|"medium"|"low",
+  "reason": "short reason"
+}
+
+Rules:
+- "cancel" for calling off an existing event ("cancel Saturday's run", "we're not doing tennis tonight", "call it off").
+- "reschedule" for moving an existing event to a different time ("push it to 8pm", "move tennis to Sunday 10am", "start 30 min later").
+- null when they are planning a NEW event, answering a question, or anything else.
+- null when the earlier messages show a new plan being worked out and the last one edits it ("make it later, 8pm").
+- eventReference: the words they used to identify the event (activity, day, time), or null if they didn't say which.
+- Do not guess; use low confidence when unsure.`;
+}
+
+export async function analyzeEventChangeIntent(args: {
+  messages: ChatMessage[];
+  systemPrompt: string;
+}): Promise<{ intent: EventChangeIntent; rawText: string }> {
+  const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+
+  try {
+    const { text } = await chat({
+      tag: "analyzeEventChangeIntent",
+      system: args.systemPrompt,
+      messages: args.messages,
+      model,
+      temperature: 0.0,
+    });
+
+    const raw = (text ?? "").trim();
+    const parsed = parseJsonFromLLMText(raw);
+
+    const intent =
+      parsed.intent === "cancel" || parsed.intent === "reschedule" ? parsed.intent : null;
+    const confidence =
+      parsed.confidence === "high" || parsed.confidence === "medium" ? parsed.confidence : "low";
+    const eventReference =
+      typeof parsed.eventReference === "string" && parsed.eventReference.trim()
+        ? parsed.eventReference.trim()
+        : null;
+
+    return {
+      intent: {
+        intent,
+        eventReference,
+        confidence,
+        reason: typeof parsed.reason === "string" ? parsed.reason : "",
+      },
+      rawText: raw,
+    };
+  } catch (err: any) {
+    logger.warn(`analyzeEventChangeIntent error: ${err?.message ?? err}`);
+    return {
+      intent: { intent: null, eventReference: null, confidence: "low", reason: "error" },
+      rawText: String(err?.message ?? err),
+    };
+  }
+}
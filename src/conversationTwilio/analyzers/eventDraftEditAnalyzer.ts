@@ -57,7 +57,7 @@ Definitions:
 - "backupOrder": user wants a specific order of backups (only backups). Provide the full ordered list.
 
 Important rules:
-- Only output names that appear in the Allowed homies list.
+- Use names from the Allowed homies list when the user clearly means that homie; otherwise output the name as the user wrote it (first names and nicknames are matched later).
 - If the user requests banning someone, also include them in "remove" only if necessary; the app enforces the ban.
 - If the user says "make X the first backup" or explicitly mentions "backup/backups", use backupOrder.
 - If the user says "invite X first" / "invite X next" / "invite X instead", interpret it as changing who is invited now:
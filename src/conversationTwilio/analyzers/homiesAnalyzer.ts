@@ -34,13 +34,16 @@ function inferImpliedAdditionalCountFromRecentUserText(
 
 export function buildHomiesAnalyzerSystemPrompt(args: {
   homiesList: string;
+  /** The user's homie groups, one "- Name" per line; "(no groups yet)" when none. */
+  groupsList?: string;
 }): string {
   return `You are an assistant that extracts which homies the user wants to invite.
 
 You MUST respond only in this JSON format:
 {
   "homies": ["Full Name", "Full Name"],
-  "maxHomies": number|null
+  "maxHomies": number|null,
+  "group": "Group Name"|null
 }
 
 Instructions:
@@ -50,6 +53,12 @@ Instructions:
 - **Additional Capacity**: User says "Invite Jake and 1 other" (names + added count) -> homies=["Jake ..."], maxHomies=2 (1 name + 1 other).
 - **Fallback**: If no homies or count specified -> homies=[], maxHomies=null.
 
+Groups (named sets of homies, e.g. "Trail Crew"):
+- **Pick from a group**: User says "Open Invite 3 from Trail Crew" -> homies=[], maxHomies=3, group="Trail Crew".
+- **Whole group**: User says "Invite the Poker Regulars" -> homies=["Poker Regulars"], maxHomies=null, group=null.
+- **Names + whole group**: User says "Invite Jake and the Trail Crew" -> homies=["Jake ...", "Trail Crew"], maxHomies=null, group=null.
+- Otherwise group=null.
+
 Branding (user may literally use these names):
 - **Open Invite** == Max Only (no named homies; just a number)
   - e.g. "Open Invite 3" -> homies=[], maxHomies=3
@@ -60,18 +69,24 @@ Branding (user may literally use these names):
 
 Constraints:
 - Do not invent names.
-- Homies may ONLY be selected from this list (verbatim):
-${args.homiesList}`;
+- Use the full name from this list when the user clearly means that homie; otherwise copy the name as the user wrote it (a first name or nickname is fine, it's matched later):
+${args.homiesList}
+- Groups may ONLY be selected from this list (verbatim):
+${args.groupsList ?? "(no groups yet)"}`;
 }
 
 export async function analyzeConversationHomies(
   messages: ChatMessage[],
   systemPrompt: string,
-  allowedHomies: string[]
+  allowedHomies: string[],
+  allowedGroups: string[] = []
 ): Promise<{
   homiesProvided: boolean;
+  /** Homie names, plus group names meaning "everyone in it". */
   homies: string[] | null;
   maxHomies: number | null;
+  /** Group to draw "any N" from. */
+  group: string | null;
   rawText: string;
 }> {
   const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
@@ -90,19 +105,26 @@ export async function analyzeConversationHomies(
     const parsed = parseJsonFromLLMText(raw);
 
     const allowedByLower = new Map(
-      allowedHomies
+      [...allowedHomies, ...allowedGroups]
         .filter((h) => h.trim().length > 0)
         .map((h) => [h.trim().toLowerCase(), h.trim()] as const)
     );
+    const groupsByLower = new Map(
+      allowedGroups
+        .filter((g) => g.trim().length > 0)
+        .map((g) => [g.trim().toLowerCase(), g.trim()] as const)
+    );
 
     const extractedHomies: string[] = Array.isArray(parsed.homies)
       ? parsed.homies.filter(isNonEmptyString)
       : [];
 
+    // Unlisted names ("Phin") are kept; resolveExplicitHomiesForEvent matches nicknames,
+    // first names, and typos, and asks when a name fits several homies.
     const normalizedHomies = Array.from(
       new Set(
         extractedHomies
-          .map((h) => allowedByLower.get(h.trim().toLowerCase()))
+          .map((h) => allowedByLower.get(h.trim().toLowerCase()) ?? h.trim())
           .filter((h): h is string => Boolean(h))
       )
     );
@@ -133,16 +155,22 @@ export async function analyzeConversationHomies(
       }
     }
 
+    const group = isNonEmptyString(parsed.group)
+      ? (groupsByLower.get(parsed.group.trim().toLowerCase()) ?? null)
+      : null;
+
     const homies = normalizedHomies.length ? normalizedHomies : null;
-    const homiesProvided = Boolean(homies?.length) || maxHomies !== null;
+    const homiesProvided =
+      Boolean(homies?.length) || maxHomies !== null || group !== null;
 
-    return { homiesProvided, homies, maxHomies, rawText: raw };
+    return { homiesProvided, homies, maxHomies, group, rawText: raw };
   } catch (err: any) {
     logger.warn(`analyzeConversationHomies error: ${err?.message ?? err}`);
     return {
       homiesProvided: false,
       homies: null,
       maxHomies: null,
+      group: null,
       rawText: String(err?.message ?? err),
     };
   }
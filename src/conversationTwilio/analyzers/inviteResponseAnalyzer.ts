@@ -1,22 +1,38 @@
+import { DateTime } from "luxon";
 import { chat, type ChatMessage } from "../../utils/openAiClient";
 import logger from "../../utils/logger";
 import { parseJsonFromLLMText } from "../llm/llmJson";
 
-export type InviteResponseDecision = "accepted" | "declined" | "unknown";
+export type InviteResponseDecision = "accepted" | "declined" | "maybe" | "unknown";
 
-export function buildInviteResponseAnalyzerSystemPrompt(): string {
+export function buildInviteResponseAnalyzerSystemPrompt(args: {
+  /** The homie's timezone, for reading "I'll know by tonight". */
+  timeZone: string;
+  nowIso: string;
+}): string {
   return `You are an assistant that classifies an invited homie's SMS response.
 
 Return ONLY JSON:
 {
-  "decision": "accepted"|"declined"|"unknown",
-  "summary": "short, sms-safe summary for the event creator"
+  "decision": "accepted"|"declined"|"maybe"|"unknown",
+  "summary": "short, sms-safe summary for the event creator",
+  "decide_by": "<ISO_8601_with_offset>" | null,
+  "guests": number | null
 }
 
 Rules:
 - "accepted" if they clearly say yes / can make it.
 - "declined" if they clearly say no / can't make it.
+- "maybe" if they are tentative or will know later ("maybe", "probably", "I'll know by tonight").
 - "unknown" if ambiguous.
+- decide_by: only for "maybe", when they say when they'll know; otherwise null.
+  The homie's timezone is ${args.timeZone} and "now" there is ${args.nowIso}.
+  Read vague times sensibly ("tonight" = 20:00, "tomorrow morning" = 09:00, "in an hour" = now + 1h).
+- guests: how many EXTRA people the homie wants to bring ("can I bring a friend?" = 1, "yes +2" = 2,
+  "me and my gf" = 1, "just me" / "no plus one after all" = 0); null if they don't mention it.
+  Asking to bring someone is not by itself a yes: "can I bring a friend?" is "unknown" with guests 1.
+- Classify the homie's LATEST message. If it changes an earlier answer ("actually I can't make it anymore", "nvm I'm in"), return the new answer.
+- If the latest message is only a question or small talk, return "unknown" even if they answered earlier.
 - The summary MUST be short (<= 160 chars), no emojis, no markdown.
 - The summary should refer to the homie in third person (e.g. "He said ..." / "She said ..." / "They said ...").
 - Do not invent details; only summarize what the homie wrote.`;
@@ -25,7 +41,15 @@ Rules:
 export async function analyzeInviteResponse(args: {
   messages: ChatMessage[];
   systemPrompt: string;
-}): Promise<{ decision: InviteResponseDecision; summary: string; rawText: string }> {
+}): Promise<{
+  decision: InviteResponseDecision;
+  summary: string;
+  /** When a "maybe" said they'd know; null if not stated (or not a maybe). */
+  decideBy: Date | null;
+  /** Extra people the homie asked to bring; null if not mentioned. */
+  guests: number | null;
+  rawText: string;
+}> {
   const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
 
   try {
@@ -42,13 +66,27 @@ export async function analyzeInviteResponse(args: {
     const parsed = parseJsonFromLLMText(raw);
     const decisionRaw = typeof parsed.decision === "string" ? parsed.decision : "unknown";
     const decision: InviteResponseDecision =
-      decisionRaw === "accepted" || decisionRaw === "declined" ? decisionRaw : "unknown";
+      decisionRaw === "accepted" || decisionRaw === "declined" || decisionRaw === "maybe"
+        ? decisionRaw
+        : "unknown";
 
     const summary = typeof parsed.summary === "string" ? parsed.summary.trim() : "";
 
+    const decideByDt =
+      decision === "maybe" && typeof parsed.decide_by === "string"
+        ? DateTime.fromISO(parsed.decide_by, { setZone: true })
+        : null;
+
+    const guests =
+      typeof parsed.guests === "number" && Number.isFinite(parsed.guests) && parsed.guests >= 0
+        ? Math.trunc(parsed.guests)
+        : null;
+
     return {
       decision,
       summary: summary.slice(0, 220),
+      decideBy: decideByDt?.isValid ? decideByDt.toJSDate() : null,
+      guests,
       rawText: raw,
     };
   } catch (err: any) {
@@ -56,6 +94,8 @@ export async function analyzeInviteResponse(args: {
     return {
       decision: "unknown",
       summary: "",
+      decideBy: null,
+      guests: null,
       rawText: String(err?.message ?? err),
     };
   }
@@ -39,6 +39,10 @@ export function buildMemberEventQuestionSystemPrompt(args: {
   end: Date;
   timeZone: string;
   memberStatus: EventMemberStatus;
+  /** Plus-ones each homie may bring (0 => none). */
+  maxGuestsPerMember: number;
+  /** Plus-ones this homie already has. */
+  guestCount: number;
 }): string {
   const what = (args.activityName ?? "hang").trim() || "hang";
   const where = (args.location ?? "").trim() || "(location TBD)";
@@ -51,6 +55,10 @@ export function buildMemberEventQuestionSystemPrompt(args: {
   });
 
   const statusLine = `EventMember status: ${args.memberStatus}`;
+  const guestsLine =
+    args.maxGuestsPerMember > 0
+      ? `Plus-ones: each homie may bring up to ${args.maxGuestsPerMember} (this homie has ${args.guestCount})`
+      : "Plus-ones: not allowed for this event";
 
   return `You are BuckFifty, an SMS-based assistant. You are texting with an invited homie.
 
@@ -61,6 +69,7 @@ Event context (authoritative):
 - Where: ${where}
 - ${noteLine}
 - ${statusLine}
+- ${guestsLine}
 
 Your job:
 - Answer the homie's questions about the event OR what BuckFifty is.
@@ -71,6 +80,7 @@ Decision prompt:
 - If status is invited, end with a gentle question: "Can you make it?"
 - If status is accepted, do NOT ask them to RSVP again; you can ask logistics questions instead.
 - If status is declined, do NOT pressure; you can still answer questions politely.
+- If they ask about bringing someone and plus-ones are allowed, tell them to reply like "yes +1".
 `;
 }
 
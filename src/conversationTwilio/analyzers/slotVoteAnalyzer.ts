@@ -0,0 +1,74 @@
+import { chat, type ChatMessage } from "../../utils/openAiClient";
+import logger from "../../utils/logger";
+import { parseJsonFromLLMText } from "../llm/llmJson";
+import type { SlotVoteReply } from "../domain/slotVoting";
+
+export function buildSlotVoteAnalyzerSystemPrompt(args: {
+  /** Numbered options exactly as the homie saw them, e.g. "1) Sat, Jan 17 9:00 AM - 11:00 AM". */
+  optionLines: string[];
+}): string {
+  return `You are an assistant that reads an invited homie's SMS reply to a multi-option invite.
+
+The homie was asked which of these times work for them:
+${args.optionLines.join("\n")}
+
+Return ONLY JSON:
+{
+  "vote": "options"|"all"|"none"|"unknown",
+  "optionNumbers": number[],
+  "summary": "short, sms-safe summary for the event creator"
+}
+
+Rules:
+- "options" if they name specific options (by number, day, or time). Put the matching option numbers in optionNumbers.
+- "all" if every option works for them (e.g. "any of those", "yes", "whatever works").
+- "none" if none of the options work or they can't make it at all.
+- "unknown" if the message is a question or otherwise isn't an answer.
+- Only use option numbers from the list above.
+- The summary MUST be short (<= 160 chars), no emojis, no markdown, third person ("They said ...").`;
+}
+
+export async function analyzeSlotVote(args: {
+  messages: ChatMessage[];
+  systemPrompt: string;
+  optionCount: number;
+}): Promise<{ vote: SlotVoteReply | null; summary: string; rawText: string }> {
+  const model = process.env.OPENAI_MODEL ?? "gpt-4o-mini";
+
+  try {
+    const { text } = await chat({
+      tag: "analyzeSlotVote",
+      system: args.systemPrompt,
+      messages: args.messages,
+      model,
+      temperature: 0.0,
+    });
+
+    const raw = (text ?? "").trim();
+    const parsed = parseJsonFromLLMText(raw);
+    const summary =
+      typeof parsed.summary === "string" ? parsed.summary.trim().slice(0, 220) : "";
+
+    const optionNumbers: number[] = Array.isArray(parsed.optionNumbers)
+      ? [
+          ...new Set<number>(
+            parsed.optionNumbers
+              .map((n: unknown) => (typeof n === "number" ? Math.trunc(n) : NaN))
+              .filter((n: number) => n >= 1 && n <= args.optionCount),
+          ),
+        ].sort((a, b) => a - b)
+      : [];
+
+    let vote: SlotVoteReply | null = null;
+    if (parsed.vote === "all") vote = { kind: "all" };
+    else if (parsed.vote === "none") vote = { kind: "none" };
+    else if (parsed.vote === "options" && optionNumbers.length > 0) {
+      vote = { kind: "options", optionNumbers };
+    }
+
+    return { vote, summary, rawText: raw };
+  } catch (err: any) {
+    logger.warn(`analyzeSlotVote error: ${err?.message ?? err}`);
+    return { vote: null, summary: "", rawText: String(err?.message ?? err) };
+  }
+}
@@ -0,0 +1,110 @@
+import { PrismaClient, type SmsConsent } from "@prisma/client";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+
+const prisma = new PrismaClient();
+
+export type SmsConsentSource = "keyword" | "twilio_opt_out" | "api";
+
+/** True when this number replied STOP (and hasn't sent START since). */
+export async function isPhoneOptedOut(phone: string | null | undefined): Promise<boolean> {
+  const p = (phone ?? "").trim();
+  if (!p) return false;
+
+  const row = await prisma.smsConsent.findUnique({
+    where: { phone_number: p },
+    select: { status: true },
+  });
+  return row?.status === "opted_out";
+}
+
+/** Subset of `phones` that are opted out (one query for a roster). */
+export async function findOptedOutPhones(phones: string[]): Promise<Set<string>> {
+  const wanted = Array.from(new Set(phones.map((p) => p.trim()).filter(Boolean)));
+  if (wanted.length === 0) return new Set();
+
+  const rows = await prisma.smsConsent.findMany({
+    where: { phone_number: { in: wanted }, status: "opted_out" },
+    select: { phone_number: true },
+  });
+  return new Set(rows.map((r) => r.phone_number));
+}
+
+export async function getSmsConsent(phone: string): Promise<SmsConsent | null> {
+  return prisma.smsConsent.findUnique({ where: { phone_number: phone } });
+}
+
+/**
+ * Record an opt-out. Returns true when the number was not already opted out,
+ * so callers only run side effects (creator notices, backfills) once.
+ */
+export async function recordSmsOptOut(args: {
+  phone: string;
+  source: SmsConsentSource;
+  keyword?: string | null;
+}): Promise<boolean> {
+  const wasOptedOut = await isPhoneOptedOut(args.phone);
+  const at = now();
+
+  await prisma.smsConsent.upsert({
+    where: { phone_number: args.phone },
+    update: {
+      status: "opted_out",
+      source: args.source,
+      last_keyword: args.keyword ?? null,
+      ...(wasOptedOut ? {} : { opted_out_at: at }),
+    },
+    create: {
+      phone_number: args.phone,
+      status: "opted_out",
+      source: args.source,
+      last_keyword: args.keyword ?? null,
+      opted_out_at: at,
+    },
+  });
+
+  logger.info("smsConsent:opted_out", {
+    phone: args.phone,
+    source: args.source,
+    keyword: args.keyword ?? null,
+    changed: !wasOptedOut,
+  });
+
+  return !wasOptedOut;
+}
+
+/** Record an opt-in (START, or an API reset). Returns true when the number was opted out. */
+export async function recordSmsOptIn(args: {
+  phone: string;
+  source: SmsConsentSource;
+  keyword?: string | null;
+}): Promise<boolean> {
+  const wasOptedOut = await isPhoneOptedOut(args.phone);
+  const at = now();
+
+  await prisma.smsConsent.upsert({
+    where: { phone_number: args.phone },
+    update: {
+      status: "opted_in",
+      source: args.source,
+      last_keyword: args.keyword ?? null,
+      ...(wasOptedOut ? { opted_in_at: at } : {}),
+    },
+    create: {
+      phone_number: args.phone,
+      status: "opted_in",
+      source: args.source,
+      last_keyword: args.keyword ?? null,
+      opted_in_at: at,
+    },
+  });
+
+  logger.info("smsConsent:opted_in", {
+    phone: args.phone,
+    source: args.source,
+    keyword: args.keyword ?? null,
+    changed: wasOptedOut,
+  });
+
+  return wasOptedOut;
+}
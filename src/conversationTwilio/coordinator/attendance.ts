@@ -0,0 +1,99 @@
+import { PrismaClient, type Member } from "@prisma/client";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import { fullNameForMember } from "../domain/homies";
+import { buildCreatorAttendanceRecordedSms } from "../domain/inviteFormatting";
+
+const prisma = new PrismaClient();
+
+/** How long after the check-in went out a reply still counts as the answer. */
+const ATTENDANCE_REPLY_WINDOW_MS = 3 * 24 * 60 * 60_000;
+
+export type EventAwaitingAttendance = {
+  eventId: string;
+  activityName: string | null;
+  /** Homies who said yes (the ones whose attendance we're asking about). */
+  acceptedMembers: Member[];
+};
+
+/**
+ * The creator's most recent event whose "who actually showed?" check-in is still
+ * unanswered, if it went out recently enough to match a reply to.
+ */
+export async function findEventAwaitingAttendance(args: {
+  userId: string;
+}): Promise<EventAwaitingAttendance | null> {
+  const event = await prisma.event.findFirst({
+    where: {
+      created_by_user_id: args.userId,
+      cancelled_at: null,
+      attendance_recorded_at: null,
+      attendance_requested_at: { gt: new Date(now().getTime() - ATTENDANCE_REPLY_WINDOW_MS) },
+    },
+    orderBy: { attendance_requested_at: "desc" },
+    include: {
+      activity: true,
+      eventMembers: {
+        where: { status: "accepted" },
+        include: { member: true },
+        orderBy: [
+          { priority_rank: { sort: "asc", nulls: "last" } },
+          { event_member_id: "asc" },
+        ],
+      },
+    },
+  });
+
+  if (!event || event.eventMembers.length === 0) return null;
+  return {
+    eventId: event.event_id,
+    activityName: event.activity?.name ?? null,
+    acceptedMembers: event.eventMembers.map((em) => em.member),
+  };
+}
+
+/**
+ * Save the creator's check-in answer on EventMember.attended (accepted homies only)
+ * and close the check-in. Returns the creator-facing confirmation.
+ */
+export async function recordEventAttendance(args: {
+  event: EventAwaitingAttendance;
+  attendedMemberIds: string[];
+  noShowMemberIds: string[];
+}): Promise<string> {
+  const { eventId } = args.event;
+
+  await prisma.$transaction(async (tx) => {
+    for (const [memberIds, attended] of [
+      [args.attendedMemberIds, true],
+      [args.noShowMemberIds, false],
+    ] as const) {
+      if (memberIds.length === 0) continue;
+      await tx.eventMember.updateMany({
+        where: { event_id: eventId, member_id: { in: memberIds }, status: "accepted" },
+        data: { attended },
+      });
+    }
+
+    await tx.event.update({
+      where: { event_id: eventId },
+      data: { attendance_recorded_at: now() },
+    });
+  });
+
+  logger.info("attendance:recorded", {
+    eventId,
+    attendedCount: args.attendedMemberIds.length,
+    noShowCount: args.noShowMemberIds.length,
+  });
+
+  const nameFor = (id: string) => {
+    const m = args.event.acceptedMembers.find((member) => member.member_id === id);
+    return m ? fullNameForMember(m) : "";
+  };
+  return buildCreatorAttendanceRecordedSms({
+    activityName: args.event.activityName,
+    attendedNames: args.attendedMemberIds.map(nameFor).filter(Boolean),
+    noShowNames: args.noShowMemberIds.map(nameFor).filter(Boolean),
+  });
+}
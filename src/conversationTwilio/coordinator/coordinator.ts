@@ -3,74 +3,105 @@ import {
   PrismaClient,
   type EventInvitePolicy,
   type EventMemberStatus,
+  type Member,
+  type TimeSlot,
 } from "@prisma/client";
 import logger from "../../utils/logger";
 import { sendSms } from "../../utils/twilioClient";
+import { now } from "../../utils/clock";
 import { DateTime } from "luxon";
 import { fullNameForMember } from "../domain/homies";
 import {
   buildAmbiguousInviteReplySms,
+  buildCreatorMemberOptedOutSms,
+  buildCreatorMemberRunningLateSms,
+  buildCreatorMemberUnreachableSms,
   buildCreatorRosterAfterMemberDecisionSms,
+  buildCreatorRsvpChangeRefusedSms,
+  buildCreatorSlotLockedInSms,
+  buildCreatorSlotVoteTallySms,
+  buildMemberGuestsSms,
   buildMemberInviteAcknowledgementSms,
-  buildMemberInviteFullSms,
   buildMemberInviteSms,
+  buildMemberInviteWaitlistedSms,
+  buildMemberMaybeAcknowledgementSms,
+  buildMemberRsvpChangeClosedSms,
+  buildMemberRunningLateAcknowledgementSms,
+  buildMemberSlotLockedInSms,
+  buildMemberSlotVoteAcknowledgementSms,
+  buildMemberSlotVoteInviteSms,
+  buildMemberWaitlistPromotedSms,
   buildUserNotifiedOfMemberResponseSms,
+  formatTimeSlotOptionLines,
 } from "../domain/inviteFormatting";
+import {
+  isSlotVotingOpen,
+  liveTimeSlotsInOptionOrder,
+  parseSlotVoteReply,
+  pickLeadingOption,
+} from "../domain/slotVoting";
+import { parseRunningLate } from "../domain/runningLateParsing";
+import { hasRsvpWording } from "../domain/availabilityParsing";
 import {
   analyzeInviteResponse,
   buildInviteResponseAnalyzerSystemPrompt,
 } from "../analyzers/inviteResponseAnalyzer";
 import {
-  ACTIVE_CAPACITY_STATUSES,
+  analyzeSlotVote,
+  buildSlotVoteAnalyzerSystemPrompt,
+} from "../analyzers/slotVoteAnalyzer";
+import {
+  countActiveSeats,
   normalizeMaxParticipants,
+  seatsForEventMember,
 } from "../../domain/eventCapacity";
+import { grantGuests, resolveMaxGuestsPerMember, type GuestGrant } from "../../domain/guestPolicy";
 import {
   answerMemberEventQuestion,
   buildMemberEventQuestionSystemPrompt,
 } from "../analyzers/memberEventQuestionAgent";
+import { isPhoneOptedOut } from "../consent/smsConsent";
+import { cancelQueuedSmsForMember, sendOrQueueSms } from "../outbound/outboundSmsQueue";
+import { isUnreachableNumberErrorCode } from "../outbound/deliveryStatus";
+import {
+  scheduleInviteJobs,
+  scheduleJob,
+  schedulePreEventReminderJobs,
+} from "../jobs/scheduledJobs";
+import {
+  nextSendWindowStart,
+  quietHoursForMember,
+  quietHoursForUser,
+} from "../../domain/quietHours";
+import {
+  computeInviteExpiresAt,
+  computeMaybeFollowUpAt,
+  resolveInviteResponseMinutes,
+} from "../../domain/inviteExpiryPolicy";
+import { isRsvpChangeClosed, rsvpChangeFor } from "../../domain/rsvpChanges";
+import { isUnavailableForSlots, timeZoneForMember } from "../../domain/memberAvailability";
+import {
+  isRunningLateWindowOpen,
+  resolvePreEventReminderSettings,
+} from "../../domain/preEventReminders";
+import { anchorEventSeriesOnLockedSlot } from "./eventSeries";
+import { recordMemberAvailabilityFromSms } from "./memberAvailability";
 
 const prisma = new PrismaClient();
 
-type InviteEventMemberReason = "event_created" | "timeout_backfill" | "decline_backfill";
-
-function computeInviteExpiresAt(args: {
-  now: DateTime;
-  eventStart: DateTime;
-  timeZone: string;
-}): DateTime {
-  const nowTz = args.now.setZone(args.timeZone);
-  const startTz = args.eventStart.setZone(args.timeZone);
-
-  // Defensive: if start isn't in the future, expire immediately.
-  if (startTz <= nowTz) return nowTz;
-
-  // 5% of the way from now -> start
-  const deltaMs = startTz.toMillis() - nowTz.toMillis();
-  const raw = nowTz.plus({ milliseconds: deltaMs * 0.05 });
-
-  const withinWindow = (dt: DateTime): boolean => {
-    const h = dt.hour;
-    // 07:00 <= t < 22:00
-    return h >= 7 && h < 22;
-  };
-
-  if (withinWindow(raw)) {
-    // Ensure expiry does not exceed the event start.
-    return raw <= startTz ? raw : startTz;
-  }
+type InviteEventMemberReason =
+  | "event_created"
+  | "timeout_backfill"
+  | "decline_backfill"
+  | "opt_out_backfill"
+  | "slot_locked"
+  | "event_rescheduled";
 
-  // If outside the allowed window, schedule for the next 7am in the user's timezone.
-  // Per product decision:
-  // - if now is before 7am => today at 7am
-  // - else => tomorrow at 7am
-  const next7amBase = nowTz.hour < 7 ? nowTz : nowTz.plus({ days: 1 });
-  const next7am = next7amBase
-    .startOf("day")
-    .set({ hour: 7, minute: 0, second: 0, millisecond: 0 });
-
-  // Still ensure we don't exceed event start (e.g. event starts before 7am).
-  return next7am <= startTz ? next7am : startTz;
-}
+// Candidate slots the creator (or lock-in) ruled out are status=declined.
+const LIVE_TIME_SLOTS_QUERY = {
+  where: { status: { not: "declined" as const } },
+  orderBy: { start_time: "asc" as const },
+};
 
 export async function inviteEventMember(args: {
   eventId: string;
@@ -82,7 +113,7 @@ export async function inviteEventMember(args: {
     include: {
       createdBy: true,
       activity: true,
-      timeSlots: { orderBy: { start_time: "asc" }, take: 1 },
+      timeSlots: LIVE_TIME_SLOTS_QUERY,
     },
   });
 
@@ -95,6 +126,15 @@ export async function inviteEventMember(args: {
     return;
   }
 
+  if (event.cancelled_at) {
+    logger.info("coordinator:inviteEventMember event cancelled; skipping invite", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+      reason: args.reason,
+    });
+    return;
+  }
+
   const timeSlot = event.timeSlots[0];
   if (!timeSlot) {
     logger.warn("coordinator:inviteEventMember missing timeslot; cannot invite", {
@@ -146,10 +186,53 @@ export async function inviteEventMember(args: {
     return;
   }
 
+  // Homies who replied STOP can't be texted: take them off the invite, tell the
+  // creator, and move on to the next backup.
+  if (await isPhoneOptedOut(member.phone_number)) {
+    await prisma.eventMember.update({
+      where: {
+        event_id_member_id: { event_id: event.event_id, member_id: member.member_id },
+      },
+      data: { status: "declined", invite_expires_at: null },
+    });
+
+    logger.info("coordinator:inviteEventMember member opted out; skipping invite", {
+      eventId: args.eventId,
+      memberId: member.member_id,
+      reason: args.reason,
+    });
+
+    await sendEventSmsToCreator({
+      event,
+      sms: buildCreatorMemberOptedOutSms({
+        memberName: fullNameForMember(member),
+        activityName: event.activity?.name,
+        timeSlot,
+        timeZone,
+        memberStatus: "skipped",
+      }),
+      attributes: {
+        kind: "creator_member_opted_out",
+        eventId: event.event_id,
+        memberId: member.member_id,
+        memberStatus: "skipped",
+      },
+    });
+
+    await inviteNextListedMember({ eventId: event.event_id, reason: "opt_out_backfill" });
+    return;
+  }
+
+  // The invite waits out the homie's quiet hours, so their answer window starts
+  // when it actually lands.
+  const quietHours = quietHoursForMember(member, event.createdBy);
+  const sendAt = nextSendWindowStart(nowTz, quietHours);
+  const invitedAt = sendAt < startTz ? sendAt : nowTz;
   const expiresAt = computeInviteExpiresAt({
-    now: nowTz,
+    now: invitedAt,
     eventStart: startTz,
-    timeZone,
+    quietHours,
+    responseMinutes: resolveInviteResponseMinutes({ event, user: event.createdBy }),
   });
 
   // Persist expiry even if the member lacks a phone number.
@@ -160,13 +243,30 @@ export async function inviteEventMember(args: {
     data: {
       status: "invited",
       invite_expires_at: expiresAt.toJSDate(),
-      // Defensive: if we are (re)inviting, clear any previous timeout.
+      invited_at: invitedAt.toJSDate(),
+      responded_at: null,
+      // Defensive: if we are (re)inviting, clear any previous timeout/send failure.
       invite_timed_out: false,
+      invite_failed_at: null,
       // NOTE: Strict policy: reminders are sent at most once per (event_id,member_id) row.
       // We intentionally do NOT reset reminder_sent here.
     },
   });
 
+  await scheduleInviteJobs({
+    eventId: event.event_id,
+    memberId: member.member_id,
+    invitedAt: invitedAt.toJSDate(),
+    expiresAt: expiresAt.toJSDate(),
+  });
+  await scheduleJob({ kind: "event_start", runAt: timeSlot.start_time, eventId: event.event_id });
+  await scheduleJob({ kind: "attendance_check", runAt: timeSlot.end_time, eventId: event.event_id });
+  await schedulePreEventReminderJobs({
+    eventId: event.event_id,
+    eventStart: timeSlot.start_time,
+    settings: resolvePreEventReminderSettings({ event, user: event.createdBy }),
+  });
+
   const phone = (member.phone_number ?? "").trim();
   if (!phone) {
     logger.warn("coordinator:inviteEventMember invited member has no phone; skipping SMS", {
@@ -178,18 +278,27 @@ export async function inviteEventMember(args: {
     return;
   }
 
-  const sms = buildMemberInviteSms({
-    member,
-    event,
-    timeSlot,
-    activityName: event.activity?.name,
-    creatorFirstName: event.createdBy.first_name,
-    timeZone,
-  });
+  // Multi-option events ask which times work instead of a yes/no.
+  const votingOpen = isSlotVotingOpen(event.timeSlots);
+  const sms = votingOpen
+    ? buildMemberSlotVoteInviteSms({
+        member,
+        event,
+        timeSlots: event.timeSlots,
+        activityName: event.activity?.name,
+        creatorFirstName: event.createdBy.first_name,
+        timeZone,
+      })
+    : buildMemberInviteSms({
+        member,
+        event,
+        timeSlot,
+        activityName: event.activity?.name,
+        creatorFirstName: event.createdBy.first_name,
+        timeZone,
+      });
 
   try {
-    const sid = await sendSms(phone, sms);
-
     // Ensure member conversation exists (event_id + member_id).
     const conversation = await prisma.conversation.upsert({
       where: {
@@ -206,20 +315,23 @@ export async function inviteEventMember(args: {
       select: { conversation_id: true },
     });
 
-    await prisma.conversationMessage.create({
-      data: {
-        conversation_id: conversation.conversation_id,
-        role: "assistant",
-        direction: "outbound",
-        content: sms,
-        twilio_sid: sid,
-        attributes: {
-          kind: "member_invite",
-          eventId: event.event_id,
-          memberId: member.member_id,
-          reason: args.reason,
-          inviteExpiresAtIso: expiresAt.toISO({ suppressMilliseconds: true }),
-        },
+    const sent = await sendOrQueueSms({
+      to: phone,
+      body: sms,
+      quietHours,
+      conversationId: conversation.conversation_id,
+      eventId: event.event_id,
+      memberId: member.member_id,
+      latestSendAt: timeSlot.start_time,
+      attributes: {
+        kind: "member_invite",
+        eventId: event.event_id,
+        memberId: member.member_id,
+        reason: args.reason,
+        ...(votingOpen
+          ? { timeSlotOptionIds: event.timeSlots.map((ts) => ts.time_slot_id) }
+          : {}),
+        inviteExpiresAtIso: expiresAt.toISO({ suppressMilliseconds: true }),
       },
     });
 
@@ -227,7 +339,9 @@ export async function inviteEventMember(args: {
       eventId: args.eventId,
       memberId: member.member_id,
       reason: args.reason,
-      messageSid: sid,
+      ...(sent.status === "sent"
+        ? { messageSid: sent.sid }
+        : { queuedUntilIso: sent.sendAfter.toISOString() }),
       inviteExpiresAtIso: expiresAt.toISO({ suppressMilliseconds: true }),
     });
   } catch (err: any) {
@@ -241,6 +355,784 @@ export async function inviteEventMember(args: {
   }
 }
 
+/**
+ * Promote the next `listed` homie (priority order) to `invited` and send their invite.
+ * Mirrors invite expiry job semantics: exactly ONE backup per call.
+ */
+export async function inviteNextListedMember(args: {
+  eventId: string;
+  reason: InviteEventMemberReason;
+}): Promise<string | null> {
+  const promoted = await prisma.$transaction(async (tx) => {
+    const event = await tx.event.findUnique({
+      where: { event_id: args.eventId },
+      select: { cancelled_at: true },
+    });
+    if (!event || event.cancelled_at) return null;
+
+    // Find the next listed homie.
+    const replacement = await tx.eventMember.findFirst({
+      where: {
+        event_id: args.eventId,
+        status: "listed",
+      },
+      orderBy: [
+        { priority_rank: { sort: "asc", nulls: "last" } },
+        { event_member_id: "asc" },
+      ],
+      select: { member_id: true },
+    });
+
+    if (!replacement) return null;
+
+    // Claim by promoting to invited BEFORE sending SMS.
+    await tx.eventMember.update({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: replacement.member_id,
+        },
+      },
+      data: {
+        status: "invited",
+        invite_timed_out: false,
+      },
+    });
+
+    return replacement.member_id;
+  });
+
+  if (!promoted) {
+    logger.info("coordinator:backfill none_available", {
+      eventId: args.eventId,
+      reason: args.reason,
+    });
+    return null;
+  }
+
+  await inviteEventMember({
+    eventId: args.eventId,
+    memberId: promoted,
+    reason: args.reason,
+  });
+
+  return promoted;
+}
+
+/**
+ * An accepted homie dropped out: move the first `waitlisted` homie (waitlist order)
+ * into the freed spot and text them. Returns the promoted member id, or null when
+ * nobody is waiting or the event is still full.
+ */
+export async function promoteNextWaitlistedMember(args: {
+  eventId: string;
+}): Promise<string | null> {
+  const promoted = await prisma.$transaction(async (tx) => {
+    const event = await tx.event.findUnique({
+      where: { event_id: args.eventId },
+      select: { cancelled_at: true, max_participants: true },
+    });
+    if (!event || event.cancelled_at) return null;
+
+    const max = normalizeMaxParticipants(event.max_participants);
+    if (typeof max === "number" && (await countActiveSeats(tx, args.eventId)) >= max) {
+      return null;
+    }
+
+    const next = await tx.eventMember.findFirst({
+      where: { event_id: args.eventId, status: "waitlisted" },
+      orderBy: [
+        { waitlisted_at: { sort: "asc", nulls: "last" } },
+        { event_member_id: "asc" },
+      ],
+      include: { member: true },
+    });
+    if (!next) return null;
+
+    // Guests aren't held on the waitlist; they can ask again once in.
+    await tx.eventMember.update({
+      where: { event_member_id: next.event_member_id },
+      data: { status: "accepted", waitlisted_at: null, guest_count: 0 },
+    });
+
+    return next.member;
+  });
+
+  if (!promoted) return null;
+
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1 },
+    },
+  });
+  const timeSlot = event?.timeSlots[0];
+
+  logger.info("coordinator:waitlist promoted", {
+    eventId: args.eventId,
+    memberId: promoted.member_id,
+  });
+
+  if (event && timeSlot) {
+    await sendEventSmsToMember({
+      eventId: args.eventId,
+      member: promoted,
+      sms: buildMemberWaitlistPromotedSms({
+        activityName: event.activity?.name,
+        timeSlot,
+        timeZone: event.createdBy.timezone,
+        location: event.location,
+      }),
+      attributes: {
+        kind: "member_waitlist_promoted",
+        eventId: args.eventId,
+        memberId: promoted.member_id,
+      },
+    });
+  }
+
+  return promoted.member_id;
+}
+
+/**
+ * Send + log an SMS on the (event, member) conversation, held for the homie's quiet
+ * hours (but not past the event start). Failures are logged, not thrown.
+ */
+export async function sendEventSmsToMember(args: {
+  eventId: string;
+  member: Member;
+  sms: string;
+  attributes: Prisma.InputJsonValue;
+}): Promise<void> {
+  const phone = (args.member.phone_number ?? "").trim();
+  if (!phone) {
+    logger.warn("coordinator:sendEventSmsToMember member has no phone; skipping SMS", {
+      eventId: args.eventId,
+      memberId: args.member.member_id,
+    });
+    return;
+  }
+
+  if (await isPhoneOptedOut(phone)) {
+    logger.info("coordinator:sendEventSmsToMember member opted out; skipping SMS", {
+      eventId: args.eventId,
+      memberId: args.member.member_id,
+    });
+    return;
+  }
+
+  try {
+    const event = await prisma.event.findUnique({
+      where: { event_id: args.eventId },
+      select: {
+        createdBy: true,
+        timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1, select: { start_time: true } },
+      },
+    });
+    if (!event) {
+      logger.warn("coordinator:sendEventSmsToMember event not found", {
+        eventId: args.eventId,
+        memberId: args.member.member_id,
+      });
+      return;
+    }
+
+    const conversation = await prisma.conversation.upsert({
+      where: {
+        event_id_member_id: { event_id: args.eventId, member_id: args.member.member_id },
+      },
+      update: {},
+      create: { event_id: args.eventId, member_id: args.member.member_id },
+      select: { conversation_id: true },
+    });
+
+    await sendOrQueueSms({
+      to: phone,
+      body: args.sms,
+      quietHours: quietHoursForMember(args.member, event.createdBy),
+      conversationId: conversation.conversation_id,
+      eventId: args.eventId,
+      memberId: args.member.member_id,
+      latestSendAt: event.timeSlots[0]?.start_time ?? null,
+      attributes: args.attributes,
+    });
+  } catch (err: any) {
+    logger.error("coordinator:sendEventSmsToMember failed", {
+      eventId: args.eventId,
+      memberId: args.member.member_id,
+      errorMessage: err?.message ?? String(err),
+      stack: err?.stack,
+    });
+  }
+}
+
+/**
+ * Send + log an SMS on the creator's user conversation, held for the creator's quiet
+ * hours. Failures are logged, not thrown.
+ */
+export async function sendEventSmsToCreator(args: {
+  event: {
+    event_id: string;
+    created_by_user_id: string;
+    createdBy: Pick<
+      Prisma.UserGetPayload<{}>,
+      "phone_number" | "timezone" | "quiet_hours_start_minute" | "quiet_hours_end_minute"
+    >;
+  };
+  sms: string;
+  attributes: Prisma.InputJsonValue;
+  /** Send right away rather than hold it past this (e.g. event-day texts). */
+  latestSendAt?: Date | null;
+}): Promise<void> {
+  const phone = (args.event.createdBy.phone_number ?? "").trim();
+  if (!phone) {
+    logger.warn("coordinator:sendEventSmsToCreator creator has no phone; skipping SMS", {
+      eventId: args.event.event_id,
+    });
+    return;
+  }
+
+  try {
+    const conversation = await prisma.conversation.upsert({
+      where: { user_id: args.event.created_by_user_id },
+      update: {},
+      create: { user_id: args.event.created_by_user_id },
+      select: { conversation_id: true },
+    });
+
+    await sendOrQueueSms({
+      to: phone,
+      body: args.sms,
+      quietHours: quietHoursForUser(args.event.createdBy),
+      conversationId: conversation.conversation_id,
+      eventId: args.event.event_id,
+      latestSendAt: args.latestSendAt ?? null,
+      attributes: args.attributes,
+    });
+  } catch (err: any) {
+    logger.error("coordinator:sendEventSmsToCreator failed", {
+      eventId: args.event.event_id,
+      errorMessage: err?.message ?? String(err),
+      stack: err?.stack,
+    });
+  }
+}
+
+type CreatorRosterDecision = "accepted" | "declined" | "waitlisted" | "maybe" | "guests_updated" | "removed";
+
+/** The creator's roster update after a homie's answer (or removal) changed the event. */
+async function buildCreatorRosterSmsForEvent(args: {
+  event: Prisma.EventGetPayload<{ include: { createdBy: true; activity: true } }>;
+  timeSlot: TimeSlot;
+  memberId: string;
+  memberName: string;
+  decision: CreatorRosterDecision;
+  summary: string;
+  promotedMemberId?: string | null;
+  rsvpChanged?: boolean;
+  decideBy?: Date | null;
+}): Promise<string> {
+  const { event } = args;
+
+  // Order by invite-policy semantics so backups/pending match the real queue.
+  const ems = await prisma.eventMember.findMany({
+    where: { event_id: event.event_id },
+    include: { member: true },
+    orderBy: [
+      { priority_rank: { sort: "asc", nulls: "last" } },
+      { event_member_id: "asc" },
+    ],
+  });
+
+  const accepted: string[] = [];
+  const pending: string[] = [];
+  const maybe: string[] = [];
+  const declined: string[] = [];
+  const backups: string[] = [];
+  const waitlist = ems
+    .filter((em) => em.status === "waitlisted")
+    .sort((a, b) => (a.waitlisted_at?.getTime() ?? 0) - (b.waitlisted_at?.getTime() ?? 0));
+  const waitlisted = waitlist.map((em) => fullNameForMember(em.member).trim()).filter(Boolean);
+  const promoted = ems.find((em) => em.member_id === args.promotedMemberId);
+  const self = ems.find((em) => em.member_id === args.memberId);
+
+  let seats = 0;
+  for (const em of ems) {
+    seats += seatsForEventMember(em);
+    const n = fullNameForMember(em.member).trim();
+    if (!n) continue;
+    if (em.status === "accepted") accepted.push(em.guest_count > 0 ? `${n} (+${em.guest_count})` : n);
+    else if (em.status === "declined") declined.push(n);
+    else if (em.status === "maybe") maybe.push(n);
+    else if (em.status === "listed") backups.push(n);
+    else if (em.status === "invited" || em.status === "messaged") pending.push(n);
+  }
+
+  const max = normalizeMaxParticipants(event.max_participants);
+  const openSpots = typeof max === "number" ? Math.max(0, max - seats) : null;
+
+  return buildCreatorRosterAfterMemberDecisionSms({
+    memberName: args.memberName,
+    decision: args.decision,
+    summary: args.summary,
+    activityName: event.activity?.name ?? null,
+    timeSlot: args.timeSlot,
+    timeZone: event.createdBy.timezone,
+    openSpots,
+    promotedName: promoted ? fullNameForMember(promoted.member) : null,
+    rsvpChanged: args.rsvpChanged ?? false,
+    decideBy: args.decideBy ?? null,
+    guestCount: self?.guest_count ?? 0,
+    roster: { accepted, pending, maybe, declined, waitlisted, backups },
+  });
+}
+
+/**
+ * The creator deleted a homie (the Member row and its EventMember rows are already gone).
+ *
+ * Each upcoming event they were on is handled like a decline: a freed spot goes to the
+ * waitlist, else the next backup is invited, and the creator gets the updated roster.
+ * Texts still queued for them are dropped.
+ */
+export async function onMemberRemoved(args: {
+  member: Member;
+  spots: Array<{ eventId: string; status: EventMemberStatus }>;
+}): Promise<void> {
+  const memberName = fullNameForMember(args.member);
+  await cancelQueuedSmsForMember({ memberId: args.member.member_id });
+
+  for (const spot of args.spots) {
+    const event = await prisma.event.findUnique({
+      where: { event_id: spot.eventId },
+      include: { createdBy: true, activity: true, timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1 } },
+    });
+    const timeSlot = event?.timeSlots[0];
+    if (!event || event.cancelled_at || !timeSlot) continue;
+
+    let promotedMemberId: string | null = null;
+    if (spot.status === "accepted") {
+      promotedMemberId = await promoteNextWaitlistedMember({ eventId: spot.eventId });
+    }
+    if (!promotedMemberId && spot.status !== "waitlisted") {
+      await inviteNextListedMember({ eventId: spot.eventId, reason: "decline_backfill" });
+    }
+
+    logger.info("coordinator:onMemberRemoved", {
+      eventId: spot.eventId,
+      memberId: args.member.member_id,
+      memberStatus: spot.status,
+      promotedMemberId,
+    });
+
+    await sendEventSmsToCreator({
+      event,
+      sms: await buildCreatorRosterSmsForEvent({
+        event,
+        timeSlot,
+        memberId: args.member.member_id,
+        memberName,
+        decision: "removed",
+        summary: "",
+        promotedMemberId,
+      }),
+      attributes: {
+        kind: "creator_member_removed",
+        eventId: spot.eventId,
+        memberId: args.member.member_id,
+        memberStatus: spot.status,
+        ...(promotedMemberId ? { promotedMemberId } : {}),
+      },
+    });
+  }
+}
+
+/**
+ * A homie's number replied STOP.
+ *
+ * Open invites on upcoming events are declined (with a backfill) and the creator is
+ * told why; accepted homies stay accepted but the creator learns they won't get updates.
+ */
+export async function onMemberPhoneOptedOut(args: { phone: string }): Promise<void> {
+  const ems = await prisma.eventMember.findMany({
+    where: {
+      member: { phone_number: args.phone },
+      status: { in: ["invited", "messaged", "maybe", "accepted", "waitlisted"] },
+      invite_timed_out: false,
+      event: {
+        cancelled_at: null,
+        timeSlots: { some: { start_time: { gt: now() } } },
+      },
+    },
+    include: {
+      member: true,
+      event: {
+        include: {
+          createdBy: true,
+          activity: true,
+          timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1 },
+        },
+      },
+    },
+  });
+
+  logger.info("coordinator:onMemberPhoneOptedOut", {
+    eventMemberCount: ems.length,
+  });
+
+  for (const em of ems) {
+    const timeSlot = em.event.timeSlots[0];
+    if (!timeSlot) continue;
+
+    const wasAccepted = em.status === "accepted";
+    const wasWaitlisted = em.status === "waitlisted";
+    if (!wasAccepted) {
+      await prisma.eventMember.update({
+        where: { event_member_id: em.event_member_id },
+        data: { status: "declined", invite_expires_at: null, waitlisted_at: null },
+      });
+    }
+
+    // Leaving the waitlist frees nothing, so there's no one to tell or backfill.
+    if (wasWaitlisted) continue;
+
+    await sendEventSmsToCreator({
+      event: em.event,
+      sms: buildCreatorMemberOptedOutSms({
+        memberName: fullNameForMember(em.member),
+        activityName: em.event.activity?.name,
+        timeSlot,
+        timeZone: em.event.createdBy.timezone,
+        memberStatus: wasAccepted ? "accepted" : "pending",
+      }),
+      attributes: {
+        kind: "creator_member_opted_out",
+        eventId: em.event_id,
+        memberId: em.member_id,
+        memberStatus: em.status,
+      },
+    });
+
+    if (!wasAccepted) {
+      await inviteNextListedMember({ eventId: em.event_id, reason: "opt_out_backfill" });
+    }
+  }
+}
+
+/**
+ * Twilio reported an invite as undelivered/failed.
+ *
+ * The invite is flagged failed (its expiry job runs now and backfills it). When the
+ * error says the number itself can't take texts, the creator is told so they can fix it.
+ */
+export async function onMemberInviteUndelivered(args: {
+  eventId: string;
+  memberId: string;
+  errorCode: string | null;
+}): Promise<void> {
+  const em = await prisma.eventMember.findUnique({
+    where: { event_id_member_id: { event_id: args.eventId, member_id: args.memberId } },
+    include: {
+      member: true,
+      event: {
+        include: {
+          createdBy: true,
+          activity: true,
+          timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1 },
+        },
+      },
+    },
+  });
+
+  const timeSlot = em?.event.timeSlots[0];
+  if (
+    !em ||
+    !timeSlot ||
+    em.status !== "invited" ||
+    em.invite_timed_out ||
+    em.event.cancelled_at ||
+    timeSlot.start_time.getTime() <= now().getTime()
+  ) {
+    return;
+  }
+
+  const failedAt = now();
+  await prisma.eventMember.update({
+    where: { event_member_id: em.event_member_id },
+    data: { invite_failed_at: failedAt, invite_expires_at: failedAt },
+  });
+  await scheduleJob({
+    kind: "invite_expiry",
+    runAt: failedAt,
+    eventId: em.event_id,
+    memberId: em.member_id,
+  });
+
+  const unreachable = isUnreachableNumberErrorCode(args.errorCode);
+  logger.warn("coordinator:onMemberInviteUndelivered", {
+    eventId: args.eventId,
+    memberId: args.memberId,
+    errorCode: args.errorCode,
+    unreachable,
+  });
+  if (!unreachable) return;
+
+  await sendEventSmsToCreator({
+    event: em.event,
+    sms: buildCreatorMemberUnreachableSms({
+      memberName: fullNameForMember(em.member),
+      activityName: em.event.activity?.name,
+      timeSlot,
+      timeZone: em.event.createdBy.timezone,
+    }),
+    attributes: {
+      kind: "creator_member_unreachable",
+      eventId: em.event_id,
+      memberId: em.member_id,
+      errorCode: args.errorCode,
+    },
+  });
+}
+
+export type LockInTimeSlotResult =
+  | { ok: true; sms: string }
+  | { ok: false; reason: "event_not_found" | "voting_closed" | "invalid_option"; optionCount: number };
+
+/**
+ * Creator picked the winning time ("lock in 2").
+ *
+ * - Winner slot => accepted, other live slots => declined
+ * - Homies who voted for the winner => accepted in priority order up to capacity
+ * - Homies who voted but can't make the winner (or missed the cut) => declined + told
+ * - Invitees who never voted get a regular invite for the locked time
+ * - Remaining open spots are backfilled from the listed pool
+ *
+ * Returns the creator-facing summary SMS (the caller sends it).
+ */
+export async function lockInTimeSlot(args: {
+  eventId: string;
+  optionNumber: number;
+}): Promise<LockInTimeSlotResult> {
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      timeSlots: LIVE_TIME_SLOTS_QUERY,
+      eventMembers: {
+        include: { member: true },
+        orderBy: [
+          { priority_rank: { sort: "asc", nulls: "last" } },
+          { event_member_id: "asc" },
+        ],
+      },
+    },
+  });
+
+  if (!event || event.cancelled_at) return { ok: false, reason: "event_not_found", optionCount: 0 };
+
+  const slots = liveTimeSlotsInOptionOrder(event.timeSlots);
+  if (!isSlotVotingOpen(slots)) {
+    return { ok: false, reason: "voting_closed", optionCount: slots.length };
+  }
+
+  const winner = slots[Math.trunc(args.optionNumber) - 1];
+  if (!winner) return { ok: false, reason: "invalid_option", optionCount: slots.length };
+
+  const winnerVotes = await prisma.timeSlotVote.findMany({
+    where: { time_slot_id: winner.time_slot_id, available: true },
+    select: { member_id: true },
+  });
+  const availableIds = new Set(winnerVotes.map((v) => v.member_id));
+
+  const max = normalizeMaxParticipants(event.max_participants);
+
+  const outcome = await prisma.$transaction(async (tx) => {
+    await tx.timeSlot.update({
+      where: { time_slot_id: winner.time_slot_id },
+      data: { status: "accepted" },
+    });
+    await tx.timeSlot.updateMany({
+      where: {
+        event_id: event.event_id,
+        time_slot_id: { not: winner.time_slot_id },
+        status: { not: "declined" },
+      },
+      data: { status: "declined" },
+    });
+
+    // Seats, so guests of already-accepted homies count too.
+    let acceptedCount = event.eventMembers.reduce((sum, em) => sum + seatsForEventMember(em), 0);
+    const accepted: string[] = [];
+    const waitlisted: string[] = [];
+    const unavailable: string[] = [];
+    const awaiting: string[] = [];
+
+    for (const em of event.eventMembers) {
+      if (em.status === "invited") {
+        awaiting.push(em.member_id);
+        continue;
+      }
+      if (em.status !== "messaged") continue;
+
+      const hasRoom = typeof max !== "number" || acceptedCount < max;
+      const status: EventMemberStatus = !availableIds.has(em.member_id)
+        ? "declined"
+        : hasRoom
+          ? "accepted"
+          : "waitlisted";
+
+      await tx.eventMember.update({
+        where: { event_member_id: em.event_member_id },
+        data: { status, ...(status === "waitlisted" ? { waitlisted_at: now() } : {}) },
+      });
+
+      if (status === "accepted") {
+        acceptedCount += 1;
+        accepted.push(em.member_id);
+      } else if (status === "waitlisted") {
+        waitlisted.push(em.member_id);
+      } else {
+        unavailable.push(em.member_id);
+      }
+    }
+
+    return { accepted, waitlisted, unavailable, awaiting, acceptedCount };
+  });
+
+  logger.info("coordinator:lockInTimeSlot", {
+    eventId: event.event_id,
+    optionNumber: args.optionNumber,
+    timeSlotId: winner.time_slot_id,
+    accepted: outcome.accepted.length,
+    waitlisted: outcome.waitlisted.length,
+    unavailable: outcome.unavailable.length,
+    awaiting: outcome.awaiting.length,
+  });
+
+  await scheduleJob({ kind: "attendance_check", runAt: winner.end_time, eventId: event.event_id });
+  await schedulePreEventReminderJobs({
+    eventId: event.event_id,
+    eventStart: winner.start_time,
+    settings: resolvePreEventReminderSettings({ event, user: event.createdBy }),
+  });
+  if (event.series_id) {
+    await anchorEventSeriesOnLockedSlot({
+      seriesId: event.series_id,
+      start: winner.start_time,
+      end: winner.end_time,
+    });
+  }
+
+  const timeZone = event.createdBy.timezone;
+  const memberById = new Map(event.eventMembers.map((em) => [em.member_id, em.member] as const));
+
+  const notify = async (
+    memberIds: string[],
+    result: "accepted" | "unavailable" | "waitlisted",
+  ) => {
+    for (const id of memberIds) {
+      const member = memberById.get(id);
+      if (!member) continue;
+      await sendEventSmsToMember({
+        eventId: event.event_id,
+        member,
+        sms: buildMemberSlotLockedInSms({
+          outcome: result,
+          activityName: event.activity?.name,
+          timeSlot: winner,
+          timeZone,
+          location: event.location,
+        }),
+        attributes: {
+          kind: "member_slot_locked",
+          eventId: event.event_id,
+          memberId: id,
+          timeSlotId: winner.time_slot_id,
+          outcome: result,
+        },
+      });
+    }
+  };
+
+  await notify(outcome.accepted, "accepted");
+  await notify(outcome.waitlisted, "waitlisted");
+  await notify(outcome.unavailable, "unavailable");
+
+  // Voting is closed now, so these get the regular single-time invite.
+  for (const id of outcome.awaiting) {
+    await inviteEventMember({ eventId: event.event_id, memberId: id, reason: "slot_locked" });
+  }
+
+  const pending = [...outcome.awaiting];
+  if (typeof max === "number") {
+    let openSpots = max - outcome.acceptedCount - outcome.awaiting.length;
+    while (openSpots > 0) {
+      const promoted = await inviteNextListedMember({
+        eventId: event.event_id,
+        reason: "slot_locked",
+      });
+      if (!promoted) break;
+      pending.push(promoted);
+      openSpots -= 1;
+    }
+  }
+
+  const namesFor = (ids: string[]) =>
+    ids
+      .map((id) => memberById.get(id))
+      .filter((m): m is Member => Boolean(m))
+      .map(fullNameForMember);
+
+  return {
+    ok: true,
+    sms: buildCreatorSlotLockedInSms({
+      optionNumber: Math.trunc(args.optionNumber),
+      activityName: event.activity?.name,
+      timeSlot: winner,
+      timeZone,
+      acceptedNames: namesFor(
+        event.eventMembers
+          .filter((em) => em.status === "accepted")
+          .map((em) => em.member_id)
+          .concat(outcome.accepted),
+      ),
+      pendingNames: namesFor(pending),
+      waitlistedNames: namesFor(outcome.waitlisted),
+      declinedNames: namesFor(outcome.unavailable),
+    }),
+  };
+}
+
+/**
+ * Soonest upcoming event created by this user that still has times up for a vote.
+ * Fallback for "lock in N" when the conversation state doesn't point at one.
+ */
+export async function findEventAwaitingSlotLockIn(args: {
+  userId: string;
+}): Promise<string | null> {
+  const events = await prisma.event.findMany({
+    where: {
+      created_by_user_id: args.userId,
+      cancelled_at: null,
+      timeSlots: { some: { start_time: { gt: now() }, status: { not: "declined" } } },
+    },
+    include: { timeSlots: LIVE_TIME_SLOTS_QUERY },
+    take: 25,
+  });
+
+  const open = events
+    .filter((e) => isSlotVotingOpen(e.timeSlots))
+    .sort(
+      (a, b) =>
+        (a.timeSlots[0]?.start_time.getTime() ?? Number.POSITIVE_INFINITY) -
+        (b.timeSlots[0]?.start_time.getTime() ?? Number.POSITIVE_INFINITY),
+    );
+
+  return open[0]?.event_id ?? null;
+}
+
 export async function onEventCreated(eventId: string): Promise<void> {
   // Invite every event member listed as `invited` on this event.
   // Also set `invite_expires_at` based on the event start.
@@ -250,7 +1142,7 @@ export async function onEventCreated(eventId: string): Promise<void> {
     include: {
       createdBy: true,
       activity: true,
-      timeSlots: { orderBy: { start_time: "asc" }, take: 1 },
+      timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1 },
       eventMembers: { include: { member: true } },
     },
   });
@@ -260,6 +1152,11 @@ export async function onEventCreated(eventId: string): Promise<void> {
     return;
   }
 
+  if (event.cancelled_at) {
+    logger.info("coordinator:onEventCreated event cancelled; skipping invites", { eventId });
+    return;
+  }
+
   const timeSlot = event.timeSlots[0];
   if (!timeSlot) {
     logger.warn("coordinator:onEventCreated missing timeslot; cannot invite", {
@@ -328,7 +1225,7 @@ export async function onMemberInboundMessage(args: {
     include: {
       createdBy: true,
       activity: true,
-      timeSlots: { orderBy: { start_time: "asc" }, take: 1 },
+      timeSlots: LIVE_TIME_SLOTS_QUERY,
     },
   });
 
@@ -340,6 +1237,15 @@ export async function onMemberInboundMessage(args: {
     return;
   }
 
+  // Routing skips cancelled events; defensive for replies racing a cancellation.
+  if (event.cancelled_at) {
+    logger.info("coordinator:onMemberInboundMessage event cancelled; ignoring", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
   const timeSlot = event.timeSlots[0];
   if (!timeSlot) {
     logger.warn("coordinator:onMemberInboundMessage missing timeslot", {
@@ -371,6 +1277,8 @@ export async function onMemberInboundMessage(args: {
     select: {
       status: true,
       event_member_id: true,
+      invite_expires_at: true,
+      guest_count: true,
     },
   });
 
@@ -410,64 +1318,25 @@ export async function onMemberInboundMessage(args: {
       content: m.content,
     })) as Array<{ role: "user" | "assistant"; content: string }>;
 
-  // 1) First: check if this is an accept/decline.
-  const systemPrompt = buildInviteResponseAnalyzerSystemPrompt();
-  const inviteDecision = await analyzeInviteResponse({
-    systemPrompt,
-    messages: recentMessages,
-  });
-
-  logger.info("coordinator:inviteResponse", {
-    eventId: args.eventId,
-    memberId: args.memberId,
-    decision: inviteDecision.decision,
-    summary: inviteDecision.summary,
-    rawText: inviteDecision.rawText,
-  });
-
+  const maxGuestsPerMember = resolveMaxGuestsPerMember({ event, user: event.createdBy });
   const creatorPhone = (event.createdBy.phone_number ?? "").trim();
   const creatorName = (event.createdBy.first_name ?? "").trim() || "Your friend";
   const memberName = fullNameForMember(member);
 
-  const buildCreatorRosterSms = async (decision: "accepted" | "declined" | "declined_full") => {
-    // Order by invite-policy semantics so backups/pending match the real queue.
-    const ems = await prisma.eventMember.findMany({
-      where: { event_id: args.eventId },
-      include: { member: true },
-      orderBy: [
-        { priority_rank: { sort: "asc", nulls: "last" } },
-        { event_member_id: "asc" },
-      ],
-    });
-
-    const accepted: string[] = [];
-    const pending: string[] = [];
-    const declined: string[] = [];
-    const backups: string[] = [];
-
-    for (const em of ems) {
-      const n = fullNameForMember(em.member).trim();
-      if (!n) continue;
-      if (em.status === "accepted") accepted.push(n);
-      else if (em.status === "declined") declined.push(n);
-      else if (em.status === "listed") backups.push(n);
-      else if (em.status === "invited" || em.status === "messaged") pending.push(n);
-    }
-
-    const max = normalizeMaxParticipants(event.max_participants);
-    const openSpots = typeof max === "number" ? Math.max(0, max - accepted.length) : null;
-
-    return buildCreatorRosterAfterMemberDecisionSms({
+  const buildCreatorRosterSms = (
+    decision: Exclude<CreatorRosterDecision, "removed">,
+    summary: string,
+    opts?: { promotedMemberId?: string | null; rsvpChanged?: boolean; decideBy?: Date | null },
+  ) =>
+    buildCreatorRosterSmsForEvent({
+      event,
+      timeSlot,
+      memberId: args.memberId,
       memberName,
       decision,
-      summary: inviteDecision.summary,
-      activityName: event.activity?.name ?? null,
-      timeSlot,
-      timeZone: event.createdBy.timezone,
-      openSpots,
-      roster: { accepted, pending, declined, backups },
+      summary,
+      ...opts,
     });
-  };
 
   // Helper for sending + logging to this member conversation.
   const sendToMember = async (sms: string, attributes?: Prisma.InputJsonValue) => {
@@ -494,7 +1363,11 @@ export async function onMemberInboundMessage(args: {
   };
 
   // Helper for sending + logging to creator (creator has a separate per-user conversation).
-  const sendToCreator = async (sms: string, attributes?: Prisma.InputJsonValue) => {
+  const sendToCreator = async (
+    sms: string,
+    attributes?: Prisma.InputJsonValue,
+    opts?: { latestSendAt?: Date | null },
+  ) => {
     if (!creatorPhone) {
       logger.warn("coordinator:onMemberInboundMessage creator has no phone; cannot notify", {
         eventId: args.eventId,
@@ -510,169 +1383,546 @@ export async function onMemberInboundMessage(args: {
       select: { conversation_id: true },
     });
 
-    const sid = await sendSms(creatorPhone, sms);
-    await prisma.conversationMessage.create({
-      data: {
-        conversation_id: creatorConversation.conversation_id,
-        role: "assistant",
-        direction: "outbound",
-        content: sms,
-        twilio_sid: sid,
-        attributes: attributes ?? undefined,
-      },
+    // The creator didn't just text us, so roster updates wait out their quiet hours.
+    await sendOrQueueSms({
+      to: creatorPhone,
+      body: sms,
+      quietHours: quietHoursForUser(event.createdBy),
+      conversationId: creatorConversation.conversation_id,
+      eventId: args.eventId,
+      latestSendAt: opts?.latestSendAt ?? null,
+      attributes: attributes ?? undefined,
     });
   };
 
-  const maybeTriggerDeclineBackfill = async (): Promise<string | null> => {
-    // When someone declines, invite exactly ONE backup homie.
-    // This mirrors inviteTimeoutPoller semantics.
-    const promoted = await prisma.$transaction(async (tx) => {
-      // Find the next listed homie.
-      const replacement = await tx.eventMember.findFirst({
-        where: {
-          event_id: args.eventId,
-          status: "listed",
-        },
-        orderBy: [
-          { priority_rank: { sort: "asc", nulls: "last" } },
-          { event_member_id: "asc" },
-        ],
-        select: { member_id: true },
+  const answerQuestion = async (): Promise<void> => {
+    const qaSystemPrompt = buildMemberEventQuestionSystemPrompt({
+      creatorFirstName: creatorName,
+      activityName: event.activity?.name ?? null,
+      location: event.location ?? null,
+      inviteMessage: event.invite_message ?? null,
+      start: timeSlot.start_time,
+      end: timeSlot.end_time,
+      timeZone: event.createdBy.timezone,
+      memberStatus: eventMember.status,
+      maxGuestsPerMember,
+      guestCount: eventMember.guest_count,
+    });
+
+    const qa = await answerMemberEventQuestion({
+      systemPrompt: qaSystemPrompt,
+      messages: recentMessages,
+    });
+
+    const outbound = (qa.answer ?? "").trim() || buildAmbiguousInviteReplySms();
+    await sendToMember(outbound, {
+      kind: "member_event_question_answer",
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+  };
+
+  const maybeTriggerDeclineBackfill = (): Promise<string | null> =>
+    inviteNextListedMember({ eventId: args.eventId, reason: "decline_backfill" });
+
+  // =========================
+  // Availability ("away until the 20th", "never before 8am", "I'm back")
+  // =========================
+  const availability = await recordMemberAvailabilityFromSms({
+    memberId: args.memberId,
+    text: inboundText,
+  });
+
+  // Saved either way. When it also answers the invite ("yes! away next week though")
+  // or rules out this plan, it falls through to the invite handling below.
+  const availabilityCoversInvite =
+    availability?.rule != null &&
+    isUnavailableForSlots({
+      rules: [availability.rule],
+      timeZone: timeZoneForMember(member, event.createdBy),
+      slots: event.timeSlots.map((s) => ({ start: s.start_time, end: s.end_time })),
+    });
+
+  if (availability && !availabilityCoversInvite) {
+    await sendToMember(availability.sms, {
+      kind: "member_availability_saved",
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    if (!hasRsvpWording(inboundText)) return;
+  }
+
+  // =========================
+  // Running late (accepted homies, around the event)
+  // =========================
+  const runningLate =
+    eventMember.status === "accepted" &&
+    isRunningLateWindowOpen({ now: now(), start: timeSlot.start_time, end: timeSlot.end_time })
+      ? parseRunningLate(inboundText)
+      : null;
+
+  if (runningLate) {
+    // Relayed as-is; it's only useful before the event wraps, so never held past the end.
+    await sendToCreator(
+      buildCreatorMemberRunningLateSms({
+        memberName,
+        activityName: event.activity?.name ?? null,
+        minutesLate: runningLate.minutesLate,
+        message: inboundText,
+      }),
+      {
+        kind: "creator_member_running_late",
+        eventId: args.eventId,
+        memberId: args.memberId,
+        minutesLate: runningLate.minutesLate,
+      },
+      { latestSendAt: timeSlot.end_time },
+    );
+
+    await sendToMember(buildMemberRunningLateAcknowledgementSms({ creatorFirstName: creatorName }), {
+      kind: "member_running_late_ack",
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
+  // =========================
+  // Time-slot voting (multi-option events)
+  // =========================
+  const votingSlots = liveTimeSlotsInOptionOrder(event.timeSlots);
+  const canVote = eventMember.status === "invited" || eventMember.status === "messaged";
+
+  if (isSlotVotingOpen(votingSlots) && canVote) {
+    const timeZone = event.createdBy.timezone;
+    const optionLines = formatTimeSlotOptionLines({ timeSlots: votingSlots, timeZone });
+
+    let vote = parseSlotVoteReply({ text: inboundText, optionCount: votingSlots.length });
+    let voteSummary = "";
+    if (!vote) {
+      const res = await analyzeSlotVote({
+        systemPrompt: buildSlotVoteAnalyzerSystemPrompt({ optionLines }),
+        messages: recentMessages,
+        optionCount: votingSlots.length,
+      });
+      logger.info("coordinator:slotVote", {
+        eventId: args.eventId,
+        memberId: args.memberId,
+        vote: res.vote,
+        summary: res.summary,
+        rawText: res.rawText,
       });
+      vote = res.vote;
+      voteSummary = res.summary;
+    }
 
-      if (!replacement) return null;
+    if (vote) {
+      const availableOptionNumbers =
+        vote.kind === "all"
+          ? votingSlots.map((_, idx) => idx + 1)
+          : vote.kind === "none"
+            ? []
+            : vote.optionNumbers;
+
+      await prisma.$transaction(async (tx) => {
+        for (const [idx, ts] of votingSlots.entries()) {
+          const available = availableOptionNumbers.includes(idx + 1);
+          await tx.timeSlotVote.upsert({
+            where: {
+              time_slot_id_member_id: {
+                time_slot_id: ts.time_slot_id,
+                member_id: args.memberId,
+              },
+            },
+            update: { available },
+            create: {
+              time_slot_id: ts.time_slot_id,
+              event_id: args.eventId,
+              member_id: args.memberId,
+              available,
+            },
+          });
+        }
 
-      // Claim by promoting to invited BEFORE sending SMS.
-      await tx.eventMember.update({
-        where: {
-          event_id_member_id: {
-            event_id: args.eventId,
-            member_id: replacement.member_id,
+        // `messaged` = voted and still in the running; capacity is only claimed at lock-in.
+        await tx.eventMember.update({
+          where: {
+            event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
           },
-        },
-        data: {
-          status: "invited",
-          invite_timed_out: false,
-        },
+          data: {
+            status: availableOptionNumbers.length ? "messaged" : "declined",
+            ...(eventMember.status === "invited" ? { responded_at: now() } : {}),
+          },
+        });
       });
 
-      return replacement.member_id;
-    });
-
-    if (!promoted) {
-      logger.info("coordinator:declineBackfill none_available", {
+      await sendToMember(buildMemberSlotVoteAcknowledgementSms({ availableOptionNumbers }), {
+        kind: "member_slot_vote_ack",
         eventId: args.eventId,
+        memberId: args.memberId,
+        availableOptionNumbers,
       });
-      return null;
+
+      if (availableOptionNumbers.length === 0) {
+        await maybeTriggerDeclineBackfill();
+      }
+
+      const [votes, ems] = await Promise.all([
+        prisma.timeSlotVote.findMany({
+          where: { event_id: args.eventId, available: true },
+          select: { time_slot_id: true, member_id: true },
+        }),
+        prisma.eventMember.findMany({
+          where: { event_id: args.eventId },
+          include: { member: true },
+          orderBy: [
+            { priority_rank: { sort: "asc", nulls: "last" } },
+            { event_member_id: "asc" },
+          ],
+        }),
+      ]);
+
+      const nameById = new Map(
+        ems.map((em) => [em.member_id, fullNameForMember(em.member).trim()] as const),
+      );
+
+      const tallies = votingSlots.map((timeSlot, idx) => ({
+        optionNumber: idx + 1,
+        timeSlot,
+        availableMemberIds: votes
+          .filter((v) => v.time_slot_id === timeSlot.time_slot_id)
+          .map((v) => v.member_id),
+      }));
+
+      const leading = pickLeadingOption(tallies);
+
+      await sendToCreator(
+        buildCreatorSlotVoteTallySms({
+          memberName,
+          availableOptionNumbers,
+          summary: voteSummary,
+          activityName: event.activity?.name ?? null,
+          options: tallies.map((t, idx) => ({
+            label: optionLines[idx],
+            availableNames: t.availableMemberIds
+              .map((id) => nameById.get(id) ?? "")
+              .filter(Boolean),
+          })),
+          awaitingNames: ems
+            .filter((em) => em.status === "invited")
+            .map((em) => nameById.get(em.member_id) ?? "")
+            .filter(Boolean),
+          leadingOptionNumber: leading?.optionNumber ?? null,
+        }),
+        {
+          kind: "creator_notified_slot_vote",
+          eventId: args.eventId,
+          memberId: args.memberId,
+          memberName,
+          availableOptionNumbers,
+          leadingOptionNumber: leading?.optionNumber ?? null,
+        },
+      );
+
+      return;
     }
 
-    await inviteEventMember({
-      eventId: args.eventId,
-      memberId: promoted,
-      reason: "decline_backfill",
+    // Not a vote (e.g. a question about the plan): skip accept/decline so a stray
+    // "yes" can't claim a spot before a time is locked in.
+    await answerQuestion();
+    return;
+  }
+
+  // 1) First: check if this is an accept/decline.
+  const memberTimeZone = member.timezone ?? event.createdBy.timezone;
+  const systemPrompt = buildInviteResponseAnalyzerSystemPrompt({
+    timeZone: memberTimeZone,
+    nowIso: DateTime.fromJSDate(now()).setZone(memberTimeZone).toISO() ?? now().toISOString(),
+  });
+  const inviteDecision = await analyzeInviteResponse({
+    systemPrompt,
+    messages: recentMessages,
+  });
+
+  logger.info("coordinator:inviteResponse", {
+    eventId: args.eventId,
+    memberId: args.memberId,
+    decision: inviteDecision.decision,
+    summary: inviteDecision.summary,
+    decideByIso: inviteDecision.decideBy?.toISOString() ?? null,
+    rawText: inviteDecision.rawText,
+  });
+
+  // First answer to the current invite (response-latency stats); later changes keep it.
+  if (inviteDecision.decision !== "unknown") {
+    await prisma.eventMember.updateMany({
+      where: { event_member_id: eventMember.event_member_id, responded_at: null },
+      data: { responded_at: now() },
     });
+  }
 
-    return promoted;
+  // =========================
+  // RSVP changes (accepted <-> declined)
+  // =========================
+  const rsvpChange =
+    inviteDecision.decision === "accepted" || inviteDecision.decision === "declined"
+      ? rsvpChangeFor({ currentStatus: eventMember.status, decision: inviteDecision.decision })
+      : null;
+
+  if (rsvpChange && isRsvpChangeClosed({ now: now(), eventStart: timeSlot.start_time })) {
+    await sendToMember(
+      buildMemberRsvpChangeClosedSms({ creatorFirstName: creatorName, change: rsvpChange }),
+      {
+        kind: "member_rsvp_change_refused",
+        change: rsvpChange,
+        eventId: args.eventId,
+        memberId: args.memberId,
+      },
+    );
+    await sendToCreator(
+      buildCreatorRsvpChangeRefusedSms({
+        memberName,
+        change: rsvpChange,
+        summary: inviteDecision.summary,
+        activityName: event.activity?.name ?? null,
+        timeSlot,
+        timeZone: event.createdBy.timezone,
+      }),
+      {
+        kind: "creator_notified_rsvp_change_refused",
+        change: rsvpChange,
+        eventId: args.eventId,
+        memberId: args.memberId,
+        memberName,
+        summary: inviteDecision.summary,
+      },
+    );
+    return;
+  }
+
+  // Room left for this homie's guests, not counting seats they already hold
+  // (null => no capacity limit).
+  const guestSeatsLeft = async (
+    tx: Prisma.TransactionClient,
+    heldSeats: number,
+  ): Promise<number | null> => {
+    const max = normalizeMaxParticipants(event.max_participants);
+    if (typeof max !== "number") return null;
+    return max - ((await countActiveSeats(tx, args.eventId)) - heldSeats) - 1;
   };
 
+  // "can I bring a friend?" from someone already in is a plus-one change, not a question.
+  const isGuestChange =
+    eventMember.status === "accepted" &&
+    inviteDecision.guests !== null &&
+    inviteDecision.decision === "unknown";
+
   // =========================
   // Accept / decline
   // =========================
-  if (inviteDecision.decision === "accepted") {
-    const res = await prisma.$transaction(async (tx) => {
+  if (inviteDecision.decision === "accepted" || isGuestChange) {
+    const requestedGuests = inviteDecision.guests;
+
+    const res: {
+      finalDecision: "accepted" | "waitlisted";
+      alreadyAnswered?: boolean;
+      guests?: GuestGrant | null;
+    } = await prisma.$transaction(async (tx) => {
       const em = await tx.eventMember.findUnique({
         where: {
           event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
         },
-        select: { status: true },
+        select: { status: true, guest_count: true },
       });
 
-      // If already accepted/declined, keep idempotent and don’t flip-flop.
+      // A repeated "yes" is idempotent apart from plus-ones. A "yes" after declining (an
+      // RSVP change, already past the cutoff check) goes through the same capacity check
+      // as a first answer.
       if (em?.status === "accepted") {
-        return { finalDecision: "accepted" as const };
-      }
-      if (em?.status === "declined") {
-        return { finalDecision: "declined" as const };
-      }
+        if (requestedGuests === null) return { finalDecision: "accepted", alreadyAnswered: true };
 
-      const max = normalizeMaxParticipants(event.max_participants);
-      if (typeof max === "number") {
-        const activeCount = await tx.eventMember.count({
+        const guests = grantGuests({
+          requested: requestedGuests,
+          maxPerMember: maxGuestsPerMember,
+          seatsLeft: await guestSeatsLeft(tx, 1 + em.guest_count),
+        });
+        await tx.eventMember.update({
           where: {
-            event_id: args.eventId,
-            status: { in: [...ACTIVE_CAPACITY_STATUSES] as any },
+            event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
           },
+          data: { guest_count: guests.granted },
         });
+        return { finalDecision: "accepted", alreadyAnswered: true, guests };
+      }
+      if (em?.status === "waitlisted") {
+        return { finalDecision: "waitlisted", alreadyAnswered: true };
+      }
 
-        // With accepted-only capacity semantics, accepting adds 1 to the count
-        // unless we already returned early for em.status === "accepted".
-        const attempted = activeCount + 1;
+      const max = normalizeMaxParticipants(event.max_participants);
+      if (typeof max === "number") {
+        // Accepting takes one seat for the homie; guests only get what's left after that.
+        const attempted = (await countActiveSeats(tx, args.eventId)) + 1;
 
         if (attempted > max) {
           await tx.eventMember.update({
             where: {
               event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
             },
-            data: { status: "declined" },
+            data: {
+              status: "waitlisted",
+              waitlisted_at: now(),
+              invite_expires_at: null,
+              guest_count: 0,
+            },
           });
-          return { finalDecision: "declined" as const, reason: "full" as const };
+          return { finalDecision: "waitlisted" };
         }
       }
 
+      const guests =
+        requestedGuests === null
+          ? null
+          : grantGuests({
+              requested: requestedGuests,
+              maxPerMember: maxGuestsPerMember,
+              seatsLeft: await guestSeatsLeft(tx, 0),
+            });
+
       await tx.eventMember.update({
         where: {
           event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
         },
-        data: { status: "accepted" },
+        data: { status: "accepted", guest_count: guests?.granted ?? 0 },
       });
 
-      return { finalDecision: "accepted" as const };
+      return { finalDecision: "accepted", guests };
     });
 
+    const guestsLine = res.guests
+      ? buildMemberGuestsSms({ ...res.guests, maxPerMember: maxGuestsPerMember })
+      : "";
+    const guestAttributes = res.guests
+      ? { guestsRequested: res.guests.requested, guestsGranted: res.guests.granted }
+      : {};
+
     if (res.finalDecision === "accepted") {
-      await sendToMember(buildMemberInviteAcknowledgementSms({ decision: "accepted" }), {
+      const sms =
+        res.alreadyAnswered && guestsLine
+          ? guestsLine
+          : [buildMemberInviteAcknowledgementSms({ decision: "accepted" }), guestsLine]
+              .filter(Boolean)
+              .join(" ");
+      await sendToMember(sms, {
         kind: "member_invite_ack",
         decision: "accepted",
         eventId: args.eventId,
         memberId: args.memberId,
+        ...guestAttributes,
       });
-    } else {
-      // Full
-      await sendToMember(buildMemberInviteFullSms(), {
+    } else if (res.finalDecision === "waitlisted") {
+      await sendToMember(buildMemberInviteWaitlistedSms(), {
         kind: "member_invite_ack",
-        decision: "declined_full",
+        decision: "waitlisted",
         eventId: args.eventId,
         memberId: args.memberId,
       });
     }
 
-    // Backfill on declines (including "yes but full") per product decision.
-    if (res.finalDecision === "declined") {
-      await maybeTriggerDeclineBackfill();
-    }
+    // Nothing new for the creator unless plus-ones changed.
+    if (res.alreadyAnswered && !res.guests) return;
 
-    const decisionForSms = res.finalDecision === "accepted" ? "accepted" : "declined_full";
-    const rosterSms = await buildCreatorRosterSms(decisionForSms);
+    const decisionForSms = res.alreadyAnswered ? "guests_updated" : res.finalDecision;
+    const rosterSms = await buildCreatorRosterSms(decisionForSms, inviteDecision.summary, {
+      rsvpChanged: rsvpChange === "declined_to_accepted",
+    });
     await sendToCreator(rosterSms, {
       kind: "creator_notified_member_response",
       eventId: args.eventId,
       memberId: args.memberId,
       memberName,
-      decision: res.finalDecision,
+      decision: decisionForSms,
       summary: inviteDecision.summary,
-      ...(res.finalDecision === "declined" ? { declinedReason: (res as any).reason ?? null } : {}),
+      ...(rsvpChange ? { rsvpChange } : {}),
+      ...guestAttributes,
     });
 
     return;
   }
 
-  if (inviteDecision.decision === "declined") {
+  // =========================
+  // Maybe (tentative)
+  // =========================
+  if (inviteDecision.decision === "maybe") {
+    // Only an open invite can be tentative; anyone who already answered gets the Q&A reply.
+    if (eventMember.status !== "invited" && eventMember.status !== "maybe") {
+      await answerQuestion();
+      return;
+    }
+
+    const followUpAt = computeMaybeFollowUpAt({
+      now: now(),
+      eventStart: timeSlot.start_time,
+      decideBy: inviteDecision.decideBy,
+      inviteExpiresAt: eventMember.invite_expires_at,
+    });
+
+    // The follow-up job owns the deadline now; the invite expires only after the nudge.
     await prisma.eventMember.update({
-      where: {
-        event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
+      where: { event_member_id: eventMember.event_member_id },
+      data: {
+        status: "maybe",
+        maybe_decide_by: inviteDecision.decideBy,
+        maybe_followed_up_at: null,
+        invite_expires_at: null,
       },
-      data: { status: "declined" },
     });
+    await scheduleJob({
+      kind: "maybe_follow_up",
+      runAt: followUpAt,
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+
+    await sendToMember(
+      buildMemberMaybeAcknowledgementSms({ followUpAt, timeZone: memberTimeZone }),
+      {
+        kind: "member_invite_ack",
+        decision: "maybe",
+        eventId: args.eventId,
+        memberId: args.memberId,
+        followUpAtIso: followUpAt.toISOString(),
+      },
+    );
+
+    // A second "still not sure" just moves the follow-up; the creator already knows.
+    if (eventMember.status === "maybe") return;
+
+    const rosterSms = await buildCreatorRosterSms("maybe", inviteDecision.summary, {
+      decideBy: inviteDecision.decideBy,
+    });
+    await sendToCreator(rosterSms, {
+      kind: "creator_notified_member_response",
+      eventId: args.eventId,
+      memberId: args.memberId,
+      memberName,
+      decision: "maybe",
+      summary: inviteDecision.summary,
+      decideByIso: inviteDecision.decideBy?.toISOString() ?? null,
+    });
+    return;
+  }
+
+  if (inviteDecision.decision === "declined") {
+    // A repeated "no" is acknowledged but frees nothing and tells the creator nothing new.
+    const alreadyDeclined = eventMember.status === "declined";
+    if (!alreadyDeclined) {
+      await prisma.eventMember.update({
+        where: {
+          event_id_member_id: { event_id: args.eventId, member_id: args.memberId },
+        },
+        data: { status: "declined", waitlisted_at: null, guest_count: 0 },
+      });
+    }
 
     await sendToMember(buildMemberInviteAcknowledgementSms({ decision: "declined" }), {
       kind: "member_invite_ack",
@@ -680,11 +1930,22 @@ export async function onMemberInboundMessage(args: {
       eventId: args.eventId,
       memberId: args.memberId,
     });
+    if (alreadyDeclined) return;
 
-    // Promote a backup first so roster reflects the newly-invited replacement.
-    await maybeTriggerDeclineBackfill();
+    // Fill the gap first so the roster reflects it: a freed spot goes to the waitlist
+    // before any backup is invited; leaving the waitlist frees nothing.
+    let promotedMemberId: string | null = null;
+    if (eventMember.status === "accepted") {
+      promotedMemberId = await promoteNextWaitlistedMember({ eventId: args.eventId });
+    }
+    if (!promotedMemberId && eventMember.status !== "waitlisted") {
+      await maybeTriggerDeclineBackfill();
+    }
 
-    const rosterSms = await buildCreatorRosterSms("declined");
+    const rosterSms = await buildCreatorRosterSms("declined", inviteDecision.summary, {
+      promotedMemberId,
+      rsvpChanged: rsvpChange === "accepted_to_declined",
+    });
     await sendToCreator(rosterSms, {
       kind: "creator_notified_member_response",
       eventId: args.eventId,
@@ -692,6 +1953,8 @@ export async function onMemberInboundMessage(args: {
       memberName,
       decision: "declined",
       summary: inviteDecision.summary,
+      ...(promotedMemberId ? { promotedMemberId } : {}),
+      ...(rsvpChange ? { rsvpChange } : {}),
     });
     return;
   }
@@ -699,28 +1962,7 @@ export async function onMemberInboundMessage(args: {
   // =========================
   // Unknown / questions path
   // =========================
-  const qaSystemPrompt = buildMemberEventQuestionSystemPrompt({
-    creatorFirstName: creatorName,
-    activityName: event.activity?.name ?? null,
-    location: event.location ?? null,
-    inviteMessage: event.invite_message ?? null,
-    start: timeSlot.start_time,
-    end: timeSlot.end_time,
-    timeZone: event.createdBy.timezone,
-    memberStatus: eventMember.status,
-  });
-
-  const qa = await answerMemberEventQuestion({
-    systemPrompt: qaSystemPrompt,
-    messages: recentMessages,
-  });
-
-  const outbound = (qa.answer ?? "").trim() || buildAmbiguousInviteReplySms();
-  await sendToMember(outbound, {
-    kind: "member_event_question_answer",
-    eventId: args.eventId,
-    memberId: args.memberId,
-  });
+  await answerQuestion();
 }
 
 export async function inferActiveInvitedEventForMember(args: {
@@ -732,17 +1974,18 @@ export async function inferActiveInvitedEventForMember(args: {
     where: {
       member_id: args.memberId,
       // Keep member routing active after accept/decline so the homie can ask questions.
-      status: { in: ["invited", "accepted", "messaged", "declined"] },
+      status: { in: ["invited", "accepted", "messaged", "maybe", "waitlisted", "declined"] },
       event: {
+        cancelled_at: null,
         timeSlots: {
-          some: { start_time: { gt: new Date() } },
+          some: { start_time: { gt: now() } },
         },
       },
     },
     include: {
       event: {
         include: {
-          timeSlots: { orderBy: { start_time: "asc" }, take: 1 },
+          timeSlots: { ...LIVE_TIME_SLOTS_QUERY, take: 1 },
         },
       },
     },
@@ -0,0 +1,467 @@
+import { PrismaClient, type EventMemberStatus } from "@prisma/client";
+import { DateTime } from "luxon";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import { fullNameForMember } from "../domain/homies";
+import {
+  buildCreatorEventCancelledSms,
+  buildCreatorEventRescheduledSms,
+  buildCreatorInviteWindowUpdatedSms,
+  buildCreatorSeriesUpdatedSms,
+  buildMemberEventCancelledSms,
+  buildMemberEventRescheduledSms,
+} from "../domain/inviteFormatting";
+import { isSlotVotingOpen } from "../domain/slotVoting";
+import type { ChangeTargetEvent } from "../domain/eventChangeParsing";
+import { quietHoursForMember } from "../../domain/quietHours";
+import { cancelQueuedInvitesForEvent, cancelQueuedSmsForEvent } from "../outbound/outboundSmsQueue";
+import {
+  cancelScheduledJobsForEvent,
+  scheduleInviteJobs,
+  scheduleJob,
+  schedulePreEventReminderJobs,
+} from "../jobs/scheduledJobs";
+import {
+  MAYBE_FOLLOW_UP_GRACE_MINUTES,
+  clampInviteResponseMinutes,
+  computeInviteExpiresAt,
+  computeMaybeFollowUpAt,
+  formatInviteResponseWindow,
+  resolveInviteResponseMinutes,
+} from "../../domain/inviteExpiryPolicy";
+import { resolvePreEventReminderSettings } from "../../domain/preEventReminders";
+import { describeRecurrence } from "../../domain/recurrence";
+import { inviteEventMember, sendEventSmsToMember } from "./coordinator";
+import { scheduleNextSeriesOccurrence } from "./eventSeries";
+
+const prisma = new PrismaClient();
+
+/** Homies who hear about a cancellation/reschedule: anyone holding or answering an invite. */
+const NOTIFY_ON_CHANGE_STATUSES: EventMemberStatus[] = ["accepted", "invited", "messaged", "maybe"];
+
+/** Upcoming, non-cancelled events created by this user (earliest live slot first). */
+export async function listUpcomingEventsForUser(args: {
+  userId: string;
+}): Promise<ChangeTargetEvent[]> {
+  const events = await prisma.event.findMany({
+    where: {
+      created_by_user_id: args.userId,
+      cancelled_at: null,
+      timeSlots: { some: { start_time: { gt: now() }, status: { not: "declined" } } },
+    },
+    include: {
+      activity: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+        take: 1,
+      },
+    },
+    take: 25,
+  });
+
+  return events
+    .filter((e) => e.timeSlots.length > 0)
+    .map((e) => ({
+      eventId: e.event_id,
+      activityName: e.activity?.name ?? null,
+      start: e.timeSlots[0].start_time,
+    }))
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+}
+
+export type EventChangeResult =
+  | { ok: true; sms: string }
+  | { ok: false; reason: "event_not_found" | "already_cancelled" | "already_started" | "voting_open" };
+
+async function loadEventForChange(eventId: string) {
+  return prisma.event.findUnique({
+    where: { event_id: eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+      },
+      eventMembers: {
+        where: { status: { in: NOTIFY_ON_CHANGE_STATUSES } },
+        include: { member: true },
+        orderBy: [
+          { priority_rank: { sort: "asc", nulls: "last" } },
+          { event_member_id: "asc" },
+        ],
+      },
+    },
+  });
+}
+
+/**
+ * Cancel an event by SMS.
+ *
+ * Marks Event.cancelled_at (pollers, backfills and invites all skip cancelled events)
+ * and tells accepted + pending homies. Member statuses are left as-is for history.
+ */
+export async function cancelEvent(args: { eventId: string }): Promise<EventChangeResult> {
+  const event = await loadEventForChange(args.eventId);
+  if (!event) return { ok: false, reason: "event_not_found" };
+  if (event.cancelled_at) return { ok: false, reason: "already_cancelled" };
+
+  const timeSlot = event.timeSlots[0];
+  if (!timeSlot) return { ok: false, reason: "event_not_found" };
+  if (timeSlot.start_time.getTime() <= now().getTime()) {
+    return { ok: false, reason: "already_started" };
+  }
+
+  // Claim the cancellation so a concurrent cancel doesn't double-notify.
+  const claimed = await prisma.event.updateMany({
+    where: { event_id: event.event_id, cancelled_at: null },
+    data: { cancelled_at: now() },
+  });
+  if (claimed.count === 0) return { ok: false, reason: "already_cancelled" };
+
+  // Invites/updates still waiting out someone's quiet hours are moot now, as are
+  // pending expiries/reminders.
+  await cancelQueuedSmsForEvent({ eventId: event.event_id });
+  await cancelScheduledJobsForEvent({ eventId: event.event_id });
+
+  const timeZone = event.createdBy.timezone;
+  const notified: string[] = [];
+
+  for (const em of event.eventMembers) {
+    await sendEventSmsToMember({
+      eventId: event.event_id,
+      member: em.member,
+      sms: buildMemberEventCancelledSms({
+        activityName: event.activity?.name,
+        creatorFirstName: event.createdBy.first_name,
+        timeSlot,
+        timeZone,
+      }),
+      attributes: {
+        kind: "member_event_cancelled",
+        eventId: event.event_id,
+        memberId: em.member_id,
+        memberStatus: em.status,
+      },
+    });
+    notified.push(fullNameForMember(em.member));
+  }
+
+  logger.info("eventChanges:cancelled", {
+    eventId: event.event_id,
+    notifiedCount: notified.length,
+  });
+
+  // A cancelled series occurrence may have been the one lining up the next.
+  if (event.series_id) await scheduleNextSeriesOccurrence({ seriesId: event.series_id });
+
+  return {
+    ok: true,
+    sms: buildCreatorEventCancelledSms({
+      activityName: event.activity?.name,
+      timeSlot,
+      timeZone,
+      notifiedNames: notified,
+    }),
+  };
+}
+
+/**
+ * Move an event to a new start/end.
+ *
+ * Updates the live TimeSlot, re-times pending invite windows against the new start
+ * (each in the homie's own quiet hours), as well as the "maybe" nudge or, once nudged,
+ * the deadline after it; re-sends invites still held in the queue, and tells accepted
+ * + pending homies. Accepted homies stay accepted; a "can't make it"
+ * reply goes through the normal decline + backfill path.
+ */
+export async function rescheduleEvent(args: {
+  eventId: string;
+  start: Date;
+  end: Date;
+}): Promise<EventChangeResult> {
+  const event = await loadEventForChange(args.eventId);
+  if (!event) return { ok: false, reason: "event_not_found" };
+  if (event.cancelled_at) return { ok: false, reason: "already_cancelled" };
+  if (isSlotVotingOpen(event.timeSlots)) return { ok: false, reason: "voting_open" };
+
+  const current = event.timeSlots[0];
+  if (!current) return { ok: false, reason: "event_not_found" };
+
+  const timeZone = event.createdBy.timezone;
+  const nowTz = DateTime.fromJSDate(now()).setZone(timeZone);
+  const startTz = DateTime.fromJSDate(args.start, { zone: timeZone });
+  if (startTz <= nowTz) return { ok: false, reason: "already_started" };
+
+  const responseMinutes = resolveInviteResponseMinutes({ event, user: event.createdBy });
+  const pendingInvites = event.eventMembers.filter((em) => em.status === "invited" && !em.invite_timed_out);
+  const expiresAtByMemberId = new Map(
+    pendingInvites.map((em) => [
+      em.member_id,
+      computeInviteExpiresAt({
+        now: nowTz,
+        eventStart: startTz,
+        quietHours: quietHoursForMember(em.member, event.createdBy),
+        responseMinutes,
+      }),
+    ]),
+  );
+
+  // "maybe" homies: the nudge, or once nudged the deadline after it, follows the new start.
+  const maybes = event.eventMembers.filter((em) => em.status === "maybe" && !em.invite_timed_out);
+  const maybeExpiresAtByMemberId = new Map(
+    maybes
+      .filter((em) => em.maybe_followed_up_at)
+      .map((em) => [
+        em.member_id,
+        computeInviteExpiresAt({
+          now: nowTz,
+          eventStart: startTz,
+          quietHours: quietHoursForMember(em.member, event.createdBy),
+          responseMinutes: MAYBE_FOLLOW_UP_GRACE_MINUTES,
+        }),
+      ]),
+  );
+
+  const timeSlot = await prisma.$transaction(async (tx) => {
+    const updated = await tx.timeSlot.update({
+      where: { time_slot_id: current.time_slot_id },
+      data: { start_time: args.start, end_time: args.end },
+    });
+
+    // Pending invites get a fresh window measured against the new start.
+    for (const [memberId, expiresAt] of expiresAtByMemberId) {
+      await tx.eventMember.update({
+        where: { event_id_member_id: { event_id: event.event_id, member_id: memberId } },
+        data: { invite_expires_at: expiresAt.toJSDate(), invited_at: nowTz.toJSDate() },
+      });
+    }
+    for (const [memberId, expiresAt] of maybeExpiresAtByMemberId) {
+      await tx.eventMember.update({
+        where: { event_id_member_id: { event_id: event.event_id, member_id: memberId } },
+        data: { invite_expires_at: expiresAt.toJSDate() },
+      });
+    }
+
+    return updated;
+  });
+
+  // Invites still held for quiet hours carry the old time: drop them and invite again.
+  const reinvited = new Set(await cancelQueuedInvitesForEvent({ eventId: event.event_id }));
+
+  await scheduleJob({ kind: "event_start", runAt: timeSlot.start_time, eventId: event.event_id });
+  await scheduleJob({ kind: "attendance_check", runAt: timeSlot.end_time, eventId: event.event_id });
+  await schedulePreEventReminderJobs({
+    eventId: event.event_id,
+    eventStart: timeSlot.start_time,
+    settings: resolvePreEventReminderSettings({ event, user: event.createdBy }),
+  });
+  for (const em of pendingInvites) {
+    if (reinvited.has(em.member_id)) {
+      await inviteEventMember({ eventId: event.event_id, memberId: em.member_id, reason: "event_rescheduled" });
+      continue;
+    }
+    await scheduleInviteJobs({
+      eventId: event.event_id,
+      memberId: em.member_id,
+      invitedAt: nowTz.toJSDate(),
+      expiresAt: expiresAtByMemberId.get(em.member_id)!.toJSDate(),
+    });
+  }
+  for (const em of maybes) {
+    const expiresAt = maybeExpiresAtByMemberId.get(em.member_id);
+    await scheduleJob({
+      kind: expiresAt ? "invite_expiry" : "maybe_follow_up",
+      runAt: expiresAt
+        ? expiresAt.toJSDate()
+        : computeMaybeFollowUpAt({
+            now: nowTz.toJSDate(),
+            eventStart: timeSlot.start_time,
+            decideBy: em.maybe_decide_by,
+            inviteExpiresAt: null,
+          }),
+      eventId: event.event_id,
+      memberId: em.member_id,
+    });
+  }
+
+  const notified: string[] = [];
+  for (const em of event.eventMembers) {
+    // Timed-out invitees already had a backup take their place.
+    if (em.status === "invited" && em.invite_timed_out) continue;
+    // Their first invite never went out; the new one has the new time.
+    if (reinvited.has(em.member_id)) {
+      notified.push(fullNameForMember(em.member));
+      continue;
+    }
+
+    await sendEventSmsToMember({
+      eventId: event.event_id,
+      member: em.member,
+      sms: buildMemberEventRescheduledSms({
+        activityName: event.activity?.name,
+        creatorFirstName: event.createdBy.first_name,
+        previousStart: current.start_time,
+        timeSlot,
+        timeZone,
+        location: event.location,
+        memberStatus: em.status === "accepted" ? "accepted" : "pending",
+      }),
+      attributes: {
+        kind: "member_event_rescheduled",
+        eventId: event.event_id,
+        memberId: em.member_id,
+        memberStatus: em.status,
+        previousStartIso: current.start_time.toISOString(),
+        startIso: timeSlot.start_time.toISOString(),
+      },
+    });
+    notified.push(fullNameForMember(em.member));
+  }
+
+  logger.info("eventChanges:rescheduled", {
+    eventId: event.event_id,
+    previousStartIso: current.start_time.toISOString(),
+    startIso: timeSlot.start_time.toISOString(),
+    endIso: timeSlot.end_time.toISOString(),
+    notifiedCount: notified.length,
+  });
+
+  return {
+    ok: true,
+    sms: buildCreatorEventRescheduledSms({
+      activityName: event.activity?.name,
+      timeSlot,
+      timeZone,
+      notifiedNames: notified,
+    }),
+  };
+}
+
+/**
+ * Set how long homies get to answer invites for this event ("give them 2 hours").
+ *
+ * Stored on Event.invite_response_minutes (clamped to the policy bounds) and applied
+ * to invites still open right now, measured from now.
+ */
+export async function setEventInviteResponseWindow(args: {
+  eventId: string;
+  minutes: number;
+}): Promise<EventChangeResult> {
+  const event = await loadEventForChange(args.eventId);
+  if (!event) return { ok: false, reason: "event_not_found" };
+  if (event.cancelled_at) return { ok: false, reason: "already_cancelled" };
+
+  const timeSlot = event.timeSlots[0];
+  if (!timeSlot) return { ok: false, reason: "event_not_found" };
+
+  const nowTz = DateTime.fromJSDate(now());
+  const startTz = DateTime.fromJSDate(timeSlot.start_time);
+  if (startTz <= nowTz) return { ok: false, reason: "already_started" };
+
+  const minutes = clampInviteResponseMinutes(args.minutes);
+  await prisma.event.update({
+    where: { event_id: event.event_id },
+    data: { invite_response_minutes: minutes },
+  });
+
+  let pendingCount = 0;
+  for (const em of event.eventMembers) {
+    if (em.status !== "invited" || em.invite_timed_out) continue;
+
+    const expiresAt = computeInviteExpiresAt({
+      now: nowTz,
+      eventStart: startTz,
+      quietHours: quietHoursForMember(em.member, event.createdBy),
+      responseMinutes: minutes,
+    });
+    await prisma.eventMember.update({
+      where: { event_member_id: em.event_member_id },
+      data: { invite_expires_at: expiresAt.toJSDate() },
+    });
+    await scheduleInviteJobs({
+      eventId: event.event_id,
+      memberId: em.member_id,
+      invitedAt: nowTz.toJSDate(),
+      expiresAt: expiresAt.toJSDate(),
+    });
+    pendingCount += 1;
+  }
+
+  logger.info("eventChanges:invite_window_set", {
+    eventId: event.event_id,
+    minutes,
+    pendingCount,
+  });
+
+  return {
+    ok: true,
+    sms: buildCreatorInviteWindowUpdatedSms({
+      activityName: event.activity?.name,
+      timeSlot,
+      timeZone: event.createdBy.timezone,
+      windowText: formatInviteResponseWindow(minutes),
+      pendingCount,
+    }),
+  };
+}
+
+/**
+ * Re-time an event's day-before / "soon" reminders after its reminder settings
+ * changed (see src/domain/preEventReminders.ts). No-op for cancelled or past events.
+ */
+export async function refreshPreEventReminders(args: { eventId: string }): Promise<void> {
+  const event = await loadEventForChange(args.eventId);
+  const timeSlot = event?.timeSlots[0];
+  if (!event || event.cancelled_at || !timeSlot) return;
+  if (timeSlot.start_time.getTime() <= now().getTime()) return;
+
+  await schedulePreEventReminderJobs({
+    eventId: event.event_id,
+    eventStart: timeSlot.start_time,
+    settings: resolvePreEventReminderSettings({ event, user: event.createdBy }),
+  });
+}
+
+/**
+ * Skip a recurring series' next occurrence: cancels it like `cancelEvent` (homies
+ * already invited hear about it) and lines up the one after.
+ */
+export async function skipNextSeriesOccurrence(args: {
+  seriesId: string;
+}): Promise<EventChangeResult> {
+  const next = await prisma.timeSlot.findFirst({
+    where: {
+      start_time: { gt: now() },
+      status: { not: "declined" },
+      event: { series_id: args.seriesId, cancelled_at: null },
+    },
+    orderBy: { start_time: "asc" },
+    include: { event: { include: { activity: true, createdBy: true, series: true } } },
+  });
+  if (!next) return { ok: false, reason: "event_not_found" };
+
+  const res = await cancelEvent({ eventId: next.event_id });
+  if (!res.ok) return res;
+
+  const following = await scheduleNextSeriesOccurrence({ seriesId: args.seriesId });
+  const nextTimeSlot = following
+    ? await prisma.timeSlot.findFirst({
+        where: { event_id: following.eventId, status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+      })
+    : null;
+
+  return {
+    ok: true,
+    sms: buildCreatorSeriesUpdatedSms({
+      action: "skipped",
+      activityName: next.event.activity?.name,
+      recurrenceText: next.event.series ? describeRecurrence(next.event.series) : "",
+      skippedTimeSlot: next,
+      nextTimeSlot,
+      timeZone: next.event.createdBy.timezone,
+    }),
+  };
+}
@@ -0,0 +1,274 @@
+import { PrismaClient, type Prisma } from "@prisma/client";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import {
+  describeRecurrence,
+  nextOccurrenceStart,
+  weekOfMonthFor,
+} from "../../domain/recurrence";
+import { buildCreatorSeriesUpdatedSms } from "../domain/inviteFormatting";
+import { cancelScheduledJobsForEvent, scheduleJob } from "../jobs/scheduledJobs";
+
+const prisma = new PrismaClient();
+
+const OCCURRENCE_SLOTS_QUERY = {
+  where: { status: { not: "declined" as const } },
+  orderBy: { start_time: "asc" as const },
+  take: 1,
+};
+
+export type EventSeriesSummary = {
+  seriesId: string;
+  activityName: string | null;
+  recurrenceText: string;
+  paused: boolean;
+};
+
+export type EventSeriesChangeResult =
+  | { ok: true; sms: string }
+  | { ok: false; reason: "series_not_found" | "already_ended" | "already_paused" | "not_paused" };
+
+/**
+ * Occurrences created ahead of time whose invites haven't gone out yet (no EventMember
+ * rows), and that haven't started.
+ */
+async function findPendingOccurrences(seriesId: string) {
+  const events = await prisma.event.findMany({
+    where: { series_id: seriesId, cancelled_at: null, eventMembers: { none: {} } },
+    include: { timeSlots: OCCURRENCE_SLOTS_QUERY },
+  });
+  const nowMs = now().getTime();
+  return events.filter((e) => (e.timeSlots[0]?.start_time.getTime() ?? 0) > nowMs);
+}
+
+/**
+ * Line up a series' next occurrence: an Event + TimeSlot with no homies yet, and a
+ * `series_invites` job that fills and invites it `invite_lead_minutes` before it starts.
+ *
+ * Settings (location, note, capacity, reply window, plus-ones, reminders) are copied
+ * from the latest occurrence so edits to it carry forward. No-op for paused/ended
+ * series, or while another occurrence is still waiting on its invites (returned).
+ */
+export async function scheduleNextSeriesOccurrence(args: {
+  seriesId: string;
+}): Promise<{ eventId: string; start: Date } | null> {
+  const series = await prisma.eventSeries.findUnique({
+    where: { series_id: args.seriesId },
+    include: {
+      events: {
+        include: { timeSlots: OCCURRENCE_SLOTS_QUERY },
+      },
+    },
+  });
+  if (!series || series.paused_at || series.ended_at) return null;
+
+  const [pending] = await findPendingOccurrences(series.series_id);
+  if (pending) return { eventId: pending.event_id, start: pending.timeSlots[0].start_time };
+
+  const byStart = series.events
+    .filter((e) => e.timeSlots.length > 0)
+    .sort((a, b) => b.timeSlots[0].start_time.getTime() - a.timeSlots[0].start_time.getTime());
+  const template = byStart.find((e) => !e.cancelled_at) ?? byStart[0];
+
+  const nowDate = now();
+  const latestStart = byStart[0]?.timeSlots[0].start_time ?? series.anchor_start;
+  const after = latestStart.getTime() > nowDate.getTime() ? latestStart : nowDate;
+  const start = nextOccurrenceStart(series, after);
+  const end = new Date(start.getTime() + series.duration_minutes * 60_000);
+
+  const data: Prisma.EventUncheckedCreateInput = {
+    created_by_user_id: series.created_by_user_id,
+    activity_id: series.activity_id,
+    invite_policy: series.invite_policy,
+    preferred_member_ids: series.preferred_member_ids,
+    member_group_id: series.member_group_id,
+    series_id: series.series_id,
+    ...(template
+      ? {
+          location: template.location,
+          invite_message: template.invite_message,
+          max_participants: template.max_participants,
+          invite_response_minutes: template.invite_response_minutes,
+          max_guests_per_member: template.max_guests_per_member,
+          day_before_reminder: template.day_before_reminder,
+          pre_event_reminder_minutes: template.pre_event_reminder_minutes,
+        }
+      : {}),
+  };
+
+  const event = await prisma.event.create({
+    data: {
+      ...data,
+      timeSlots: { create: { start_time: start, end_time: end, status: "suggested" } },
+    },
+  });
+
+  const invitesAt = new Date(start.getTime() - series.invite_lead_minutes * 60_000);
+  await scheduleJob({
+    kind: "series_invites",
+    runAt: invitesAt.getTime() > nowDate.getTime() ? invitesAt : nowDate,
+    eventId: event.event_id,
+  });
+
+  logger.info("eventSeries:occurrence_created", {
+    seriesId: series.series_id,
+    eventId: event.event_id,
+    startIso: start.toISOString(),
+    invitesAtIso: invitesAt.toISOString(),
+  });
+
+  return { eventId: event.event_id, start };
+}
+
+/**
+ * Re-anchor a series on the time its first occurrence locked in (when homies voted on
+ * times), then line up the next occurrence from there.
+ */
+export async function anchorEventSeriesOnLockedSlot(args: {
+  seriesId: string;
+  start: Date;
+  end: Date;
+}): Promise<void> {
+  const series = await prisma.eventSeries.findUnique({ where: { series_id: args.seriesId } });
+  if (!series) return;
+
+  // Keep an explicit "last Friday of the month"; re-derive one taken from the old date.
+  const derivedWeek = weekOfMonthFor(series.anchor_start, series.timezone);
+  const weekOfMonth =
+    series.frequency === "monthly" && series.week_of_month === derivedWeek
+      ? weekOfMonthFor(args.start, series.timezone)
+      : series.week_of_month;
+
+  await prisma.eventSeries.update({
+    where: { series_id: series.series_id },
+    data: {
+      anchor_start: args.start,
+      duration_minutes: Math.max(1, Math.round((args.end.getTime() - args.start.getTime()) / 60_000)),
+      week_of_month: weekOfMonth,
+    },
+  });
+  await cancelPendingOccurrences(series.series_id);
+  await scheduleNextSeriesOccurrence({ seriesId: series.series_id });
+}
+
+/** The creator's series that haven't been ended (paused ones included). */
+export async function listActiveSeriesForUser(args: {
+  userId: string;
+}): Promise<EventSeriesSummary[]> {
+  const series = await prisma.eventSeries.findMany({
+    where: { created_by_user_id: args.userId, ended_at: null },
+    include: { activity: true },
+    orderBy: { created_at: "asc" },
+  });
+
+  return series.map((s) => ({
+    seriesId: s.series_id,
+    activityName: s.activity?.name ?? null,
+    recurrenceText: describeRecurrence(s),
+    paused: Boolean(s.paused_at),
+  }));
+}
+
+/** Cancel occurrences that were lined up but haven't sent invites (nobody to tell). */
+async function cancelPendingOccurrences(seriesId: string): Promise<number> {
+  const pending = await findPendingOccurrences(seriesId);
+  for (const e of pending) {
+    await prisma.event.updateMany({
+      where: { event_id: e.event_id, cancelled_at: null },
+      data: { cancelled_at: now() },
+    });
+    await cancelScheduledJobsForEvent({ eventId: e.event_id });
+  }
+  return pending.length;
+}
+
+async function loadSeries(seriesId: string) {
+  return prisma.eventSeries.findUnique({
+    where: { series_id: seriesId },
+    include: { activity: true, createdBy: true },
+  });
+}
+
+/**
+ * Stop lining up occurrences until resumed. Occurrences whose invites already went
+ * out stay on.
+ */
+export async function pauseEventSeries(args: { seriesId: string }): Promise<EventSeriesChangeResult> {
+  const series = await loadSeries(args.seriesId);
+  if (!series) return { ok: false, reason: "series_not_found" };
+  if (series.ended_at) return { ok: false, reason: "already_ended" };
+  if (series.paused_at) return { ok: false, reason: "already_paused" };
+
+  await prisma.eventSeries.update({
+    where: { series_id: series.series_id },
+    data: { paused_at: now() },
+  });
+  const cancelledCount = await cancelPendingOccurrences(series.series_id);
+
+  logger.info("eventSeries:paused", { seriesId: series.series_id, cancelledCount });
+  return {
+    ok: true,
+    sms: buildCreatorSeriesUpdatedSms({
+      action: "paused",
+      activityName: series.activity?.name,
+      recurrenceText: describeRecurrence(series),
+      timeZone: series.createdBy.timezone,
+    }),
+  };
+}
+
+/** Pick a paused series back up from its next occurrence after now. */
+export async function resumeEventSeries(args: { seriesId: string }): Promise<EventSeriesChangeResult> {
+  const series = await loadSeries(args.seriesId);
+  if (!series) return { ok: false, reason: "series_not_found" };
+  if (series.ended_at) return { ok: false, reason: "already_ended" };
+  if (!series.paused_at) return { ok: false, reason: "not_paused" };
+
+  await prisma.eventSeries.update({
+    where: { series_id: series.series_id },
+    data: { paused_at: null },
+  });
+  const next = await scheduleNextSeriesOccurrence({ seriesId: series.series_id });
+  const nextTimeSlot = next
+    ? await prisma.timeSlot.findFirst({
+        where: { event_id: next.eventId, status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+      })
+    : null;
+
+  logger.info("eventSeries:resumed", { seriesId: series.series_id, nextEventId: next?.eventId });
+  return {
+    ok: true,
+    sms: buildCreatorSeriesUpdatedSms({
+      action: "resumed",
+      activityName: series.activity?.name,
+      recurrenceText: describeRecurrence(series),
+      nextTimeSlot,
+      timeZone: series.createdBy.timezone,
+    }),
+  };
+}
+
+/** End the series for good. Occurrences whose invites already went out stay on. */
+export async function endEventSeries(args: { seriesId: string }): Promise<EventSeriesChangeResult> {
+  const series = await loadSeries(args.seriesId);
+  if (!series) return { ok: false, reason: "series_not_found" };
+  if (series.ended_at) return { ok: false, reason: "already_ended" };
+
+  await prisma.eventSeries.update({
+    where: { series_id: series.series_id },
+    data: { ended_at: now() },
+  });
+  const cancelledCount = await cancelPendingOccurrences(series.series_id);
+
+  logger.info("eventSeries:ended", { seriesId: series.series_id, cancelledCount });
+  return {
+    ok: true,
+    sms: buildCreatorSeriesUpdatedSms({
+      action: "ended",
+      activityName: series.activity?.name,
+      recurrenceText: describeRecurrence(series),
+      timeZone: series.createdBy.timezone,
+    }),
+  };
+}
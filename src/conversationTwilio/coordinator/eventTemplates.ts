@@ -0,0 +1,272 @@
+import { PrismaClient, type EventInvitePolicy, type EventTemplate, type Prisma } from "@prisma/client";
+import { DateTime } from "luxon";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import { matchActivityMentionedInText } from "../domain/activities";
+import type { PendingEventDraft } from "../domain/conversationState";
+import { normalizeTemplateName, type PastEventReference } from "../domain/eventTemplateParsing";
+
+const prisma = new PrismaClient();
+
+const PAST_EVENT_INCLUDE = {
+  timeSlots: {
+    where: { status: { not: "declined" as const } },
+    orderBy: { start_time: "asc" as const },
+  },
+  eventMembers: {
+    select: { member_id: true, priority_rank: true },
+    orderBy: { priority_rank: "asc" as const },
+  },
+};
+
+type PastEvent = Prisma.EventGetPayload<{ include: typeof PAST_EVENT_INCLUDE }>;
+
+/**
+ * Everything but the time, taken from a saved template or an earlier event, to seed a
+ * new draft ("same as last time").
+ */
+export type EventDraftPrefill = {
+  source: { kind: "template"; templateId: string; name: string } | { kind: "event"; eventId: string };
+  activityId: string | null;
+  location: string | null;
+  durationMinutes: number | null;
+  maxHomies: number | null;
+  invitePolicy: EventInvitePolicy;
+  /** Named homies in priority order (may include since-removed members). */
+  preferredMemberIds: string[];
+  inviteMessage: string | null;
+  inviteResponseMinutes: number | null;
+  maxGuestsPerMember: number | null;
+  memberGroupId: string | null;
+};
+
+export type SaveEventTemplateResult =
+  | { ok: true; template: EventTemplate; replaced: boolean }
+  | { ok: false; reason: "nothing_to_save" };
+
+/** The slot that happened: the accepted one when homies voted, else the first. */
+function heldSlot(event: PastEvent) {
+  return event.timeSlots.find((s) => s.status === "accepted") ?? event.timeSlots[0] ?? null;
+}
+
+function prefillFromEvent(event: PastEvent): EventDraftPrefill {
+  const slot = heldSlot(event);
+  // Events from before preferred_member_ids was stored: a handpicked list is exactly who got asked.
+  const preferredMemberIds =
+    event.preferred_member_ids.length > 0 || event.invite_policy !== "exact"
+      ? event.preferred_member_ids
+      : event.eventMembers.map((m) => m.member_id);
+
+  return {
+    source: { kind: "event", eventId: event.event_id },
+    activityId: event.activity_id,
+    location: event.location,
+    durationMinutes: slot
+      ? Math.max(1, Math.round((slot.end_time.getTime() - slot.start_time.getTime()) / 60_000))
+      : null,
+    maxHomies: event.max_participants,
+    invitePolicy: event.invite_policy,
+    preferredMemberIds,
+    inviteMessage: event.invite_message,
+    inviteResponseMinutes: event.invite_response_minutes,
+    maxGuestsPerMember: event.max_guests_per_member,
+    memberGroupId: event.member_group_id,
+  };
+}
+
+function prefillFromTemplate(template: EventTemplate): EventDraftPrefill {
+  return {
+    source: { kind: "template", templateId: template.template_id, name: template.name },
+    activityId: template.activity_id,
+    location: template.location,
+    durationMinutes: template.duration_minutes,
+    maxHomies: template.max_participants,
+    invitePolicy: template.invite_policy,
+    preferredMemberIds: template.preferred_member_ids,
+    inviteMessage: template.invite_message,
+    inviteResponseMinutes: template.invite_response_minutes,
+    maxGuestsPerMember: template.max_guests_per_member,
+    memberGroupId: template.member_group_id,
+  };
+}
+
+/** The creator's events that have a time, latest start first. */
+async function loadRecentEvents(userId: string): Promise<PastEvent[]> {
+  const events = await prisma.event.findMany({
+    where: { created_by_user_id: userId, timeSlots: { some: {} } },
+    include: PAST_EVENT_INCLUDE,
+  });
+  return events
+    .filter((e) => heldSlot(e))
+    .sort((a, b) => heldSlot(b)!.start_time.getTime() - heldSlot(a)!.start_time.getTime());
+}
+
+async function findTemplateByName(userId: string, name: string): Promise<EventTemplate | null> {
+  const wanted = normalizeTemplateName(name);
+  if (!wanted) return null;
+
+  const templates = await prisma.eventTemplate.findMany({
+    where: { user_id: userId },
+    orderBy: { updated_at: "desc" },
+  });
+  const keyed = templates.map((t) => ({ t, key: normalizeTemplateName(t.name) }));
+  return (
+    keyed.find((k) => k.key === wanted)?.t ??
+    keyed.find((k) => k.key && (k.key.includes(wanted) || wanted.includes(k.key)))?.t ??
+    null
+  );
+}
+
+/**
+ * Find what "same as last time" / "same thing as last Saturday" / "same as sunday run"
+ * points at and turn it into draft defaults.
+ *
+ * - latest: the event this conversation last created, else the latest-starting live one
+ * - weekday: the latest event that already started on that weekday (creator's timezone)
+ * - named: a saved template (loose name match), else the latest event for a matching activity
+ *
+ * Null when nothing matches; the message is then planned as usual.
+ */
+export async function resolveDraftPrefill(args: {
+  userId: string;
+  reference: PastEventReference;
+  lastCreatedEventId?: string | null;
+  timeZone: string;
+}): Promise<EventDraftPrefill | null> {
+  const { reference } = args;
+
+  if (reference.kind === "named") {
+    const template = await findTemplateByName(args.userId, reference.name);
+    if (template) return prefillFromTemplate(template);
+  }
+
+  const events = await loadRecentEvents(args.userId);
+  let match: PastEvent | undefined;
+
+  if (reference.kind === "latest") {
+    match =
+      events.find((e) => e.event_id === args.lastCreatedEventId) ??
+      events.find((e) => !e.cancelled_at) ??
+      events[0];
+  } else if (reference.kind === "weekday") {
+    const nowMs = now().getTime();
+    match = events.find((e) => {
+      const start = heldSlot(e)!.start_time;
+      return (
+        start.getTime() <= nowMs &&
+        DateTime.fromJSDate(start).setZone(args.timeZone).weekday === reference.weekday
+      );
+    });
+  } else {
+    const activities = await prisma.activity.findMany({ where: { user_id: args.userId } });
+    const activity = matchActivityMentionedInText({ text: reference.name, activities });
+    if (activity) match = events.find((e) => e.activity_id === activity.activity_id);
+  }
+
+  logger.info("eventTemplates:resolved", {
+    userId: args.userId,
+    reference: reference.kind,
+    eventId: match?.event_id ?? null,
+  });
+  return match ? prefillFromEvent(match) : null;
+}
+
+async function upsertTemplate(args: {
+  userId: string;
+  name: string;
+  data: Omit<Prisma.EventTemplateUncheckedCreateInput, "user_id" | "name">;
+}): Promise<{ template: EventTemplate; replaced: boolean }> {
+  const existing = await prisma.eventTemplate.findFirst({
+    where: { user_id: args.userId, name: { equals: args.name, mode: "insensitive" } },
+  });
+  if (existing) {
+    const template = await prisma.eventTemplate.update({
+      where: { template_id: existing.template_id },
+      data: { ...args.data, name: args.name },
+    });
+    return { template, replaced: true };
+  }
+
+  const template = await prisma.eventTemplate.create({
+    data: { ...args.data, user_id: args.userId, name: args.name },
+  });
+  return { template, replaced: false };
+}
+
+/** "save this as sunday run" while a preview awaits confirmation. */
+export async function saveEventTemplateFromDraft(args: {
+  userId: string;
+  name: string;
+  draft: PendingEventDraft;
+}): Promise<SaveEventTemplateResult> {
+  const d = args.draft;
+  const durationMinutes = Math.round((Date.parse(d.endIso) - Date.parse(d.startIso)) / 60_000);
+
+  const { template, replaced } = await upsertTemplate({
+    userId: args.userId,
+    name: args.name,
+    data: {
+      activity_id: d.activityId,
+      location: d.location,
+      invite_message: d.inviteMessage ?? null,
+      duration_minutes: Number.isFinite(durationMinutes) && durationMinutes > 0 ? durationMinutes : null,
+      max_participants: d.maxHomies,
+      invite_policy: d.invitePolicy,
+      preferred_member_ids: d.preferredMemberIds,
+      invite_response_minutes: d.inviteResponseMinutes ?? null,
+      max_guests_per_member: d.maxGuestsPerMember ?? null,
+      member_group_id: d.memberGroupId ?? null,
+    },
+  });
+
+  logger.info("eventTemplates:saved", {
+    userId: args.userId,
+    templateId: template.template_id,
+    replaced,
+    from: "draft",
+  });
+  return { ok: true, template, replaced };
+}
+
+/** "save that as poker night" after the event went out (or any time later). */
+export async function saveEventTemplateFromEvent(args: {
+  userId: string;
+  name: string;
+  /** Defaults to the creator's latest event. */
+  eventId?: string | null;
+}): Promise<SaveEventTemplateResult> {
+  const event = args.eventId
+    ? await prisma.event.findFirst({
+        where: { event_id: args.eventId, created_by_user_id: args.userId },
+        include: PAST_EVENT_INCLUDE,
+      })
+    : ((await loadRecentEvents(args.userId))[0] ?? null);
+  if (!event) return { ok: false, reason: "nothing_to_save" };
+
+  const p = prefillFromEvent(event);
+  const { template, replaced } = await upsertTemplate({
+    userId: args.userId,
+    name: args.name,
+    data: {
+      activity_id: p.activityId,
+      location: p.location,
+      invite_message: p.inviteMessage,
+      duration_minutes: p.durationMinutes,
+      max_participants: p.maxHomies,
+      invite_policy: p.invitePolicy,
+      preferred_member_ids: p.preferredMemberIds,
+      invite_response_minutes: p.inviteResponseMinutes,
+      max_guests_per_member: p.maxGuestsPerMember,
+      member_group_id: p.memberGroupId,
+    },
+  });
+
+  logger.info("eventTemplates:saved", {
+    userId: args.userId,
+    templateId: template.template_id,
+    replaced,
+    from: "event",
+    eventId: event.event_id,
+  });
+  return { ok: true, template, replaced };
+}
@@ -0,0 +1,144 @@
+import { PrismaClient, type Prisma } from "@prisma/client";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import {
+  describeAvailabilityRule,
+  timeZoneForMember,
+  type AvailabilityRule,
+} from "../../domain/memberAvailability";
+import { parseAvailabilityStatement, type AvailabilityStatement } from "../domain/availabilityParsing";
+import {
+  buildMemberAvailabilityClearedSms,
+  buildMemberAvailabilitySavedSms,
+} from "../domain/inviteFormatting";
+
+const prisma = new PrismaClient();
+
+export type RecordedMemberAvailability = {
+  statement: AvailabilityStatement;
+  /** The rule that was saved; null when the homie cleared theirs ("I'm back"). */
+  rule: AvailabilityRule | null;
+  /** Acknowledgement for the homie. */
+  sms: string;
+};
+
+function ruleFromStatement(statement: Exclude<AvailabilityStatement, { kind: "clear" }>): AvailabilityRule {
+  return statement.kind === "blackout"
+    ? {
+        kind: "blackout",
+        starts_at: statement.startsAt,
+        ends_at: statement.endsAt,
+        weekdays: [],
+        start_minute: null,
+        end_minute: null,
+      }
+    : {
+        kind: "weekly",
+        starts_at: null,
+        ends_at: null,
+        weekdays: statement.weekdays,
+        start_minute: statement.startMinute,
+        end_minute: statement.endMinute,
+      };
+}
+
+/**
+ * The homie entry a text with no invite to answer is about: the one whose creator
+ * texted this number last, else the only entry with it. Null when that's unclear.
+ */
+async function findMemberLastTextedAt(phone: string) {
+  const last = await prisma.conversationMessage.findFirst({
+    where: { direction: "outbound", conversation: { member: { phone_number: phone } } },
+    orderBy: { created_at: "desc" },
+    select: { conversation: { select: { member_id: true } } },
+  });
+  if (last?.conversation.member_id) {
+    return prisma.member.findUnique({
+      where: { member_id: last.conversation.member_id },
+      include: { user: true },
+    });
+  }
+
+  const members = await prisma.member.findMany({
+    where: { phone_number: phone },
+    include: { user: true },
+    take: 2,
+  });
+  return members.length === 1 ? members[0] : null;
+}
+
+/**
+ * Save what a homie texted about their availability ("I'm away until the 20th",
+ * "never before 8am", "I'm back").
+ *
+ * Only the homie entry being talked to is updated: `memberId` when they're answering
+ * an invite, else the entry whose creator texted them last. Other creators who have
+ * the same number keep their own rules (and don't see this homie's note).
+ *
+ * Null when the text isn't about availability. Idempotent, so a retried webhook
+ * doesn't stack duplicate rules.
+ */
+export async function recordMemberAvailabilityFromSms(
+  args: { memberId: string; text: string } | { phone: string; text: string },
+): Promise<RecordedMemberAvailability | null> {
+  let member;
+  if ("memberId" in args) {
+    member = await prisma.member.findUnique({
+      where: { member_id: args.memberId },
+      include: { user: true },
+    });
+  } else {
+    const phone = (args.phone ?? "").trim();
+    member = phone ? await findMemberLastTextedAt(phone) : null;
+  }
+  if (!member) return null;
+
+  const timeZone = timeZoneForMember(member, member.user);
+  const at = now();
+  const statement = parseAvailabilityStatement({ text: args.text, now: at, timeZone });
+  if (!statement) return null;
+
+  const memberId = member.member_id;
+
+  if (statement.kind === "clear") {
+    const { count } = await prisma.memberAvailabilityRule.deleteMany({
+      where: {
+        member_id: memberId,
+        ...(statement.scope === "blackouts" ? { kind: "blackout" as const } : {}),
+      },
+    });
+    logger.info("memberAvailability:cleared", { memberId, scope: statement.scope, count });
+    return { statement, rule: null, sms: buildMemberAvailabilityClearedSms({ scope: statement.scope }) };
+  }
+
+  const rule = ruleFromStatement(statement);
+  const note = args.text.trim().slice(0, 200);
+  const sameRule: Prisma.MemberAvailabilityRuleWhereInput =
+    rule.kind === "blackout"
+      ? { kind: "blackout", starts_at: rule.starts_at, ends_at: rule.ends_at }
+      : {
+          kind: "weekly",
+          weekdays: { equals: rule.weekdays },
+          start_minute: rule.start_minute,
+          end_minute: rule.end_minute,
+        };
+
+  const existing = await prisma.memberAvailabilityRule.findFirst({
+    where: { member_id: memberId, ...sameRule },
+    select: { member_availability_rule_id: true },
+  });
+  if (!existing) {
+    await prisma.memberAvailabilityRule.create({
+      data: { ...rule, member_id: memberId, note },
+    });
+  }
+
+  logger.info("memberAvailability:saved", { memberId, kind: rule.kind, duplicate: Boolean(existing) });
+  return {
+    statement,
+    rule,
+    sms: buildMemberAvailabilitySavedSms({
+      description: describeAvailabilityRule({ rule, timeZone, now: at }),
+    }),
+  };
+}
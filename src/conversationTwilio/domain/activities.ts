@@ -0,0 +1,85 @@
+import type { Activity } from "@prisma/client";
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+function normalizeActivityName(name: string): string {
+  return (name ?? "").trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+/** Case-insensitive exact lookup ("poker" -> Poker). */
+export function findActivityByName(args: {
+  name: string;
+  activities: Activity[];
+}): Activity | null {
+  const wanted = normalizeActivityName(args.name);
+  if (!wanted) return null;
+  return args.activities.find((a) => normalizeActivityName(a.name) === wanted) ?? null;
+}
+
+/**
+ * Deterministic activity pick from free text ("poker friday at 8").
+ *
+ * Whole-word match, tolerating a trailing "s" ("runs"). When several names match,
+ * the longest wins so "Beach Volleyball" beats "Volleyball".
+ */
+export function matchActivityMentionedInText(args: {
+  text: string;
+  activities: Activity[];
+}): Activity | null {
+  const t = normalizeActivityName(args.text);
+  if (!t) return null;
+
+  const matches = args.activities.filter((a) => {
+    const name = normalizeActivityName(a.name);
+    if (!name) return false;
+    return new RegExp(`\\b${escapeRegExp(name)}s?\\b`).test(t);
+  });
+
+  if (matches.length === 0) return null;
+  return matches.sort((a, b) => b.name.trim().length - a.name.trim().length)[0];
+}
+
+/**
+ * New activity name from a reply to "Which activity?":
+ * "new: frisbee", "add frisbee", "new activity frisbee", or just "frisbee".
+ *
+ * Bare replies must be short and look like a name (no digits), so a stray
+ * "tomorrow at 7" isn't turned into an activity.
+ */
+export function parseNewActivityName(text: string): string | null {
+  const raw = (text ?? "").trim().replace(/[.!?]+$/, "");
+  if (!raw) return null;
+
+  const explicit = raw.match(/^(?:new(?:\s+activity)?|add(?:\s+activity)?)\s*[:-]?\s+(.+)$/i);
+  const candidate = (explicit ? explicit[1] : raw).trim().replace(/\s+/g, " ");
+
+  if (!candidate || candidate.length > 40) return null;
+  if (!explicit) {
+    if (/\d/.test(candidate)) return null;
+    if (candidate.split(" ").length > 3) return null;
+    if (/^(yes|yeah|yep|no|nope|ok|okay|sure|hi|hey|hello|thanks|thank you)$/i.test(candidate)) {
+      return null;
+    }
+  }
+
+  return candidate.charAt(0).toUpperCase() + candidate.slice(1);
+}
+
+/** "Run", "Run or Poker", "Run, Poker, or Tennis" (null when there are none). */
+export function describeActivitiesForSms(activities: Activity[]): string | null {
+  const names = activities.map((a) => a.name.trim()).filter((n) => n.length > 0);
+  if (names.length === 0) return null;
+  if (names.length === 1) return names[0];
+  if (names.length === 2) return `${names[0]} or ${names[1]}`;
+  return `${names.slice(0, -1).join(", ")}, or ${names[names.length - 1]}`;
+}
+
+export function buildActivityChoiceSms(args: { activities: Activity[] }): string {
+  const names = args.activities.map((a) => a.name.trim()).filter((n) => n.length > 0);
+  if (names.length === 0) {
+    return "What are we scheduling? Reply with the activity (e.g. “Pickleball”) and I’ll add it.";
+  }
+  return `Which activity is this for?\n${names.map((n) => `- ${n}`).join("\n")}\nOr reply “new: <name>” to add one.`;
+}
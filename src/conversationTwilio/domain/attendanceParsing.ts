@@ -0,0 +1,119 @@
+import type { Member } from "@prisma/client";
+
+export type AttendanceReply = {
+  attendedMemberIds: string[];
+  noShowMemberIds: string[];
+  /** True when the message is just the answer (nothing else to act on). */
+  standalone: boolean;
+};
+
+type AttendanceHomie = Pick<Member, "member_id" | "first_name" | "last_name">;
+
+const EVERYONE_RE = /\b(?:everyone|everybody|all of (?:them|us|em)|all)\b/i;
+const NOBODY_RE = /\b(?:nobody|no one|noone|none of (?:them|em))\b/i;
+const EXCEPT_RE = /\b(?:except(?: for)?|but not|besides|other than|all but|minus|but)\b/i;
+const NO_SHOW_RE =
+  /\b(?:(?:didn'?t|did not|never)\s+(?:show(?: up)?|come|make it|turn up)|no[- ]?show(?:ed|s)?|bailed|flaked|ghosted|(?:wasn'?t|weren'?t) there|skipped(?: it)?)\b/i;
+const ONLY_RE = /\b(?:only|just)\b/i;
+const SHOWED_RE =
+  /\b(?:showed(?: up)?|came|made it|(?:was|were) there|attended|turned up|shows?)\b/i;
+
+// Words that can surround the answer without making it "more than" the answer.
+const FILLER_RE =
+  /\b(?:yes|yep|yeah|ya|ok|okay|so|and|&|or|the|it|they|he|she|was|were|a|an|of|them|em|us|for|up|there|great|good|fun|lol|haha|thanks|thx|ty|too|also|except|but|not|besides|other|than|minus|only|just|all|everyone|everybody|nobody|no|one|none|noone|showed|show|shows|came|come|made|make|attended|turned|turn|didnt|didn't|did|never|bailed|flaked|ghosted|wasnt|wasn't|werent|weren't|skipped|noshow|noshowed)\b/gi;
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Which of `homies` the text names: full names always, first names only when no
+ * other homie in the list shares them. Returns the matched phrases too, so they can
+ * be stripped before the standalone check.
+ */
+function findMentionedHomies(
+  text: string,
+  homies: AttendanceHomie[],
+): { ids: string[]; phrases: string[] } {
+  const firstNameCounts = new Map<string, number>();
+  for (const h of homies) {
+    const first = h.first_name.trim().toLowerCase();
+    if (first) firstNameCounts.set(first, (firstNameCounts.get(first) ?? 0) + 1);
+  }
+
+  const ids: string[] = [];
+  const phrases: string[] = [];
+  for (const h of homies) {
+    const first = h.first_name.trim();
+    const full = `${first} ${h.last_name.trim()}`.trim();
+    const candidates = [full];
+    if (first && firstNameCounts.get(first.toLowerCase()) === 1) candidates.push(first);
+
+    for (const name of candidates) {
+      if (!name) continue;
+      const m = text.match(new RegExp(`\\b${escapeRegExp(name)}\\b`, "i"));
+      if (m) {
+        ids.push(h.member_id);
+        phrases.push(m[0]);
+        break;
+      }
+    }
+  }
+  return { ids, phrases };
+}
+
+/**
+ * Read the creator's answer to "who actually showed?" for the homies who said yes:
+ * "everyone", "nobody", "everyone except Sam", "Sam didn't show", "only Sam and Ana",
+ * "Sam and Ana came".
+ *
+ * Deterministic on purpose, like the other creator-side parsers; anything it can't
+ * place (e.g. bare names, with no showed / didn't-show wording) returns null.
+ */
+export function parseAttendanceReply(args: {
+  text: string;
+  homies: AttendanceHomie[];
+}): AttendanceReply | null {
+  const raw = (args.text ?? "").trim().replace(/[’‘]/g, "'");
+  if (!raw || args.homies.length === 0) return null;
+
+  const allIds = args.homies.map((h) => h.member_id);
+  const mentioned = findMentionedHomies(raw, args.homies);
+  const named = new Set(mentioned.ids);
+  const others = allIds.filter((id) => !named.has(id));
+
+  let attendedMemberIds: string[];
+  let noShowMemberIds: string[];
+  if (NOBODY_RE.test(raw)) {
+    // "nobody" / "nobody but Sam"
+    attendedMemberIds = mentioned.ids;
+    noShowMemberIds = others;
+  } else if (
+    named.size > 0 &&
+    (NO_SHOW_RE.test(raw) || (EVERYONE_RE.test(raw) && EXCEPT_RE.test(raw)))
+  ) {
+    // "Sam didn't show" / "everyone except Sam"
+    attendedMemberIds = others;
+    noShowMemberIds = mentioned.ids;
+  } else if (named.size > 0 && (ONLY_RE.test(raw) || SHOWED_RE.test(raw))) {
+    // "only Sam and Ana" / "Sam and Ana came"
+    attendedMemberIds = mentioned.ids;
+    noShowMemberIds = others;
+  } else if (named.size === 0 && EVERYONE_RE.test(raw)) {
+    attendedMemberIds = allIds;
+    noShowMemberIds = [];
+  } else {
+    return null;
+  }
+
+  let rest = raw;
+  for (const phrase of mentioned.phrases) rest = rest.replace(phrase, " ");
+  const leftover = rest
+    .replace(FILLER_RE, " ")
+    .replace(/[^a-z0-9\s]/gi, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return { attendedMemberIds, noShowMemberIds, standalone: leftover.length <= 2 };
+}
@@ -0,0 +1,256 @@
+import { DateTime } from "luxon";
+import { parseSimpleTimeOfDay } from "./smsTimeParsing";
+
+export type AvailabilityStatement =
+  /** "I'm away until the 20th", "out of town this week": unavailable over [startsAt, endsAt). */
+  | { kind: "blackout"; startsAt: Date; endsAt: Date }
+  /** "never before 8am", "no Sundays": weekly window in the homie's timezone (see MemberAvailabilityRule). */
+  | { kind: "weekly"; weekdays: number[]; startMinute: number; endMinute: number }
+  /** "I'm back" clears blackouts; "clear my availability" clears everything. */
+  | { kind: "clear"; scope: "blackouts" | "all" };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const MONTH = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+
+const WEEKDAYS: Array<{ weekday: number; re: RegExp; plural: RegExp }> = [
+  { weekday: 1, re: /\bmon(?:day)?\b/i, plural: /\bmondays\b/i },
+  { weekday: 2, re: /\btue(?:s(?:day)?)?\b/i, plural: /\btuesdays\b/i },
+  { weekday: 3, re: /\bwed(?:s|nesday)?\b/i, plural: /\bwednesdays\b/i },
+  { weekday: 4, re: /\bthu(?:r(?:s(?:day)?)?)?\b/i, plural: /\bthursdays\b/i },
+  { weekday: 5, re: /\bfri(?:day)?\b/i, plural: /\bfridays\b/i },
+  { weekday: 6, re: /\bsat(?:urday)?\b/i, plural: /\bsaturdays\b/i },
+  { weekday: 7, re: /\bsun(?:day)?\b/i, plural: /\bsundays\b/i },
+];
+
+// "clear my availability", "reset my schedule"
+const CLEAR_ALL_RE =
+  /^\s*(?:please\s+)?(?:clear|reset|forget|delete|remove)\s+(?:all\s+)?(?:of\s+)?my\s+(?:availability|schedule|blackouts?|away\s+(?:time|dates))\b/i;
+// "I'm back", "back in town", "available again", "never mind, I'm around"
+const CLEAR_BLACKOUTS_RE =
+  /\b(?:(?:i'?m|im|i am)\s+back\b|back\s+in\s+town\b|(?:available|free|around)\s+again\b|no\s+longer\s+(?:away|out\s+of\s+town|traveling|travelling)\b)/i;
+
+// "away", "out of town", "traveling", "on vacation", "unavailable". Loose words
+// ("busy", "out", "gone") are left to the invite reply: texted out of the blue they're
+// as likely chit-chat as a schedule.
+const AWAY_RE =
+  /\b(?:away|out\s+of\s+(?:town|the\s+country|state)|travel(?:l)?ing|on\s+(?:vacation|vacay|holiday|a\s+trip)|unavailable|not\s+around)\b/i;
+
+// "until the 20th", "through Friday", "till March 20"
+const UNTIL_RE = /\b(until|till|til|'til|thru|through)\s+(.+)$/i;
+// "for the next 3 days", "for a week", "for two weeks"
+const FOR_SPAN_RE =
+  /\bfor\s+(?:the\s+next\s+)?(a|an|one|two|three|four|five|six|seven|\d{1,2})\s+(day|week)s?\b/i;
+
+// Standing preferences, not a reply about one plan ("can't do Sunday" is just a no).
+const STANDING_RE = /\b(?:never|ever|anymore|any\s+more|anything|nothing|usually|generally|typically|in\s+general)\b/i;
+const NEGATION_RE = /\b(?:never|not|no|nothing|can'?t|cannot|can\s+not|don'?t|won'?t)\b/i;
+const BEFORE_RE = /\b(?:before|earlier\s+than)\s+(\d{1,2}(?::\d{2})?\s*(?:a|am|p|pm)?|noon)\b/i;
+const AFTER_RE = /\b(?:after|later\s+than)\s+(\d{1,2}(?::\d{2})?\s*(?:a|am|p|pm)?|noon)\b/i;
+
+// An answer to the invite riding along ("yes! I'm out of town next week though").
+// A bare "no" only counts on its own, so "no Sundays" stays a preference.
+const RSVP_RE =
+  /(?:^\s*(?:no|nope|nah)\b\s*(?:thanks|thank\s+you|[,.!]|$)|\b(?:yes|yeah|yea|yep|yup|sure|count\s+me\s+(?:in|out)|(?:i'?m|im|i\s+am)\s+(?:in|down|out)\b(?!\s+of)|i'?ll\s+(?:be\s+there|come|make\s+it)|sounds\s+good|can'?t\s+(?:make\s+it|come|go)|won'?t\s+(?:make\s+it|be\s+able)|maybe|not\s+sure)\b)/i;
+
+const SPAN_NUMBERS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+};
+
+/** "the 20th", "March 20", "3/20", "Friday", "tomorrow", "next week" => that day (start), after today. */
+function parseDay(text: string, today: DateTime): DateTime | null {
+  const t = text.trim().toLowerCase();
+
+  if (/^tomorrow\b/.test(t)) return today.plus({ days: 1 });
+  if (/^(?:next\s+week|the\s+weekend\s+after)\b/.test(t)) return today.startOf("week").plus({ weeks: 1 });
+  if (/^(?:the\s+)?weekend\b/.test(t)) return today.plus({ days: ((6 - today.weekday + 7) % 7) || 7 });
+
+  const named = t.match(new RegExp(`^${MONTH}\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`)) ??
+    t.match(new RegExp(`^(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}\\b`));
+  if (named) {
+    const [monthText, dayText] = /^\d/.test(named[1]) ? [named[2], named[1]] : [named[1], named[2]];
+    const month = MONTHS.indexOf(monthText.slice(0, 3)) + 1;
+    const candidate = today.set({ month, day: Number(dayText) });
+    if (!candidate.isValid || candidate.month !== month) return null;
+    return candidate <= today ? candidate.plus({ years: 1 }) : candidate;
+  }
+
+  const numeric = t.match(/^(\d{1,2})\/(\d{1,2})(?:\/\d{2,4})?\b/);
+  if (numeric) {
+    const candidate = today.set({ month: Number(numeric[1]), day: Number(numeric[2]) });
+    if (!candidate.isValid || candidate.month !== Number(numeric[1])) return null;
+    return candidate <= today ? candidate.plus({ years: 1 }) : candidate;
+  }
+
+  const ordinal = t.match(/^(?:the\s+)?(\d{1,2})(?:st|nd|rd|th)\b/) ?? t.match(/^the\s+(\d{1,2})\b/);
+  if (ordinal) {
+    const day = Number(ordinal[1]);
+    let candidate = today.set({ day: Math.min(day, today.daysInMonth ?? 31) });
+    if (candidate.day !== day || candidate <= today) {
+      const next = today.plus({ months: 1 }).startOf("month");
+      candidate = next.set({ day: Math.min(day, next.daysInMonth ?? 31) });
+      if (candidate.day !== day) return null;
+    }
+    return candidate;
+  }
+
+  for (const { weekday, re } of WEEKDAYS) {
+    if (new RegExp(`^(?:next\\s+)?${re.source}`, "i").test(t)) {
+      return today.plus({ days: ((weekday - today.weekday + 7) % 7) || 7 });
+    }
+  }
+  return null;
+}
+
+function parseBlackout(raw: string, now: DateTime): AvailabilityStatement | null {
+  if (!AWAY_RE.test(raw)) return null;
+  // Open-ended blackouts start at the top of today, so saying it twice is the same rule.
+  const today = now.startOf("day");
+  const t = raw.toLowerCase();
+
+  const until = raw.match(UNTIL_RE);
+  if (until) {
+    const day = parseDay(until[2], today);
+    if (!day) return null;
+    // "until the 20th" => back on the 20th; "through the 20th" => gone that day too.
+    const inclusive = /^(?:thru|through)$/i.test(until[1]);
+    return { kind: "blackout", startsAt: today.toJSDate(), endsAt: (inclusive ? day.plus({ days: 1 }) : day).toJSDate() };
+  }
+
+  const span = raw.match(FOR_SPAN_RE);
+  if (span) {
+    const n = SPAN_NUMBERS[span[1].toLowerCase()] ?? Number(span[1]);
+    if (!n) return null;
+    const days = span[2].toLowerCase() === "week" ? n * 7 : n;
+    return { kind: "blackout", startsAt: today.toJSDate(), endsAt: today.plus({ days }).toJSDate() };
+  }
+
+  const nextMonday = today.startOf("week").plus({ weeks: 1 });
+  if (/\bnext\s+week\b/.test(t)) {
+    return { kind: "blackout", startsAt: nextMonday.toJSDate(), endsAt: nextMonday.plus({ weeks: 1 }).toJSDate() };
+  }
+  if (/\bthis\s+week\b/.test(t)) {
+    return { kind: "blackout", startsAt: today.toJSDate(), endsAt: nextMonday.toJSDate() };
+  }
+  if (/\b(?:this|the)\s+weekend\b/.test(t)) {
+    const saturday = today.startOf("week").plus({ days: 5 });
+    return {
+      kind: "blackout",
+      startsAt: (saturday > today ? saturday : today).toJSDate(),
+      endsAt: nextMonday.toJSDate(),
+    };
+  }
+  if (/\bnext\s+weekend\b/.test(t)) {
+    const saturday = nextMonday.plus({ days: 5 });
+    return { kind: "blackout", startsAt: saturday.toJSDate(), endsAt: saturday.plus({ days: 2 }).toJSDate() };
+  }
+  return null;
+}
+
+function parseBoundMinute(token: string, bound: "before" | "after"): number | null {
+  const t = token.trim().toLowerCase();
+  if (t === "noon") return 12 * 60;
+
+  const tod = parseSimpleTimeOfDay(t);
+  if (tod) return tod.hour24 * 60 + tod.minute;
+
+  // Bare hour: "never before 8" is morning, "nothing after 9" is evening.
+  const h = Number.parseInt(t, 10);
+  if (!Number.isFinite(h) || h < 1 || h > 12) return null;
+  if (h === 12) return 12 * 60;
+  const isMorning = bound === "before" && h >= 5;
+  return (isMorning ? h : h + 12) * 60;
+}
+
+function parseWeekly(raw: string): AvailabilityStatement | null {
+  if (!NEGATION_RE.test(raw)) return null;
+
+  let startMinute = 0;
+  let endMinute = MINUTES_PER_DAY;
+  let hasTime = false;
+  let standing = STANDING_RE.test(raw);
+
+  const before = raw.match(BEFORE_RE);
+  const after = raw.match(AFTER_RE);
+  if (before) {
+    const m = parseBoundMinute(before[1], "before");
+    if (m === null || m === 0) return null;
+    endMinute = m;
+    hasTime = true;
+  } else if (after) {
+    const m = parseBoundMinute(after[1], "after");
+    if (m === null) return null;
+    startMinute = m;
+    hasTime = true;
+  } else if (/\bmornings\b/i.test(raw)) {
+    endMinute = 12 * 60;
+    hasTime = standing = true;
+  } else if (/\bafternoons\b/i.test(raw)) {
+    startMinute = 12 * 60;
+    endMinute = 17 * 60;
+    hasTime = standing = true;
+  } else if (/\b(?:evenings|nights|weeknights)\b/i.test(raw)) {
+    startMinute = 17 * 60;
+    hasTime = standing = true;
+  }
+
+  let weekdays: number[] = [];
+  if (/\bweekends\b/i.test(raw)) {
+    weekdays = [6, 7];
+    standing = true;
+  } else if (/\b(?:weekdays|weeknights)\b/i.test(raw)) {
+    weekdays = [1, 2, 3, 4, 5];
+    standing = true;
+  } else {
+    for (const { weekday, re, plural } of WEEKDAYS) {
+      if (plural.test(raw)) {
+        weekdays.push(weekday);
+        standing = true;
+      } else if (re.test(raw)) {
+        weekdays.push(weekday);
+      }
+    }
+  }
+
+  if (!standing || (!hasTime && weekdays.length === 0)) return null;
+  return { kind: "weekly", weekdays, startMinute, endMinute };
+}
+
+/** The text also answers the invite (yes / no / maybe), not just states availability. */
+export function hasRsvpWording(text: string): boolean {
+  return RSVP_RE.test((text ?? "").replace(/[’‘]/g, "'"));
+}
+
+/**
+ * Spot a homie telling us when they can't make it: a blackout ("I'm away until the
+ * 20th", "out of town this week", "traveling for 2 weeks"), a standing preference
+ * ("never before 8am", "no Sundays", "nothing after 9pm on weeknights"), or that it's
+ * over ("I'm back").
+ *
+ * Deterministic on purpose, like the other homie-side parsers. A one-off "can't do
+ * Sunday" is a reply to that invite, not a rule, so weekly rules need standing
+ * wording ("never", "Sundays", "weekends").
+ */
+export function parseAvailabilityStatement(args: {
+  text: string;
+  now: Date;
+  timeZone: string;
+}): AvailabilityStatement | null {
+  const raw = (args.text ?? "").trim().replace(/[’‘]/g, "'");
+  if (!raw) return null;
+
+  if (CLEAR_ALL_RE.test(raw)) return { kind: "clear", scope: "all" };
+  if (CLEAR_BLACKOUTS_RE.test(raw)) return { kind: "clear", scope: "blackouts" };
+
+  const now = DateTime.fromJSDate(args.now).setZone(args.timeZone);
+  return parseBlackout(raw, now) ?? parseWeekly(raw);
+}
@@ -0,0 +1,135 @@
+import { DateTime } from "luxon";
+import {
+  anchorTimeOfDayToExplicitDayOffset,
+  anchorTimeOfDayToNow,
+  anchorTimeOfDayToReferenceDay,
+  anchorTimeOfDayToWeekdayOffset,
+  detectExplicitDayOffset,
+  detectWeekdayDayOffset,
+  parseSimpleTimeOfDay,
+  parseTimeRangeOfDay,
+} from "./smsTimeParsing";
+
+/** Cap so a preview/invite SMS stays readable. */
+export const MAX_CANDIDATE_TIME_OPTIONS = 4;
+
+export type CandidateTimeOption = {
+  /** ISO-8601 with explicit offset. */
+  startIso: string;
+  /** Only present when the option was given as a range ("9-11am"). */
+  endIso?: string;
+};
+
+// "done by 11am", "until noon", "wrapping up at 11": the end of the option before it.
+const END_TIME_RE =
+  /\b(?:done|finish(?:ed|ing)?|wrap(?:s|ping)?\s+up|over|end(?:s|ing)?|until|til|till|by)\b/i;
+
+function toIso(dt: DateTime): string {
+  return dt.toISO({ suppressMilliseconds: true }) ?? dt.toISO() ?? "";
+}
+
+/**
+ * Parse "Saturday 9am or Sunday 10am" style messages into multiple candidate times.
+ *
+ * Returns null unless at least TWO distinct options were found, so callers can keep
+ * using the single-time parsing for everything else. Options come back sorted by start.
+ *
+ * Only "or" and list separators offer alternatives: a listed part that gives an end
+ * ("9am, done by 11am") ends the option before it instead of adding one.
+ *
+ * Day anchoring per option:
+ * - explicit "today"/"tomorrow" or a weekday name in that option
+ * - else inherit the previous option's day ("sat 9am or 11am")
+ * - else the closest future occurrence of the time
+ */
+export function parseCandidateTimeOptions(args: {
+  text: string;
+  userTimezone: string;
+  now: DateTime;
+}): CandidateTimeOption[] | null {
+  const raw = (args.text ?? "").trim();
+  if (!raw) return null;
+
+  // Keep the separators so a listed end time can be told from an "or" alternative.
+  const parts = raw.split(/(\s+or\s+|[,;]|\n)/i);
+  const segments: Array<{ text: string; afterOr: boolean }> = [];
+  for (let i = 0; i < parts.length; i += 2) {
+    const text = parts[i].trim();
+    if (text) segments.push({ text, afterOr: i > 0 && /\bor\b/i.test(parts[i - 1]) });
+  }
+  if (segments.length < 2) return null;
+
+  const base = args.now.setZone(args.userTimezone);
+  if (!base.isValid) return null;
+
+  const out: CandidateTimeOption[] = [];
+  const seen = new Set<number>();
+  let inheritedDay: DateTime | null = null;
+
+  for (const { text: seg, afterOr } of segments) {
+    const range = parseTimeRangeOfDay(seg);
+    const startTod = range?.start ?? parseSimpleTimeOfDay(seg);
+    if (!startTod) continue;
+
+    const previous = out[out.length - 1];
+    if (!afterOr && !range && previous && END_TIME_RE.test(seg)) {
+      if (!previous.endIso) {
+        const prevStart = DateTime.fromISO(previous.startIso, { setZone: true });
+        let end = anchorTimeOfDayToReferenceDay({ reference: prevStart, tod: startTod });
+        if (end <= prevStart) end = end.plus({ days: 1 });
+        previous.endIso = toIso(end);
+      }
+      continue;
+    }
+
+    const explicitOffset = detectExplicitDayOffset(seg);
+    const weekdayOffset = detectWeekdayDayOffset(seg, base);
+
+    let start: DateTime;
+    if (typeof explicitOffset === "number") {
+      start = anchorTimeOfDayToExplicitDayOffset({
+        userTimezone: args.userTimezone,
+        now: base,
+        tod: startTod,
+        dayOffset: explicitOffset,
+      });
+    } else if (typeof weekdayOffset === "number") {
+      start = anchorTimeOfDayToWeekdayOffset({
+        userTimezone: args.userTimezone,
+        now: base,
+        tod: startTod,
+        dayOffset: weekdayOffset,
+      });
+    } else if (inheritedDay) {
+      start = anchorTimeOfDayToReferenceDay({ reference: inheritedDay, tod: startTod });
+    } else {
+      start = anchorTimeOfDayToNow({
+        userTimezone: args.userTimezone,
+        now: base,
+        tod: startTod,
+      });
+    }
+
+    inheritedDay = start;
+
+    const key = start.toMillis();
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    let endIso: string | undefined;
+    if (range) {
+      let end = anchorTimeOfDayToReferenceDay({ reference: start, tod: range.end });
+      // Overnight support: if end <= start, bump end to the next day.
+      if (end <= start) end = end.plus({ days: 1 });
+      endIso = toIso(end);
+    }
+
+    out.push({ startIso: toIso(start), ...(endIso ? { endIso } : {}) });
+    if (out.length >= MAX_CANDIDATE_TIME_OPTIONS) break;
+  }
+
+  if (out.length < 2) return null;
+
+  // Option numbers follow start time everywhere (preview, invites, "lock in N").
+  return out.sort((a, b) => Date.parse(a.startIso) - Date.parse(b.startIso));
+}
@@ -1,4 +1,5 @@
 import type { EventInvitePolicy } from "@prisma/client";
+import type { RecurrenceRequest } from "./seriesParsing";
 
 export type PendingEventDraft = {
   /** Used mainly for display and for safer event creation. */
@@ -50,6 +51,25 @@ export type PendingEventDraft = {
 
   inviteMessage?: string | null;
 
+  /** Invite response window the creator asked for (minutes, clamped); absent => their default. */
+  inviteResponseMinutes?: number;
+
+  /** Plus-ones each homie may bring ("no plus ones" => 0); absent => the creator's default. */
+  maxGuestsPerMember?: number;
+
+  /** Set when the plan repeats ("every Tuesday"); confirming also creates an EventSeries. */
+  recurrence?: RecurrenceRequest;
+
+  /** MemberGroup the plan drew from ("3 from trail crew"); absent => all homies. */
+  memberGroupId?: string;
+  memberGroupNameForSms?: string;
+
+  /**
+   * Extra candidate times ("Sat 9am or Sun 10am"); startIso/endIso is option 1.
+   * When present, homies vote and the creator locks one in after creation.
+   */
+  alternateSlots?: Array<{ startIso: string; endIso: string }>;
+
   /** The preview SMS text we sent (so the analyzer can reference it). */
   previewSms: string;
   previewSentAtIso: string;
@@ -92,6 +112,12 @@ export type ActiveEventDraft = {
   /** Optional extracted duration (minutes). */
   durationMinutes?: number;
 
+  /**
+   * Extra candidate times beyond startIso/endIso (option 1).
+   * endIso is omitted when the user only gave start times; we reuse option 1's duration.
+   */
+  alternateSlots?: Array<{ startIso: string; endIso?: string }>;
+
   /**
    * Names the user explicitly asked to invite (if any), in the order they were specified.
    * These are strings (not ids) because we may not have enough info to resolve to ids yet.
@@ -120,13 +146,52 @@ export type ActiveEventDraft = {
     askedAtIso: string;
   };
 
+  /**
+   * Set after asking "Did you mean Larry Buck or Larry Smith?" about a name in
+   * `preferredNames`; the next reply picks one.
+   */
+  pendingHomieChoice?: {
+    name: string;
+    candidateMemberIds: string[];
+    askedAtIso: string;
+  };
+
+  /**
+   * Answers to those questions: the name as written (lowercased) => the homie's full
+   * name, or "" when the creator turned a spelling suggestion down (name dropped).
+   */
+  homieNameChoices?: Record<string, string>;
+
   /** Optional note/instruction to share with invited members. */
   inviteMessage?: string | null;
 
+  /** "give them 2 hours to reply" (minutes, clamped). */
+  inviteResponseMinutes?: number;
+
+  /** "allow plus ones" / "no guests" (plus-ones per homie, clamped). */
+  maxGuestsPerMember?: number;
+
+  /** "every Tuesday" / "first Friday of the month". */
+  recurrence?: RecurrenceRequest;
+
+  /** "3 from trail crew": fillers and backups come from this MemberGroup only. */
+  memberGroupId?: string;
+
   /** Timestamp for debugging / potential expiry. */
   updatedAtIso: string;
 };
 
+export type PendingEventChange = {
+  action: "cancel" | "reschedule";
+  /** The creator's request ("push it to 8pm"), so a picked event can still get its new time. */
+  requestText: string;
+  /** Set once the event is known (asked for the time). */
+  eventId?: string;
+  /** Events offered in "Which one…?" (asked which). */
+  candidateEventIds?: string[];
+  askedAtIso: string;
+};
+
 export type ConversationState = {
   /**
    * Compact, durable memory used across multiple event-planning “sessions”.
@@ -150,6 +215,24 @@ export type ConversationState = {
 
   /** New: draft details being collected for the current planning session. */
   activeDraft?: ActiveEventDraft;
+
+  /**
+   * Set when we asked "Which activity is this for?"; the next reply picks an
+   * existing activity or names a new one.
+   */
+  pendingActivityChoice?: { askedAtIso: string };
+
+  /** Awaiting YES/NO before deleting a homie who has event history. */
+  pendingHomieRemoval?: { memberId: string; askedAtIso: string };
+
+  /** Asked "What’s Curly’s new number?"; the next message with a number updates them. */
+  pendingHomiePhoneUpdate?: { memberId: string; askedAtIso: string };
+
+  /**
+   * Asked "Which one should I move?" or "What time should I move it to?" about a
+   * cancel/move of an event that already went out; the next reply answers it.
+   */
+  pendingEventChange?: PendingEventChange;
 };
 
 export function asConversationState(
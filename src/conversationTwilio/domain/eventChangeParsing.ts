@@ -0,0 +1,205 @@
+import { DateTime } from "luxon";
+import {
+  anchorTimeOfDayToExplicitDayOffset,
+  anchorTimeOfDayToReferenceDay,
+  anchorTimeOfDayToWeekdayOffset,
+  detectExplicitDayOffset,
+  detectWeekdayDayOffset,
+  parseSimpleTimeOfDay,
+  parseTimeRangeOfDay,
+  type ParsedTimeOfDay,
+} from "./smsTimeParsing";
+
+/**
+ * Cheap pre-gate before the LLM intent check so ordinary scheduling messages
+ * ("tennis tomorrow at 7") never pay for it.
+ */
+export function looksLikeEventChangeRequest(text: string): boolean {
+  const t = (text ?? "").toLowerCase();
+  if (!t.trim()) return false;
+  return /\b(cancel|cancell?ed|call(?:ing)? (?:it )?off|call off|not happening|scrap|push|move|moving|reschedule|postpone|delay|bump|later|earlier)\b/.test(
+    t,
+  );
+}
+
+export type ChangeTargetEvent = {
+  eventId: string;
+  activityName: string | null;
+  /** Earliest live slot start. */
+  start: Date;
+};
+
+export type ChangeTargetResolution =
+  | { kind: "resolved"; eventId: string }
+  | { kind: "ambiguous"; eventIds: string[] }
+  | { kind: "none" };
+
+/**
+ * The upcoming events a message points at by activity name or day ("Saturday's run",
+ * "tomorrow's tennis"). `hinted` is false when it names none of them (all returned).
+ */
+export function narrowChangeTargetEvents(args: {
+  text: string;
+  events: ChangeTargetEvent[];
+  timeZone: string;
+  now: DateTime;
+}): { events: ChangeTargetEvent[]; hinted: boolean } {
+  const t = (args.text ?? "").toLowerCase();
+  const nowTz = args.now.setZone(args.timeZone);
+  let pool = args.events;
+  let hinted = false;
+
+  const byActivity = pool.filter((e) => {
+    const name = (e.activityName ?? "").trim().toLowerCase();
+    return name.length > 0 && t.includes(name);
+  });
+  if (byActivity.length > 0) {
+    pool = byActivity;
+    hinted = true;
+  }
+
+  const explicitOffset = detectExplicitDayOffset(t);
+  const weekdayOffset = detectWeekdayDayOffset(t, nowTz);
+  const dayOffset = explicitOffset ?? weekdayOffset;
+  if (typeof dayOffset === "number") {
+    const day = nowTz.startOf("day").plus({ days: dayOffset });
+    const sameDay = (e: ChangeTargetEvent) =>
+      DateTime.fromJSDate(e.start, { zone: args.timeZone }).hasSame(day, "day") ||
+      // Weekday names can mean next week's occurrence.
+      (explicitOffset === null &&
+        DateTime.fromJSDate(e.start, { zone: args.timeZone }).hasSame(day.plus({ days: 7 }), "day"));
+    const byDay = pool.filter(sameDay);
+    // A day in a reschedule ("move it to sunday") is the NEW day, so only narrow when it matches.
+    if (byDay.length > 0) {
+      pool = byDay;
+      hinted = true;
+    }
+  }
+
+  return { events: pool, hinted };
+}
+
+/**
+ * Pick which upcoming event "cancel Saturday's run" / "push it to 8pm" is about.
+ *
+ * Hints (activity name, weekday, today/tomorrow) narrow the list; without hints we
+ * fall back to the most recently created event, then to the only upcoming event.
+ */
+export function resolveChangeTargetEvent(args: {
+  text: string;
+  events: ChangeTargetEvent[];
+  lastCreatedEventId?: string | null;
+  timeZone: string;
+  now: DateTime;
+}): ChangeTargetResolution {
+  if (args.events.length === 0) return { kind: "none" };
+
+  const { events: pool, hinted } = narrowChangeTargetEvents(args);
+  if (pool.length === 1) return { kind: "resolved", eventId: pool[0].eventId };
+
+  if (!hinted) {
+    const last = args.lastCreatedEventId
+      ? pool.find((e) => e.eventId === args.lastCreatedEventId)
+      : undefined;
+    if (last) return { kind: "resolved", eventId: last.eventId };
+  }
+
+  return { kind: "ambiguous", eventIds: pool.map((e) => e.eventId) };
+}
+
+export type RescheduleTime = { start: DateTime; end: DateTime };
+
+function shiftMinutesFromText(t: string): number | null {
+  const m = t.match(
+    /\b(\d{1,3}|an?|half an?)\s*(m|min|mins|minutes?|h|hr|hrs|hours?)\s*(later|earlier|back|sooner)\b/,
+  );
+  if (!m) return null;
+
+  const qty = m[1] === "a" || m[1] === "an" ? 1 : m[1].startsWith("half") ? 0.5 : Number(m[1]);
+  const unitMinutes = m[2].startsWith("h") ? 60 : 1;
+  const sign = m[3] === "earlier" || m[3] === "sooner" ? -1 : 1;
+  const minutes = Math.round(qty * unitMinutes);
+  return Number.isFinite(minutes) && minutes > 0 ? sign * minutes : null;
+}
+
+/**
+ * Deterministic parsing for the common ways to move an event:
+ * - "push it to 8pm" / "move tennis to sunday 10am" (keeps the duration)
+ * - "move it to 6-8pm"
+ * - "30 min later" / "an hour earlier"
+ * - "move it to sunday" (same time of day)
+ *
+ * Returns null when nothing usable was found (caller falls back to the LLM patch).
+ */
+export function parseRescheduleTime(args: {
+  text: string;
+  currentStart: DateTime;
+  currentEnd: DateTime;
+  timeZone: string;
+  now: DateTime;
+}): RescheduleTime | null {
+  const raw = (args.text ?? "").toLowerCase();
+  if (!raw.trim()) return null;
+
+  const start0 = args.currentStart.setZone(args.timeZone);
+  const end0 = args.currentEnd.setZone(args.timeZone);
+  const durationMs = Math.max(0, end0.toMillis() - start0.toMillis());
+
+  const shift = shiftMinutesFromText(raw);
+  if (shift !== null) {
+    return {
+      start: start0.plus({ minutes: shift }),
+      end: end0.plus({ minutes: shift }),
+    };
+  }
+
+  // The new time usually follows "to" ("move saturday's 9am run to 10am").
+  const toIdx = raw.search(/\bto\b/);
+  const tail = toIdx >= 0 ? raw.slice(toIdx + 2) : raw;
+
+  const explicitOffset = detectExplicitDayOffset(tail);
+  const weekdayOffset = detectWeekdayDayOffset(tail, args.now.setZone(args.timeZone));
+
+  const anchor = (tod: ParsedTimeOfDay): DateTime => {
+    if (typeof explicitOffset === "number") {
+      return anchorTimeOfDayToExplicitDayOffset({
+        userTimezone: args.timeZone,
+        now: args.now,
+        tod,
+        dayOffset: explicitOffset,
+      });
+    }
+    if (typeof weekdayOffset === "number") {
+      return anchorTimeOfDayToWeekdayOffset({
+        userTimezone: args.timeZone,
+        now: args.now,
+        tod,
+        dayOffset: weekdayOffset,
+      });
+    }
+    // No day mentioned => keep the event's current day.
+    return anchorTimeOfDayToReferenceDay({ reference: start0, tod });
+  };
+
+  const range = parseTimeRangeOfDay(tail) ?? (toIdx >= 0 ? null : parseTimeRangeOfDay(raw));
+  if (range) {
+    const start = anchor(range.start);
+    let end = anchorTimeOfDayToReferenceDay({ reference: start, tod: range.end });
+    if (end <= start) end = end.plus({ days: 1 });
+    return { start, end };
+  }
+
+  const tod = parseSimpleTimeOfDay(tail);
+  if (tod) {
+    const start = anchor(tod);
+    return { start, end: start.plus({ milliseconds: durationMs }) };
+  }
+
+  // Day-only move: same time of day on the new day.
+  if (typeof explicitOffset === "number" || typeof weekdayOffset === "number") {
+    const start = anchor({ hour24: start0.hour, minute: start0.minute });
+    return { start, end: start.plus({ milliseconds: durationMs }) };
+  }
+
+  return null;
+}
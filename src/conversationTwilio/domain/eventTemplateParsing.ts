@@ -0,0 +1,102 @@
+export type PastEventReference =
+  /** "same as last time" / "same again": the creator's latest event. */
+  | { kind: "latest"; matchedText: string }
+  /** "same thing as last Saturday": their latest past event on that weekday (1 = Monday). */
+  | { kind: "weekday"; weekday: number; matchedText: string }
+  /** "same as sunday run" / "use my poker template": a saved template or a past activity. */
+  | { kind: "named"; name: string; matchedText: string };
+
+export type SaveTemplateCommand = {
+  name: string;
+};
+
+const WEEKDAYS: Array<[RegExp, number]> = [
+  [/^mon/i, 1],
+  [/^tue/i, 2],
+  [/^wed/i, 3],
+  [/^thu/i, 4],
+  [/^fri/i, 5],
+  [/^sat/i, 6],
+  [/^sun/i, 7],
+];
+const WEEKDAY = "(?:mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?|sun)(?:day)?";
+
+// "same as", "same thing as", "same deal as", "just like" (bare "like" only for "like last time")
+const SAME_AS = "(?:(?:the\\s+)?same(?:\\s+(?:thing|deal|plan|setup))?\\s+(?:as|like)|just\\s+like)";
+// Where a reference ends: a clause break, or the rest of the plan ("... but at 8", "... tomorrow").
+const REFERENCE_END =
+  "(?=\\s*(?:[.,!?;]|$)|\\s+(?:but|at|on|tomorrow|today|tonight|this|next|from|for|with|and)\\b)";
+
+// "same as last time", "same as before", "like usual", "same again", "run it back"
+const LATEST_RE = new RegExp(
+  `\\b(?:(?:${SAME_AS}|like)\\s+(?:last\\s+time|before|last\\s+one|the\\s+last\\s+one|usual|the\\s+usual|last\\s+week)|same\\s+(?:thing\\s+)?again|run\\s+it\\s+back)\\b`,
+  "i",
+);
+// "same thing as last Saturday", "like Sunday's"
+const WEEKDAY_RE = new RegExp(
+  `\\b${SAME_AS}\\s+(?:last\\s+|on\\s+)?(${WEEKDAY})(?:'?s)?${REFERENCE_END}`,
+  "i",
+);
+// "use my sunday run template", "from the poker template"
+const TEMPLATE_RE = /\b(?:use|from|with)\s+(?:my\s+|the\s+|our\s+)?["“]?([a-z0-9][a-z0-9' &-]{0,38}?)["”]?\s+template\b/i;
+// "same as sunday run", "just like the poker night" (up to a clause break or a time word)
+const NAMED_RE = new RegExp(
+  `\\b${SAME_AS}\\s+(?:the\\s+|my\\s+|our\\s+)?["“]?([a-z0-9][a-z0-9' &-]{1,38}?)["”]?${REFERENCE_END}`,
+  "i",
+);
+
+// "save this as sunday run", "save that as a template called poker", "save as template: long run"
+const SAVE_RE =
+  /^\s*save\s+(?:this|that|it|(?:the\s+)?last\s+(?:one|event|plan))?\s*as\s+(?:a\s+|my\s+)?(?:template\s*)?(?:called\s+|named\s+|:\s*)?["“]?(.+?)["”]?\s*[.!]*\s*$/i;
+
+function weekdayNumber(raw: string): number | null {
+  for (const [re, n] of WEEKDAYS) if (re.test(raw)) return n;
+  return null;
+}
+
+/**
+ * Spot a plan that points at an earlier one: "same as last time", "same thing as last
+ * Saturday", "same as sunday run", "use my poker template".
+ *
+ * Deterministic on purpose, like the other draft-setting parsers. `matchedText` is
+ * returned so the caller can keep "Saturday" out of the time parsing.
+ */
+export function parsePastEventReference(text: string): PastEventReference | null {
+  const raw = (text ?? "").trim().replace(/[’‘]/g, "'");
+  if (!raw) return null;
+
+  let m = raw.match(LATEST_RE);
+  if (m) return { kind: "latest", matchedText: m[0] };
+
+  m = raw.match(WEEKDAY_RE);
+  if (m) {
+    const weekday = weekdayNumber(m[1]);
+    if (weekday) return { kind: "weekday", weekday, matchedText: m[0] };
+  }
+
+  m = raw.match(TEMPLATE_RE) ?? raw.match(NAMED_RE);
+  if (m) {
+    const name = m[1].trim();
+    // "like 7pm" / "like 5 people" aren't references.
+    if (name && !/^\d/.test(name)) return { kind: "named", name, matchedText: m[0] };
+  }
+  return null;
+}
+
+/** "save this as sunday run" => { name: "sunday run" }. */
+export function parseSaveTemplateCommand(text: string): SaveTemplateCommand | null {
+  const m = (text ?? "").replace(/[’‘]/g, "'").match(SAVE_RE);
+  const name = (m?.[1] ?? "").trim().replace(/\s+/g, " ");
+  if (!name || name.length > 40) return null;
+  return { name };
+}
+
+/** Loose name key for matching templates / activities ("The Sunday Run!" ~ "sunday run"). */
+export function normalizeTemplateName(name: string): string {
+  return (name ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/\b(?:the|my|our)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,80 @@
+export type GuestPolicyRequest = {
+  /** Plus-ones each homie may bring, unclamped; 0 => none. */
+  maxGuests: number;
+  /** "default" when the creator wants it for all their events ("by default", "always"). */
+  scope: "event" | "default";
+  /** True when the message is just this request (nothing else to schedule from it). */
+  standalone: boolean;
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+};
+
+const GUESTS = "(?:plus[- ]?ones?|\\+1s?|guests?|friends?|extra people)";
+
+// "no plus ones", "don't allow guests", "no +1s"
+const DENY_RE = new RegExp(
+  `\\b(?:no|don'?t allow|do not allow|disallow|not allowing|without)\\s+${GUESTS}`,
+  "i",
+);
+// "up to 2 guests each", "homies can bring 2 friends", "allow 1 plus one"
+const ALLOW_N_RE = new RegExp(
+  `(?:\\bup to|\\bbring|\\ballow|\\bmax(?:imum)?(?: of)?)\\s+(\\d+|a|an|one|two|three|four|five)\\s+${GUESTS}`,
+  "i",
+);
+// "allow plus ones", "plus ones are fine", "+1s ok"
+const ALLOW_RE = new RegExp(
+  `(?:\\b(?:allow|allowing)\\s+${GUESTS}|${GUESTS}\\s+(?:are\\s+|is\\s+)?(?:ok|okay|fine|allowed|welcome)\\b)`,
+  "i",
+);
+
+const DEFAULT_SCOPE_RE =
+  /\b(?:by default|default|always|from now on|going forward|all (?:my|of my) (?:events|invites|plans))\b/i;
+
+// Words that can surround the request without making it "more than" the request.
+const FILLER_RE =
+  /\b(?:please|pls|ok|okay|and|also|actually|just|let|lets|let's|homies|people|everyone|folks|invitees|can|could|should|each|per|person|homie|for|this|one|event|plan|the|my|to|are|is|by|default|always|from|now|on|going|forward|all|of|events|plans|invites)\b/gi;
+
+/**
+ * Spot a creator setting the plus-one rule: "allow plus ones", "no guests",
+ * "homies can bring up to 2 friends", "by default no plus ones".
+ *
+ * Deterministic on purpose, like the reply-window parser: only explicit guest
+ * wording counts, so "bring a jacket" is left alone.
+ */
+export function parseGuestPolicy(text: string): GuestPolicyRequest | null {
+  const raw = (text ?? "").trim();
+  if (!raw) return null;
+
+  let maxGuests: number;
+  let match = raw.match(DENY_RE);
+  if (match) {
+    maxGuests = 0;
+  } else if ((match = raw.match(ALLOW_N_RE))) {
+    const amount = match[1].toLowerCase();
+    maxGuests = /^\d+$/.test(amount) ? Number.parseInt(amount, 10) : (NUMBER_WORDS[amount] ?? 1);
+  } else if ((match = raw.match(ALLOW_RE))) {
+    maxGuests = 1;
+  } else {
+    return null;
+  }
+
+  const scope = DEFAULT_SCOPE_RE.test(raw) ? "default" : "event";
+
+  const leftover = raw
+    .replace(match[0], " ")
+    .replace(FILLER_RE, " ")
+    .replace(/[^a-z0-9\s]/gi, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return { maxGuests, scope, standalone: leftover.length <= 2 };
+}
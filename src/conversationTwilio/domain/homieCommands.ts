@@ -0,0 +1,150 @@
+import type { Member } from "@prisma/client";
+import { normalizeUsPhoneToE164 } from "../../utils/phoneNumber";
+import { fullNameForMember } from "./homies";
+
+export type HomieCommand =
+  | { kind: "list" }
+  | { kind: "add"; firstName: string; lastName: string; phoneText: string }
+  | { kind: "remove"; name: string }
+  | { kind: "update_phone"; name: string; phoneText: string | null };
+
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]?\d{4}/;
+
+/** First US-looking phone number in the text, as typed. */
+export function findPhoneTextInMessage(text: string): string | null {
+  const m = (text ?? "").match(PHONE_PATTERN);
+  return m ? m[0] : null;
+}
+
+/** E.164 or null (never throws, unlike normalizeUsPhoneToE164). */
+export function tryNormalizeUsPhone(text: string): string | null {
+  try {
+    return normalizeUsPhoneToE164(text);
+  } catch {
+    return null;
+  }
+}
+
+function cleanName(raw: string): string {
+  return (raw ?? "")
+    .replace(/[“”"]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(/[.,!?:;-]+$/, "")
+    .trim();
+}
+
+/**
+ * Deterministic homie-management commands:
+ * - "send me my homies" / "list my homies"
+ * - "add Jake Smith 555-123-4567" (a phone number is required, so "add Jake" while
+ *   editing a draft still means "invite Jake")
+ * - "remove Moe" (only outside a draft, or when the user says "from my homies")
+ * - "update Curly's number [to 555-…]" / "Curly's new number is 555-…"
+ */
+export function parseHomieCommand(args: {
+  text: string;
+  /** True while a draft is being collected or confirmed ("remove Moe" edits the invite list). */
+  draftInProgress: boolean;
+}): HomieCommand | null {
+  const raw = (args.text ?? "").trim();
+  if (!raw) return null;
+  const t = raw.toLowerCase().replace(/[^a-z0-9\s]/g, "").replace(/\s+/g, " ").trim();
+
+  if (
+    /^(send me|show me|list|text me|what are|who are) (all )?my (homies|contacts)( list)?$/.test(t)
+  ) {
+    return { kind: "list" };
+  }
+
+  const phoneText = findPhoneTextInMessage(raw);
+
+  const add = raw.match(/^(?:add|save)\s+(?:(?:a\s+)?(?:new\s+)?homie[:\s]+)?(.+)$/i);
+  if (add && phoneText) {
+    const name = cleanName(add[1].replace(phoneText, " "));
+    const parts = name.split(" ").filter(Boolean);
+    if (parts.length > 0 && parts.length <= 4 && !/\d/.test(name)) {
+      return {
+        kind: "add",
+        firstName: parts[0],
+        lastName: parts.slice(1).join(" "),
+        phoneText,
+      };
+    }
+  }
+
+  const update =
+    raw.match(
+      /^(?:update|change|fix|new)\s+(.+?)(?:'s|’s)\s+(?:phone\s+number|number|phone|cell)(?:\s+(?:to|is)\s*:?\s*(.+))?$/i,
+    ) ?? raw.match(/^(.+?)(?:'s|’s)\s+new\s+(?:phone\s+number|number|phone|cell)\s+is\s*:?\s*(.+)$/i);
+  if (update) {
+    const name = cleanName(update[1]);
+    if (name) {
+      return {
+        kind: "update_phone",
+        name,
+        phoneText: update[2] ? (findPhoneTextInMessage(update[2]) ?? update[2].trim()) : null,
+      };
+    }
+  }
+
+  const remove = raw.match(
+    /^(?:remove|delete)\s+(.+?)(\s+from\s+(?:my\s+)?(?:homies|homie list|contacts))?[.!]*$/i,
+  );
+  if (remove && (!args.draftInProgress || remove[2])) {
+    const name = cleanName(remove[1]);
+    if (name && !/\d/.test(name) && name.split(" ").length <= 4) {
+      return { kind: "remove", name };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Homies matching a name from an SMS: full name first, then first name, then last name.
+ * More than one result means the user needs to be more specific.
+ */
+export function findHomiesByName(args: { name: string; homies: Member[] }): Member[] {
+  const wanted = args.name.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!wanted) return [];
+
+  const byFull = args.homies.filter((m) => fullNameForMember(m).toLowerCase() === wanted);
+  if (byFull.length > 0) return byFull;
+
+  const byFirst = args.homies.filter((m) => m.first_name.trim().toLowerCase() === wanted);
+  if (byFirst.length > 0) return byFirst;
+
+  return args.homies.filter((m) => m.last_name.trim().toLowerCase() === wanted);
+}
+
+export type HomieDuplicate = { reason: "name" | "phone"; member: Member };
+
+/** Same full name or same phone as an existing homie. */
+export function findDuplicateHomie(args: {
+  homies: Member[];
+  firstName: string;
+  lastName: string;
+  phoneE164: string;
+}): HomieDuplicate | null {
+  const samePhone = args.homies.find((m) => m.phone_number === args.phoneE164);
+  if (samePhone) return { reason: "phone", member: samePhone };
+
+  const fullName = `${args.firstName} ${args.lastName}`.trim().toLowerCase();
+  const sameName = args.homies.find((m) => fullNameForMember(m).toLowerCase() === fullName);
+  if (sameName) return { reason: "name", member: sameName };
+
+  return null;
+}
+
+/** "(555) 123-4567" for +15551234567; other formats pass through. */
+export function formatUsPhoneForSms(phone: string | null | undefined): string {
+  const m = (phone ?? "").match(/^\+1(\d{3})(\d{3})(\d{4})$/);
+  return m ? `(${m[1]}) ${m[2]}-${m[3]}` : (phone ?? "").trim();
+}
+
+export function isAffirmativeReply(text: string): boolean {
+  return /^\s*(yes|yep|yeah|y|sure|ok|okay|do it|confirm|remove( (them|him|her|it))?|delete( (them|him|her|it))?)\s*[.!]*\s*$/i.test(
+    text ?? "",
+  );
+}
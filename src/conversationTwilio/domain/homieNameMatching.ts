@@ -0,0 +1,164 @@
+import type { Member } from "@prisma/client";
+
+export type HomieNameMatch =
+  | { kind: "matched"; member: Member }
+  /**
+   * The creator has to pick: several homies fit equally well ("Larry" => Larry Buck,
+   * Larry Smith), or only a close spelling does ("Jake" => Jack Smith).
+   */
+  | { kind: "ambiguous"; name: string; candidates: Member[] }
+  | { kind: "none"; name: string };
+
+export type AmbiguousHomieName = { name: string; candidates: Member[] };
+
+function normalize(s: string): string {
+  return (s ?? "")
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[^a-z0-9'\s-]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j++) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+/** Typos tolerated: 1 for short names ("Mikey" ~ "Mike"), 2 from 8 characters ("Jake Smtih"). */
+function maxTypos(name: string): number {
+  return name.length >= 8 ? 2 : name.length >= 4 ? 1 : 0;
+}
+
+/**
+ * Match a name from an SMS (or the LLM) to one homie, most specific rule first:
+ * full name, nickname (`Member.aliases`), first name, last name, then a prefix of
+ * the first name / full name ("Phin", "Larry B"), then a close spelling.
+ *
+ * The first rule with any hit decides; several hits there come back as ambiguous so
+ * the caller can ask "Did you mean ...?". A close spelling is never taken on its own
+ * ("Jake" could be a homie who isn't saved yet, not Jack), so it always asks.
+ */
+export function matchHomieName(args: { name: string; homies: Member[] }): HomieNameMatch {
+  const name = args.name.trim();
+  const wanted = normalize(name);
+  if (!wanted) return { kind: "none", name };
+
+  const keyed = args.homies.map((m) => ({
+    m,
+    full: normalize(`${m.first_name} ${m.last_name}`),
+    first: normalize(m.first_name),
+    last: normalize(m.last_name),
+    aliases: (m.aliases ?? []).map(normalize).filter(Boolean),
+  }));
+
+  const rules: Array<(k: (typeof keyed)[number]) => boolean> = [
+    (k) => k.full === wanted,
+    (k) => k.aliases.includes(wanted),
+    (k) => k.first === wanted,
+    (k) => k.last === wanted,
+    (k) =>
+      wanted.length >= 3 &&
+      (k.first.startsWith(wanted) ||
+        k.full.startsWith(wanted) ||
+        k.aliases.some((a) => a.startsWith(wanted))),
+  ];
+
+  for (const rule of rules) {
+    const hits = keyed.filter(rule).map((k) => k.m);
+    if (hits.length === 1) return { kind: "matched", member: hits[0] };
+    if (hits.length > 1) return { kind: "ambiguous", name, candidates: hits };
+  }
+
+  const limit = maxTypos(wanted);
+  if (limit === 0) return { kind: "none", name };
+
+  let best = Infinity;
+  let closest: Member[] = [];
+  for (const k of keyed) {
+    const d = Math.min(...[k.full, k.first, ...k.aliases].map((c) => levenshtein(wanted, c)));
+    if (d > limit || d > best) continue;
+    if (d < best) {
+      best = d;
+      closest = [];
+    }
+    closest.push(k.m);
+  }
+
+  if (closest.length > 0) return { kind: "ambiguous", name, candidates: closest };
+  return { kind: "none", name };
+}
+
+/**
+ * Resolve several names at once, keeping order and dropping repeats. Names that fit
+ * nobody or several homies are reported instead of guessed.
+ */
+export function resolveHomieNames(args: { names: string[]; homies: Member[] }): {
+  members: Member[];
+  ambiguous: AmbiguousHomieName[];
+  unknownNames: string[];
+} {
+  const members: Member[] = [];
+  const ambiguous: AmbiguousHomieName[] = [];
+  const unknownNames: string[] = [];
+
+  for (const raw of args.names) {
+    if (!raw.trim()) continue;
+    const match = matchHomieName({ name: raw, homies: args.homies });
+    if (match.kind === "matched") {
+      if (!members.some((m) => m.member_id === match.member.member_id)) members.push(match.member);
+    } else if (match.kind === "ambiguous") {
+      if (!ambiguous.some((a) => a.name.toLowerCase() === match.name.toLowerCase())) {
+        ambiguous.push({ name: match.name, candidates: match.candidates });
+      }
+    } else if (!unknownNames.includes(match.name)) {
+      unknownNames.push(match.name);
+    }
+  }
+
+  return { members, ambiguous, unknownNames };
+}
+
+/** "Did you mean Larry Buck or Larry Smith?" / "Did you mean Jack Smith?" */
+export function buildWhichHomieQuestion(ambiguous: AmbiguousHomieName): string {
+  const names = ambiguous.candidates.map((m) => `${m.first_name} ${m.last_name}`.trim());
+  const list =
+    names.length <= 2
+      ? names.join(" or ")
+      : `${names.slice(0, -1).join(", ")}, or ${names[names.length - 1]}`;
+  return `Did you mean ${list}?`;
+}
+
+/**
+ * The creator's answer to "Did you mean Larry Buck or Larry Smith?": a name ("Buck",
+ * "larry smith") or the option's position ("2", "the second one"), or "yes" when
+ * there was just one suggestion. Null if it picks none of them.
+ */
+export function parseHomieChoiceReply(args: { text: string; candidates: Member[] }): Member | null {
+  const t = normalize(args.text);
+  if (!t) return null;
+
+  if (
+    args.candidates.length === 1 &&
+    /^(?:yes|yep|yeah|yup|y|ya|correct|right|that one|that's (?:him|her|them|right)|thats (?:him|her|them|right))$/.test(t)
+  ) {
+    return args.candidates[0];
+  }
+
+  const ordinals = ["first", "second", "third", "fourth", "fifth"];
+  const position = /^\d$/.test(t)
+    ? Number(t)
+    : ordinals.findIndex((o) => new RegExp(`^(?:the )?${o}(?: one)?$`).test(t)) + 1;
+  if (position >= 1 && position <= args.candidates.length) return args.candidates[position - 1];
+
+  const match = matchHomieName({ name: t, homies: args.candidates });
+  return match.kind === "matched" ? match.member : null;
+}
@@ -1,4 +1,9 @@
 import type { Member } from "@prisma/client";
+import {
+  buildWhichHomieQuestion,
+  resolveHomieNames,
+  type AmbiguousHomieName,
+} from "./homieNameMatching";
 
 export function fullNameForMember(m: Member): string {
   return `${m.first_name} ${m.last_name}`.trim();
@@ -26,32 +31,91 @@ export function computeMaxParticipantsTotal(
   return null;
 }
 
+/** A MemberGroup with its homies loaded, as the scheduling flow uses it. */
+export type MemberGroupWithMembers = {
+  memberGroupId: string;
+  name: string;
+  members: Member[];
+};
+
+/** Loose key so "the trail crew" / "Trail Crew!" find "Trail Crew". */
+export function normalizeMemberGroupName(name: string): string {
+  return (name ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .replace(/^\s*the\b/, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function findMemberGroupByName(args: {
+  name: string;
+  groups: MemberGroupWithMembers[];
+}): MemberGroupWithMembers | null {
+  const wanted = normalizeMemberGroupName(args.name);
+  if (!wanted) return null;
+  return args.groups.find((g) => normalizeMemberGroupName(g.name) === wanted) ?? null;
+}
+
+/**
+ * Swap any group names in an invite list for the group's homies ("Jake and the trail
+ * crew" => Jake + everyone in Trail Crew), keeping order and dropping repeats.
+ */
+export function expandMemberGroupNames(args: {
+  names: string[];
+  groups: MemberGroupWithMembers[];
+}): string[] {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  const push = (name: string) => {
+    const key = name.trim().toLowerCase();
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    out.push(name);
+  };
+
+  for (const name of args.names) {
+    const group = findMemberGroupByName({ name, groups: args.groups });
+    if (group) group.members.map(fullNameForMember).forEach(push);
+    else push(name);
+  }
+  return out;
+}
+
 export function resolveExplicitHomiesForEvent(args: {
   allMembers: Member[];
+  /** Homie names; a group's name stands for everyone in it. */
   preferredNames: string[];
   /** Max allowed homies (does NOT include the user). */
   maxHomies: number;
-}): { ok: true; preferredMembers: Member[] } | { ok: false; reason: string } {
+  groups?: MemberGroupWithMembers[];
+}):
+  | { ok: true; preferredMembers: Member[] }
+  /** `ambiguous` is set when a name fits several homies (`reason` asks which). */
+  | { ok: false; reason: string; ambiguous?: AmbiguousHomieName[] } {
   const maxHomies = Math.max(0, Math.trunc(args.maxHomies));
 
   if (maxHomies <= 0) {
     return { ok: false, reason: "max_participants must be at least 1" };
   }
 
-  const memberByNameLower = new Map(
-    args.allMembers.map((m) => [fullNameForMember(m).toLowerCase(), m] as const)
-  );
+  const preferredNames = args.groups?.length
+    ? expandMemberGroupNames({ names: args.preferredNames, groups: args.groups })
+    : args.preferredNames;
 
-  const preferredMembers: Member[] = [];
-  for (const name of args.preferredNames) {
-    const m = memberByNameLower.get(name.toLowerCase());
-    if (!m) {
-      return { ok: false, reason: `Could not find homie: ${name}` };
-    }
-    if (!preferredMembers.some((x) => x.member_id === m.member_id)) {
-      preferredMembers.push(m);
-    }
+  // First names, nicknames, and close spellings count ("Jake", "Phin", "Jkae").
+  const resolved = resolveHomieNames({ names: preferredNames, homies: args.allMembers });
+  if (resolved.unknownNames.length) {
+    return { ok: false, reason: `Could not find homie: ${resolved.unknownNames[0]}` };
+  }
+  if (resolved.ambiguous.length) {
+    return {
+      ok: false,
+      reason: buildWhichHomieQuestion(resolved.ambiguous[0]),
+      ambiguous: resolved.ambiguous,
+    };
   }
+  const preferredMembers = resolved.members;
 
   // Explicitly named homies must fit within capacity.
   if (preferredMembers.length > maxHomies) {
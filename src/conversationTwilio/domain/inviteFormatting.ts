@@ -60,18 +60,30 @@ function formatRosterSection(args: {
 
 export function buildCreatorRosterAfterMemberDecisionSms(args: {
   memberName: string;
-  decision: "accepted" | "declined" | "declined_full";
+  decision: "accepted" | "declined" | "waitlisted" | "maybe" | "guests_updated" | "removed";
+  /** For "maybe": when the homie said they'd know, if they did. */
+  decideBy?: Date | null;
+  /** Plus-ones the homie now has (shown for "accepted" / "guests_updated"). */
+  guestCount?: number;
   /** Short, SMS-safe summary of the member's reply (from the inviteResponseAnalyzer). */
   summary?: string;
+  /** Waitlisted homie who just took the freed spot, if any. */
+  promotedName?: string | null;
+  /** True when the homie changed an earlier answer rather than answering the invite. */
+  rsvpChanged?: boolean;
   activityName?: string | null;
   timeSlot: TimeSlot;
   timeZone: string;
   /** If null/undefined, omit the open-spots line (used when max_participants is null). */
   openSpots?: number | null;
   roster: {
+    /** Names carry their plus-ones, e.g. "Sam Smith (+1)". */
     accepted: string[];
     pending: string[]; // invited + messaged
+    maybe: string[];
     declined: string[];
+    /** In promotion order. */
+    waitlisted: string[];
     backups: string[]; // listed
   };
 }): string {
@@ -84,12 +96,39 @@ export function buildCreatorRosterAfterMemberDecisionSms(args: {
   const summary = (args.summary ?? "").trim().slice(0, 300);
   const summarySuffix = summary.length ? ` ${summary}` : "";
 
-  const header =
-    args.decision === "accepted"
-      ? `${args.memberName} is in for ${what} (${when}).${summarySuffix}`
-      : args.decision === "declined_full"
-        ? `${args.memberName} said yes for ${what} (${when}), but it was already full.${summarySuffix}`
-        : `${args.memberName} declined ${what} (${when}).${summarySuffix}`;
+  const guests = Math.max(0, Math.trunc(args.guestCount ?? 0));
+  const subject = `${what} (${when})`;
+
+  const header = (() => {
+    switch (args.decision) {
+      case "accepted": {
+        const changed = args.rsvpChanged ? " changed their RSVP and" : "";
+        const plusGuests = guests > 0 ? ` (+${guests})` : "";
+        return `${args.memberName}${changed} is in for ${subject}${plusGuests}.${summarySuffix}`;
+      }
+      case "guests_updated":
+        return `${args.memberName} updated their plus-ones for ${subject}: ${
+          guests > 0 ? `bringing +${guests}` : "just them now"
+        }.${summarySuffix}`;
+      case "maybe": {
+        const decideBy = args.decideBy
+          ? `, will know by ${formatInviteDeadline({ deadline: args.decideBy, timeZone: args.timeZone })}`
+          : "";
+        return `${args.memberName} is a maybe for ${subject}${decideBy}.${summarySuffix}`;
+      }
+      case "waitlisted":
+        return `${args.memberName} said yes for ${subject}, but it was already full, so they’re on the waitlist.${summarySuffix}`;
+      case "declined":
+        return args.rsvpChanged
+          ? `${args.memberName} changed their RSVP and can’t make ${subject} anymore.${summarySuffix}`
+          : `${args.memberName} declined ${subject}.${summarySuffix}`;
+      case "removed":
+        return `${args.memberName} is off ${subject} since you removed them from your homies.`;
+    }
+  })();
+
+  const promoted = (args.promotedName ?? "").trim();
+  const promotedLine = promoted.length ? `\n${promoted} moved up from the waitlist and is in.` : "";
 
   const rosterIntroLine =
     typeof args.openSpots === "number" && Number.isFinite(args.openSpots)
@@ -107,11 +146,17 @@ export function buildCreatorRosterAfterMemberDecisionSms(args: {
       title: "Pending response",
       names: args.roster.pending,
     }),
+    ...(args.roster.maybe.length
+      ? [formatRosterSection({ title: "Maybe", names: args.roster.maybe })]
+      : []),
     formatRosterSection({ title: "Declined", names: args.roster.declined }),
+    ...(args.roster.waitlisted.length
+      ? [formatRosterSection({ title: "Waitlist", names: args.roster.waitlisted })]
+      : []),
     formatRosterSection({ title: "Backups", names: args.roster.backups }),
   ].join("\n\n");
 
-  return compactSms(`${header}\n\n${roster}`, 1200);
+  return compactSms(`${header}${promotedLine}\n\n${roster}`, 1200);
 }
 
 export function buildMemberInviteSms(args: {
@@ -227,15 +272,23 @@ export function buildMemberInviteReminderSms(args: {
   creatorFirstName: string;
   timeZone: string;
   inviteExpiresAt: Date;
+  /** Set while the homies are still voting between several times. */
+  votingTimeSlots?: TimeSlot[];
 }): string {
   const note = (args.event.invite_message ?? "").trim();
   const what = (args.activityName ?? "hang")?.trim() || "hang";
   const where = (args.event.location ?? "").trim() || "(location TBD)";
 
-  const when = formatInviteWhen({
-    timeSlot: args.timeSlot,
-    timeZone: args.timeZone,
-  });
+  const voting = (args.votingTimeSlots ?? []).length > 1;
+  const when = voting
+    ? `\n${formatTimeSlotOptionLines({
+        timeSlots: args.votingTimeSlots!,
+        timeZone: args.timeZone,
+      }).join("\n")}`
+    : formatInviteWhen({
+        timeSlot: args.timeSlot,
+        timeZone: args.timeZone,
+      });
   const deadline = formatInviteDeadline({
     deadline: args.inviteExpiresAt,
     timeZone: args.timeZone,
@@ -248,7 +301,11 @@ export function buildMemberInviteReminderSms(args: {
     ? pick([`Hi ${firstName},`, `Hello ${firstName},`])
     : pick(["Hi,", "Hello,"]);
 
-  const sms = `${hello} quick reminder from BuckFifty for ${args.creatorFirstName}.\n${what}\nWhen: ${when}\nWhere: ${where}${noteLine}\n\nYour spot is currently yours if you want it, but at ${deadline} I’m going to start inviting others.`;
+  const ask = voting
+    ? `Which times work for you? Reply with the numbers, “all”, or “none”. At ${deadline} I’m going to start inviting others.`
+    : `Your spot is currently yours if you want it, but at ${deadline} I’m going to start inviting others.`;
+
+  const sms = `${hello} quick reminder from BuckFifty for ${args.creatorFirstName}.\n${what}\n${voting ? "Options" : "When"}: ${when}\nWhere: ${where}${noteLine}\n\n${ask}`;
   return compactSms(sms);
 }
 
@@ -279,33 +336,269 @@ export function buildMemberInviteAcknowledgementSms(args: {
   ]);
 }
 
-export function buildMemberInviteFullSms(): string {
-  // Specific message for the case where the homie said “yes” but capacity was already reached.
-  // Keep it short and SMS-friendly.
+export function buildMemberInviteWaitlistedSms(): string {
+  // The homie said “yes” but capacity was already reached. Keep it short and SMS-friendly.
+  return pick([
+    "It just filled up, but you’re on the waitlist. I’ll text you if a spot opens.",
+    "Sorry, it’s full right now. You’re on the waitlist and I’ll let you know if someone drops.",
+  ]);
+}
+
+/**
+ * One sentence telling a homie how their plus-one request went; appended to the
+ * accept acknowledgement or sent on its own for a later change.
+ */
+export function buildMemberGuestsSms(args: {
+  requested: number;
+  granted: number;
+  limitedBy: "not_allowed" | "limit" | "full" | null;
+  maxPerMember: number;
+}): string {
+  if (args.limitedBy === "not_allowed") {
+    return "No plus-ones for this one, so it’s just you.";
+  }
+  if (args.limitedBy === "limit") {
+    return `Plus-ones are capped at ${args.maxPerMember} for this one, so you’re down for +${args.granted}.`;
+  }
+  if (args.limitedBy === "full") {
+    return args.granted > 0
+      ? `There’s only room for +${args.granted}, so that’s what I saved you.`
+      : "There’s no room for extra guests right now, so it’s just you.";
+  }
+  if (args.granted === 0) return "Got it, just you.";
+  return `You’re down for +${args.granted}.`;
+}
+
+/** The homie answered "maybe"; tells them when I'll check back. */
+export function buildMemberMaybeAcknowledgementSms(args: {
+  followUpAt: Date;
+  timeZone: string;
+}): string {
+  const at = formatInviteDeadline({ deadline: args.followUpAt, timeZone: args.timeZone });
   return pick([
-    "Sorry, it just filled up. Hope you can make the next one!",
-    "Sorry, it’s full now. Next time!",
-    "We’re at capacity now. Catch you next time.",
+    `No problem. I’ll check back ${at}.`,
+    `Got it, you’re a maybe for now. I’ll check back ${at}.`,
   ]);
 }
 
+/** Nudge for a "maybe" at the time they said they'd know. */
+export function buildMemberMaybeFollowUpSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  replyBy: Date;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatInviteWhen({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const by = formatInviteDeadline({ deadline: args.replyBy, timeZone: args.timeZone });
+
+  return compactSms(
+    `Checking back on ${what} (${when}). Can you make it? If I don’t hear back by ${by}, I’ll offer your spot to someone else.`,
+  );
+}
+
+/** The homie tried to change their RSVP too close to the start. */
+export function buildMemberRsvpChangeClosedSms(args: {
+  creatorFirstName: string;
+  change: "accepted_to_declined" | "declined_to_accepted";
+}): string {
+  const who = (args.creatorFirstName ?? "").trim() || "the organizer";
+  if (args.change === "accepted_to_declined") {
+    return compactSms(
+      `It’s too close to start time for me to change your RSVP, so you’re still down as in. Please text ${who} directly if you can’t make it. I let them know.`,
+    );
+  }
+  return compactSms(
+    `It’s too close to start time for me to add you back. Check with ${who} directly. I let them know you’re interested.`,
+  );
+}
+
+/** Creator-facing: a homie asked to change their RSVP after the cutoff; nothing changed. */
+export function buildCreatorRsvpChangeRefusedSms(args: {
+  memberName: string;
+  change: "accepted_to_declined" | "declined_to_accepted";
+  summary?: string;
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const summary = (args.summary ?? "").trim().slice(0, 300);
+  const summarySuffix = summary.length ? ` ${summary}` : "";
+
+  const body =
+    args.change === "accepted_to_declined"
+      ? `Heads up: ${args.memberName} says they can’t make ${what} (${when}) anymore.${summarySuffix} It’s too close to start for RSVP changes, so I kept them on the roster and told them to reach out to you.`
+      : `Heads up: ${args.memberName} wants back in for ${what} (${when}).${summarySuffix} It’s too close to start for RSVP changes, so I told them to check with you.`;
+
+  return compactSms(body, 600);
+}
+
+/** A spot opened up and the homie was moved off the waitlist. */
+export function buildMemberWaitlistPromotedSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  location?: string | null;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const where = (args.location ?? "").trim() || "(location TBD)";
+  const when = formatInviteWhen({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  return compactSms(
+    `${pick(["Good news!", "A spot opened up!"])} You’re off the waitlist for ${what}.\nWhen: ${when}\nWhere: ${where}\nYou’re in. Reply if you can’t make it anymore.`,
+  );
+}
+
+/**
+ * Event-day reminder to an accepted homie: where, the creator's note, and who's coming.
+ * `comingNames` excludes the recipient.
+ */
+export function buildMemberPreEventReminderSms(args: {
+  reminder: "day_before" | "soon";
+  activityName?: string | null;
+  creatorFirstName: string;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  location?: string | null;
+  note?: string | null;
+  comingNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const where = (args.location ?? "").trim() || "(location TBD)";
+  const when = formatInviteWhen({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const note = (args.note ?? "").trim();
+  const coming = args.comingNames.length ? args.comingNames.join(", ") : "just you so far";
+
+  const opener =
+    args.reminder === "day_before"
+      ? pick([`Reminder: ${what} is tomorrow!`, `Heads up: ${what} is tomorrow.`])
+      : pick([`${what} starts soon!`, `Almost time for ${what}!`]);
+
+  return compactSms(
+    `${opener}\nWhen: ${when}\nWhere: ${where}${note ? `\nNote: ${note}` : ""}\nComing: ${coming}\nRunning late or can’t make it? Reply here and I’ll let ${args.creatorFirstName} know.`,
+  );
+}
+
+/** Creator-facing event-day reminder with the current roster. */
+export function buildCreatorPreEventReminderSms(args: {
+  reminder: "day_before" | "soon";
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  location?: string | null;
+  acceptedNames: string[];
+  pendingNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const where = (args.location ?? "").trim() || "(location TBD)";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const opener = args.reminder === "day_before" ? `${what} is tomorrow` : `${what} starts soon`;
+
+  const roster = [
+    formatRosterSection({ title: "Coming", names: args.acceptedNames }),
+    ...(args.pendingNames.length
+      ? [formatRosterSection({ title: "Still deciding", names: args.pendingNames })]
+      : []),
+  ].join("\n\n");
+
+  return compactSms(
+    `${opener} (${when}) at ${where}. I reminded everyone who’s coming and will pass along anyone running late.\n\n${roster}`,
+    1200,
+  );
+}
+
+/** Creator-facing relay of an accepted homie saying they're running late. */
+export function buildCreatorMemberRunningLateSms(args: {
+  memberName: string;
+  activityName?: string | null;
+  /** Parsed delay, if they gave one. */
+  minutesLate?: number | null;
+  /** Their message, relayed as-is. */
+  message: string;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const by = args.minutesLate ? ` (about ${args.minutesLate} min)` : "";
+  const message = args.message.trim();
+
+  return compactSms(
+    `Heads up: ${args.memberName} is running late for ${what}${by}.${message ? ` They said: “${message}”` : ""}`,
+    600,
+  );
+}
+
+export function buildMemberRunningLateAcknowledgementSms(args: {
+  creatorFirstName: string;
+}): string {
+  return compactSms(
+    pick([
+      `Thanks for the heads-up! I let ${args.creatorFirstName} know.`,
+      `No worries, I told ${args.creatorFirstName} you’re running late.`,
+    ]),
+    300,
+  );
+}
+
+/** Homie texted when they can't make it ("away until Fri, Mar 20", "not before 8am"). */
+export function buildMemberAvailabilitySavedSms(args: { description: string }): string {
+  return compactSms(
+    `${pick(["Got it", "Noted", "Thanks for letting me know"])}: ${args.description}. I’ll hold off on invites then. Text “I’m back” if plans change.`,
+    300,
+  );
+}
+
+/** "I'm back" / "clear my availability". */
+export function buildMemberAvailabilityClearedSms(args: { scope: "blackouts" | "all" }): string {
+  return args.scope === "all"
+    ? "Done, I cleared your availability. Invites can come any time again."
+    : pick(["Welcome back! You’ll get invites again.", "Got it, you’re back on the invite list."]);
+}
+
+/** Creator-facing post-event check-in: who actually showed? */
+export function buildCreatorAttendanceCheckSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  acceptedNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const example = args.acceptedNames[0] ? `“${args.acceptedNames[0]} didn’t show”` : "“everyone”";
+
+  return compactSms(
+    `${pick(["How’d it go?", "Hope it was fun!"])} Who actually showed to ${what} (${when})?\n\n${formatRosterSection({ title: "Said yes", names: args.acceptedNames, maxNames: 12 })}\n\nReply “everyone”, “nobody”, or e.g. ${example}.`,
+    1200,
+  );
+}
+
+export function buildCreatorAttendanceRecordedSms(args: {
+  activityName?: string | null;
+  attendedNames: string[];
+  noShowNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const noShows = args.noShowNames.length
+    ? `No-shows: ${args.noShowNames.join(", ")}.`
+    : "No no-shows.";
+
+  return compactSms(
+    `Got it, saved attendance for ${what}. ${args.attendedNames.length} showed. ${noShows}`,
+    600,
+  );
+}
+
 export function buildUserNotifiedOfMemberResponseSms(args: {
   memberName: string;
-  decision: "accepted" | "declined";
+  decision: "accepted" | "declined" | "waitlisted";
   summary?: string;
-  declinedReason?: "full" | null;
 }): string {
   const s = (args.summary ?? "").trim();
 
-  // NOTE: We store this as a decline internally (to trigger backfill), but the creator-facing
-  // message should reflect that the homie *wanted* to come and was blocked by capacity.
-  const isFull = args.decision === "declined" && args.declinedReason === "full";
-
-  const base = isFull
+  const base = args.decision === "waitlisted"
     ? pick([
-        `${args.memberName} said yes, but it was already full.`,
-        `${args.memberName} was in, but the event was already full.`,
-        `${args.memberName} tried to accept, but capacity was already reached.`,
+        `${args.memberName} said yes, but it was already full. They’re on the waitlist.`,
+        `${args.memberName} was in, but the event was already full, so they’re waitlisted.`,
       ])
     : args.decision === "accepted"
       ? pick([
@@ -321,3 +614,431 @@ export function buildUserNotifiedOfMemberResponseSms(args: {
 
   return compactSms(s.length ? `${base} ${s}` : base, 300);
 }
+
+/** Numbered option lines for multi-slot events, e.g. "1) Sat, Jan 17 9:00 AM - 11:00 AM". */
+export function formatTimeSlotOptionLines(args: {
+  timeSlots: TimeSlot[];
+  timeZone: string;
+}): string[] {
+  return args.timeSlots.map(
+    (timeSlot, idx) =>
+      `${idx + 1}) ${formatInviteWhen({ timeSlot, timeZone: args.timeZone })}`,
+  );
+}
+
+export function buildMemberSlotVoteInviteSms(args: {
+  member: Member;
+  event: Event;
+  /** Live options in option order (see liveTimeSlotsInOptionOrder). */
+  timeSlots: TimeSlot[];
+  activityName?: string | null;
+  creatorFirstName: string;
+  timeZone: string;
+}): string {
+  const note = (args.event.invite_message ?? "").trim();
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const where = (args.event.location ?? "").trim() || "(location TBD)";
+
+  const firstName = args.member.first_name.trim();
+  const hello = firstName.length
+    ? pick([`Hi ${firstName},`, `Hello ${firstName},`])
+    : pick(["Hi,", "Hello,"]);
+
+  const intro = pick([
+    `I’m BuckFifty (the AI assistant), reaching out for ${args.creatorFirstName}.`,
+    `This is BuckFifty, messaging you for ${args.creatorFirstName}.`,
+  ]);
+
+  const inviteLine = pick([
+    `${args.creatorFirstName} wants to ${what} and is picking a time.`,
+    `${args.creatorFirstName} is putting together ${what} and has a few times in mind.`,
+  ]);
+
+  const options = formatTimeSlotOptionLines({
+    timeSlots: args.timeSlots,
+    timeZone: args.timeZone,
+  }).join("\n");
+
+  const noteLine = note.length
+    ? `\n${pick(["Note", "Quick note", "FYI"])}: ${note}`
+    : "";
+
+  const sms = `${hello} ${intro}\n${inviteLine}\nOptions:\n${options}\nWhere: ${where}${noteLine}\nWhich work for you? Reply with the numbers (e.g. “1 and 3”), “all”, or “none”.`;
+  return compactSms(sms);
+}
+
+export function buildMemberSlotVoteAcknowledgementSms(args: {
+  /** Empty => none of the options work. */
+  availableOptionNumbers: number[];
+}): string {
+  if (args.availableOptionNumbers.length === 0) {
+    return pick([
+      "No worries. Thanks for letting me know. Maybe next time.",
+      "Got it, none of those work. Catch you next time.",
+    ]);
+  }
+
+  const list = args.availableOptionNumbers.join(", ");
+  return pick([
+    `Got it (${list}). I’ll text you once a time is locked in.`,
+    `Thanks! Noted ${list}. I’ll let you know which time gets picked.`,
+  ]);
+}
+
+export function buildCreatorSlotVoteTallySms(args: {
+  memberName: string;
+  /** Empty => none of the options work for them. */
+  availableOptionNumbers: number[];
+  /** Short, SMS-safe summary of the member's reply (LLM path only). */
+  summary?: string;
+  activityName?: string | null;
+  options: Array<{ label: string; availableNames: string[] }>;
+  /** Invitees who haven't voted yet. */
+  awaitingNames: string[];
+  leadingOptionNumber: number | null;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const summary = (args.summary ?? "").trim().slice(0, 200);
+  const summarySuffix = summary.length ? ` ${summary}` : "";
+
+  const header = args.availableOptionNumbers.length
+    ? `${args.memberName} can do ${args.availableOptionNumbers
+        .map((n) => `#${n}`)
+        .join(", ")} for ${what}.${summarySuffix}`
+    : `${args.memberName} can’t make any of the ${what} times.${summarySuffix}`;
+
+  const tally = args.options
+    .map(
+      (o) =>
+        `${o.label} (${o.availableNames.length})${
+          o.availableNames.length ? `: ${o.availableNames.join(", ")}` : ""
+        }`,
+    )
+    .join("\n");
+
+  const awaiting = args.awaitingNames.length
+    ? `Waiting on: ${args.awaitingNames.join(", ")}`
+    : typeof args.leadingOptionNumber === "number"
+      ? `Everyone’s voted. Option ${args.leadingOptionNumber} wins.`
+      : "Everyone’s voted, but nobody can make any of these times.";
+
+  const lockHint =
+    typeof args.leadingOptionNumber === "number"
+      ? `Reply “lock in ${args.leadingOptionNumber}” (or another number) to pick the time.`
+      : "Reply “lock in N” to pick a time anyway.";
+
+  return compactSms(`${header}\n\nVotes:\n${tally}\n\n${awaiting}\n${lockHint}`, 1200);
+}
+
+export function buildMemberSlotLockedInSms(args: {
+  outcome: "accepted" | "unavailable" | "waitlisted";
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  location?: string | null;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatInviteWhen({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  if (args.outcome === "accepted") {
+    const where = (args.location ?? "").trim() || "(location TBD)";
+    return compactSms(
+      `${pick(["Locked in!", "It’s set!"])} ${what}\nWhen: ${when}\nWhere: ${where}\nYou’re in. See you there!`,
+    );
+  }
+
+  if (args.outcome === "waitlisted") {
+    return compactSms(
+      `${what} got locked in for ${when}, but it filled up before I could save you a spot. You’re on the waitlist and I’ll text you if one opens.`,
+    );
+  }
+
+  return compactSms(
+    `${what} got locked in for ${when}, which you said doesn’t work. Maybe next time!`,
+  );
+}
+
+export function buildCreatorSlotLockedInSms(args: {
+  optionNumber: number;
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  acceptedNames: string[];
+  pendingNames: string[];
+  waitlistedNames: string[];
+  declinedNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({
+    timeSlot: args.timeSlot,
+    timeZone: args.timeZone,
+  });
+
+  const roster = [
+    formatRosterSection({ title: "Approved", names: args.acceptedNames }),
+    formatRosterSection({ title: "Pending response", names: args.pendingNames }),
+    ...(args.waitlistedNames.length
+      ? [formatRosterSection({ title: "Waitlist", names: args.waitlistedNames })]
+      : []),
+    formatRosterSection({ title: "Can’t make it", names: args.declinedNames }),
+  ].join("\n\n");
+
+  return compactSms(
+    `Locked in option ${args.optionNumber} for ${what}: ${when}. I let everyone know.\n\n${roster}`,
+    1200,
+  );
+}
+
+export function buildMemberEventCancelledSms(args: {
+  activityName?: string | null;
+  creatorFirstName: string;
+  timeSlot: TimeSlot;
+  timeZone: string;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatInviteWhen({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  return compactSms(
+    pick([
+      `Heads up: ${args.creatorFirstName} cancelled ${what} (${when}). No need to reply.`,
+      `${what} (${when}) is off. ${args.creatorFirstName} cancelled it. No need to reply.`,
+    ]),
+  );
+}
+
+export function buildMemberEventRescheduledSms(args: {
+  activityName?: string | null;
+  creatorFirstName: string;
+  previousStart: Date;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  location?: string | null;
+  /** Accepted homies are asked to speak up if it no longer works; invitees re-asked. */
+  memberStatus: "accepted" | "pending";
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const where = (args.location ?? "").trim() || "(location TBD)";
+  const when = formatInviteWhen({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const was = formatInviteDeadline({ deadline: args.previousStart, timeZone: args.timeZone });
+
+  const ask =
+    args.memberStatus === "accepted"
+      ? "You’re still in. Reply if the new time doesn’t work."
+      : pick(["Can you make it?", "Are you in?"]);
+
+  return compactSms(
+    `Heads up: ${args.creatorFirstName} moved ${what} (was ${was}).\nWhen: ${when}\nWhere: ${where}\n${ask}`,
+  );
+}
+
+export function buildCreatorEventCancelledSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  notifiedNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const notified = args.notifiedNames.length
+    ? `I let ${args.notifiedNames.join(", ")} know.`
+    : "Nobody had been invited yet.";
+
+  return compactSms(`Cancelled ${what} (${when}). ${notified} No more invites will go out.`, 600);
+}
+
+export function buildCreatorEventRescheduledSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  notifiedNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const notified = args.notifiedNames.length
+    ? `I let ${args.notifiedNames.join(", ")} know.`
+    : "Nobody had been invited yet.";
+
+  return compactSms(`Moved ${what} to ${when}. ${notified}`, 600);
+}
+
+/** Creator-facing: confirms a new invite response window for one event. */
+export function buildCreatorInviteWindowUpdatedSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  /** e.g. "2 hours" (see `formatInviteResponseWindow`). */
+  windowText: string;
+  /** Homies whose open invite was re-timed. */
+  pendingCount: number;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+  const pending =
+    args.pendingCount > 0
+      ? ` I restarted the clock for the ${args.pendingCount === 1 ? "homie" : `${args.pendingCount} homies`} still deciding.`
+      : "";
+
+  return compactSms(
+    `Got it: homies get ${args.windowText} to reply to invites for ${what} (${when}).${pending}`,
+    600,
+  );
+}
+
+export function buildCreatorWhichEventSms(args: {
+  action: "cancel" | "reschedule";
+  events: Array<{ activityName?: string | null; timeSlot: TimeSlot }>;
+  timeZone: string;
+}): string {
+  const lines = args.events
+    .slice(0, 5)
+    .map(
+      (e) =>
+        `- ${(e.activityName ?? "hang")?.trim() || "hang"} (${formatEventWhenForCreator({
+          timeSlot: e.timeSlot,
+          timeZone: args.timeZone,
+        })})`,
+    )
+    .join("\n");
+
+  const verb = args.action === "cancel" ? "cancel" : "move";
+  return compactSms(
+    `Which one should I ${verb}?\n${lines}\nReply with the activity or day (e.g. “${verb} Saturday’s ${(args.events[0]?.activityName ?? "hang").trim()}”).`,
+  );
+}
+
+/** Creator-facing: a recurring event's next occurrence just sent its invites. */
+export function buildCreatorSeriesInvitesSentSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  recurrenceText: string;
+  invitedNames: string[];
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  return compactSms(
+    `Invites are out for ${what} (${when}), your ${args.recurrenceText} plan.\n\n${formatRosterSection({ title: "Invited", names: args.invitedNames })}\n\nReply “skip next”, “pause ${what}”, or “end the ${what} series” anytime.`,
+    1200,
+  );
+}
+
+/** Creator-facing: a recurring occurrence was skipped because nobody could be invited. */
+export function buildCreatorSeriesNoHomiesSms(args: {
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  return compactSms(
+    `I skipped ${what} (${when}): none of the homies on that plan could be invited. Add homies and the next one will go out as usual.`,
+    600,
+  );
+}
+
+/** Creator-facing: confirms skip / pause / resume / end of a recurring event. */
+export function buildCreatorSeriesUpdatedSms(args: {
+  action: "skipped" | "paused" | "resumed" | "ended";
+  activityName?: string | null;
+  recurrenceText: string;
+  /** The occurrence that was skipped. */
+  skippedTimeSlot?: TimeSlot | null;
+  /** Next occurrence still on (skipped / resumed), if any. */
+  nextTimeSlot?: TimeSlot | null;
+  timeZone: string;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const next = args.nextTimeSlot
+    ? ` Next one: ${formatEventWhenForCreator({ timeSlot: args.nextTimeSlot, timeZone: args.timeZone })}.`
+    : "";
+
+  switch (args.action) {
+    case "skipped": {
+      const skipped = args.skippedTimeSlot
+        ? ` (${formatEventWhenForCreator({ timeSlot: args.skippedTimeSlot, timeZone: args.timeZone })})`
+        : "";
+      return compactSms(
+        `Skipping ${what}${skipped}. Anyone already invited got a heads-up.${next}`,
+        600,
+      );
+    }
+    case "paused":
+      return compactSms(
+        `Paused ${what} (${args.recurrenceText}). No new invites will go out until you text “resume ${what}”.`,
+        600,
+      );
+    case "resumed":
+      return compactSms(`${what} is back on, ${args.recurrenceText}.${next}`, 600);
+    case "ended":
+      return compactSms(
+        `Ended ${what} (${args.recurrenceText}). No new invites will go out; anything already sent stays on.`,
+        600,
+      );
+  }
+}
+
+export function buildCreatorWhichSeriesSms(args: {
+  action: "skip" | "pause" | "resume" | "end";
+  series: Array<{ activityName?: string | null; recurrenceText: string }>;
+}): string {
+  const lines = args.series
+    .slice(0, 5)
+    .map((s) => `- ${(s.activityName ?? "hang")?.trim() || "hang"} (${s.recurrenceText})`)
+    .join("\n");
+
+  return compactSms(
+    `Which one should I ${args.action}?\n${lines}\nReply with the activity (e.g. “${args.action} ${(args.series[0]?.activityName ?? "hang").trim()}”).`,
+  );
+}
+
+/**
+ * Creator notice when a homie can't be texted because they replied STOP.
+ * - skipped: caught at invite time (never invited)
+ * - pending: opted out while their invite was open (taken off the invite)
+ * - accepted: opted out after saying yes (still counted, but gets no updates)
+ */
+export function buildCreatorMemberOptedOutSms(args: {
+  memberName: string;
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+  memberStatus: "skipped" | "pending" | "accepted";
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  if (args.memberStatus === "accepted") {
+    return compactSms(
+      `Heads up: ${args.memberName} opted out of texts from me (replied STOP). They’re still in for ${what} (${when}) but won’t get updates.`,
+      600,
+    );
+  }
+
+  const action =
+    args.memberStatus === "skipped"
+      ? `I skipped their invite for ${what} (${when})`
+      : `I took them off the invite for ${what} (${when})`;
+
+  return compactSms(
+    `Heads up: ${args.memberName} opted out of texts from me (replied STOP), so ${action}. I’ll invite the next backup if there is one.`,
+    600,
+  );
+}
+
+/** Creator-facing: a homie's invite couldn't be delivered because their number can't take texts. */
+export function buildCreatorMemberUnreachableSms(args: {
+  memberName: string;
+  activityName?: string | null;
+  timeSlot: TimeSlot;
+  timeZone: string;
+}): string {
+  const what = (args.activityName ?? "hang")?.trim() || "hang";
+  const when = formatEventWhenForCreator({ timeSlot: args.timeSlot, timeZone: args.timeZone });
+
+  return compactSms(
+    `Heads up: my invite for ${what} (${when}) couldn’t reach ${args.memberName} — their number looks like a landline or their carrier blocked it. I’ll invite the next backup if there is one. You can fix their number by texting “update ${args.memberName}’s number to …”.`,
+    600,
+  );
+}
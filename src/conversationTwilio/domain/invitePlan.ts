@@ -0,0 +1,143 @@
+import type { Prisma } from "@prisma/client";
+import { reliabilityScore, type MemberReliability } from "../../domain/memberReliability";
+
+/**
+ * Who gets invited right away vs. held as backups, per invite policy. Used when the
+ * creator previews a draft (the plan is locked in then) and when a recurring series
+ * sends invites for its next occurrence.
+ */
+
+function shuffleInPlace<T>(arr: T[]): T[] {
+  // Fisher–Yates shuffle
+  for (let i = arr.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [arr[i], arr[j]] = [arr[j], arr[i]];
+  }
+  return arr;
+}
+
+export function uniqueById<T extends { member_id: string }>(members: T[]): T[] {
+  const seen = new Set<string>();
+  const out: T[] = [];
+  for (const m of members) {
+    if (!seen.has(m.member_id)) {
+      seen.add(m.member_id);
+      out.push(m);
+    }
+  }
+  return out;
+}
+
+export function buildInvitePlan(args: {
+  invitePolicy: "max_only" | "prioritized" | "exact";
+  maxHomies: number;
+  allMembers: Prisma.MemberGetPayload<{}>[];
+  preferredMembers: Prisma.MemberGetPayload<{}>[];
+  /**
+   * When set ("3 from trail crew"), fillers and backups come only from these homies.
+   * Named homies are invited either way.
+   */
+  poolMemberIds?: string[] | null;
+  /** When set (creator opted in), backups are ordered most reliable first. */
+  reliabilityByMemberId?: Map<string, MemberReliability> | null;
+  /**
+   * Homies whose availability rules rule out the plan's time (src/domain/memberAvailability.ts):
+   * never picked to fill spots, and kept last among backups. Named homies are still invited.
+   */
+  unavailableMemberIds?: Set<string> | null;
+}): {
+  // Members to mark as `invited` immediately
+  immediate: Prisma.MemberGetPayload<{}>[];
+  // Members to mark as `listed` for follow-up (decline/timeout)
+  followUp: Prisma.MemberGetPayload<{}>[];
+  // Homies in the plan who said they can't make that time (shown in the preview)
+  unavailable: Prisma.MemberGetPayload<{}>[];
+} {
+  const pool = args.poolMemberIds ? new Set(args.poolMemberIds) : null;
+  const all = uniqueById(args.allMembers).filter((m) => !pool || pool.has(m.member_id));
+  const preferred = uniqueById(args.preferredMembers);
+
+  const isUnavailable = (m: Prisma.MemberGetPayload<{}>) =>
+    args.unavailableMemberIds?.has(m.member_id) ?? false;
+  const unavailableIn = (members: Prisma.MemberGetPayload<{}>[]) =>
+    uniqueById(members).filter(isUnavailable);
+
+  const max = Math.max(0, Math.trunc(args.maxHomies));
+
+  // Stable sort, so homies with equal scores (e.g. no history yet) keep their shuffled order.
+  const orderBackups = (backups: Prisma.MemberGetPayload<{}>[]) => {
+    const reliability = args.reliabilityByMemberId;
+    if (!reliability) return backups;
+    return backups.sort(
+      (a, b) =>
+        reliabilityScore(reliability.get(b.member_id)) -
+        reliabilityScore(reliability.get(a.member_id)),
+    );
+  };
+  // Unavailable homies go after everyone else, in random order.
+  const withUnavailableLast = (backups: Prisma.MemberGetPayload<{}>[]) => [
+    ...orderBackups(backups.filter((m) => !isUnavailable(m))),
+    ...shuffleInPlace(backups.filter(isUnavailable)),
+  ];
+
+  if (args.invitePolicy === "exact") {
+    return {
+      immediate: preferred,
+      followUp: [],
+      unavailable: unavailableIn(preferred),
+    };
+  }
+
+  if (args.invitePolicy === "prioritized") {
+    const preferredIds = new Set(preferred.map((m) => m.member_id));
+    const remaining = all.filter((m) => !preferredIds.has(m.member_id) && !isUnavailable(m));
+    shuffleInPlace(remaining);
+
+    // Priority Invite behavior (per product):
+    // - ALWAYS invite all preferred (priority) homies, even if that exceeds n.
+    // - If preferred doesn't already fill capacity, randomly pick additional homies
+    //   until we reach the requested total capacity.
+    //
+    // NOTE: Invites may exceed capacity because capacity is enforced at ACCEPT time.
+    // But when preferred <= n, treat n as the TOTAL desired homies (not "additional").
+    const fillersNeeded = Math.max(0, max - preferred.length);
+    const fillers = remaining.slice(0, fillersNeeded);
+    const immediate = [...preferred, ...fillers];
+
+    const immediateIds = new Set(immediate.map((m) => m.member_id));
+    // Follow-up should be randomized so it reflects the order we’ll likely invite next.
+    const followUp = withUnavailableLast(
+      shuffleInPlace(all.filter((m) => !immediateIds.has(m.member_id))),
+    );
+
+    return { immediate, followUp, unavailable: unavailableIn([...preferred, ...all]) };
+  }
+
+  // max_only
+  const shuffled = shuffleInPlace(all.filter((m) => !isUnavailable(m)));
+  const immediate = shuffled.slice(0, max);
+  const followUp = withUnavailableLast([...shuffled.slice(max), ...all.filter(isUnavailable)]);
+  return { immediate, followUp, unavailable: unavailableIn(all) };
+}
+
+/**
+ * EventMember rows for a plan: immediate homies are `invited`, backups `listed`, and
+ * `priority_rank` is 1-based over inviting-now order then backup order.
+ */
+export function eventMemberRowsForPlan(args: {
+  eventId: string;
+  plan: { immediate: Prisma.MemberGetPayload<{}>[]; followUp: Prisma.MemberGetPayload<{}>[] };
+}): {
+  event_id: string;
+  member_id: string;
+  status: "listed" | "invited";
+  priority_rank: number;
+}[] {
+  const immediateIds = new Set(args.plan.immediate.map((m) => m.member_id));
+  return uniqueById([...args.plan.immediate, ...args.plan.followUp]).map((m, idx) => ({
+    event_id: args.eventId,
+    member_id: m.member_id,
+    status: immediateIds.has(m.member_id) ? ("invited" as const) : ("listed" as const),
+    priority_rank: idx + 1,
+  }));
+}
@@ -1,5 +1,10 @@
 import type { Member } from "@prisma/client";
 import { fullNameForMember } from "./homies";
+import {
+  buildWhichHomieQuestion,
+  resolveHomieNames,
+  type AmbiguousHomieName,
+} from "./homieNameMatching";
 import type { EventDraftEditPatch } from "../analyzers/eventDraftEditAnalyzer";
 
 export type InvitePlan = {
@@ -16,7 +21,8 @@ export type ApplyInvitePlanPatchResult =
       followUpNames: string[];
       excludedNames: string[];
     }
-  | { ok: false; reason: string };
+  /** `ambiguous` is set when a name fits several homies (`reason` asks which). */
+  | { ok: false; reason: string; ambiguous?: AmbiguousHomieName[] };
 
 function uniq<T>(arr: T[]): T[] {
   return Array.from(new Set(arr));
@@ -26,32 +32,17 @@ function without<T>(arr: T[], remove: Set<T>): T[] {
   return arr.filter((x) => !remove.has(x));
 }
 
-function asNameMap(allMembers: Member[]): Map<string, Member> {
-  return new Map(
-    allMembers.map((m) => [fullNameForMember(m).trim().toLowerCase(), m] as const)
-  );
-}
-
 function resolveNamesToIds(args: {
   allMembers: Member[];
   names: string[];
-}): { ids: string[]; unknownNames: string[] } {
-  const byNameLower = asNameMap(args.allMembers);
-  const ids: string[] = [];
-  const unknownNames: string[] = [];
-
-  for (const raw of args.names) {
-    const name = raw.trim();
-    if (!name) continue;
-    const m = byNameLower.get(name.toLowerCase());
-    if (!m) {
-      unknownNames.push(name);
-      continue;
-    }
-    ids.push(m.member_id);
-  }
-
-  return { ids: uniq(ids), unknownNames: uniq(unknownNames) };
+}): { ids: string[]; unknownNames: string[]; ambiguous: AmbiguousHomieName[] } {
+  // First names, nicknames, and close spellings count; see homieNameMatching.ts.
+  const resolved = resolveHomieNames({ names: args.names, homies: args.allMembers });
+  return {
+    ids: resolved.members.map((m) => m.member_id),
+    unknownNames: resolved.unknownNames,
+    ambiguous: resolved.ambiguous,
+  };
 }
 
 function moveToFront(arr: string[], idsInOrder: string[]): string[] {
@@ -107,6 +98,18 @@ export function applyInvitePlanPatch(args: {
     return { ok: false, reason: `Unknown homie(s): ${unknownNames.join(", ")}` };
   }
 
+  const ambiguous = [
+    resolvedBans,
+    resolvedUnbans,
+    resolvedAdds,
+    resolvedRemoves,
+    resolvedSwapIn,
+    resolvedSwapOut,
+  ].flatMap((r) => r.ambiguous);
+  if (ambiguous.length) {
+    return { ok: false, reason: buildWhichHomieQuestion(ambiguous[0]), ambiguous };
+  }
+
   // Start from existing
   let immediate = [...immediate0];
   let followUp = [...follow0.filter((id) => !immediate.includes(id))];
@@ -198,6 +201,13 @@ export function applyInvitePlanPatch(args: {
     if (resolved.unknownNames.length) {
       return { ok: false, reason: `Unknown homie(s) in backup order: ${resolved.unknownNames.join(", ")}` };
     }
+    if (resolved.ambiguous.length) {
+      return {
+        ok: false,
+        reason: buildWhichHomieQuestion(resolved.ambiguous[0]),
+        ambiguous: resolved.ambiguous,
+      };
+    }
     // Only reorder among backups; ignore any ids not currently in followUp.
     const currentSet = new Set(followUp);
     const desired = resolved.ids.filter((id) => currentSet.has(id) && !excludedSet.has(id));
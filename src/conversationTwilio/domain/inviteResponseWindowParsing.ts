@@ -0,0 +1,107 @@
+export type InviteResponseWindowRequest = {
+  /** Requested window, unclamped (see `clampInviteResponseMinutes`). */
+  minutes: number;
+  /** "default" when the creator wants it for all their events ("by default", "always"). */
+  scope: "event" | "default";
+  /** True when the message is just this request (nothing else to schedule from it). */
+  standalone: boolean;
+  /** The matched phrase, so time parsing can ignore its duration. */
+  matchedText: string;
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  eleven: 11,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  "forty five": 45,
+  "forty-five": 45,
+  "a couple": 2,
+  "a couple of": 2,
+  "a few": 3,
+};
+
+const AMOUNT =
+  "(\\d+(?:\\.\\d+)?|half an?|a couple(?: of)?|a few|forty[- ]five|fifteen|twenty|thirty|eleven|twelve|one|two|three|four|five|six|seven|eight|nine|ten|an?)";
+const UNIT = "(minutes?|mins?|hours?|hrs?|h|days?)";
+const DURATION = `${AMOUNT}\\s*${UNIT}`;
+
+// "give them 2 hours to reply", "2 hrs to respond"
+const BEFORE_REPLY_RE = new RegExp(
+  `\\b${DURATION}\\s+(?:to|for)\\s+(?:reply|respond|answer|rsvp|get back|decide)\\b`,
+  "i",
+);
+// "invites expire after 2 hours", "reply window of 45 min", "invites last a day"
+const AFTER_KEYWORD_RE = new RegExp(
+  `\\b(?:expire|expires|last|lasts|time out|timeout|reply window|response window|window)\\s*(?:after|in|for|of|to|is|:)?\\s*${DURATION}\\b`,
+  "i",
+);
+
+const DEFAULT_SCOPE_RE =
+  /\b(?:by default|default|always|from now on|going forward|all (?:my|of my) (?:events|invites|plans))\b/i;
+
+// Words that can surround the request without making it "more than" the request.
+const FILLER_RE =
+  /\b(?:please|pls|ok|okay|and|also|actually|just|only|let|lets|let's|give|giving|them|homies|the|my|people|everyone|folks|invitees|invites?|invitations?|for|this|one|event|plan|should|can|could|you|have|get|by|default|always|from|now|on|going|forward|all|of|events|plans|to|reply|respond)\b/gi;
+
+function amountToNumber(raw: string): number | null {
+  const a = raw.trim().toLowerCase().replace(/\s+/g, " ");
+  if (/^half an?$/.test(a)) return 0.5;
+  if (/^\d/.test(a)) {
+    const n = Number.parseFloat(a);
+    return Number.isFinite(n) ? n : null;
+  }
+  return NUMBER_WORDS[a] ?? null;
+}
+
+function unitToMinutes(raw: string): number {
+  const u = raw.trim().toLowerCase();
+  if (u.startsWith("d")) return 24 * 60;
+  if (u.startsWith("h")) return 60;
+  return 1;
+}
+
+/**
+ * Spot a creator asking for a specific invite response window:
+ * "give them 2 hours to reply", "invites expire after 45 min",
+ * "by default give homies a day to respond".
+ *
+ * Deterministic on purpose: only explicit durations tied to replying/expiry count,
+ * so "tennis for 2 hours" is left alone.
+ */
+export function parseInviteResponseWindow(text: string): InviteResponseWindowRequest | null {
+  const raw = (text ?? "").trim();
+  if (!raw) return null;
+
+  const match = raw.match(BEFORE_REPLY_RE) ?? raw.match(AFTER_KEYWORD_RE);
+  if (!match) return null;
+
+  const amount = amountToNumber(match[1]);
+  if (amount === null || amount <= 0) return null;
+
+  const minutes = Math.round(amount * unitToMinutes(match[2]));
+  const scope = DEFAULT_SCOPE_RE.test(raw) ? "default" : "event";
+
+  const leftover = raw
+    .replace(match[0], " ")
+    .replace(FILLER_RE, " ")
+    .replace(/[^a-z0-9\s]/gi, " ")
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+
+  return { minutes, scope, standalone: leftover.length <= 2, matchedText: match[0] };
+}
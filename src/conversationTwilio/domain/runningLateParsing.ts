@@ -0,0 +1,38 @@
+export type RunningLateNotice = {
+  /** How late they said they'd be, if they gave a number. */
+  minutesLate: number | null;
+};
+
+// "running late", "gonna be 10 min late", "I'm a bit late", "running behind", "stuck in traffic"
+const RUNNING_LATE_RE =
+  /(?:\b(?:running|gonna be|going to be|will be|i'?ll be|ill be|be|i'?m|im|am|min|mins|minutes?|hours?|hrs?)\s+(?:a\s+)?(?:bit\s+|little\s+|few\s+(?:min|mins|minutes)\s+)?late\b|\brunning\s+behind\b|\bstuck in traffic\b)/i;
+
+// "won't be late", "not running late", "no longer late"
+const NEGATED_RE = /\b(?:not|won'?t|wont|never|no longer)\s+(?:be\s+)?(?:running\s+)?(?:a\s+bit\s+)?late\b/i;
+
+const MINUTES_RE = /\b(\d{1,3})\s*(?:m|min|mins|minutes?)\b/i;
+const HOURS_RE = /\b(\d{1,2})\s*(?:h|hr|hrs|hours?)\b/i;
+const HALF_HOUR_RE = /\bhalf an? hour\b/i;
+const AN_HOUR_RE = /\ban hour\b/i;
+
+/**
+ * Spot an accepted homie saying they're running late: "running 10 min late",
+ * "gonna be a bit late", "stuck in traffic".
+ *
+ * Deterministic on purpose, like the creator-side parsers: only explicit lateness
+ * wording counts, so "see you later" or "late dinner?" are left alone.
+ */
+export function parseRunningLate(text: string): RunningLateNotice | null {
+  const raw = (text ?? "").trim();
+  if (!raw) return null;
+  if (NEGATED_RE.test(raw) || !RUNNING_LATE_RE.test(raw)) return null;
+
+  const minutes = raw.match(MINUTES_RE);
+  if (minutes) return { minutesLate: Number.parseInt(minutes[1], 10) || null };
+
+  const hours = raw.match(HOURS_RE);
+  if (hours) return { minutesLate: Number.parseInt(hours[1], 10) * 60 || null };
+
+  if (HALF_HOUR_RE.test(raw)) return { minutesLate: 30 };
+  return { minutesLate: AN_HOUR_RE.test(raw) ? 60 : null };
+}
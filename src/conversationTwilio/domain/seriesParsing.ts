@@ -0,0 +1,168 @@
+import type { RecurrenceFrequency } from "@prisma/client";
+
+export type RecurrenceRequest = {
+  frequency: RecurrenceFrequency;
+  /** Every N weeks / months. */
+  interval: number;
+  /** Monthly only: 1-4, -1 => last; null => taken from the first date. */
+  weekOfMonth: number | null;
+  /** "send invites 3 days before" (unclamped); null => the default lead. */
+  inviteLeadMinutes: number | null;
+};
+
+export type SeriesCommand = {
+  action: "skip" | "pause" | "resume" | "end";
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+};
+
+const COUNT = "(\\d{1,2}|a|an|one|two|three|four|five|six|seven)";
+const WEEKDAY = "(?:mon|tues?|wed(?:nes)?|thu(?:rs?)?|fri|sat(?:ur)?|sun)(?:day)?s?";
+
+// "every other Tuesday", "every other week", "biweekly", "every 2 weeks"
+const EVERY_OTHER_WEEK_RE = new RegExp(`\\b(?:every other (?:${WEEKDAY}|week)|bi-?weekly)\\b`, "i");
+const EVERY_N_WEEKS_RE = new RegExp(`\\bevery ${COUNT} weeks\\b`, "i");
+// "every Tuesday", "weekly", "every week", "Tuesdays each week", "once a week"
+const WEEKLY_RE = new RegExp(
+  `\\b(?:every (?:single )?(?:${WEEKDAY}|week)|weekly|each week|once a week)\\b`,
+  "i",
+);
+
+// "first Friday of the month", "last Sunday of every month"
+const NTH_WEEKDAY_RE = new RegExp(
+  `\\b(first|1st|second|2nd|third|3rd|fourth|4th|last) ${WEEKDAY}(?: of)? (?:the|every|each|a) month\\b`,
+  "i",
+);
+const EVERY_OTHER_MONTH_RE = /\b(?:every other month|bi-?monthly)\b/i;
+const EVERY_N_MONTHS_RE = new RegExp(`\\bevery ${COUNT} months\\b`, "i");
+const MONTHLY_RE = /\b(?:monthly|every month|each month|once a month)\b/i;
+
+// "send invites 3 days before", "invite them a day ahead", "text homies 36 hours early"
+const LEAD_RE = new RegExp(
+  `\\b(?:send|sending|text|texting|invite|inviting|invites?)\\b[^.!?]*?\\b${COUNT}\\s*(days?|hours?|hrs?|weeks?)\\s+(?:before|ahead|early|in advance|out)\\b`,
+  "i",
+);
+
+const ORDINAL_WEEKS: Record<string, number> = {
+  first: 1,
+  "1st": 1,
+  second: 2,
+  "2nd": 2,
+  third: 3,
+  "3rd": 3,
+  fourth: 4,
+  "4th": 4,
+  last: -1,
+};
+
+function countValue(raw: string): number {
+  const v = raw.toLowerCase();
+  return /^\d+$/.test(v) ? Number.parseInt(v, 10) : (NUMBER_WORDS[v] ?? 1);
+}
+
+function parseInviteLead(text: string): number | null {
+  const m = text.match(LEAD_RE);
+  if (!m) return null;
+  const n = countValue(m[1]);
+  const unit = m[2].toLowerCase();
+  if (unit.startsWith("w")) return n * 7 * 24 * 60;
+  if (unit.startsWith("d")) return n * 24 * 60;
+  return n * 60;
+}
+
+/**
+ * Spot a plan meant to repeat: "every Tuesday 6am", "every other Sunday", "weekly",
+ * "first Friday of the month", with an optional "send invites 3 days before".
+ *
+ * Deterministic on purpose, like the other draft-setting parsers. The weekday and time
+ * come from the draft's first date, so this only reads how often it repeats.
+ */
+export function parseRecurrence(text: string): RecurrenceRequest | null {
+  const raw = (text ?? "").trim();
+  if (!raw) return null;
+
+  const inviteLeadMinutes = parseInviteLead(raw);
+
+  const nth = raw.match(NTH_WEEKDAY_RE);
+  if (nth) {
+    return {
+      frequency: "monthly",
+      interval: 1,
+      weekOfMonth: ORDINAL_WEEKS[nth[1].toLowerCase()] ?? null,
+      inviteLeadMinutes,
+    };
+  }
+
+  let match: RegExpMatchArray | null;
+  if (EVERY_OTHER_MONTH_RE.test(raw)) {
+    return { frequency: "monthly", interval: 2, weekOfMonth: null, inviteLeadMinutes };
+  }
+  if ((match = raw.match(EVERY_N_MONTHS_RE))) {
+    return { frequency: "monthly", interval: countValue(match[1]), weekOfMonth: null, inviteLeadMinutes };
+  }
+  if (MONTHLY_RE.test(raw)) {
+    return { frequency: "monthly", interval: 1, weekOfMonth: null, inviteLeadMinutes };
+  }
+  if (EVERY_OTHER_WEEK_RE.test(raw)) {
+    return { frequency: "weekly", interval: 2, weekOfMonth: null, inviteLeadMinutes };
+  }
+  if ((match = raw.match(EVERY_N_WEEKS_RE))) {
+    return { frequency: "weekly", interval: countValue(match[1]), weekOfMonth: null, inviteLeadMinutes };
+  }
+  if (WEEKLY_RE.test(raw)) {
+    return { frequency: "weekly", interval: 1, weekOfMonth: null, inviteLeadMinutes };
+  }
+  return null;
+}
+
+// Bare "cancel" / "stop" / "end" are SMS consent keywords, so ending needs series wording
+// close by ("end the weekly run", "cancel the poker series", "no more monthly poker").
+const SERIES_WORDS = "(?:series|recurring|recurrence|repeating|repeats?|weekly|monthly|for good)";
+const END_RE = new RegExp(
+  `\\b(?:end|stop|cancel|kill|delete|discontinue)\\s+(?:\\S+\\s+){0,3}?${SERIES_WORDS}\\b|\\bno more\\s+(?:weekly|monthly)\\b|\\bstop repeating\\b`,
+  "i",
+);
+const SKIP_RE =
+  /\bskip\s+(?:(?:the\s+)?next(?:\s+one)?|this(?:\s+one)?|this week'?s?|next week'?s?|tomorrow'?s?|(?:this|next) (?:week|time|month))\b/i;
+const PAUSE_RE = /\b(?:pause|put\b.*\bon hold|hold off on)\b/i;
+const RESUME_RE = /\b(?:resume|unpause|un-pause|start\b.*\bback up|pick\b.*\bback up)\b/i;
+
+/**
+ * Spot the creator skipping, pausing, resuming, or ending a recurring event: "skip next
+ * week", "pause the run", "resume poker", "end the weekly run".
+ */
+export function parseSeriesCommand(text: string): SeriesCommand | null {
+  const raw = (text ?? "").trim().replace(/[’‘]/g, "'");
+  if (!raw) return null;
+
+  if (END_RE.test(raw)) return { action: "end" };
+  if (SKIP_RE.test(raw)) return { action: "skip" };
+  if (RESUME_RE.test(raw)) return { action: "resume" };
+  if (PAUSE_RE.test(raw)) return { action: "pause" };
+  return null;
+}
+
+function escapeRegExp(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/** Series whose activity the text names ("pause poker"). */
+export function findMentionedSeries<T extends { activityName: string | null }>(args: {
+  text: string;
+  series: T[];
+}): T[] {
+  return args.series.filter((s) => {
+    const name = (s.activityName ?? "").trim();
+    return name.length > 0 && new RegExp(`\\b${escapeRegExp(name)}\\b`, "i").test(args.text);
+  });
+}
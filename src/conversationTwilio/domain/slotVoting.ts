@@ -0,0 +1,87 @@
+import type { TimeSlot, TimeSlotStatus } from "@prisma/client";
+
+/**
+ * Multi-slot events: the creator proposed several times, homies vote on which work,
+ * and the creator locks one in.
+ *
+ * Voting is open while more than one slot is still in play and none is accepted.
+ */
+export function isSlotVotingOpen(
+  timeSlots: Array<Pick<TimeSlot, "status">>,
+): boolean {
+  const live = timeSlots.filter((ts) => ts.status !== "declined");
+  return live.length > 1 && !live.some((ts) => ts.status === "accepted");
+}
+
+/** Slots still in play, in option order (1-based numbering follows start time). */
+export function liveTimeSlotsInOptionOrder<
+  T extends { status: TimeSlotStatus; start_time: Date },
+>(timeSlots: T[]): T[] {
+  return timeSlots
+    .filter((ts) => ts.status !== "declined")
+    .sort((a, b) => a.start_time.getTime() - b.start_time.getTime());
+}
+
+export type SlotVoteReply =
+  | { kind: "options"; optionNumbers: number[] }
+  | { kind: "all" }
+  | { kind: "none" };
+
+/**
+ * Deterministic parsing for the common replies to a multi-option invite:
+ * - "1", "1 and 3", "#2", "option 2"
+ * - "all", "both", "any", "either", "yes"
+ * - "none", "neither", "no"
+ *
+ * Returns null when the text isn't clearly a vote (caller falls back to the LLM).
+ */
+export function parseSlotVoteReply(args: {
+  text: string;
+  optionCount: number;
+}): SlotVoteReply | null {
+  const t = (args.text ?? "")
+    .toLowerCase()
+    .trim()
+    .replace(/[^a-z0-9#\s,&+]/g, "")
+    .replace(/\s+/g, " ");
+  if (!t) return null;
+
+  if (/^(none|neither|no|nope|none of (them|those)|cant make any)$/.test(t)) {
+    return { kind: "none" };
+  }
+
+  if (/^(all|both|any|either|all of (them|those|the above)|any of (them|those)|yes|yep|yeah|works for all)$/.test(t)) {
+    return { kind: "all" };
+  }
+
+  // Only digits plus connector words: "1", "1 and 3", "options 1, 2", "#2 or #3".
+  if (!/^((option|options|opt|number|#)\s*)?\d(\s*(,|and|&|\+|or|\s)\s*(#\s*)?\d)*( work| works| both work)?$/.test(t)) {
+    return null;
+  }
+
+  const nums = [...t.matchAll(/\d/g)]
+    .map((m) => Number.parseInt(m[0], 10))
+    .filter((n) => n >= 1 && n <= args.optionCount);
+  if (nums.length === 0) return null;
+
+  return { kind: "options", optionNumbers: [...new Set(nums)].sort((a, b) => a - b) };
+}
+
+export type SlotVoteTally = {
+  optionNumber: number;
+  timeSlot: TimeSlot;
+  availableMemberIds: string[];
+};
+
+/**
+ * Leading option: most homies available; ties go to the earlier option.
+ * Returns null when nobody is available for anything yet.
+ */
+export function pickLeadingOption(tallies: SlotVoteTally[]): SlotVoteTally | null {
+  let best: SlotVoteTally | null = null;
+  for (const t of tallies) {
+    if (t.availableMemberIds.length === 0) continue;
+    if (!best || t.availableMemberIds.length > best.availableMemberIds.length) best = t;
+  }
+  return best;
+}
@@ -0,0 +1,51 @@
+export type SmsConsentKeyword = {
+  action: "opt_out" | "opt_in";
+  /** Upper-cased keyword as received (STOP, UNSUBSCRIBE, START, ...). */
+  keyword: string;
+};
+
+// Twilio's default opt-out / opt-in keyword sets.
+const OPT_OUT_KEYWORDS = new Set([
+  "STOP",
+  "STOPALL",
+  "UNSUBSCRIBE",
+  "CANCEL",
+  "END",
+  "QUIT",
+  "REVOKE",
+  "OPTOUT",
+]);
+const OPT_IN_KEYWORDS = new Set(["START", "UNSTOP", "YES"]);
+
+/**
+ * Match a whole-message consent keyword ("STOP", "stop.", " Unsubscribe ").
+ *
+ * Only exact single-word messages count, like Twilio's own handling, so "stop
+ * inviting Moe" or "can't, cancel me" are left for the normal flow. YES is
+ * returned as opt_in; callers only honor it for numbers that are opted out.
+ */
+export function parseSmsConsentKeyword(body: string): SmsConsentKeyword | null {
+  const keyword = (body ?? "")
+    .trim()
+    .replace(/[.!]+$/, "")
+    .toUpperCase();
+
+  if (OPT_OUT_KEYWORDS.has(keyword)) return { action: "opt_out", keyword };
+  if (OPT_IN_KEYWORDS.has(keyword)) return { action: "opt_in", keyword };
+  return null;
+}
+
+/**
+ * Twilio Advanced Opt-Out sends OptOutType=STOP|START|HELP alongside the body;
+ * prefer it over our own keyword match when present.
+ */
+export function consentKeywordFromWebhook(args: {
+  body?: string;
+  optOutType?: string;
+}): SmsConsentKeyword | null {
+  const type = (args.optOutType ?? "").trim().toUpperCase();
+  const keyword = (args.body ?? "").trim().toUpperCase() || type;
+  if (type === "STOP") return { action: "opt_out", keyword };
+  if (type === "START") return { action: "opt_in", keyword };
+  return parseSmsConsentKeyword(args.body ?? "");
+}
@@ -33,6 +33,44 @@ function isSameLocalDay(a: Date, b: Date, timeZone: string): boolean {
   return fmt.format(a) === fmt.format(b);
 }
 
+/** Example: "Sat, Dec 21 7:00 PM" */
+export function formatDateTimeForSms(d: Date, timeZone: string): string {
+  return `${formatDayForSms(d, timeZone)} ${formatTimeForSms(d, timeZone)}`;
+}
+
+function formatWhenForSms(start: Date, end: Date, timeZone: string): string {
+  return isSameLocalDay(start, end, timeZone)
+    ? `${formatDayForSms(start, timeZone)} ${formatTimeForSms(start, timeZone)} - ${formatTimeForSms(
+        end,
+        timeZone,
+      )}`
+    : `${formatDayForSms(start, timeZone)} ${formatTimeForSms(start, timeZone)} - ${formatDayForSms(
+        end,
+        timeZone,
+      )} ${formatTimeForSms(end, timeZone)}`;
+}
+
+/**
+ * "When" line(s) for creator-facing SMS. With alternates this becomes a numbered list
+ * the homies vote on, e.g. "When (homies vote):\n1) Sat, Jan 17 9:00 AM - 11:00 AM".
+ */
+export function formatWhenLinesForSms(args: {
+  start: Date;
+  end: Date;
+  timeZone: string;
+  alternateTimes?: Array<{ start: Date; end: Date }>;
+}): string {
+  const alternates = args.alternateTimes ?? [];
+  if (alternates.length === 0) {
+    return `When: ${formatWhenForSms(args.start, args.end, args.timeZone)}`;
+  }
+
+  const options = [{ start: args.start, end: args.end }, ...alternates]
+    .map((o, idx) => `${idx + 1}) ${formatWhenForSms(o.start, o.end, args.timeZone)}`)
+    .join("\n");
+  return `When (homies vote):\n${options}`;
+}
+
 export function buildEventConfirmationSms(args: {
   activityName: string;
   location: string;
@@ -110,19 +148,26 @@ export function buildEventDraftPreviewSms(args: {
 
   /** Optional: show excluded homies (sticky "don't invite"). */
   excludedNames?: string[];
+
+  /** Homies who said they can't make this time ("away until the 20th"); held back or flagged. */
+  unavailableNames?: string[];
+
+  /** Extra candidate times (start/end is option 1). */
+  alternateTimes?: Array<{ start: Date; end: Date }>;
+
+  /** e.g. "2 hours"; omitted => the creator's default window applies. */
+  replyWindowText?: string | null;
+
+  /** Plus-ones per homie set for this draft; omitted => the creator's default applies. */
+  maxGuestsPerMember?: number | null;
+
+  /** e.g. "every Tuesday, invites go out 2 days before"; omitted => one-off plan. */
+  recurrenceText?: string | null;
+
+  /** Group invites are drawn from ("3 from Trail Crew"); omitted => all homies. */
+  groupName?: string | null;
 }): string {
-  const when = isSameLocalDay(args.start, args.end, args.timeZone)
-    ? `${formatDayForSms(args.start, args.timeZone)} ${formatTimeForSms(
-        args.start,
-        args.timeZone,
-      )} - ${formatTimeForSms(args.end, args.timeZone)}`
-    : `${formatDayForSms(args.start, args.timeZone)} ${formatTimeForSms(
-        args.start,
-        args.timeZone,
-      )} - ${formatDayForSms(args.end, args.timeZone)} ${formatTimeForSms(
-        args.end,
-        args.timeZone,
-      )}`;
+  const whenLines = formatWhenLinesForSms(args);
 
   const preferred = args.preferredNames.filter((n) => n.trim().length > 0);
 
@@ -135,6 +180,9 @@ export function buildEventDraftPreviewSms(args: {
   const excluded = (args.excludedNames ?? []).filter(
     (n) => n.trim().length > 0,
   );
+  const unavailable = (args.unavailableNames ?? []).filter(
+    (n) => n.trim().length > 0,
+  );
 
   // If we have a locked plan, show the requested two-line output.
   // Otherwise fall back to legacy "X + others" preview.
@@ -163,6 +211,7 @@ export function buildEventDraftPreviewSms(args: {
     }
     whoLines = who;
   }
+  if (unavailable.length) whoLines += `\nUnavailable: ${unavailable.join(", ")}`;
 
   const note = (args.inviteMessage ?? "").trim();
   const noteLine = note.length ? `\nNote for homies: ${note}` : "";
@@ -171,5 +220,19 @@ export function buildEventDraftPreviewSms(args: {
     ? `\nInvite policy: ${brandedInvitePolicyName(args.invitePolicy)}`
     : "";
 
-  return `Draft: ${args.activityName}\nWhen: ${when}\nWhere: ${args.location}\n${whoLines}${noteLine}${policyLine}\n\nReply with edits, say “looks good” to confirm, or say “scratch” to cancel`;
+  const replyWindowLine = args.replyWindowText
+    ? `\nHomies get ${args.replyWindowText} to reply`
+    : "";
+
+  const guestsLine =
+    typeof args.maxGuestsPerMember === "number"
+      ? args.maxGuestsPerMember > 0
+        ? `\nPlus-ones: up to ${args.maxGuestsPerMember} each`
+        : "\nNo plus-ones"
+      : "";
+
+  const repeatsLine = args.recurrenceText ? `\nRepeats: ${args.recurrenceText}` : "";
+  const groupLine = args.groupName ? `\nFrom: ${args.groupName}` : "";
+
+  return `Draft: ${args.activityName}\n${whenLines}\nWhere: ${args.location}\n${whoLines}${noteLine}${policyLine}${groupLine}${replyWindowLine}${guestsLine}${repeatsLine}\n\nReply with edits, say “looks good” to confirm, or say “scratch” to cancel`;
 }
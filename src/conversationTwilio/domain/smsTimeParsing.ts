@@ -230,3 +230,49 @@ export function anchorTimeOfDayToReferenceDay(args: {
 }): DateTime {
   return args.reference.set({ hour: args.tod.hour24, minute: args.tod.minute, second: 0, millisecond: 0 });
 }
+
+const WEEKDAY_PATTERNS: Array<{ weekday: number; re: RegExp }> = [
+  { weekday: 1, re: /\b(mon|monday)\b/i },
+  { weekday: 2, re: /\b(tue|tues|tuesday)\b/i },
+  { weekday: 3, re: /\b(wed|weds|wednesday)\b/i },
+  { weekday: 4, re: /\b(thu|thur|thurs|thursday)\b/i },
+  { weekday: 5, re: /\b(fri|friday)\b/i },
+  { weekday: 6, re: /\b(sat|saturday)\b/i },
+  { weekday: 7, re: /\b(sun|sunday)\b/i },
+];
+
+/**
+ * Detect a weekday anchor like "saturday" / "sat".
+ * Returns a day offset relative to `now` (0..6; today's weekday => 0).
+ *
+ * Only the first weekday mentioned is used; callers split multi-option text first.
+ */
+export function detectWeekdayDayOffset(text: string, now: DateTime): number | null {
+  const t = (text ?? "").toLowerCase();
+  if (!t.trim()) return null;
+
+  for (const { weekday, re } of WEEKDAY_PATTERNS) {
+    if (re.test(t)) return (weekday - now.weekday + 7) % 7;
+  }
+
+  return null;
+}
+
+/**
+ * Anchor a time-of-day to a weekday offset from detectWeekdayDayOffset.
+ * "Saturday" said on a Saturday after that time means next week.
+ */
+export function anchorTimeOfDayToWeekdayOffset(args: {
+  userTimezone: string;
+  now: DateTime;
+  tod: ParsedTimeOfDay;
+  dayOffset: number;
+}): DateTime {
+  const base = args.now.setZone(args.userTimezone);
+  const candidate = base
+    .startOf("day")
+    .plus({ days: Math.trunc(args.dayOffset) })
+    .set({ hour: args.tod.hour24, minute: args.tod.minute, second: 0, millisecond: 0 });
+
+  return candidate <= base.plus({ minutes: 1 }) ? candidate.plus({ days: 7 }) : candidate;
+}
@@ -1,7 +1,9 @@
-import { Prisma, PrismaClient } from "@prisma/client";
+import { Prisma, PrismaClient, type Activity } from "@prisma/client";
 import type { ChatMessage } from "../utils/openAiClient";
 import logger from "../utils/logger";
+import { now } from "../utils/clock";
 import { sendSms } from "../utils/twilioClient";
+import { runInBackground } from "../utils/backgroundWork";
 import {
   analyzeConversationHomies,
   buildHomiesAnalyzerSystemPrompt,
@@ -18,20 +20,34 @@ import { analyzeEventTimePatch } from "./analyzers/eventTimePatchAnalyzer";
 import {
   asConversationState,
   type ActiveEventDraft,
+  type ConversationState,
+  type PendingEventChange,
+  type PendingEventDraft,
   parseIsoDateOrNull,
 } from "./domain/conversationState";
 import {
   computeMaxParticipantsTotal,
+  expandMemberGroupNames,
+  findMemberGroupByName,
   fullNameForMember,
   resolveExplicitHomiesForEvent,
+  type MemberGroupWithMembers,
 } from "./domain/homies";
+import { parseHomieChoiceReply } from "./domain/homieNameMatching";
 import { brandedInvitePolicyName } from "./domain/inviteBranding";
-import { buildEventDraftPreviewSms } from "./domain/smsFormatting";
+import {
+  buildEventDraftPreviewSms,
+  formatDateTimeForSms,
+  formatWhenLinesForSms,
+} from "./domain/smsFormatting";
 import { buildSchedulerHowItWorksSms } from "./domain/helpFormatting";
 import { summarizeConversationMemory } from "./memory/summarizeConversationMemory";
 import {
+  findEventAwaitingSlotLockIn,
+  lockInTimeSlot,
   onEventCreated,
   onMemberInboundMessage,
+  onMemberRemoved,
 } from "./coordinator/coordinator";
 import {
   analyzeEventConfirmation,
@@ -50,7 +66,97 @@ import {
   buildHelpIntentAnalyzerSystemPrompt,
 } from "./analyzers/helpIntentAnalyzer";
 import { applyInvitePlanPatch } from "./domain/invitePlanEdits";
+import { parseCandidateTimeOptions } from "./domain/candidateTimeSlots";
+import {
+  looksLikeEventChangeRequest,
+  narrowChangeTargetEvents,
+  parseRescheduleTime,
+  resolveChangeTargetEvent,
+  type RescheduleTime,
+} from "./domain/eventChangeParsing";
+import {
+  buildCreatorWhichEventSms,
+  buildCreatorWhichSeriesSms,
+} from "./domain/inviteFormatting";
+import {
+  analyzeEventChangeIntent,
+  buildEventChangeIntentAnalyzerSystemPrompt,
+} from "./analyzers/eventChangeIntentAnalyzer";
+import {
+  cancelEvent,
+  listUpcomingEventsForUser,
+  rescheduleEvent,
+  setEventInviteResponseWindow,
+  skipNextSeriesOccurrence,
+} from "./coordinator/eventChanges";
+import { parseInviteResponseWindow } from "./domain/inviteResponseWindowParsing";
+import { parseGuestPolicy } from "./domain/guestPolicyParsing";
+import { parseAttendanceReply } from "./domain/attendanceParsing";
+import {
+  findMentionedSeries,
+  parseRecurrence,
+  parseSeriesCommand,
+  type RecurrenceRequest,
+} from "./domain/seriesParsing";
+import {
+  endEventSeries,
+  listActiveSeriesForUser,
+  pauseEventSeries,
+  resumeEventSeries,
+  scheduleNextSeriesOccurrence,
+} from "./coordinator/eventSeries";
+import { findEventAwaitingAttendance, recordEventAttendance } from "./coordinator/attendance";
+import {
+  parsePastEventReference,
+  parseSaveTemplateCommand,
+} from "./domain/eventTemplateParsing";
+import {
+  resolveDraftPrefill,
+  saveEventTemplateFromDraft,
+  saveEventTemplateFromEvent,
+  type EventDraftPrefill,
+} from "./coordinator/eventTemplates";
+import { clampMaxGuestsPerMember } from "../domain/guestPolicy";
+import {
+  clampRecurrenceInterval,
+  clampSeriesInviteLeadMinutes,
+  DEFAULT_SERIES_INVITE_LEAD_MINUTES,
+  describeRecurrence,
+  formatSeriesInviteLead,
+  weekOfMonthFor,
+  type RecurrenceRule,
+} from "../domain/recurrence";
+import { loadMemberReliability } from "../domain/memberReliability";
+import {
+  loadMemberAvailabilityRules,
+  unavailableMemberIdsForSlots,
+} from "../domain/memberAvailability";
+import { buildInvitePlan, uniqueById } from "./domain/invitePlan";
+import {
+  clampInviteResponseMinutes,
+  formatInviteResponseWindow,
+} from "../domain/inviteExpiryPolicy";
 import { parseInvitePolicyChoiceFromUserText } from "./domain/invitePolicyChoice";
+import {
+  buildActivityChoiceSms,
+  describeActivitiesForSms,
+  findActivityByName,
+  matchActivityMentionedInText,
+  parseNewActivityName,
+} from "./domain/activities";
+import {
+  findDuplicateHomie,
+  findHomiesByName,
+  findPhoneTextInMessage,
+  formatUsPhoneForSms,
+  isAffirmativeReply,
+  parseHomieCommand,
+  tryNormalizeUsPhone,
+} from "./domain/homieCommands";
+import {
+  analyzeActivitySelection,
+  buildActivitySelectionAnalyzerSystemPrompt,
+} from "./analyzers/activitySelectionAnalyzer";
 import type { InboundTwilioMessageContext } from "./types";
 
 import { DateTime } from "luxon";
@@ -65,82 +171,6 @@ import {
   textMentionsStartOrEnd,
 } from "./domain/smsTimeParsing";
 
-function shuffleInPlace<T>(arr: T[]): T[] {
-  // Fisher–Yates shuffle
-  for (let i = arr.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [arr[i], arr[j]] = [arr[j], arr[i]];
-  }
-  return arr;
-}
-
-function uniqueById<T extends { member_id: string }>(members: T[]): T[] {
-  const seen = new Set<string>();
-  const out: T[] = [];
-  for (const m of members) {
-    if (!seen.has(m.member_id)) {
-      seen.add(m.member_id);
-      out.push(m);
-    }
-  }
-  return out;
-}
-
-function buildInvitePlan(args: {
-  invitePolicy: "max_only" | "prioritized" | "exact";
-  maxHomies: number;
-  allMembers: Prisma.MemberGetPayload<{}>[];
-  preferredMembers: Prisma.MemberGetPayload<{}>[];
-}): {
-  // Members to mark as `invited` immediately
-  immediate: Prisma.MemberGetPayload<{}>[];
-  // Members to mark as `listed` for follow-up (decline/timeout)
-  followUp: Prisma.MemberGetPayload<{}>[];
-} {
-  const all = uniqueById(args.allMembers);
-  const preferred = uniqueById(args.preferredMembers);
-
-  const max = Math.max(0, Math.trunc(args.maxHomies));
-
-  if (args.invitePolicy === "exact") {
-    return {
-      immediate: preferred,
-      followUp: [],
-    };
-  }
-
-  if (args.invitePolicy === "prioritized") {
-    const preferredIds = new Set(preferred.map((m) => m.member_id));
-    const remaining = all.filter((m) => !preferredIds.has(m.member_id));
-    shuffleInPlace(remaining);
-
-    // Priority Invite behavior (per product):
-    // - ALWAYS invite all preferred (priority) homies, even if that exceeds n.
-    // - If preferred doesn't already fill capacity, randomly pick additional homies
-    //   until we reach the requested total capacity.
-    //
-    // NOTE: Invites may exceed capacity because capacity is enforced at ACCEPT time.
-    // But when preferred <= n, treat n as the TOTAL desired homies (not "additional").
-    const fillersNeeded = Math.max(0, max - preferred.length);
-    const fillers = remaining.slice(0, fillersNeeded);
-    const immediate = [...preferred, ...fillers];
-
-    const immediateIds = new Set(immediate.map((m) => m.member_id));
-    // Follow-up should be randomized so it reflects the order we’ll likely invite next.
-    const followUp = shuffleInPlace(
-      all.filter((m) => !immediateIds.has(m.member_id)),
-    );
-
-    return { immediate, followUp };
-  }
-
-  // max_only
-  const shuffled = shuffleInPlace([...all]);
-  const immediate = shuffled.slice(0, max);
-  const followUp = shuffled.slice(max);
-  return { immediate, followUp };
-}
-
 function resolveMembersById(args: {
   allMembers: Prisma.MemberGetPayload<{}>[];
   ids: string[];
@@ -151,6 +181,107 @@ function resolveMembersById(args: {
     .filter(Boolean) as Prisma.MemberGetPayload<{}>[];
 }
 
+function alternateTimesForSms(
+  alternateSlots: Array<{ startIso: string; endIso: string }> | undefined,
+): Array<{ start: Date; end: Date }> {
+  return (alternateSlots ?? []).map((a) => ({
+    start: new Date(a.startIso),
+    end: new Date(a.endIso),
+  }));
+}
+
+/** Homies whose availability rules rule out every candidate time of a draft. */
+async function loadUnavailableHomieIds(args: {
+  homies: Prisma.MemberGetPayload<{}>[];
+  user: Prisma.UserGetPayload<{}>;
+  slots: Array<{ startIso: string; endIso: string }>;
+}): Promise<Set<string>> {
+  const rulesByMemberId = await loadMemberAvailabilityRules(
+    prisma,
+    args.homies.map((h) => h.member_id),
+  );
+  return unavailableMemberIdsForSlots({
+    members: args.homies,
+    user: args.user,
+    rulesByMemberId,
+    slots: args.slots.map((s) => ({ start: new Date(s.startIso), end: new Date(s.endIso) })),
+  });
+}
+
+/** Series rule for a recurring draft, anchored on its first start. */
+function recurrenceRuleForDraft(args: {
+  recurrence: RecurrenceRequest;
+  startIso: string;
+  timeZone: string;
+}): RecurrenceRule {
+  const anchor = new Date(args.startIso);
+  return {
+    frequency: args.recurrence.frequency,
+    interval: clampRecurrenceInterval(args.recurrence.interval),
+    week_of_month:
+      args.recurrence.frequency === "monthly"
+        ? (args.recurrence.weekOfMonth ?? weekOfMonthFor(anchor, args.timeZone))
+        : null,
+    anchor_start: anchor,
+    timezone: args.timeZone,
+  };
+}
+
+/** "every Tuesday, invites go out 2 days before" for draft previews; null for one-off plans. */
+function recurrenceTextForSms(args: {
+  recurrence?: RecurrenceRequest;
+  startIso?: string;
+  timeZone: string;
+}): string | null {
+  if (!args.recurrence || !args.startIso) return null;
+  const rule = recurrenceRuleForDraft({
+    recurrence: args.recurrence,
+    startIso: args.startIso,
+    timeZone: args.timeZone,
+  });
+  const lead = clampSeriesInviteLeadMinutes(
+    args.recurrence.inviteLeadMinutes ?? DEFAULT_SERIES_INVITE_LEAD_MINUTES,
+  );
+  return `${describeRecurrence(rule)}, invites go out ${formatSeriesInviteLead(lead)} before`;
+}
+
+/**
+ * Draft fields copied from an earlier plan ("same as last time"). Homies removed since
+ * drop off the named list, and a handpicked list shrinks with them.
+ */
+function draftFieldsFromPrefill(args: {
+  prefill: EventDraftPrefill;
+  homies: Prisma.MemberGetPayload<{}>[];
+}): Partial<ActiveEventDraft> {
+  const p = args.prefill;
+  const byId = new Map(args.homies.map((h) => [h.member_id, h]));
+  const preferredNames = p.preferredMemberIds.flatMap((id) => {
+    const m = byId.get(id);
+    return m ? [fullNameForMember(m)] : [];
+  });
+  const maxHomies = p.invitePolicy === "exact" ? preferredNames.length : p.maxHomies;
+  // Only pin the policy when the list and count alone would read as a different one
+  // (e.g. Priority Invite with as many names as spots), so later edits still re-infer it.
+  const inferredPolicy = deriveInvitePolicy({
+    preferredCount: preferredNames.length,
+    maxHomies: maxHomies ?? 0,
+  });
+
+  return {
+    ...(p.location ? { location: p.location } : {}),
+    ...(p.durationMinutes ? { durationMinutes: p.durationMinutes } : {}),
+    ...(preferredNames.length ? { preferredNames } : {}),
+    ...(maxHomies ? { maxHomies } : {}),
+    ...(preferredNames.length && p.invitePolicy !== inferredPolicy
+      ? { invitePolicyOverride: p.invitePolicy }
+      : {}),
+    ...(p.inviteMessage ? { inviteMessage: p.inviteMessage } : {}),
+    ...(p.inviteResponseMinutes != null ? { inviteResponseMinutes: p.inviteResponseMinutes } : {}),
+    ...(p.maxGuestsPerMember != null ? { maxGuestsPerMember: p.maxGuestsPerMember } : {}),
+    ...(p.memberGroupId ? { memberGroupId: p.memberGroupId } : {}),
+  };
+}
+
 function buildAllowedHomiesListForPrompt(
   homies: Prisma.MemberGetPayload<{}>[],
 ): string {
@@ -175,6 +306,10 @@ function buildLockedInInvitePlanSms(args: {
   inviteMessage?: string | null;
   immediateNames: string[];
   followUpNames: string[];
+  /** Extra candidate times the homies will vote on (start/end is option 1). */
+  alternateTimes?: Array<{ start: Date; end: Date }>;
+  /** Set for recurring plans (see `recurrenceTextForSms`). */
+  recurrenceText?: string | null;
 }): string {
   // We intentionally override the prior confirmation text so it lists actual names.
   // Keep it short and SMS-friendly.
@@ -234,8 +369,17 @@ function buildLockedInInvitePlanSms(args: {
     }`;
   }
 
+  const whenLines = args.alternateTimes?.length
+    ? formatWhenLinesForSms(args)
+    : `When: ${when}`;
+  const voteLine = args.alternateTimes?.length
+    ? "\nI’ll text you as votes come in. Reply “lock in N” to pick a time."
+    : "";
+
+  const repeatsLine = args.recurrenceText ? `\nRepeats: ${args.recurrenceText}` : "";
+
   // Requested format: explicitly include these two lines.
-  return `Locked in: ${args.activityName}\nWhen: ${when}\nWhere: ${args.location}\n${immediateLine}\n${backupLine}${noteLine}`;
+  return `Locked in: ${args.activityName}\n${whenLines}\nWhere: ${args.location}\n${immediateLine}\n${backupLine}${noteLine}${repeatsLine}${voteLine}`;
 }
 
 function deriveInvitePolicy(args: {
@@ -269,6 +413,1056 @@ async function detectInvitePolicyHintFromMessages(
 
 const prisma = new PrismaClient();
 
+type ActivityResolution =
+  | { kind: "selected"; activity: Activity; created: boolean }
+  | { kind: "ask"; reason: "no_activities" | "ambiguous" | "unrecognized_choice" };
+
+/**
+ * Pick which of the user's activities a scheduling message is about.
+ *
+ * Order: activity named in this message, answer to a pending "Which activity?",
+ * the activity of the draft in progress, the only activity, then the LLM.
+ * New activities are created on the fly when the user names one we don't have.
+ */
+async function resolveActivityForSchedulingMessage(args: {
+  userId: string;
+  activities: Activity[];
+  body: string;
+  userOnlyMessages: ChatMessage[];
+  state: ConversationState;
+}): Promise<ActivityResolution> {
+  const createActivity = async (name: string): Promise<ActivityResolution> => {
+    const existing = findActivityByName({ name, activities: args.activities });
+    if (existing) return { kind: "selected", activity: existing, created: false };
+
+    const activity = await prisma.activity.create({
+      data: { user_id: args.userId, name },
+    });
+    logger.info("activitySelection:created", {
+      userId: args.userId,
+      activityId: activity.activity_id,
+      name,
+    });
+    return { kind: "selected", activity, created: true };
+  };
+
+  const mentioned = matchActivityMentionedInText({
+    text: args.body,
+    activities: args.activities,
+  });
+  if (mentioned) return { kind: "selected", activity: mentioned, created: false };
+
+  if (args.state.pendingActivityChoice) {
+    const newName = parseNewActivityName(args.body);
+    if (newName) return createActivity(newName);
+  }
+
+  const draftActivity =
+    args.state.activeDraft?.status === "collecting_details"
+      ? args.activities.find((a) => a.activity_id === args.state.activeDraft?.activityId)
+      : undefined;
+  if (draftActivity) return { kind: "selected", activity: draftActivity, created: false };
+
+  if (args.activities.length === 1 && !args.state.pendingActivityChoice) {
+    return { kind: "selected", activity: args.activities[0], created: false };
+  }
+
+  const { selection, rawText } = await analyzeActivitySelection({
+    systemPrompt: buildActivitySelectionAnalyzerSystemPrompt({
+      activitiesList: args.activities.length
+        ? args.activities.map((a) => `- ${a.name}`).join("\n")
+        : "(none yet)",
+    }),
+    messages: args.userOnlyMessages,
+  });
+
+  logger.info("activitySelection", { selection, rawText });
+
+  if (selection.activityName && selection.confidence !== "low") {
+    const existing = findActivityByName({
+      name: selection.activityName,
+      activities: args.activities,
+    });
+    if (existing) return { kind: "selected", activity: existing, created: false };
+    if (selection.isNew && selection.confidence === "high") {
+      return createActivity(selection.activityName);
+    }
+  }
+
+  // Only one activity and the reply didn't name a new one: go with it.
+  if (args.activities.length === 1) {
+    return { kind: "selected", activity: args.activities[0], created: false };
+  }
+
+  return {
+    kind: "ask",
+    reason: args.state.pendingActivityChoice
+      ? "unrecognized_choice"
+      : args.activities.length === 0
+        ? "no_activities"
+        : "ambiguous",
+  };
+}
+
+/** A "remove Moe?" / "Curly's new number?" question older than this is dropped, not answered. */
+const HOMIE_FOLLOW_UP_MAX_AGE_MS = 30 * 60_000;
+
+function isFreshHomieFollowUp(askedAtIso: string): boolean {
+  const askedAt = Date.parse(askedAtIso);
+  return Number.isFinite(askedAt) && now().getTime() - askedAt <= HOMIE_FOLLOW_UP_MAX_AGE_MS;
+}
+
+/**
+ * Homie management by SMS ("add Jake Smith 555-123-4567", "remove Moe",
+ * "update Curly's number"), plus the follow-ups those commands ask for.
+ *
+ * Returns true when the message was handled. Listing homies stays with the
+ * assistant-intent branch in the handler.
+ */
+async function maybeHandleHomieCommand(args: {
+  ctx: InboundTwilioMessageContext;
+  userId: string;
+  phoneNumber: string;
+  homies: Prisma.MemberGetPayload<{}>[];
+  state: ConversationState;
+}): Promise<boolean> {
+  const body = (args.ctx.body ?? "").trim();
+
+  const reply = async (sms: string, attributes: Prisma.InputJsonValue) => {
+    const sid = await sendSms(args.phoneNumber, sms);
+    await prisma.conversationMessage.create({
+      data: {
+        conversation_id: args.ctx.conversationId,
+        role: "assistant",
+        direction: "outbound",
+        content: sms,
+        twilio_sid: sid,
+        attributes,
+      },
+    });
+  };
+
+  const saveState = async (patch: {
+    pendingHomieRemoval?: ConversationState["pendingHomieRemoval"] | null;
+    pendingHomiePhoneUpdate?: ConversationState["pendingHomiePhoneUpdate"] | null;
+  }) => {
+    const nextState = {
+      ...(args.state as unknown as Prisma.JsonObject),
+    } as Prisma.JsonObject;
+
+    for (const [key, value] of Object.entries(patch)) {
+      if (value) nextState[key] = value as unknown as Prisma.JsonValue;
+      else delete nextState[key];
+    }
+
+    await prisma.conversation.update({
+      where: { conversation_id: args.ctx.conversationId },
+      data: { state: nextState as unknown as Prisma.InputJsonValue },
+    });
+
+    // Keep the caller's view in sync; later branches spread `state` when saving.
+    delete args.state.pendingHomieRemoval;
+    delete args.state.pendingHomiePhoneUpdate;
+    Object.assign(args.state, nextState);
+  };
+
+  // Applies a validated number; shared by the one-shot command and the follow-up answer.
+  const updatePhone = async (member: Prisma.MemberGetPayload<{}>, phoneText: string) => {
+    const name = fullNameForMember(member);
+    const phoneE164 = tryNormalizeUsPhone(phoneText);
+    if (!phoneE164) {
+      await reply(`“${phoneText}” doesn’t look like a US number. What’s ${name}’s new number?`, {
+        kind: "homie_update_phone",
+        memberId: member.member_id,
+        reason: "invalid_phone",
+      });
+      await saveState({
+        pendingHomiePhoneUpdate: {
+          memberId: member.member_id,
+          askedAtIso: now().toISOString(),
+        },
+      });
+      return;
+    }
+
+    const taken = args.homies.find(
+      (m) => m.member_id !== member.member_id && m.phone_number === phoneE164,
+    );
+    if (taken) {
+      await reply(`${fullNameForMember(taken)} already has ${formatUsPhoneForSms(phoneE164)}.`, {
+        kind: "homie_update_phone",
+        memberId: member.member_id,
+        reason: "duplicate_phone",
+      });
+      await saveState({ pendingHomiePhoneUpdate: null });
+      return;
+    }
+
+    await prisma.member.update({
+      where: { member_id: member.member_id },
+      data: { phone_number: phoneE164 },
+    });
+    await reply(`Updated ${name}’s number to ${formatUsPhoneForSms(phoneE164)}.`, {
+      kind: "homie_update_phone",
+      memberId: member.member_id,
+    });
+    await saveState({ pendingHomiePhoneUpdate: null });
+  };
+
+  // Spots they hold on upcoming events; deleting them cascades these rows away.
+  const loadUpcomingSpots = async (memberId: string) =>
+    (
+      await prisma.eventMember.findMany({
+        where: {
+          member_id: memberId,
+          status: { in: ["invited", "messaged", "maybe", "accepted", "waitlisted"] },
+          invite_timed_out: false,
+          event: {
+            cancelled_at: null,
+            timeSlots: { some: { start_time: { gt: now() } } },
+          },
+        },
+        select: { event_id: true, status: true },
+      })
+    ).map((em) => ({ eventId: em.event_id, status: em.status }));
+
+  // Upcoming events they were on free their spot like a decline would.
+  const removeMember = async (member: Prisma.MemberGetPayload<{}>, hadHistory: boolean) => {
+    const spots = await loadUpcomingSpots(member.member_id);
+    await prisma.member.delete({ where: { member_id: member.member_id } });
+    logger.info("homieCommand:removed", {
+      memberId: member.member_id,
+      hadHistory,
+      upcomingEventCount: spots.length,
+    });
+    await reply(`Removed ${fullNameForMember(member)} from your homies.`, {
+      kind: "homie_remove",
+      memberId: member.member_id,
+    });
+    await onMemberRemoved({ member, spots });
+  };
+
+  const pendingRemoval = args.state.pendingHomieRemoval;
+  if (pendingRemoval) {
+    const member = isFreshHomieFollowUp(pendingRemoval.askedAtIso)
+      ? args.homies.find((m) => m.member_id === pendingRemoval.memberId)
+      : undefined;
+    if (member && isAffirmativeReply(body)) {
+      await saveState({ pendingHomieRemoval: null });
+      await removeMember(member, true);
+      return true;
+    }
+
+    if (member && /^\s*(no|nope|nah|keep( (them|him|her))?|never ?mind|nvm|cancel)\b/i.test(body)) {
+      await reply(`Okay, I kept ${fullNameForMember(member)}.`, {
+        kind: "homie_remove",
+        memberId: member.member_id,
+        reason: "declined",
+      });
+      await saveState({ pendingHomieRemoval: null });
+      return true;
+    }
+
+    // Anything else (or a stale ask) moves on; the removal has to be asked for again.
+    await saveState({ pendingHomieRemoval: null });
+  }
+
+  const pendingPhone = args.state.pendingHomiePhoneUpdate;
+  if (pendingPhone) {
+    const member = isFreshHomieFollowUp(pendingPhone.askedAtIso)
+      ? args.homies.find((m) => m.member_id === pendingPhone.memberId)
+      : undefined;
+    const phoneText = findPhoneTextInMessage(body);
+    if (member && phoneText) {
+      await updatePhone(member, phoneText);
+      return true;
+    }
+    await saveState({ pendingHomiePhoneUpdate: null });
+  }
+
+  const command = parseHomieCommand({
+    text: body,
+    draftInProgress: Boolean(args.state.pendingEvent || args.state.activeDraft),
+  });
+  if (!command || command.kind === "list") return false;
+
+  if (command.kind === "add") {
+    const phoneE164 = tryNormalizeUsPhone(command.phoneText);
+    if (!phoneE164) {
+      await reply(
+        `“${command.phoneText}” doesn’t look like a US number. Try “add Jake Smith 555-123-4567”.`,
+        { kind: "homie_add", reason: "invalid_phone" },
+      );
+      return true;
+    }
+
+    const dup = findDuplicateHomie({
+      homies: args.homies,
+      firstName: command.firstName,
+      lastName: command.lastName,
+      phoneE164,
+    });
+    if (dup) {
+      const sms =
+        dup.reason === "phone"
+          ? `${fullNameForMember(dup.member)} already has ${formatUsPhoneForSms(phoneE164)}.`
+          : `You already have a homie named ${fullNameForMember(dup.member)}. Add a last name to tell them apart, or “update ${dup.member.first_name}’s number”.`;
+      await reply(sms, {
+        kind: "homie_add",
+        memberId: dup.member.member_id,
+        reason: dup.reason === "phone" ? "duplicate_phone" : "duplicate_name",
+      });
+      return true;
+    }
+
+    const member = await prisma.member.create({
+      data: {
+        user_id: args.userId,
+        first_name: command.firstName,
+        last_name: command.lastName,
+        phone_number: phoneE164,
+      },
+    });
+    logger.info("homieCommand:added", { memberId: member.member_id });
+    await reply(
+      `Added ${fullNameForMember(member)} (${formatUsPhoneForSms(phoneE164)}) to your homies.`,
+      { kind: "homie_add", memberId: member.member_id },
+    );
+    return true;
+  }
+
+  const matches = findHomiesByName({ name: command.name, homies: args.homies });
+  const kind = command.kind === "remove" ? "homie_remove" : "homie_update_phone";
+
+  if (matches.length === 0) {
+    await reply(`I couldn’t find a homie named ${command.name}. Text “send me my homies” to see the list.`, {
+      kind,
+      reason: "not_found",
+    });
+    return true;
+  }
+
+  if (matches.length > 1) {
+    const lines = matches.map((m) => `- ${fullNameForMember(m)}`).join("\n");
+    const example =
+      command.kind === "remove"
+        ? `remove ${fullNameForMember(matches[0])}`
+        : `update ${fullNameForMember(matches[0])}’s number`;
+    await reply(`Which one?\n${lines}\nReply with the full name (e.g. “${example}”).`, {
+      kind,
+      reason: "ambiguous",
+    });
+    return true;
+  }
+
+  const member = matches[0];
+  const name = fullNameForMember(member);
+
+  if (command.kind === "update_phone") {
+    if (command.phoneText) {
+      await updatePhone(member, command.phoneText);
+      return true;
+    }
+
+    await reply(`What’s ${name}’s new number?`, {
+      kind: "homie_update_phone",
+      memberId: member.member_id,
+      needs: "phone_number",
+    });
+    await saveState({
+      pendingHomiePhoneUpdate: { memberId: member.member_id, askedAtIso: now().toISOString() },
+    });
+    return true;
+  }
+
+  // Deleting cascades to invites/votes, so confirm when there's history to lose.
+  const eventCount = await prisma.eventMember.count({
+    where: { member_id: member.member_id },
+  });
+
+  if (eventCount > 0) {
+    const upcomingCount = (await loadUpcomingSpots(member.member_id)).length;
+    const upcoming =
+      upcomingCount > 0
+        ? ` ${upcomingCount === 1 ? "One is" : `${upcomingCount} are`} coming up; I’ll give their spot to the next homie.`
+        : "";
+    await reply(
+      `${name} is on ${eventCount} event${eventCount === 1 ? "" : "s"}.${upcoming} Removing them also deletes that history. Reply YES to remove, or NO to keep them.`,
+      {
+        kind: "homie_remove",
+        memberId: member.member_id,
+        needs: "removal_confirmation",
+        upcomingEventCount: upcomingCount,
+      },
+    );
+    await saveState({
+      pendingHomieRemoval: { memberId: member.member_id, askedAtIso: now().toISOString() },
+    });
+    return true;
+  }
+
+  await removeMember(member, false);
+  return true;
+}
+
+/** Send + log an SMS on the creator's own conversation. */
+async function replyToUser(args: {
+  ctx: InboundTwilioMessageContext;
+  phoneNumber: string;
+  sms: string;
+  attributes: Prisma.InputJsonValue;
+}): Promise<void> {
+  const sid = await sendSms(args.phoneNumber, args.sms);
+  await prisma.conversationMessage.create({
+    data: {
+      conversation_id: args.ctx.conversationId,
+      role: "assistant",
+      direction: "outbound",
+      content: args.sms,
+      twilio_sid: sid,
+      attributes: args.attributes,
+    },
+  });
+}
+
+type SettingsCommandTarget =
+  | { kind: "pending_draft" }
+  | { kind: "active_draft" }
+  | { kind: "event"; eventId: string; activityName: string | null }
+  | { kind: "none" };
+
+/**
+ * Where a standalone per-event setting ("give them 2 hours to reply", "no plus ones")
+ * applies: the draft awaiting confirmation, else the draft being planned, else the
+ * most recent upcoming event.
+ */
+async function resolveSettingsCommandTarget(args: {
+  userId: string;
+  state: ConversationState;
+}): Promise<SettingsCommandTarget> {
+  if (args.state.pendingEvent?.status === "awaiting_confirmation") return { kind: "pending_draft" };
+  if (args.state.activeDraft) return { kind: "active_draft" };
+
+  const upcoming = await listUpcomingEventsForUser({ userId: args.userId });
+  const target =
+    upcoming.find((e) => e.eventId === args.state.lastCreatedEventId) ?? upcoming[0];
+  return target
+    ? { kind: "event", eventId: target.eventId, activityName: target.activityName }
+    : { kind: "none" };
+}
+
+/** Apply a setting to the draft the target points at and persist the conversation state. */
+async function saveDraftSetting(args: {
+  ctx: InboundTwilioMessageContext;
+  state: ConversationState;
+  target: { kind: "pending_draft" } | { kind: "active_draft" };
+  patch: Partial<Pick<PendingEventDraft, "inviteResponseMinutes" | "maxGuestsPerMember">>;
+}): Promise<void> {
+  const nextState = { ...(args.state as unknown as Prisma.JsonObject) };
+  if (args.target.kind === "pending_draft" && args.state.pendingEvent) {
+    nextState.pendingEvent = {
+      ...args.state.pendingEvent,
+      draft: { ...args.state.pendingEvent.draft, ...args.patch },
+    } as unknown as Prisma.JsonValue;
+  } else if (args.target.kind === "active_draft" && args.state.activeDraft) {
+    nextState.activeDraft = {
+      ...args.state.activeDraft,
+      ...args.patch,
+    } as unknown as Prisma.JsonValue;
+  }
+
+  await prisma.conversation.update({
+    where: { conversation_id: args.ctx.conversationId },
+    data: { state: nextState as unknown as Prisma.InputJsonValue },
+  });
+  Object.assign(args.state, nextState);
+}
+
+/**
+ * "give them 2 hours to reply" on its own: applies to the draft being planned, else
+ * to the most recent upcoming event. "by default …" sets the creator's default.
+ *
+ * Returns true when the message was handled. Requests embedded in a scheduling
+ * message are picked up by the draft flow instead.
+ */
+async function maybeHandleInviteResponseWindowCommand(args: {
+  ctx: InboundTwilioMessageContext;
+  user: Prisma.UserGetPayload<{}>;
+  phoneNumber: string;
+  state: ConversationState;
+}): Promise<boolean> {
+  const request = parseInviteResponseWindow(args.ctx.body ?? "");
+  if (!request?.standalone) return false;
+
+  const minutes = clampInviteResponseMinutes(request.minutes);
+  const windowText = formatInviteResponseWindow(minutes);
+
+  const reply = (sms: string, attributes: Prisma.InputJsonValue) =>
+    replyToUser({ ctx: args.ctx, phoneNumber: args.phoneNumber, sms, attributes });
+
+  if (request.scope === "default") {
+    await prisma.user.update({
+      where: { user_id: args.user.user_id },
+      data: { default_invite_response_minutes: minutes },
+    });
+    await reply(`Got it: from now on homies get ${windowText} to reply to your invites.`, {
+      kind: "invite_response_window",
+      scope: "default",
+      minutes,
+    });
+    return true;
+  }
+
+  const target = await resolveSettingsCommandTarget({
+    userId: args.user.user_id,
+    state: args.state,
+  });
+
+  if (target.kind === "pending_draft" || target.kind === "active_draft") {
+    await saveDraftSetting({
+      ctx: args.ctx,
+      state: args.state,
+      target,
+      patch: { inviteResponseMinutes: minutes },
+    });
+    await reply(
+      target.kind === "pending_draft"
+        ? `Got it: homies get ${windowText} to reply. Say “looks good” to send the invites.`
+        : `Got it: homies will get ${windowText} to reply once the invites go out.`,
+      { kind: "invite_response_window", scope: "draft", minutes },
+    );
+    return true;
+  }
+
+  if (target.kind === "none") {
+    await reply(
+      `You don’t have an upcoming event to change. Text “by default give homies ${windowText} to reply” to use it for every plan.`,
+      { kind: "invite_response_window", scope: "event", minutes, reason: "no_upcoming_event" },
+    );
+    return true;
+  }
+
+  const res = await setEventInviteResponseWindow({ eventId: target.eventId, minutes });
+  await reply(res.ok ? res.sms : "That event already started or was cancelled, so I left it alone.", {
+    kind: "invite_response_window",
+    scope: "event",
+    eventId: target.eventId,
+    minutes,
+    ...(res.ok ? {} : { reason: res.reason }),
+  });
+  return true;
+}
+
+/**
+ * "allow plus ones" / "no guests" / "homies can bring up to 2 friends" on its own:
+ * applies to the draft being planned, else to the most recent upcoming event.
+ * "by default …" sets the creator's default. Guests already granted are kept.
+ *
+ * Returns true when the message was handled.
+ */
+async function maybeHandleGuestPolicyCommand(args: {
+  ctx: InboundTwilioMessageContext;
+  user: Prisma.UserGetPayload<{}>;
+  phoneNumber: string;
+  state: ConversationState;
+}): Promise<boolean> {
+  const request = parseGuestPolicy(args.ctx.body ?? "");
+  if (!request?.standalone) return false;
+
+  const maxGuests = clampMaxGuestsPerMember(request.maxGuests);
+  const ruleText =
+    maxGuests > 0
+      ? `homies can bring up to ${maxGuests} plus-${maxGuests === 1 ? "one" : "ones"}`
+      : "no plus-ones";
+
+  const reply = (sms: string, attributes: Prisma.InputJsonValue) =>
+    replyToUser({ ctx: args.ctx, phoneNumber: args.phoneNumber, sms, attributes });
+
+  if (request.scope === "default") {
+    await prisma.user.update({
+      where: { user_id: args.user.user_id },
+      data: { default_max_guests_per_member: maxGuests },
+    });
+    await reply(`Got it: from now on, ${ruleText} by default.`, {
+      kind: "guest_policy",
+      scope: "default",
+      maxGuests,
+    });
+    return true;
+  }
+
+  const target = await resolveSettingsCommandTarget({
+    userId: args.user.user_id,
+    state: args.state,
+  });
+
+  if (target.kind === "pending_draft" || target.kind === "active_draft") {
+    await saveDraftSetting({
+      ctx: args.ctx,
+      state: args.state,
+      target,
+      patch: { maxGuestsPerMember: maxGuests },
+    });
+    await reply(
+      target.kind === "pending_draft"
+        ? `Got it: ${ruleText}. Say “looks good” to send the invites.`
+        : `Got it: ${ruleText} for this one.`,
+      { kind: "guest_policy", scope: "draft", maxGuests },
+    );
+    return true;
+  }
+
+  if (target.kind === "none") {
+    await reply(
+      `You don’t have an upcoming event to change. Text “by default ${ruleText}” to use it for every plan.`,
+      { kind: "guest_policy", scope: "event", maxGuests, reason: "no_upcoming_event" },
+    );
+    return true;
+  }
+
+  await prisma.event.update({
+    where: { event_id: target.eventId },
+    data: { max_guests_per_member: maxGuests },
+  });
+  const what = (target.activityName ?? "").trim() || "your event";
+  await reply(`Got it: ${ruleText} for ${what}. Anyone already bringing someone keeps their spot.`, {
+    kind: "guest_policy",
+    scope: "event",
+    eventId: target.eventId,
+    maxGuests,
+  });
+  return true;
+}
+
+/**
+ * The creator's answer to the post-event "who actually showed?" check-in
+ * ("everyone", "Sam didn't show"). Only read while a check-in is open.
+ */
+async function maybeHandleAttendanceReply(args: {
+  ctx: InboundTwilioMessageContext;
+  userId: string;
+  phoneNumber: string;
+}): Promise<boolean> {
+  const event = await findEventAwaitingAttendance({ userId: args.userId });
+  if (!event) return false;
+
+  const answer = parseAttendanceReply({ text: args.ctx.body ?? "", homies: event.acceptedMembers });
+  if (!answer?.standalone) return false;
+
+  const sms = await recordEventAttendance({
+    event,
+    attendedMemberIds: answer.attendedMemberIds,
+    noShowMemberIds: answer.noShowMemberIds,
+  });
+  await replyToUser({
+    ctx: args.ctx,
+    phoneNumber: args.phoneNumber,
+    sms,
+    attributes: {
+      kind: "attendance_recorded",
+      eventId: event.eventId,
+      attendedCount: answer.attendedMemberIds.length,
+      noShowCount: answer.noShowMemberIds.length,
+    },
+  });
+  return true;
+}
+
+/**
+ * "skip next week" / "pause poker" / "resume the run" / "end the weekly run" for the
+ * creator's recurring events. Targets the series whose activity is named, else the
+ * only one it could apply to; asks which otherwise.
+ *
+ * Returns true when the message was handled. Without a series it could apply to, the
+ * message falls through to the other flows.
+ */
+async function maybeHandleSeriesCommand(args: {
+  ctx: InboundTwilioMessageContext;
+  userId: string;
+  phoneNumber: string;
+}): Promise<boolean> {
+  const body = args.ctx.body ?? "";
+  const command = parseSeriesCommand(body);
+  if (!command) return false;
+  const { action } = command;
+
+  const candidates = (await listActiveSeriesForUser({ userId: args.userId })).filter((s) =>
+    action === "resume" ? s.paused : action === "end" || !s.paused,
+  );
+  if (candidates.length === 0) return false;
+
+  const reply = (sms: string, attributes: Prisma.InputJsonValue) =>
+    replyToUser({ ctx: args.ctx, phoneNumber: args.phoneNumber, sms, attributes });
+
+  const named = findMentionedSeries({ text: body, series: candidates });
+  const target = named.length === 1 ? named[0] : candidates.length === 1 ? candidates[0] : null;
+  if (!target) {
+    await reply(
+      buildCreatorWhichSeriesSms({ action, series: named.length ? named : candidates }),
+      { kind: "series_change", action, needs: "series_choice" },
+    );
+    return true;
+  }
+
+  const seriesId = target.seriesId;
+  const res =
+    action === "skip"
+      ? await skipNextSeriesOccurrence({ seriesId })
+      : action === "pause"
+        ? await pauseEventSeries({ seriesId })
+        : action === "resume"
+          ? await resumeEventSeries({ seriesId })
+          : await endEventSeries({ seriesId });
+
+  await reply(res.ok ? res.sms : "I couldn’t find an upcoming one to change. It may already be cancelled.", {
+    kind: "series_change",
+    action,
+    seriesId,
+    ...(res.ok ? {} : { reason: res.reason }),
+  });
+  return true;
+}
+
+/**
+ * "save this as sunday run": keep the plan awaiting confirmation (else the last one
+ * created) as a named template, reused later with "same as sunday run".
+ *
+ * Returns true when the message was handled.
+ */
+async function maybeHandleSaveTemplateCommand(args: {
+  ctx: InboundTwilioMessageContext;
+  userId: string;
+  phoneNumber: string;
+  state: ConversationState;
+}): Promise<boolean> {
+  const command = parseSaveTemplateCommand(args.ctx.body ?? "");
+  if (!command) return false;
+
+  const res =
+    args.state.pendingEvent?.status === "awaiting_confirmation"
+      ? await saveEventTemplateFromDraft({
+          userId: args.userId,
+          name: command.name,
+          draft: args.state.pendingEvent.draft,
+        })
+      : await saveEventTemplateFromEvent({
+          userId: args.userId,
+          name: command.name,
+          eventId: args.state.lastCreatedEventId,
+        });
+
+  const sms = res.ok
+    ? `${res.replaced ? "Updated" : "Saved"} “${res.template.name}”. Next time, text “same as ${res.template.name}” with a day and time.`
+    : "There’s nothing to save yet. Once you’ve planned something, text “save this as …” to reuse it.";
+  await replyToUser({
+    ctx: args.ctx,
+    phoneNumber: args.phoneNumber,
+    sms,
+    attributes: {
+      kind: "save_event_template",
+      name: command.name,
+      ...(res.ok ? { templateId: res.template.template_id, replaced: res.replaced } : { reason: res.reason }),
+    },
+  });
+  return true;
+}
+
+// "Which one should I move?" / "What time should I move it to?" go unanswered after this.
+const EVENT_CHANGE_FOLLOW_UP_MAX_AGE_MS = 30 * 60_000;
+
+// Recent messages the intent check sees, so a draft edit reads as one.
+const EVENT_CHANGE_HISTORY_LIMIT = 6;
+
+/**
+ * "cancel Saturday's run" / "push it to 8pm" for an event that already went out, and
+ * the answers to the questions it asks ("the poker one", "8pm").
+ *
+ * While a draft is being collected, only messages that name an upcoming event are
+ * taken ("make it later" edits the draft). Returns true when the message was handled
+ * (including follow-up questions), false to let the scheduling flow treat it as a
+ * new plan.
+ */
+async function maybeHandleEventChangeRequest(args: {
+  ctx: InboundTwilioMessageContext;
+  user: Prisma.UserGetPayload<{}>;
+  phoneNumber: string;
+  state: ConversationState;
+  /** The message passed the cheap change-request gate. */
+  looksLikeChange: boolean;
+}): Promise<boolean> {
+  const body = (args.ctx.body ?? "").trim();
+  const timeZone = args.user.timezone;
+  const nowTz = DateTime.now();
+
+  const savePendingEventChange = async (pending: PendingEventChange | null) => {
+    const nextState = {
+      ...(args.state as unknown as Prisma.JsonObject),
+    } as Prisma.JsonObject;
+    if (pending) nextState.pendingEventChange = pending as unknown as Prisma.JsonValue;
+    else delete nextState.pendingEventChange;
+
+    await prisma.conversation.update({
+      where: { conversation_id: args.ctx.conversationId },
+      data: { state: nextState as unknown as Prisma.InputJsonValue },
+    });
+
+    // Keep the caller's view in sync; later branches spread `state` when saving.
+    delete args.state.pendingEventChange;
+    Object.assign(args.state, nextState);
+  };
+
+  // Answered or not, a question only gets one reply; asking again saves a new one.
+  const pending = args.state.pendingEventChange;
+  if (pending) await savePendingEventChange(null);
+  const askedAt = pending ? Date.parse(pending.askedAtIso) : NaN;
+  const followUp =
+    pending && Number.isFinite(askedAt) && now().getTime() - askedAt <= EVENT_CHANGE_FOLLOW_UP_MAX_AGE_MS
+      ? pending
+      : null;
+  if (!followUp && !args.looksLikeChange) return false;
+
+  const upcoming = await listUpcomingEventsForUser({ userId: args.user.user_id });
+  if (upcoming.length === 0) return false;
+
+  const send = async (sms: string, attributes: Prisma.InputJsonValue) => {
+    const sid = await sendSms(args.phoneNumber, sms);
+    await prisma.conversationMessage.create({
+      data: {
+        conversation_id: args.ctx.conversationId,
+        role: "assistant",
+        direction: "outbound",
+        content: sms,
+        twilio_sid: sid,
+        attributes,
+      },
+    });
+  };
+
+  const askWhichEvent = async (
+    action: PendingEventChange["action"],
+    requestText: string,
+    candidates: string[],
+  ) => {
+    const slots = await prisma.timeSlot.findMany({
+      where: { event_id: { in: candidates }, status: { not: "declined" } },
+      orderBy: { start_time: "asc" },
+      include: { event: { include: { activity: true } } },
+    });
+    const firstSlotPerEvent = slots.filter(
+      (ts, idx) => slots.findIndex((o) => o.event_id === ts.event_id) === idx,
+    );
+
+    await send(
+      buildCreatorWhichEventSms({
+        action,
+        events: firstSlotPerEvent.map((ts) => ({
+          activityName: ts.event.activity?.name,
+          timeSlot: ts,
+        })),
+        timeZone,
+      }),
+      { kind: "event_change", action, needs: "event_choice" },
+    );
+    await savePendingEventChange({
+      action,
+      requestText,
+      candidateEventIds: firstSlotPerEvent.map((ts) => ts.event_id),
+      askedAtIso: now().toISOString(),
+    });
+  };
+
+  let action: PendingEventChange["action"];
+  let requestText: string;
+  let eventId: string;
+
+  if (followUp?.eventId) {
+    // Asked for the time: this message has to carry it.
+    if (!upcoming.some((e) => e.eventId === followUp.eventId)) return false;
+    action = followUp.action;
+    requestText = body;
+    eventId = followUp.eventId;
+  } else if (followUp) {
+    // Asked which event: this message has to name one of those offered.
+    const offered = upcoming.filter((e) => followUp.candidateEventIds?.includes(e.eventId));
+    const picked = narrowChangeTargetEvents({ text: body, events: offered, timeZone, now: nowTz });
+    if (!picked.hinted) return false;
+    if (picked.events.length > 1) {
+      await askWhichEvent(
+        followUp.action,
+        followUp.requestText,
+        picked.events.map((e) => e.eventId),
+      );
+      return true;
+    }
+    action = followUp.action;
+    requestText = followUp.requestText;
+    eventId = picked.events[0].eventId;
+  } else {
+    // "make it later, 8pm" while planning edits the draft, not an event that went out.
+    if (
+      args.state.activeDraft &&
+      !narrowChangeTargetEvents({ text: body, events: upcoming, timeZone, now: nowTz }).hinted
+    ) {
+      return false;
+    }
+
+    const history = await prisma.conversationMessage.findMany({
+      where: { conversation_id: args.ctx.conversationId },
+      orderBy: { created_at: "desc" },
+      take: EVENT_CHANGE_HISTORY_LIMIT,
+      select: { role: true, content: true },
+    });
+
+    const { intent, rawText } = await analyzeEventChangeIntent({
+      systemPrompt: buildEventChangeIntentAnalyzerSystemPrompt({
+        upcomingEventsList: upcoming
+          .map(
+            (e) =>
+              `- ${(e.activityName ?? "hang").trim() || "hang"}, ${formatDateTimeForSms(e.start, timeZone)}`,
+          )
+          .join("\n"),
+      }),
+      // DB returns newest-first; the analyzer reads oldest-first, ending with this message.
+      messages: history.reverse().map((m) => ({
+        role: m.role === "user" ? "user" : "assistant",
+        content: m.content,
+      })),
+    });
+
+    logger.info("eventChangeIntent", { intent, rawText });
+
+    if (!intent.intent || intent.confidence === "low") return false;
+    action = intent.intent;
+    requestText = body;
+
+    // The new time/day usually follows "to"; only the part before it identifies the event.
+    const referenceText = intent.eventReference ?? body.split(/\bto\b/i)[0];
+    const target = resolveChangeTargetEvent({
+      text: referenceText,
+      events: upcoming,
+      lastCreatedEventId: args.state.lastCreatedEventId,
+      timeZone,
+      now: nowTz,
+    });
+
+    if (target.kind !== "resolved") {
+      await askWhichEvent(
+        action,
+        requestText,
+        target.kind === "ambiguous" ? target.eventIds : upcoming.map((e) => e.eventId),
+      );
+      return true;
+    }
+    eventId = target.eventId;
+  }
+
+  if (action === "cancel") {
+    const res = await cancelEvent({ eventId });
+    const sms = res.ok
+      ? res.sms
+      : res.reason === "already_started"
+        ? "That one already started, so I left it alone."
+        : "I couldn’t find that event to cancel. It may already be cancelled.";
+    await send(sms, {
+      kind: "event_change",
+      action,
+      eventId,
+      ...(res.ok ? {} : { reason: res.reason }),
+    });
+    return true;
+  }
+
+  // Reschedule: work out the new start/end relative to the current slot.
+  const currentSlot = await prisma.timeSlot.findFirst({
+    where: { event_id: eventId, status: { not: "declined" } },
+    orderBy: { start_time: "asc" },
+  });
+  if (!currentSlot) return false;
+
+  const currentStart = DateTime.fromJSDate(currentSlot.start_time, { zone: timeZone });
+  const currentEnd = DateTime.fromJSDate(currentSlot.end_time, { zone: timeZone });
+
+  let next: RescheduleTime | null = parseRescheduleTime({
+    text: requestText,
+    currentStart,
+    currentEnd,
+    timeZone,
+    now: nowTz,
+  });
+
+  if (!next) {
+    const patchRes = await analyzeEventTimePatch({
+      userTimezone: timeZone,
+      existingStartIso: currentStart.toISO() ?? undefined,
+      existingEndIso: currentEnd.toISO() ?? undefined,
+      messages: [{ role: "user", content: requestText }],
+    });
+
+    if (patchRes.ok) {
+      const p = patchRes.patch;
+      const start = p.startIso ? DateTime.fromISO(p.startIso, { setZone: true }) : currentStart;
+      const end = p.endIso
+        ? DateTime.fromISO(p.endIso, { setZone: true })
+        : typeof p.durationMinutes === "number"
+          ? start.plus({ minutes: p.durationMinutes })
+          : start.plus({ milliseconds: currentEnd.toMillis() - currentStart.toMillis() });
+
+      if (start.isValid && end.isValid && end > start && (p.startIso || p.endIso || p.durationMinutes)) {
+        next = { start, end };
+      }
+    }
+  }
+
+  if (!next) {
+    // The answer to "What time…?" didn't have one: treat it as something else.
+    if (followUp?.eventId) return false;
+
+    await send("What time should I move it to?", {
+      kind: "event_change",
+      action,
+      eventId,
+      needs: "event_time",
+    });
+    await savePendingEventChange({
+      action,
+      requestText,
+      eventId,
+      askedAtIso: now().toISOString(),
+    });
+    return true;
+  }
+
+  const res = await rescheduleEvent({
+    eventId,
+    start: next.start.toJSDate(),
+    end: next.end.toJSDate(),
+  });
+
+  const sms = res.ok
+    ? res.sms
+    : res.reason === "voting_open"
+      ? "Homies are still voting on times for that one. Reply “lock in N” to pick a time first."
+      : res.reason === "already_started"
+        ? "That time has already passed. What time should I move it to?"
+        : "I couldn’t find that event to move. It may have been cancelled.";
+
+  await send(sms, {
+    kind: "event_change",
+    action,
+    eventId,
+    ...(res.ok ? {} : { reason: res.reason }),
+  });
+  if (!res.ok && res.reason === "already_started") {
+    await savePendingEventChange({
+      action,
+      requestText,
+      eventId,
+      askedAtIso: now().toISOString(),
+    });
+  }
+  return true;
+}
+
 /**
  * Hook point: implement whatever you want to happen after we receive + store
  * an inbound Twilio message.
@@ -319,18 +1513,26 @@ export async function onInboundTwilioMessage(
     throw new Error(`User has no phone_number for userId=${_ctx.userId}`);
   }
 
-  const activity = await prisma.activity.findFirst({
+  const activities = await prisma.activity.findMany({
     where: { user_id: user.user_id },
+    orderBy: { name: "asc" },
   });
 
-  if (!activity) {
-    throw new Error(`No activity found for userId=${user.user_id}`);
-  }
+  // For help/identity copy: "Run or Poker" (the scheduling flow picks one per event).
+  const activitiesForSms = describeActivitiesForSms(activities);
 
   const conversation = await prisma.conversation.findUnique({
     where: { conversation_id: _ctx.conversationId },
   });
 
+  if (!conversation) {
+    throw new Error(
+      `No conversation found for conversationId=${_ctx.conversationId}`,
+    );
+  }
+
+  const state = asConversationState(conversation.state);
+
   const homies = await prisma.member.findMany({
     where: { user_id: _ctx.userId },
   });
@@ -371,8 +1573,58 @@ export async function onInboundTwilioMessage(
     t0 === "what is buckfifty" ||
     t0 === "what is buck fifty";
 
-  if (isWhoAreMyHomies) {
-    const activityName = (activity.name ?? "").trim() || "your activity";
+  const homieCommandHandled = await maybeHandleHomieCommand({
+    ctx: _ctx,
+    userId: user.user_id,
+    phoneNumber: user.phone_number,
+    homies,
+    state,
+  });
+  if (homieCommandHandled) return;
+
+  const replyWindowHandled = await maybeHandleInviteResponseWindowCommand({
+    ctx: _ctx,
+    user,
+    phoneNumber: user.phone_number,
+    state,
+  });
+  if (replyWindowHandled) return;
+
+  const guestPolicyHandled = await maybeHandleGuestPolicyCommand({
+    ctx: _ctx,
+    user,
+    phoneNumber: user.phone_number,
+    state,
+  });
+  if (guestPolicyHandled) return;
+
+  const attendanceHandled = await maybeHandleAttendanceReply({
+    ctx: _ctx,
+    userId: user.user_id,
+    phoneNumber: user.phone_number,
+  });
+  if (attendanceHandled) return;
+
+  const seriesCommandHandled = await maybeHandleSeriesCommand({
+    ctx: _ctx,
+    userId: user.user_id,
+    phoneNumber: user.phone_number,
+  });
+  if (seriesCommandHandled) return;
+
+  const saveTemplateHandled = await maybeHandleSaveTemplateCommand({
+    ctx: _ctx,
+    userId: user.user_id,
+    phoneNumber: user.phone_number,
+    state,
+  });
+  if (saveTemplateHandled) return;
+
+  const isListHomiesCommand =
+    parseHomieCommand({ text: _ctx.body ?? "", draftInProgress: false })?.kind === "list";
+
+  if (isWhoAreMyHomies || isListHomiesCommand) {
+    const activityName = activitiesForSms ?? "your activity";
 
     const names = homieNames.filter((n) => n.trim().length > 0);
     const list = names.length
@@ -399,7 +1651,7 @@ export async function onInboundTwilioMessage(
   }
 
   if (isWhoAreYou) {
-    const activityName = (activity.name ?? "").trim() || "your activity";
+    const activityName = activitiesForSms ?? "your activity";
     const sms = `I'm the BuckFifty AI. I help you schedule ${activityName} with your homies.\n\nTell me what you want to do (e.g. \"schedule ${activityName} tomorrow at 7\") and I'll take it from there.`;
 
     const sid = await sendSms(user.phone_number, sms);
@@ -417,13 +1669,71 @@ export async function onInboundTwilioMessage(
     return;
   }
 
-  if (!conversation) {
-    throw new Error(
-      `No conversation found for conversationId=${_ctx.conversationId}`,
-    );
+  // Creator picks the winning time for a multi-option event ("lock in 2").
+  // Deterministic so a stray number in a scheduling message can't trigger it.
+  const lockInMatch = (_ctx.body ?? "")
+    .trim()
+    .match(/^lock\s*(?:it\s*)?in\s*(?:option\s*)?#?\s*(\d)\s*[.!]*$/i);
+
+  if (lockInMatch) {
+    const optionNumber = Number.parseInt(lockInMatch[1], 10);
+    let res = state.lastCreatedEventId
+      ? await lockInTimeSlot({ eventId: state.lastCreatedEventId, optionNumber })
+      : null;
+
+    // The latest event may be single-time; look for any upcoming event still voting.
+    let lockInEventId = state.lastCreatedEventId ?? null;
+    if (!res || (!res.ok && res.reason !== "invalid_option")) {
+      const fallbackEventId = await findEventAwaitingSlotLockIn({
+        userId: user.user_id,
+      });
+      if (fallbackEventId && fallbackEventId !== state.lastCreatedEventId) {
+        lockInEventId = fallbackEventId;
+        res = await lockInTimeSlot({ eventId: fallbackEventId, optionNumber });
+      }
+    }
+
+    const sms = res?.ok
+      ? res.sms
+      : res?.reason === "invalid_option"
+        ? `There are only ${res.optionCount} options. Reply “lock in 1” through “lock in ${res.optionCount}”.`
+        : "I don’t see an event with times up for a vote right now.";
+
+    const sid = await sendSms(user.phone_number, sms);
+    await prisma.conversationMessage.create({
+      data: {
+        conversation_id: _ctx.conversationId,
+        role: "assistant",
+        direction: "outbound",
+        content: sms,
+        twilio_sid: sid,
+        attributes: {
+          kind: "creator_slot_lock_in",
+          eventId: lockInEventId,
+          optionNumber,
+          ...(res && !res.ok ? { reason: res.reason } : {}),
+        },
+      },
+    });
+    return;
   }
 
-  const state = asConversationState(conversation.state);
+  // Changes to an event that already went out, and answers to what they asked. Skipped
+  // while a draft awaits confirmation, where "cancel" means scratching the draft.
+  const looksLikeChange =
+    state.pendingEvent?.status !== "awaiting_confirmation" &&
+    looksLikeEventChangeRequest(_ctx.body ?? "") &&
+    !parsePastEventReference(_ctx.body ?? "");
+  if (looksLikeChange || state.pendingEventChange) {
+    const handled = await maybeHandleEventChangeRequest({
+      ctx: _ctx,
+      user,
+      phoneNumber: user.phone_number,
+      state,
+      looksLikeChange,
+    });
+    if (handled) return;
+  }
 
   // Command-style help. Keep this deterministic so it behaves predictably.
   // NOTE: Twilio reserves HELP for compliance and may auto-respond instead of forwarding.
@@ -480,7 +1790,7 @@ export async function onInboundTwilioMessage(
     false;
 
   if (shouldSendHelp) {
-    const sms = buildSchedulerHowItWorksSms({ activityName: activity.name });
+    const sms = buildSchedulerHowItWorksSms({ activityName: activitiesForSms });
     const sid = await sendSms(user.phone_number, sms);
     await prisma.conversationMessage.create({
       data: {
@@ -536,6 +1846,10 @@ export async function onInboundTwilioMessage(
   // If we're awaiting confirmation on a complete draft, treat this inbound SMS as a
   // confirm/edit decision.
   if (state.pendingEvent?.status === "awaiting_confirmation") {
+    const pendingActivityName =
+      activities.find((a) => a.activity_id === state.pendingEvent?.draft.activityId)?.name ??
+      "your activity";
+
     const systemPrompt = buildEventConfirmationAnalyzerSystemPrompt();
     const decision = await analyzeEventConfirmation({
       systemPrompt,
@@ -626,6 +1940,31 @@ export async function onInboundTwilioMessage(
       });
 
       const createdEvent = await prisma.$transaction(async (tx) => {
+        // Recurring plan: this event is the first occurrence; the rest are generated.
+        const series = d.recurrence
+          ? await tx.eventSeries.create({
+              data: {
+                created_by_user_id: user.user_id,
+                activity_id: d.activityId,
+                ...recurrenceRuleForDraft({
+                  recurrence: d.recurrence,
+                  startIso: d.startIso,
+                  timeZone: user.timezone,
+                }),
+                duration_minutes: Math.max(
+                  1,
+                  Math.round((new Date(d.endIso).getTime() - new Date(d.startIso).getTime()) / 60_000),
+                ),
+                invite_policy: d.invitePolicy,
+                preferred_member_ids: d.preferredMemberIds,
+                member_group_id: d.memberGroupId ?? null,
+                invite_lead_minutes: clampSeriesInviteLeadMinutes(
+                  d.recurrence.inviteLeadMinutes ?? DEFAULT_SERIES_INVITE_LEAD_MINUTES,
+                ),
+              },
+            })
+          : null;
+
         const event = await tx.event.create({
           data: {
             created_by_user_id: user.user_id,
@@ -634,6 +1973,11 @@ export async function onInboundTwilioMessage(
             invite_message: d.inviteMessage,
             max_participants: d.maxHomies,
             invite_policy: d.invitePolicy,
+            invite_response_minutes: d.inviteResponseMinutes ?? null,
+            max_guests_per_member: d.maxGuestsPerMember ?? null,
+            preferred_member_ids: d.preferredMemberIds,
+            member_group_id: d.memberGroupId ?? null,
+            series_id: series?.series_id ?? null,
           },
         });
 
@@ -646,6 +1990,18 @@ export async function onInboundTwilioMessage(
           },
         });
 
+        // Extra candidate times: homies vote, the creator locks one in.
+        if (d.alternateSlots?.length) {
+          await tx.timeSlot.createMany({
+            data: d.alternateSlots.map((a) => ({
+              event_id: event.event_id,
+              start_time: new Date(a.startIso),
+              end_time: new Date(a.endIso),
+              status: "suggested" as const,
+            })),
+          });
+        }
+
         // Persist EventMember rows per policy.
         // - Immediate invites are status=invited
         // - Follow-up pool is status=listed
@@ -676,11 +2032,14 @@ export async function onInboundTwilioMessage(
         );
         const followUpIdSet = new Set(followUpMembers.map((m) => m.member_id));
 
-        // For exact, only persist preferred (immediate). For others, persist all homies.
+        // For exact, only persist preferred (immediate). For "3 from trail crew", only the
+        // locked plan (named homies + the group). For others, persist all homies.
         const pool =
           d.invitePolicy === "exact"
             ? preferredMembersForPlan
-            : uniqueById(homies);
+            : d.memberGroupId
+              ? uniqueById(homies).filter((m) => rankById.has(m.member_id))
+              : uniqueById(homies);
 
         // Defensive: if somehow the pool contains ids not in the locked plan ordering,
         // append them after the known ordered ids.
@@ -716,7 +2075,7 @@ export async function onInboundTwilioMessage(
       });
 
       const confirmation = buildLockedInInvitePlanSms({
-        activityName: activity.name,
+        activityName: pendingActivityName,
         location: d.location,
         start: new Date(d.startIso),
         end: new Date(d.endIso),
@@ -728,6 +2087,12 @@ export async function onInboundTwilioMessage(
           d.immediateNamesForSms ?? immediateMembers.map(fullNameForMember),
         followUpNames:
           d.followUpNamesForSms ?? followUpMembers.map(fullNameForMember),
+        alternateTimes: alternateTimesForSms(d.alternateSlots),
+        recurrenceText: recurrenceTextForSms({
+          recurrence: d.recurrence,
+          startIso: d.startIso,
+          timeZone: user.timezone,
+        }),
       });
 
       const sid = await sendSms(user.phone_number, confirmation);
@@ -745,22 +2110,25 @@ export async function onInboundTwilioMessage(
       });
 
       // Kick off coordination (invites, escalation timers, etc) in the background.
-      setImmediate(async () => {
-        try {
-          await onEventCreated(createdEvent.event_id);
-        } catch (err: any) {
-          logger.error(
-            `coordinator:onEventCreated failed: ${err?.message ?? err}`,
-          );
-        }
-      });
+      runInBackground("coordinator:onEventCreated", () =>
+        onEventCreated(createdEvent.event_id),
+      );
+
+      // Line up the series' next occurrence. With times up for a vote this waits for
+      // the lock-in, which re-anchors the series on the winning time.
+      const seriesId = createdEvent.series_id;
+      if (seriesId && !d.alternateSlots?.length) {
+        runInBackground("eventSeries:scheduleNextOccurrence", async () => {
+          await scheduleNextSeriesOccurrence({ seriesId });
+        });
+      }
 
       // After creating an event, compact conversation into durable memory + reset planning boundary.
-      const updatedAtIso = new Date().toISOString();
+      const updatedAtIso = now().toISOString();
       const nextMemorySummary = await summarizeConversationMemory({
         existingSummary: state.memorySummary ?? null,
         userFirstName: user.first_name,
-        activityName: activity.name,
+        activityName: pendingActivityName,
         allowedHomies: homieNames,
         // Use only the recent (post-boundary) messages, without the memory prelude.
         messages: recentMessages,
@@ -830,6 +2198,10 @@ export async function onInboundTwilioMessage(
         d.inviteMessage = inviteMsgRes.inviteMessage;
       }
 
+      // "make it weekly"
+      const recurrenceEdit = parseRecurrence(_ctx.body ?? "");
+      if (recurrenceEdit) d.recurrence = recurrenceEdit;
+
       // Time edit
       if (timePatchRes.ok) {
         const p = timePatchRes.patch;
@@ -840,6 +2212,9 @@ export async function onInboundTwilioMessage(
 
         if (p.startIso) d.startIso = p.startIso;
 
+        // A single new start replaces the whole set of candidate times.
+        if (startChanged) delete d.alternateSlots;
+
         if (p.endIso) {
           d.endIso = p.endIso;
         } else if (typeof p.durationMinutes === "number") {
@@ -855,7 +2230,7 @@ export async function onInboundTwilioMessage(
         } else if (startChanged) {
           // If user changed the start but didn't provide an updated end/duration,
           // move back to collecting mode so we can ask for the end.
-          const updatedAtIso = new Date().toISOString();
+          const updatedAtIso = now().toISOString();
           const nextState = {
             ...(state as unknown as Prisma.JsonObject),
           } as Prisma.JsonObject;
@@ -869,6 +2244,10 @@ export async function onInboundTwilioMessage(
             preferredNames: d.preferredNamesForSms,
             maxHomies: d.maxHomies,
             inviteMessage: d.inviteMessage,
+            inviteResponseMinutes: d.inviteResponseMinutes,
+            maxGuestsPerMember: d.maxGuestsPerMember,
+            recurrence: d.recurrence,
+            memberGroupId: d.memberGroupId,
             updatedAtIso,
           } as unknown as Prisma.JsonValue;
 
@@ -946,11 +2325,13 @@ export async function onInboundTwilioMessage(
       });
 
       if (!patched.ok) {
-        const ask =
-          `${patched.reason}.\nReply with a homie name from your list.`.slice(
-            0,
-            300,
-          );
+        // Ask for a name rather than a "yes", which would read as confirming the draft.
+        const ask = patched.ambiguous
+          ? `${patched.reason}\nReply with the name you meant.`
+          : `${patched.reason}.\nReply with a homie name from your list.`.slice(
+              0,
+              300,
+            );
         const sid = await sendSms(user.phone_number, ask);
         await prisma.conversationMessage.create({
           data: {
@@ -1012,9 +2393,18 @@ export async function onInboundTwilioMessage(
         d.invitePolicy === "exact" ? [] : patched.followUpNames;
       const finalExcludedIds = patched.plan.excludedMemberIds;
       const finalExcludedNames = patched.excludedNames;
+      const unavailableIds = await loadUnavailableHomieIds({
+        homies,
+        user,
+        slots: [{ startIso: d.startIso, endIso: d.endIso }, ...(d.alternateSlots ?? [])],
+      });
+      const finalUnavailableNames = resolveMembersById({
+        allMembers: homies,
+        ids: [...finalImmediateIds, ...finalFollowUpIds].filter((id) => unavailableIds.has(id)),
+      }).map(fullNameForMember);
 
       const previewWithEdits = buildEventDraftPreviewSms({
-        activityName: activity.name,
+        activityName: pendingActivityName,
         location: d.location,
         start: new Date(d.startIso),
         end: new Date(d.endIso),
@@ -1026,6 +2416,18 @@ export async function onInboundTwilioMessage(
         immediateNames: finalImmediateNames,
         followUpNames: finalFollowUpNames,
         excludedNames: finalExcludedNames,
+        unavailableNames: finalUnavailableNames,
+        alternateTimes: alternateTimesForSms(d.alternateSlots),
+        replyWindowText: d.inviteResponseMinutes
+          ? formatInviteResponseWindow(d.inviteResponseMinutes)
+          : null,
+        maxGuestsPerMember: d.maxGuestsPerMember ?? null,
+        recurrenceText: recurrenceTextForSms({
+          recurrence: d.recurrence,
+          startIso: d.startIso,
+          timeZone: user.timezone,
+        }),
+        groupName: d.memberGroupNameForSms ?? null,
       });
 
       const sid = await sendSms(user.phone_number, previewWithEdits);
@@ -1042,7 +2444,7 @@ export async function onInboundTwilioMessage(
         },
       });
 
-      const updatedAtIso = new Date().toISOString();
+      const updatedAtIso = now().toISOString();
       const nextState = {
         ...(state as unknown as Prisma.JsonObject),
       } as Prisma.JsonObject;
@@ -1097,14 +2499,85 @@ export async function onInboundTwilioMessage(
   // Use only USER messages for analyzers.
   const userOnlyMessages = messages.filter((m) => m.role === "user");
 
+  const memberGroups: MemberGroupWithMembers[] = (
+    await prisma.memberGroup.findMany({
+      where: { user_id: user.user_id },
+      include: { memberships: { include: { member: true } } },
+      orderBy: { name: "asc" },
+    })
+  ).map((g) => ({
+    memberGroupId: g.member_group_id,
+    name: g.name,
+    members: g.memberships.map((m) => m.member),
+  }));
+
   const locationAnalyzerSystemPrompt = buildLocationAnalyzerSystemPrompt();
   const homiesAnalyzerSystemPrompt = buildHomiesAnalyzerSystemPrompt({
     homiesList,
+    groupsList: memberGroups.length
+      ? memberGroups.map((g) => `- ${g.name}`).join("\n")
+      : "(no groups yet)",
   });
   const inviteMessageAnalyzerSystemPrompt =
     buildInviteMessageAnalyzerSystemPrompt();
 
-  const updatedAtIso = new Date().toISOString();
+  const updatedAtIso = now().toISOString();
+
+  // "same as last time" / "same as sunday run": start from that plan, time aside.
+  const pastEventRef = parsePastEventReference(_ctx.body ?? "");
+  const prefill = pastEventRef
+    ? await resolveDraftPrefill({
+        userId: user.user_id,
+        reference: pastEventRef,
+        lastCreatedEventId: state.lastCreatedEventId,
+        timeZone: user.timezone,
+      })
+    : null;
+  const prefillActivity = prefill?.activityId
+    ? activities.find((a) => a.activity_id === prefill.activityId)
+    : undefined;
+
+  const activityRes: ActivityResolution = prefillActivity
+    ? { kind: "selected", activity: prefillActivity, created: false }
+    : await resolveActivityForSchedulingMessage({
+        userId: user.user_id,
+        activities,
+        body: _ctx.body ?? "",
+        userOnlyMessages,
+        state,
+      });
+
+  if (activityRes.kind === "ask") {
+    const sms = buildActivityChoiceSms({ activities });
+    const sid = await sendSms(user.phone_number, sms);
+    await prisma.conversationMessage.create({
+      data: {
+        conversation_id: _ctx.conversationId,
+        role: "assistant",
+        direction: "outbound",
+        content: sms,
+        twilio_sid: sid,
+        attributes: { needs: "activity", reason: activityRes.reason },
+      },
+    });
+
+    const nextState = {
+      ...(state as unknown as Prisma.JsonObject),
+      pendingActivityChoice: { askedAtIso: updatedAtIso },
+    } as Prisma.JsonObject;
+
+    await prisma.conversation.update({
+      where: { conversation_id: _ctx.conversationId },
+      data: { state: nextState as unknown as Prisma.InputJsonValue },
+    });
+
+    return;
+  }
+
+  const activity = activityRes.activity;
+
+  // The question is answered; every later state write spreads `state`.
+  delete state.pendingActivityChoice;
 
   const prevDraft0: ActiveEventDraft =
     state.activeDraft?.status === "collecting_details" &&
@@ -1117,7 +2590,9 @@ export async function onInboundTwilioMessage(
         };
 
   // Work on a mutable copy so we can apply pending-choice decisions cleanly.
-  const prevDraft: ActiveEventDraft = { ...prevDraft0 };
+  const prevDraft: ActiveEventDraft = prefill
+    ? { ...prevDraft0, ...draftFieldsFromPrefill({ prefill, homies }) }
+    : { ...prevDraft0 };
 
   // If we previously asked the user to choose between two invite policies,
   // treat this inbound SMS as answering that question.
@@ -1173,6 +2648,32 @@ export async function onInboundTwilioMessage(
     delete prevDraft.pendingInvitePolicyChoice;
   }
 
+  // Answer to "Did you mean Larry Buck or Larry Smith?". Anything else moves on; the
+  // question comes back if that name is still on the list.
+  const pendingHomieChoice = prevDraft.pendingHomieChoice;
+  if (pendingHomieChoice) {
+    const chosenHomie = parseHomieChoiceReply({
+      text: _ctx.body ?? "",
+      candidates: homies.filter((h) =>
+        pendingHomieChoice.candidateMemberIds.includes(h.member_id),
+      ),
+    });
+    // "no" to a single "Did you mean Jack Smith?" drops the name instead of asking again.
+    const declined =
+      !chosenHomie &&
+      pendingHomieChoice.candidateMemberIds.length === 1 &&
+      /^\s*(?:no|nope|nah|neither|none|not them|wrong)\b/i.test(_ctx.body ?? "");
+    if (chosenHomie || declined) {
+      prevDraft.homieNameChoices = {
+        ...prevDraft.homieNameChoices,
+        [pendingHomieChoice.name.trim().toLowerCase()]: chosenHomie
+          ? fullNameForMember(chosenHomie)
+          : "",
+      };
+    }
+    delete prevDraft.pendingHomieChoice;
+  }
+
   const isNewPlanningSession =
     !(state.activeDraft?.status === "collecting_details") ||
     state.activeDraft.activityId !== activity.activity_id;
@@ -1184,6 +2685,7 @@ export async function onInboundTwilioMessage(
       userOnlyMessages,
       homiesAnalyzerSystemPrompt,
       homieNames,
+      memberGroups.map((g) => g.name),
     ),
     analyzeConversationInviteMessage(
       userOnlyMessages,
@@ -1196,7 +2698,13 @@ export async function onInboundTwilioMessage(
   // 1) Try deterministic parsing for common SMS patterns (e.g. "10p", "11pm", "for 90 minutes").
   // 2) Fall back to the LLM-based patch analyzer.
   const nowInUserTz = DateTime.now().setZone(user.timezone);
-  const bodyText = _ctx.body ?? "";
+  // "give them 2 hours to reply" is about invites, not the event's length.
+  // Nor is the "Saturday" in "same thing as last Saturday".
+  const replyWindow = parseInviteResponseWindow(_ctx.body ?? "");
+  const bodyText = [replyWindow?.matchedText, pastEventRef?.matchedText].reduce<string>(
+    (text, matched) => (matched ? text.replace(matched, " ") : text),
+    _ctx.body ?? "",
+  );
   const dayOffset = detectExplicitDayOffset(bodyText);
   const dur = parseDurationMinutes(bodyText);
   const rangeTod = parseTimeRangeOfDay(bodyText);
@@ -1214,7 +2722,27 @@ export async function onInboundTwilioMessage(
       }
     | { ok: false; reason: string } = { ok: false, reason: "no_time_patch" };
 
-  if (Number.isFinite(dur as any) && typeof dur === "number") {
+  // Several candidate times ("sat 9am or sun 10am"): option 1 becomes start/end and
+  // the rest ride along as alternates the homies vote on after creation.
+  const candidateOptions = nowInUserTz.isValid
+    ? parseCandidateTimeOptions({
+        text: bodyText,
+        userTimezone: user.timezone,
+        now: nowInUserTz,
+      })
+    : null;
+
+  if (candidateOptions) {
+    const [first] = candidateOptions;
+    timePatchRes = {
+      ok: true,
+      patch: {
+        startIso: first.startIso,
+        ...(first.endIso ? { endIso: first.endIso } : {}),
+        ...(typeof dur === "number" ? { durationMinutes: dur } : {}),
+      },
+    };
+  } else if (Number.isFinite(dur as any) && typeof dur === "number") {
     timePatchRes = { ok: true, patch: { durationMinutes: dur } };
   } else if (rangeTod && nowInUserTz.isValid) {
     // Parse full time ranges like "from 1pm to 3pm tomorrow".
@@ -1339,10 +2867,30 @@ export async function onInboundTwilioMessage(
     nextDraft.inviteMessage = inviteMsgRes.inviteMessage;
   }
 
+  if (replyWindow?.scope === "event") {
+    nextDraft.inviteResponseMinutes = clampInviteResponseMinutes(replyWindow.minutes);
+  }
+
+  const guestPolicy = parseGuestPolicy(_ctx.body ?? "");
+  if (guestPolicy?.scope === "event") {
+    nextDraft.maxGuestsPerMember = clampMaxGuestsPerMember(guestPolicy.maxGuests);
+  }
+
+  const recurrence = parseRecurrence(_ctx.body ?? "");
+  if (recurrence) nextDraft.recurrence = recurrence;
+
   if (homiesRes.homiesProvided) {
     if (Array.isArray(homiesRes.homies) && homiesRes.homies.length > 0) {
-      nextDraft.preferredNames = homiesRes.homies;
+      // "Invite the trail crew": everyone in it, by name.
+      nextDraft.preferredNames = expandMemberGroupNames({
+        names: homiesRes.homies,
+        groups: memberGroups,
+      });
     }
+    const group = homiesRes.group
+      ? findMemberGroupByName({ name: homiesRes.group, groups: memberGroups })
+      : null;
+    if (group) nextDraft.memberGroupId = group.memberGroupId;
     if (
       typeof homiesRes.maxHomies === "number" &&
       Number.isFinite(homiesRes.maxHomies)
@@ -1351,6 +2899,14 @@ export async function onInboundTwilioMessage(
     }
   }
 
+  // Names the creator already told us who they meant ("Larry" => Larry Buck).
+  const homieNameChoices = nextDraft.homieNameChoices;
+  if (homieNameChoices && nextDraft.preferredNames?.length) {
+    nextDraft.preferredNames = nextDraft.preferredNames
+      .map((n) => homieNameChoices[n.trim().toLowerCase()] ?? n)
+      .filter((n) => n.trim().length > 0);
+  }
+
   if (timePatchRes.ok) {
     const p = timePatchRes.patch;
     const startChanged =
@@ -1366,7 +2922,15 @@ export async function onInboundTwilioMessage(
     // If the user changed the start without giving an updated end/duration, invalidate end so we can ask.
     if (startChanged && !p.endIso && typeof p.durationMinutes !== "number") {
       nextDraft.endIso = undefined;
-      nextDraft.durationMinutes = undefined;
+      // ...unless it came with the plan this one copies.
+      nextDraft.durationMinutes = prefill?.durationMinutes ?? undefined;
+    }
+
+    if (candidateOptions) {
+      nextDraft.alternateSlots = candidateOptions.slice(1);
+    } else if (startChanged) {
+      // A single new start replaces the whole set of candidate times.
+      delete nextDraft.alternateSlots;
     }
   }
 
@@ -1389,8 +2953,10 @@ export async function onInboundTwilioMessage(
     startIso: nextDraft.startIso,
     endIso: nextDraft.endIso,
     durationMinutes: nextDraft.durationMinutes,
+    alternateSlotsCount: nextDraft.alternateSlots?.length ?? 0,
     maxHomies: nextDraft.maxHomies,
     preferredNamesCount: nextDraft.preferredNames?.length ?? 0,
+    prefillSource: prefill?.source.kind ?? null,
   });
 
   // Decide next action based on missing fields.
@@ -1422,10 +2988,12 @@ export async function onInboundTwilioMessage(
     missing.push({ key: "location", prompt: "Where should it be?" });
   if (!hasStart) {
     // If we don't yet have a start time, ask for the full range up-front.
-    // (This reads better and reduces back-and-forth.)
+    // (This reads better and reduces back-and-forth.) A copied plan already knows how long.
     missing.push({
       key: "event_time",
-      prompt: "What start & end time should I use?",
+      prompt: hasDuration
+        ? "What day and time should it start?"
+        : "What start & end time should I use?",
     });
   }
   if (hasStart && !hasEnd && !hasDuration) {
@@ -1489,11 +3057,12 @@ export async function onInboundTwilioMessage(
     const firstName = (user.first_name ?? "").trim();
     const heyLine = firstName.length ? `Hey ${firstName}!` : "Hey!";
 
-    const header = isNewPlanningSession
+    const addedLine = activityRes.created ? `Added ${activityName} to your activities. ` : "";
+    const header = addedLine + (isNewPlanningSession
       ? isGreeting
         ? `${heyLine} Want to schedule your ${activityName}?`
         : `Let’s schedule your ${activityName}.`
-      : `For ${activityName}, I still need:`;
+      : `For ${activityName}, I still need:`);
 
     const hint = "Ask “how do invites work?” if you want to see invite options.";
 
@@ -1616,16 +3185,29 @@ export async function onInboundTwilioMessage(
     return;
   }
 
+  // "3 from trail crew": fillers and backups come from the group only.
+  const memberGroup = nextDraft.memberGroupId
+    ? memberGroups.find((g) => g.memberGroupId === nextDraft.memberGroupId)
+    : undefined;
+  const groupNamesLower = new Set(
+    (memberGroup?.members ?? []).map((m) => fullNameForMember(m).toLowerCase()),
+  );
+  const availableHomies = memberGroup
+    ? memberGroup.members.length +
+      preferredNames.filter((n) => !groupNamesLower.has(n.toLowerCase())).length
+    : homies.length;
+
   // If we have fewer onboarded homies than needed, cap to what's available.
-  if (maxHomies > homies.length) {
+  if (maxHomies > availableHomies) {
     logger.info(
       "Capping max_participants because not enough homies onboarded",
       {
         requestedMaxHomies: maxHomies,
-        availableHomies: homies.length,
+        availableHomies,
+        memberGroupId: memberGroup?.memberGroupId ?? null,
       },
     );
-    maxHomies = homies.length;
+    maxHomies = availableHomies;
   }
 
   if (preferredNames.length > maxHomies) {
@@ -1664,9 +3246,11 @@ export async function onInboundTwilioMessage(
     allMembers: homies,
     preferredNames,
     maxHomies: maxHomiesForPreferredResolution,
+    groups: memberGroups,
   });
 
   if (!explicitResolution.ok) {
+    const [ambiguous] = explicitResolution.ambiguous ?? [];
     const sid = await sendSms(user.phone_number, explicitResolution.reason);
     await prisma.conversationMessage.create({
       data: {
@@ -1675,11 +3259,30 @@ export async function onInboundTwilioMessage(
         direction: "outbound",
         content: explicitResolution.reason,
         twilio_sid: sid,
+        ...(ambiguous
+          ? { attributes: { needs: "homie_choice", name: ambiguous.name } }
+          : {}),
       },
     });
+
+    // "Did you mean Larry Buck or Larry Smith?": the next reply picks one.
+    const nextState = ambiguous
+      ? ({
+          ...(state as unknown as Prisma.JsonObject),
+          activeDraft: {
+            ...nextDraft,
+            pendingHomieChoice: {
+              name: ambiguous.name,
+              candidateMemberIds: ambiguous.candidates.map((m) => m.member_id),
+              askedAtIso: updatedAtIso,
+            },
+          } as unknown as Prisma.InputJsonValue,
+        } as Prisma.JsonObject)
+      : draftStateUpdate;
+
     await prisma.conversation.update({
       where: { conversation_id: _ctx.conversationId },
-      data: { state: draftStateUpdate as unknown as Prisma.InputJsonValue },
+      data: { state: nextState as unknown as Prisma.InputJsonValue },
     });
     return;
   }
@@ -1784,12 +3387,38 @@ export async function onInboundTwilioMessage(
     return;
   }
 
+  // Alternates without their own end reuse option 1's duration.
+  const primaryDurationMs = endDt.toMillis() - startDt.toMillis();
+  const alternateSlots = (nextDraft.alternateSlots ?? []).flatMap((a) => {
+    const s = DateTime.fromISO(a.startIso, { setZone: true });
+    const e = a.endIso
+      ? DateTime.fromISO(a.endIso, { setZone: true })
+      : s.plus({ milliseconds: primaryDurationMs });
+    if (!s.isValid || !e.isValid || e <= s) return [];
+    return [
+      {
+        startIso: a.startIso,
+        endIso: e.toISO({ suppressMilliseconds: true }) ?? e.toISO() ?? "",
+      },
+    ];
+  });
+
   // Lock the invite plan at preview-time so names don't reshuffle at confirmation.
+  const unavailableMemberIds = await loadUnavailableHomieIds({
+    homies,
+    user,
+    slots: [{ startIso, endIso }, ...alternateSlots],
+  });
   const plan = buildInvitePlan({
     invitePolicy,
     maxHomies,
     allMembers: homies,
     preferredMembers,
+    poolMemberIds: memberGroup ? memberGroup.members.map((m) => m.member_id) : null,
+    reliabilityByMemberId: user.order_backups_by_reliability
+      ? await loadMemberReliability(prisma, homies.map((h) => h.member_id))
+      : null,
+    unavailableMemberIds,
   });
 
   const previewWithPlan = buildEventDraftPreviewSms({
@@ -1804,6 +3433,18 @@ export async function onInboundTwilioMessage(
     invitePolicy,
     immediateNames: plan.immediate.map(fullNameForMember),
     followUpNames: plan.followUp.map(fullNameForMember),
+    unavailableNames: plan.unavailable.map(fullNameForMember),
+    alternateTimes: alternateTimesForSms(alternateSlots),
+    replyWindowText: nextDraft.inviteResponseMinutes
+      ? formatInviteResponseWindow(nextDraft.inviteResponseMinutes)
+      : null,
+    maxGuestsPerMember: nextDraft.maxGuestsPerMember ?? null,
+    recurrenceText: recurrenceTextForSms({
+      recurrence: nextDraft.recurrence,
+      startIso,
+      timeZone: user.timezone,
+    }),
+    groupName: memberGroup?.name ?? null,
   });
 
   const sid = await sendSms(user.phone_number, previewWithPlan);
@@ -1840,6 +3481,17 @@ export async function onInboundTwilioMessage(
       excludedMemberIds: [],
       excludedNamesForSms: [],
       inviteMessage: nextDraft.inviteMessage,
+      ...(nextDraft.inviteResponseMinutes
+        ? { inviteResponseMinutes: nextDraft.inviteResponseMinutes }
+        : {}),
+      ...(typeof nextDraft.maxGuestsPerMember === "number"
+        ? { maxGuestsPerMember: nextDraft.maxGuestsPerMember }
+        : {}),
+      ...(nextDraft.recurrence ? { recurrence: nextDraft.recurrence } : {}),
+      ...(memberGroup
+        ? { memberGroupId: memberGroup.memberGroupId, memberGroupNameForSms: memberGroup.name }
+        : {}),
+      ...(alternateSlots.length ? { alternateSlots } : {}),
       previewSms: previewWithPlan,
       previewSentAtIso: updatedAtIso,
     },
@@ -0,0 +1,79 @@
+import { PrismaClient } from "@prisma/client";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import { buildCreatorAttendanceCheckSms } from "../domain/inviteFormatting";
+import { isSlotVotingOpen } from "../domain/slotVoting";
+import { fullNameForMember } from "../domain/homies";
+import { sendEventSmsToCreator } from "../coordinator/coordinator";
+import { scheduleJob } from "./scheduledJobs";
+
+const prisma = new PrismaClient();
+
+/**
+ * `attendance_check` job: once the event is over, ask the creator who actually
+ * showed. Their reply is recorded per homie (see coordinator/attendance.ts) and
+ * feeds reliability stats.
+ *
+ * Asked at most once per event, and only when somebody said yes. No-op if the event
+ * was cancelled or never got a time locked in; re-enqueued if the live slot now
+ * ends later.
+ */
+export async function runAttendanceCheckJob(args: { eventId: string }): Promise<void> {
+  const now = clockNow();
+
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+      },
+      eventMembers: {
+        where: { status: "accepted" },
+        include: { member: true },
+        orderBy: [{ priority_rank: { sort: "asc", nulls: "last" } }, { event_member_id: "asc" }],
+      },
+    },
+  });
+
+  const timeSlot = event?.timeSlots[0];
+  if (!event || event.cancelled_at || !timeSlot || event.attendance_requested_at) return;
+  if (isSlotVotingOpen(event.timeSlots)) return;
+
+  if (timeSlot.end_time.getTime() > now.getTime()) {
+    await scheduleJob({ kind: "attendance_check", runAt: timeSlot.end_time, eventId: args.eventId });
+    return;
+  }
+
+  if (event.eventMembers.length === 0) {
+    logger.info("attendanceCheckJob.skipped_no_accepted", { eventId: args.eventId });
+    return;
+  }
+
+  await prisma.event.update({
+    where: { event_id: args.eventId },
+    data: { attendance_requested_at: now },
+  });
+
+  await sendEventSmsToCreator({
+    event,
+    sms: buildCreatorAttendanceCheckSms({
+      activityName: event.activity?.name,
+      timeSlot,
+      timeZone: event.createdBy.timezone,
+      acceptedNames: event.eventMembers.map((em) => fullNameForMember(em.member)),
+    }),
+    attributes: {
+      kind: "creator_attendance_check",
+      eventId: event.event_id,
+      acceptedCount: event.eventMembers.length,
+    },
+  });
+
+  logger.info("attendanceCheckJob.done", {
+    eventId: args.eventId,
+    acceptedCount: event.eventMembers.length,
+  });
+}
@@ -0,0 +1,65 @@
+import { PrismaClient } from "@prisma/client";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import { scheduleJob } from "./scheduledJobs";
+
+const prisma = new PrismaClient();
+
+/**
+ * `event_start` job: close out invitations once the event has started.
+ *
+ * Unanswered (and still-maybe) invites are marked timed out (no backfill: it's too late to invite
+ * anyone) and the event's other pending jobs are dropped, except the post-event
+ * attendance check. A late "yes" still goes through the normal reply path.
+ *
+ * No-op if the event was cancelled; re-enqueued if the live slot now starts later.
+ */
+export async function runEventStartJob(args: { eventId: string }): Promise<void> {
+  const now = clockNow();
+
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    select: {
+      cancelled_at: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+        take: 1,
+        select: { start_time: true },
+      },
+    },
+  });
+
+  const start = event?.timeSlots[0]?.start_time;
+  if (!event || event.cancelled_at || !start) return;
+
+  // The live slot moved later (e.g. a vote locked in a later option): follow it.
+  if (start.getTime() > now.getTime()) {
+    await scheduleJob({ kind: "event_start", runAt: start, eventId: args.eventId });
+    return;
+  }
+
+  const closed = await prisma.eventMember.updateMany({
+    where: {
+      event_id: args.eventId,
+      status: { in: ["invited", "maybe"] },
+      invite_timed_out: false,
+    },
+    data: { invite_timed_out: true },
+  });
+
+  const dropped = await prisma.scheduledJob.updateMany({
+    where: {
+      event_id: args.eventId,
+      status: "pending",
+      kind: { notIn: ["event_start", "attendance_check"] },
+    },
+    data: { status: "cancelled" },
+  });
+
+  logger.info("eventStartJob.done", {
+    eventId: args.eventId,
+    closedInviteCount: closed.count,
+    droppedJobCount: dropped.count,
+  });
+}
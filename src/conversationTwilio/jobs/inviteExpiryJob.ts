@@ -0,0 +1,123 @@
+import { PrismaClient } from "@prisma/client";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import { inviteEventMember } from "../coordinator/coordinator";
+
+const prisma = new PrismaClient();
+
+/**
+ * `invite_expiry` job: time out one invite and backfill it.
+ *
+ * Behavior per product decision:
+ * - When an invite times out: set invite_timed_out=true but keep status=invited
+ * - Promote exactly ONE `listed` EventMember for that event to `invited`, set their
+ *   new invite_expires_at, and send the invite SMS.
+ *
+ * Invites whose SMS failed to send (invite_failed_at set) count as expired right away.
+ * A `maybe` homie expires the same way once their follow-up nudge went unanswered.
+ * No-op if the invite was answered, extended, or the event was cancelled meanwhile.
+ */
+export async function runInviteExpiryJob(args: { eventId: string; memberId: string }): Promise<void> {
+  const now = clockNow();
+
+  // Claim timeout + choose replacement deterministically inside a transaction.
+  const res = await prisma.$transaction(async (tx) => {
+    // Re-check still expired and not already timed out.
+    const current = await tx.eventMember.findUnique({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: args.memberId,
+        },
+      },
+      select: {
+        invite_timed_out: true,
+        invite_expires_at: true,
+        invite_failed_at: true,
+        status: true,
+        event: { select: { cancelled_at: true } },
+      },
+    });
+
+    const stillExpired =
+      (current?.status === "invited" || current?.status === "maybe") &&
+      current.invite_timed_out === false &&
+      current.event.cancelled_at === null &&
+      (current.invite_failed_at !== null ||
+        (current.invite_expires_at && current.invite_expires_at.getTime() <= now.getTime()));
+
+    if (!stillExpired) {
+      return { didTimeout: false as const, replacementMemberId: null as string | null };
+    }
+
+    await tx.eventMember.update({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: args.memberId,
+        },
+      },
+      data: {
+        invite_timed_out: true,
+      },
+    });
+
+    // Pick next replacement from the backup pool.
+    // Respect ordered list semantics: priority_rank asc (NULLs last), then stable tie-breaker.
+    const replacement = await tx.eventMember.findFirst({
+      where: {
+        event_id: args.eventId,
+        status: "listed",
+      },
+      orderBy: [
+        { priority_rank: { sort: "asc", nulls: "last" } },
+        { event_member_id: "asc" },
+      ],
+      select: {
+        member_id: true,
+      },
+    });
+
+    if (!replacement) {
+      return { didTimeout: true as const, replacementMemberId: null as string | null };
+    }
+
+    // Claim the replacement by promoting to invited BEFORE sending SMS.
+    await tx.eventMember.update({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: replacement.member_id,
+        },
+      },
+      data: {
+        status: "invited",
+        // Will be set again by inviteEventMember, but set defensively
+        // so other workers don't pick it up as listed.
+        invite_timed_out: false,
+      },
+    });
+
+    return {
+      didTimeout: true as const,
+      replacementMemberId: replacement.member_id,
+    };
+  });
+
+  if (!res.didTimeout) return;
+
+  if (!res.replacementMemberId) {
+    logger.info("inviteExpiryJob.no_replacement", {
+      eventId: args.eventId,
+      timedOutMemberId: args.memberId,
+    });
+    return;
+  }
+
+  // Send invite + set invite_expires_at (and its jobs) using coordinator logic.
+  await inviteEventMember({
+    eventId: args.eventId,
+    memberId: res.replacementMemberId,
+    reason: "timeout_backfill",
+  });
+}
@@ -0,0 +1,217 @@
+import { PrismaClient } from "@prisma/client";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import { DateTime } from "luxon";
+import { nextSendWindowStart, quietHoursForMember } from "../../domain/quietHours";
+import { buildMemberInviteReminderSms } from "../domain/inviteFormatting";
+import { isSlotVotingOpen } from "../domain/slotVoting";
+import { isPhoneOptedOut } from "../consent/smsConsent";
+import { sendOrQueueSms } from "../outbound/outboundSmsQueue";
+import { INVITE_REMINDER_LEAD_MS } from "../../domain/inviteExpiryPolicy";
+
+const prisma = new PrismaClient();
+
+/**
+ * `invite_reminder` job: one reminder SMS for an invite nearing expiry.
+ *
+ * Eligibility (re-checked when the job runs):
+ * - EventMember.status = invited
+ * - invite_timed_out = false
+ * - reminder_sent = false
+ * - invite_expires_at exists AND now < invite_expires_at <= now + INVITE_REMINDER_LEAD_MS
+ * - event has a future timeslot (start_time > now) and is not cancelled
+ *
+ * Strict policy: `reminder_sent` is set once per (event_id, member_id) row ever.
+ */
+export async function runInviteReminderJob(args: { eventId: string; memberId: string }): Promise<void> {
+  const now = clockNow();
+  const deadline = new Date(now.getTime() + INVITE_REMINDER_LEAD_MS);
+
+  // Claim reminder inside a transaction so we don't double-send.
+  const claimed = await prisma.$transaction(async (tx) => {
+    const current = await tx.eventMember.findUnique({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: args.memberId,
+        },
+      },
+      select: {
+        status: true,
+        invite_timed_out: true,
+        reminder_sent: true,
+        invite_expires_at: true,
+        event: { select: { cancelled_at: true } },
+      },
+    });
+
+    const stillEligible =
+      current?.status === "invited" &&
+      current.invite_timed_out === false &&
+      current.reminder_sent === false &&
+      current.event.cancelled_at === null &&
+      current.invite_expires_at &&
+      current.invite_expires_at.getTime() > now.getTime() &&
+      current.invite_expires_at.getTime() <= deadline.getTime();
+
+    if (!stillEligible) return { didClaim: false as const, inviteExpiresAt: null as Date | null };
+
+    await tx.eventMember.update({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: args.memberId,
+        },
+      },
+      data: {
+        reminder_sent: true,
+      },
+    });
+
+    return { didClaim: true as const, inviteExpiresAt: current.invite_expires_at };
+  });
+
+  if (!claimed.didClaim || !claimed.inviteExpiresAt) return;
+
+  // Load event/member context after claim.
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+      },
+    },
+  });
+
+  if (!event) {
+    logger.warn("inviteReminderJob missing event after claim", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
+  const timeSlot = event.timeSlots[0];
+  if (!timeSlot) {
+    logger.warn("inviteReminderJob missing timeslot after claim", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
+  // Defensive: if event already started, don't send.
+  if (timeSlot.start_time.getTime() <= now.getTime()) {
+    logger.info("inviteReminderJob event started; skipping send", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+      startIso: timeSlot.start_time.toISOString(),
+    });
+    return;
+  }
+
+  const member = await prisma.member.findUnique({
+    where: { member_id: args.memberId },
+  });
+
+  if (!member) {
+    logger.warn("inviteReminderJob missing member after claim", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
+  const phone = (member.phone_number ?? "").trim();
+  if (!phone) {
+    logger.warn("inviteReminderJob member has no phone; skipping SMS", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
+  if (await isPhoneOptedOut(phone)) {
+    logger.info("inviteReminderJob member opted out; skipping SMS", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+    return;
+  }
+
+  // A reminder that would only land after the invite expires is pointless.
+  const quietHours = quietHoursForMember(member, event.createdBy);
+  const sendAt = nextSendWindowStart(DateTime.fromJSDate(now), quietHours);
+  if (sendAt.toMillis() >= claimed.inviteExpiresAt.getTime()) {
+    logger.info("inviteReminderJob quiet hours outlast invite; skipping send", {
+      eventId: args.eventId,
+      memberId: args.memberId,
+      sendAtIso: sendAt.toISO(),
+    });
+    return;
+  }
+
+  const timeZone = event.createdBy.timezone;
+  const sms = buildMemberInviteReminderSms({
+    member,
+    event,
+    timeSlot,
+    activityName: event.activity?.name,
+    creatorFirstName: event.createdBy.first_name,
+    timeZone,
+    inviteExpiresAt: claimed.inviteExpiresAt,
+    ...(isSlotVotingOpen(event.timeSlots) ? { votingTimeSlots: event.timeSlots } : {}),
+  });
+
+  try {
+    // Ensure member conversation exists (event_id + member_id).
+    const conversation = await prisma.conversation.upsert({
+      where: {
+        event_id_member_id: {
+          event_id: event.event_id,
+          member_id: member.member_id,
+        },
+      },
+      update: {},
+      create: {
+        event_id: event.event_id,
+        member_id: member.member_id,
+      },
+      select: { conversation_id: true },
+    });
+
+    const sent = await sendOrQueueSms({
+      to: phone,
+      body: sms,
+      quietHours,
+      conversationId: conversation.conversation_id,
+      eventId: event.event_id,
+      memberId: member.member_id,
+      latestSendAt: claimed.inviteExpiresAt,
+      attributes: {
+        kind: "member_invite_reminder",
+        eventId: event.event_id,
+        memberId: member.member_id,
+        inviteExpiresAtIso: claimed.inviteExpiresAt.toISOString(),
+      },
+    });
+
+    logger.info("inviteReminderJob.sent", {
+      eventId: event.event_id,
+      memberId: member.member_id,
+      ...(sent.status === "sent"
+        ? { messageSid: sent.sid }
+        : { queuedUntilIso: sent.sendAfter.toISOString() }),
+    });
+  } catch (err: any) {
+    logger.error("inviteReminderJob failed sending SMS", {
+      eventId: event.event_id,
+      memberId: member.member_id,
+      errorMessage: err?.message ?? String(err),
+      stack: err?.stack,
+    });
+  }
+}
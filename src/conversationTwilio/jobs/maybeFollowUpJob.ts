@@ -0,0 +1,112 @@
+import { PrismaClient } from "@prisma/client";
+import { DateTime } from "luxon";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import { quietHoursForMember } from "../../domain/quietHours";
+import {
+  MAYBE_FOLLOW_UP_GRACE_MINUTES,
+  computeInviteExpiresAt,
+} from "../../domain/inviteExpiryPolicy";
+import { buildMemberMaybeFollowUpSms } from "../domain/inviteFormatting";
+import { sendEventSmsToMember } from "../coordinator/coordinator";
+import { scheduleJob } from "./scheduledJobs";
+
+const prisma = new PrismaClient();
+
+/**
+ * `maybe_follow_up` job: nudge a homie who said "maybe" once it's time to decide.
+ *
+ * The nudge gives them MAYBE_FOLLOW_UP_GRACE_MINUTES (pushed past their quiet hours,
+ * capped at the start) to answer; after that the regular `invite_expiry` job times
+ * the invite out and backfills it.
+ *
+ * No-op if they answered meanwhile, were already nudged, or the event was cancelled
+ * or has started.
+ */
+export async function runMaybeFollowUpJob(args: { eventId: string; memberId: string }): Promise<void> {
+  const now = clockNow();
+
+  const claimed = await prisma.$transaction(async (tx) => {
+    const em = await tx.eventMember.findUnique({
+      where: {
+        event_id_member_id: {
+          event_id: args.eventId,
+          member_id: args.memberId,
+        },
+      },
+      include: {
+        member: true,
+        event: {
+          include: {
+            createdBy: true,
+            activity: true,
+            timeSlots: {
+              where: { status: { not: "declined" } },
+              orderBy: { start_time: "asc" },
+              take: 1,
+            },
+          },
+        },
+      },
+    });
+
+    const timeSlot = em?.event.timeSlots[0];
+    const stillMaybe =
+      em?.status === "maybe" &&
+      em.maybe_followed_up_at === null &&
+      em.invite_timed_out === false &&
+      em.event.cancelled_at === null &&
+      timeSlot &&
+      timeSlot.start_time.getTime() > now.getTime();
+
+    if (!em || !timeSlot || !stillMaybe) return null;
+
+    const replyBy = computeInviteExpiresAt({
+      now: DateTime.fromJSDate(now),
+      eventStart: DateTime.fromJSDate(timeSlot.start_time),
+      quietHours: quietHoursForMember(em.member, em.event.createdBy),
+      responseMinutes: MAYBE_FOLLOW_UP_GRACE_MINUTES,
+    }).toJSDate();
+
+    await tx.eventMember.update({
+      where: { event_member_id: em.event_member_id },
+      data: { maybe_followed_up_at: now, invite_expires_at: replyBy },
+    });
+
+    return { em, timeSlot, replyBy };
+  });
+
+  if (!claimed) return;
+
+  const { em, timeSlot, replyBy } = claimed;
+
+  await scheduleJob({
+    kind: "invite_expiry",
+    runAt: replyBy,
+    eventId: args.eventId,
+    memberId: args.memberId,
+  });
+
+  await sendEventSmsToMember({
+    eventId: args.eventId,
+    member: em.member,
+    sms: buildMemberMaybeFollowUpSms({
+      activityName: em.event.activity?.name,
+      timeSlot,
+      timeZone: em.member.timezone ?? em.event.createdBy.timezone,
+      replyBy,
+    }),
+    attributes: {
+      kind: "member_maybe_follow_up",
+      eventId: args.eventId,
+      memberId: args.memberId,
+      replyByIso: replyBy.toISOString(),
+    },
+  });
+
+  logger.info("maybeFollowUpJob.nudged", {
+    eventId: args.eventId,
+    memberId: args.memberId,
+    replyByIso: replyBy.toISOString(),
+  });
+}
@@ -0,0 +1,152 @@
+import { PrismaClient } from "@prisma/client";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import {
+  isPreEventReminderStillUseful,
+  preEventReminderRunAt,
+  resolvePreEventReminderSettings,
+  type PreEventReminderKind,
+} from "../../domain/preEventReminders";
+import {
+  buildCreatorPreEventReminderSms,
+  buildMemberPreEventReminderSms,
+} from "../domain/inviteFormatting";
+import { isSlotVotingOpen } from "../domain/slotVoting";
+import { fullNameForMember } from "../domain/homies";
+import { sendEventSmsToCreator, sendEventSmsToMember } from "../coordinator/coordinator";
+import { PRE_EVENT_REMINDER_JOB_KINDS, scheduleJob } from "./scheduledJobs";
+
+const prisma = new PrismaClient();
+
+/** A job leased a little early still counts as on time. */
+const ON_TIME_SLACK_MS = 60_000;
+
+/**
+ * `event_reminder_day_before` / `event_reminder_soon` jobs: remind every accepted
+ * homie (where, the note, who's coming) and give the creator the roster.
+ *
+ * Re-checked when the job runs:
+ * - no-op if the event was cancelled, is still voting, or the reminder was turned off
+ * - re-enqueued if the live slot now starts later (e.g. a vote locked in a later option)
+ * - skipped once it's no longer useful (see `isPreEventReminderStillUseful`)
+ */
+export async function runPreEventReminderJob(args: {
+  eventId: string;
+  reminder: PreEventReminderKind;
+}): Promise<void> {
+  const now = clockNow();
+
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+      },
+      eventMembers: {
+        where: { status: { in: ["accepted", "invited", "maybe"] } },
+        include: { member: true },
+        orderBy: [{ priority_rank: { sort: "asc", nulls: "last" } }, { event_member_id: "asc" }],
+      },
+    },
+  });
+
+  const timeSlot = event?.timeSlots[0];
+  if (!event || event.cancelled_at || !timeSlot) return;
+  if (isSlotVotingOpen(event.timeSlots)) return;
+
+  const settings = resolvePreEventReminderSettings({ event, user: event.createdBy });
+  const runAt = preEventReminderRunAt({
+    kind: args.reminder,
+    eventStart: timeSlot.start_time,
+    settings,
+  });
+  if (!runAt) return;
+
+  if (runAt.getTime() > now.getTime() + ON_TIME_SLACK_MS) {
+    await scheduleJob({
+      kind: PRE_EVENT_REMINDER_JOB_KINDS[args.reminder],
+      runAt,
+      eventId: args.eventId,
+    });
+    return;
+  }
+
+  const stillUseful = isPreEventReminderStillUseful({
+    kind: args.reminder,
+    now,
+    eventStart: timeSlot.start_time,
+    settings,
+  });
+  if (!stillUseful) {
+    logger.info("preEventReminderJob.skipped_stale", {
+      eventId: args.eventId,
+      reminder: args.reminder,
+      startIso: timeSlot.start_time.toISOString(),
+    });
+    return;
+  }
+
+  const timeZone = event.createdBy.timezone;
+  const accepted = event.eventMembers.filter((em) => em.status === "accepted");
+  const nameWithGuests = (em: (typeof accepted)[number]) => {
+    const n = fullNameForMember(em.member).trim();
+    return n && em.guest_count > 0 ? `${n} (+${em.guest_count})` : n;
+  };
+
+  for (const em of accepted) {
+    await sendEventSmsToMember({
+      eventId: event.event_id,
+      member: em.member,
+      sms: buildMemberPreEventReminderSms({
+        reminder: args.reminder,
+        activityName: event.activity?.name,
+        creatorFirstName: event.createdBy.first_name,
+        timeSlot,
+        timeZone,
+        location: event.location,
+        note: event.invite_message,
+        comingNames: accepted
+          .filter((other) => other.member_id !== em.member_id)
+          .map(nameWithGuests)
+          .filter(Boolean),
+      }),
+      attributes: {
+        kind: "member_pre_event_reminder",
+        reminder: args.reminder,
+        eventId: event.event_id,
+        memberId: em.member_id,
+      },
+    });
+  }
+
+  await sendEventSmsToCreator({
+    event,
+    sms: buildCreatorPreEventReminderSms({
+      reminder: args.reminder,
+      activityName: event.activity?.name,
+      timeSlot,
+      timeZone,
+      location: event.location,
+      acceptedNames: accepted.map(nameWithGuests).filter(Boolean),
+      pendingNames: event.eventMembers
+        .filter((em) => em.status !== "accepted" && !em.invite_timed_out)
+        .map((em) => fullNameForMember(em.member).trim())
+        .filter(Boolean),
+    }),
+    attributes: {
+      kind: "creator_pre_event_reminder",
+      reminder: args.reminder,
+      eventId: event.event_id,
+    },
+    latestSendAt: timeSlot.start_time,
+  });
+
+  logger.info("preEventReminderJob.done", {
+    eventId: args.eventId,
+    reminder: args.reminder,
+    acceptedCount: accepted.length,
+  });
+}
@@ -0,0 +1,170 @@
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import logger from "../../utils/logger";
+import { applyHeldSmsDeliveryStatuses } from "../outbound/deliveryStatusUpdates";
+import { deliverDueQueuedSms } from "../outbound/outboundSmsQueue";
+import { runAttendanceCheckJob } from "./attendanceCheckJob";
+import { runEventStartJob } from "./eventStartJob";
+import { runInviteExpiryJob } from "./inviteExpiryJob";
+import { runInviteReminderJob } from "./inviteReminderJob";
+import { runMaybeFollowUpJob } from "./maybeFollowUpJob";
+import { runPreEventReminderJob } from "./preEventReminderJob";
+import { runSeriesInvitesJob } from "./seriesInvitesJob";
+import { leaseDueJobs, markJobDone, markJobErrored, type LeasedJob } from "./scheduledJobs";
+
+type PollerHandle = {
+  stop: () => void;
+};
+
+const DEFAULT_BATCH_SIZE = 25;
+
+/** Long enough for any single job; a crashed worker's jobs come back after this. */
+const LEASE_MS = 5 * 60_000;
+
+/** Identifies this process's leases (several instances may share the table). */
+const WORKER_ID = `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+
+async function runJob(job: LeasedJob): Promise<void> {
+  switch (job.kind) {
+    case "invite_expiry":
+      if (job.event_id && job.member_id) {
+        await runInviteExpiryJob({ eventId: job.event_id, memberId: job.member_id });
+      }
+      return;
+    case "invite_reminder":
+      if (job.event_id && job.member_id) {
+        await runInviteReminderJob({ eventId: job.event_id, memberId: job.member_id });
+      }
+      return;
+    case "maybe_follow_up":
+      if (job.event_id && job.member_id) {
+        await runMaybeFollowUpJob({ eventId: job.event_id, memberId: job.member_id });
+      }
+      return;
+    case "event_start":
+      if (job.event_id) await runEventStartJob({ eventId: job.event_id });
+      return;
+    case "event_reminder_day_before":
+      if (job.event_id) await runPreEventReminderJob({ eventId: job.event_id, reminder: "day_before" });
+      return;
+    case "event_reminder_soon":
+      if (job.event_id) await runPreEventReminderJob({ eventId: job.event_id, reminder: "soon" });
+      return;
+    case "attendance_check":
+      if (job.event_id) await runAttendanceCheckJob({ eventId: job.event_id });
+      return;
+    case "series_invites":
+      if (job.event_id) await runSeriesInvitesJob({ eventId: job.event_id });
+      return;
+  }
+}
+
+/**
+ * Lease and run due jobs until none are left (see `startScheduledJobWorker`).
+ *
+ * Exported so scenario runs can drive the worker against a virtual clock.
+ */
+export async function runDueScheduledJobs(args?: {
+  batchSize?: number;
+  /** Checked between jobs so a stopping worker can bail out early. */
+  shouldStop?: () => boolean;
+}): Promise<void> {
+  const limit = Math.max(1, Math.trunc(args?.batchSize ?? DEFAULT_BATCH_SIZE));
+
+  for (;;) {
+    const jobs = await leaseDueJobs({ workerId: WORKER_ID, limit, leaseMs: LEASE_MS });
+    if (jobs.length === 0) return;
+
+    logger.info("scheduledJobWorker.leased", { count: jobs.length, workerId: WORKER_ID });
+
+    for (const job of jobs) {
+      // Unstarted leases simply expire and get picked up again.
+      if (args?.shouldStop?.()) return;
+
+      try {
+        await runJob(job);
+        await markJobDone(job, WORKER_ID);
+      } catch (err: any) {
+        await markJobErrored(job, WORKER_ID, err);
+      }
+    }
+
+    // A short batch means the table is drained for now.
+    if (jobs.length < limit) return;
+  }
+}
+
+/**
+ * Lease and send queued SMS whose quiet hours or retry backoff have ended, then
+ * apply delivery statuses that arrived before their message was logged.
+ *
+ * Exported so scenario runs can drive the worker against a virtual clock.
+ */
+export async function runDueOutboundSms(args?: {
+  batchSize?: number;
+  shouldStop?: () => boolean;
+}): Promise<void> {
+  await deliverDueQueuedSms({
+    workerId: WORKER_ID,
+    batchSize: args?.batchSize ?? DEFAULT_BATCH_SIZE,
+    leaseMs: LEASE_MS,
+    shouldStop: args?.shouldStop,
+  });
+  if (args?.shouldStop?.()) return;
+  await applyHeldSmsDeliveryStatuses();
+}
+
+/**
+ * Poll the ScheduledJob and OutboundSms tables every N ms: run whatever jobs are
+ * due, then send whatever queued SMS are due.
+ *
+ * Safe to run in several instances at once: rows are leased with
+ * `FOR UPDATE SKIP LOCKED`, so each job runs (and each SMS goes out) on one worker.
+ */
+export function startScheduledJobWorker(args?: {
+  intervalMs?: number;
+  batchSize?: number;
+}): PollerHandle {
+  const intervalMs = Math.max(250, Math.trunc(args?.intervalMs ?? 5_000));
+
+  let stopped = false;
+  let timer: NodeJS.Timeout | null = null;
+  let inFlight = false;
+
+  async function tick(): Promise<void> {
+    if (stopped || inFlight) return;
+
+    inFlight = true;
+    try {
+      await runDueScheduledJobs({ batchSize: args?.batchSize, shouldStop: () => stopped });
+      await runDueOutboundSms({ batchSize: args?.batchSize, shouldStop: () => stopped });
+    } catch (err: any) {
+      logger.error("scheduledJobWorker.tick failed", {
+        errorMessage: err?.message ?? String(err),
+        stack: err?.stack,
+      });
+    } finally {
+      inFlight = false;
+    }
+  }
+
+  // Run once on startup so we don't have to wait a full interval.
+  setImmediate(() => {
+    tick().catch(() => void 0);
+  });
+
+  timer = setInterval(() => {
+    tick().catch(() => void 0);
+  }, intervalMs);
+
+  logger.info("scheduledJobWorker.started", { intervalMs, workerId: WORKER_ID });
+
+  return {
+    stop: () => {
+      stopped = true;
+      if (timer) clearInterval(timer);
+      timer = null;
+      logger.info("scheduledJobWorker.stopped");
+    },
+  };
+}
@@ -0,0 +1,213 @@
+import { PrismaClient, type ScheduledJobKind } from "@prisma/client";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import { inviteReminderLeadMs } from "../../domain/inviteExpiryPolicy";
+import {
+  preEventReminderRunAt,
+  type PreEventReminderKind,
+  type PreEventReminderSettings,
+} from "../../domain/preEventReminders";
+
+const prisma = new PrismaClient();
+
+/** Tries (first run included) before a throwing job is marked failed. */
+const MAX_JOB_ATTEMPTS = 5;
+
+/** Wait before retry N (1-based); the last entry repeats. */
+const JOB_RETRY_BACKOFF_MS = [30_000, 2 * 60_000, 10 * 60_000, 30 * 60_000];
+
+export type LeasedJob = {
+  job_id: string;
+  kind: ScheduledJobKind;
+  event_id: string | null;
+  member_id: string | null;
+  attempt_count: number;
+};
+
+function dedupeKeyFor(kind: ScheduledJobKind, eventId: string, memberId?: string | null): string {
+  return memberId ? `${kind}:${eventId}:${memberId}` : `${kind}:${eventId}`;
+}
+
+/**
+ * Enqueue (or move) the job for (kind, event, member) to `runAt`.
+ *
+ * One live job per key: scheduling again resets the existing row to pending, so
+ * callers can re-schedule whenever the underlying time changes.
+ */
+export async function scheduleJob(args: {
+  kind: ScheduledJobKind;
+  runAt: Date;
+  eventId: string;
+  memberId?: string | null;
+}): Promise<void> {
+  const reset = {
+    status: "pending" as const,
+    run_at: args.runAt,
+    locked_by: null,
+    locked_until: null,
+    attempt_count: 0,
+    last_error: null,
+  };
+
+  await prisma.scheduledJob.upsert({
+    where: { dedupe_key: dedupeKeyFor(args.kind, args.eventId, args.memberId) },
+    update: reset,
+    create: {
+      ...reset,
+      kind: args.kind,
+      dedupe_key: dedupeKeyFor(args.kind, args.eventId, args.memberId),
+      event_id: args.eventId,
+      member_id: args.memberId ?? null,
+    },
+  });
+}
+
+/**
+ * Expiry at `expiresAt` plus the reminder shortly before it (see `inviteReminderLeadMs`;
+ * never in the past). `invitedAt` is when the response window opened.
+ */
+export async function scheduleInviteJobs(args: {
+  eventId: string;
+  memberId: string;
+  invitedAt: Date;
+  expiresAt: Date;
+}): Promise<void> {
+  await scheduleJob({
+    kind: "invite_expiry",
+    runAt: args.expiresAt,
+    eventId: args.eventId,
+    memberId: args.memberId,
+  });
+
+  const leadMs = inviteReminderLeadMs({ invitedAt: args.invitedAt, expiresAt: args.expiresAt });
+  const remindAtMs = Math.max(now().getTime(), args.expiresAt.getTime() - leadMs);
+  if (remindAtMs < args.expiresAt.getTime()) {
+    await scheduleJob({
+      kind: "invite_reminder",
+      runAt: new Date(remindAtMs),
+      eventId: args.eventId,
+      memberId: args.memberId,
+    });
+  }
+}
+
+export const PRE_EVENT_REMINDER_JOB_KINDS: Record<PreEventReminderKind, ScheduledJobKind> = {
+  day_before: "event_reminder_day_before",
+  soon: "event_reminder_soon",
+};
+
+/**
+ * (Re)schedule an event's day-before and "soon" reminders for `eventStart`.
+ *
+ * A reminder that is turned off, or whose time has already passed, has any pending
+ * job dropped instead (see src/domain/preEventReminders.ts).
+ */
+export async function schedulePreEventReminderJobs(args: {
+  eventId: string;
+  eventStart: Date;
+  settings: PreEventReminderSettings;
+}): Promise<void> {
+  const nowMs = now().getTime();
+
+  for (const [reminder, kind] of Object.entries(PRE_EVENT_REMINDER_JOB_KINDS)) {
+    const runAt = preEventReminderRunAt({
+      kind: reminder as PreEventReminderKind,
+      eventStart: args.eventStart,
+      settings: args.settings,
+    });
+
+    if (runAt && runAt.getTime() > nowMs) {
+      await scheduleJob({ kind, runAt, eventId: args.eventId });
+      continue;
+    }
+
+    await prisma.scheduledJob.updateMany({
+      where: { dedupe_key: dedupeKeyFor(kind, args.eventId), status: "pending" },
+      data: { status: "cancelled" },
+    });
+  }
+}
+
+/** Drop an event's pending jobs, e.g. when it is cancelled. */
+export async function cancelScheduledJobsForEvent(args: { eventId: string }): Promise<number> {
+  const res = await prisma.scheduledJob.updateMany({
+    where: { event_id: args.eventId, status: "pending" },
+    data: { status: "cancelled" },
+  });
+  return res.count;
+}
+
+/**
+ * Lease up to `limit` due jobs for this worker.
+ *
+ * `FOR UPDATE SKIP LOCKED` lets concurrent workers each take a disjoint batch. Jobs
+ * whose lease ran out (worker died mid-run) are due again.
+ */
+export async function leaseDueJobs(args: {
+  workerId: string;
+  limit: number;
+  leaseMs: number;
+}): Promise<LeasedJob[]> {
+  const nowDate = now();
+  const leaseUntil = new Date(nowDate.getTime() + args.leaseMs);
+
+  return prisma.$queryRaw<LeasedJob[]>`
+    UPDATE "public"."ScheduledJob" AS j
+    SET "status" = 'running',
+        "locked_by" = ${args.workerId},
+        "locked_until" = ${leaseUntil},
+        "attempt_count" = j."attempt_count" + 1,
+        "updated_at" = ${nowDate}
+    WHERE j."job_id" IN (
+      SELECT "job_id" FROM "public"."ScheduledJob"
+      WHERE ("status" = 'pending' AND "run_at" <= ${nowDate})
+         OR ("status" = 'running' AND "locked_until" < ${nowDate})
+      ORDER BY "run_at" ASC
+      LIMIT ${args.limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j."job_id", j."kind", j."event_id", j."member_id", j."attempt_count"`;
+}
+
+/**
+ * Only touches the row while this worker still holds the lease, so a job that was
+ * re-scheduled mid-run keeps its new run time.
+ */
+export async function markJobDone(job: LeasedJob, workerId: string): Promise<void> {
+  await prisma.scheduledJob.updateMany({
+    where: { job_id: job.job_id, status: "running", locked_by: workerId },
+    data: { status: "done", locked_by: null, locked_until: null, last_error: null },
+  });
+}
+
+/** Retry with backoff, or mark failed once attempts run out. */
+export async function markJobErrored(job: LeasedJob, workerId: string, err: any): Promise<void> {
+  const lastError = String(err?.message ?? err).slice(0, 1000);
+  const giveUp = job.attempt_count >= MAX_JOB_ATTEMPTS;
+  const backoffMs =
+    JOB_RETRY_BACKOFF_MS[Math.min(job.attempt_count, JOB_RETRY_BACKOFF_MS.length) - 1];
+
+  await prisma.scheduledJob.updateMany({
+    where: { job_id: job.job_id, status: "running", locked_by: workerId },
+    data: giveUp
+      ? { status: "failed", locked_by: null, locked_until: null, last_error: lastError }
+      : {
+          status: "pending",
+          run_at: new Date(now().getTime() + backoffMs),
+          locked_by: null,
+          locked_until: null,
+          last_error: lastError,
+        },
+  });
+
+  const meta = {
+    jobId: job.job_id,
+    kind: job.kind,
+    eventId: job.event_id,
+    memberId: job.member_id,
+    attempt: job.attempt_count,
+    errorMessage: lastError,
+  };
+  if (giveUp) logger.error("scheduledJobs:job_failed", meta);
+  else logger.warn("scheduledJobs:job_will_retry", meta);
+}
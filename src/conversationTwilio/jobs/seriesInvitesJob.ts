@@ -0,0 +1,152 @@
+import { PrismaClient } from "@prisma/client";
+import { now as clockNow } from "../../utils/clock";
+import logger from "../../utils/logger";
+import { describeRecurrence } from "../../domain/recurrence";
+import { loadMemberReliability } from "../../domain/memberReliability";
+import {
+  loadMemberAvailabilityRules,
+  unavailableMemberIdsForSlots,
+} from "../../domain/memberAvailability";
+import {
+  buildCreatorSeriesInvitesSentSms,
+  buildCreatorSeriesNoHomiesSms,
+} from "../domain/inviteFormatting";
+import { fullNameForMember } from "../domain/homies";
+import { buildInvitePlan, eventMemberRowsForPlan } from "../domain/invitePlan";
+import { onEventCreated, sendEventSmsToCreator } from "../coordinator/coordinator";
+import { scheduleNextSeriesOccurrence } from "../coordinator/eventSeries";
+import { cancelScheduledJobsForEvent, scheduleJob } from "./scheduledJobs";
+
+const prisma = new PrismaClient();
+
+/**
+ * `series_invites` job: send a recurring event's next occurrence its invites, then
+ * line up the occurrence after it.
+ *
+ * The invite plan is built fresh from the creator's current homies (named homies
+ * first, per the series' invite policy, drawing from its group if it has one and
+ * holding back homies who are away), the same way a preview builds one. No-op if
+ * the occurrence was cancelled or the series paused/ended; re-enqueued if the
+ * occurrence was moved later.
+ */
+export async function runSeriesInvitesJob(args: { eventId: string }): Promise<void> {
+  const now = clockNow();
+
+  const event = await prisma.event.findUnique({
+    where: { event_id: args.eventId },
+    include: {
+      createdBy: true,
+      activity: true,
+      series: true,
+      timeSlots: {
+        where: { status: { not: "declined" } },
+        orderBy: { start_time: "asc" },
+        take: 1,
+      },
+      _count: { select: { eventMembers: true } },
+    },
+  });
+
+  const timeSlot = event?.timeSlots[0];
+  const series = event?.series;
+  if (!event || event.cancelled_at || !timeSlot || !series) return;
+  if (series.paused_at || series.ended_at) return;
+
+  // Already filled (e.g. a retried job): just make sure the next one is lined up.
+  if (event._count.eventMembers > 0) {
+    await scheduleNextSeriesOccurrence({ seriesId: series.series_id });
+    return;
+  }
+
+  const invitesAt = new Date(timeSlot.start_time.getTime() - series.invite_lead_minutes * 60_000);
+  if (invitesAt.getTime() > now.getTime()) {
+    await scheduleJob({ kind: "series_invites", runAt: invitesAt, eventId: args.eventId });
+    return;
+  }
+
+  const homies = await prisma.member.findMany({
+    where: { user_id: event.created_by_user_id },
+    orderBy: { member_id: "asc" },
+  });
+  const preferredIds = new Set(series.preferred_member_ids);
+  const groupMemberships = series.member_group_id
+    ? await prisma.memberGroupMembership.findMany({
+        where: { member_group_id: series.member_group_id },
+        select: { member_id: true },
+      })
+    : null;
+  const plan = buildInvitePlan({
+    invitePolicy: event.invite_policy,
+    maxHomies: event.max_participants ?? preferredIds.size,
+    allMembers: homies,
+    preferredMembers: homies.filter((m) => preferredIds.has(m.member_id)),
+    poolMemberIds: groupMemberships?.map((m) => m.member_id) ?? null,
+    reliabilityByMemberId: event.createdBy.order_backups_by_reliability
+      ? await loadMemberReliability(prisma, homies.map((h) => h.member_id))
+      : null,
+    unavailableMemberIds: unavailableMemberIdsForSlots({
+      members: homies,
+      user: event.createdBy,
+      rulesByMemberId: await loadMemberAvailabilityRules(prisma, homies.map((h) => h.member_id)),
+      slots: [{ start: timeSlot.start_time, end: timeSlot.end_time }],
+    }),
+  });
+
+  const tooLate = timeSlot.start_time.getTime() <= now.getTime();
+  if (tooLate || plan.immediate.length === 0) {
+    await prisma.event.update({
+      where: { event_id: args.eventId },
+      data: { cancelled_at: now },
+    });
+    await cancelScheduledJobsForEvent({ eventId: args.eventId });
+    if (!tooLate) {
+      await sendEventSmsToCreator({
+        event,
+        sms: buildCreatorSeriesNoHomiesSms({
+          activityName: event.activity?.name,
+          timeSlot,
+          timeZone: event.createdBy.timezone,
+        }),
+        attributes: {
+          kind: "creator_series_no_homies",
+          eventId: event.event_id,
+          seriesId: series.series_id,
+        },
+      });
+    }
+    logger.info("seriesInvitesJob.skipped", { eventId: args.eventId, tooLate });
+    await scheduleNextSeriesOccurrence({ seriesId: series.series_id });
+    return;
+  }
+
+  await prisma.eventMember.createMany({
+    data: eventMemberRowsForPlan({ eventId: event.event_id, plan }),
+  });
+  await onEventCreated(event.event_id);
+
+  await sendEventSmsToCreator({
+    event,
+    sms: buildCreatorSeriesInvitesSentSms({
+      activityName: event.activity?.name,
+      timeSlot,
+      timeZone: event.createdBy.timezone,
+      recurrenceText: describeRecurrence(series),
+      invitedNames: plan.immediate.map(fullNameForMember),
+    }),
+    attributes: {
+      kind: "creator_series_invites_sent",
+      eventId: event.event_id,
+      seriesId: series.series_id,
+      invitedCount: plan.immediate.length,
+    },
+  });
+
+  await scheduleNextSeriesOccurrence({ seriesId: series.series_id });
+
+  logger.info("seriesInvitesJob.done", {
+    eventId: args.eventId,
+    seriesId: series.series_id,
+    invitedCount: plan.immediate.length,
+    backupCount: plan.followUp.length,
+  });
+}
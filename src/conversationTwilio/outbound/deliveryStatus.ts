@@ -0,0 +1,208 @@
+import { Prisma, PrismaClient } from "@prisma/client";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+
+const prisma = new PrismaClient();
+
+export type SmsDeliveryStatus =
+  | "queued"
+  | "sending"
+  | "sent"
+  | "delivered"
+  | "undelivered"
+  | "failed";
+
+/**
+ * Shape stored under `ConversationMessage.attributes.delivery`.
+ * `errorCode` is Twilio's numeric error code (as a string) for undelivered/failed.
+ */
+export type SmsDeliveryAttributes = {
+  status: SmsDeliveryStatus;
+  errorCode: string | null;
+  updatedAtIso: string;
+};
+
+/**
+ * Callbacks can arrive out of order; a lower rank never overwrites a higher one.
+ * undelivered/failed are terminal, like delivered.
+ */
+const STATUS_RANK: Record<SmsDeliveryStatus, number> = {
+  queued: 0,
+  sending: 1,
+  sent: 2,
+  delivered: 3,
+  undelivered: 3,
+  failed: 3,
+};
+
+/**
+ * Twilio error codes that mean the number itself can't take our texts (landline,
+ * unknown/unreachable destination, carrier block), as opposed to a transient hiccup.
+ */
+const UNREACHABLE_NUMBER_ERROR_CODES = new Set(["21614", "30004", "30005", "30006", "30007"]);
+
+export function isUnreachableNumberErrorCode(errorCode: string | null | undefined): boolean {
+  return UNREACHABLE_NUMBER_ERROR_CODES.has((errorCode ?? "").trim());
+}
+
+export function isFailedDeliveryStatus(status: SmsDeliveryStatus): boolean {
+  return status === "undelivered" || status === "failed";
+}
+
+export function parseSmsDeliveryStatus(raw: unknown): SmsDeliveryStatus | null {
+  const s = typeof raw === "string" ? raw.trim().toLowerCase() : "";
+  // "accepted" is the Messaging Service flavour of "queued".
+  if (s === "accepted") return "queued";
+  return s in STATUS_RANK ? (s as SmsDeliveryStatus) : null;
+}
+
+/** Reads `attributes.delivery` back off a ConversationMessage (null when never reported). */
+export function deliveryFromAttributes(attributes: Prisma.JsonValue | null): SmsDeliveryAttributes | null {
+  if (!attributes || typeof attributes !== "object" || Array.isArray(attributes)) return null;
+  const delivery = (attributes as Prisma.JsonObject).delivery;
+  if (!delivery || typeof delivery !== "object" || Array.isArray(delivery)) return null;
+
+  const status = parseSmsDeliveryStatus((delivery as Prisma.JsonObject).status);
+  if (!status) return null;
+
+  const errorCode = (delivery as Prisma.JsonObject).errorCode;
+  const updatedAtIso = (delivery as Prisma.JsonObject).updatedAtIso;
+  return {
+    status,
+    errorCode: typeof errorCode === "string" ? errorCode : null,
+    updatedAtIso: typeof updatedAtIso === "string" ? updatedAtIso : "",
+  };
+}
+
+export type RecordDeliveryStatusResult =
+  | {
+      recorded: true;
+      conversationMessageId: string;
+      previous: SmsDeliveryStatus | null;
+      /** The message's attributes after the update (kind, eventId, memberId, ...). */
+      attributes: Prisma.JsonObject;
+    }
+  | { recorded: false; reason: "unknown_message" | "stale_status" };
+
+/**
+ * Record a Twilio delivery status onto the outbound ConversationMessage with this sid.
+ * Other attributes (kind, eventId, ...) are kept as-is.
+ */
+export async function recordSmsDeliveryStatus(args: {
+  messageSid: string;
+  status: SmsDeliveryStatus;
+  errorCode?: string | null;
+}): Promise<RecordDeliveryStatusResult> {
+  const message = await prisma.conversationMessage.findUnique({
+    where: { twilio_sid: args.messageSid },
+    select: { message_id: true, attributes: true },
+  });
+  if (!message) return { recorded: false, reason: "unknown_message" };
+
+  const previous = deliveryFromAttributes(message.attributes);
+  if (previous && STATUS_RANK[previous.status] >= STATUS_RANK[args.status]) {
+    return { recorded: false, reason: "stale_status" };
+  }
+
+  const base =
+    message.attributes && typeof message.attributes === "object" && !Array.isArray(message.attributes)
+      ? (message.attributes as Prisma.JsonObject)
+      : {};
+  const delivery: SmsDeliveryAttributes = {
+    status: args.status,
+    errorCode: args.errorCode?.trim() || null,
+    updatedAtIso: now().toISOString(),
+  };
+
+  const attributes: Prisma.JsonObject = { ...base, delivery };
+  await prisma.conversationMessage.update({
+    where: { message_id: message.message_id },
+    data: { attributes },
+  });
+
+  if (isFailedDeliveryStatus(args.status)) {
+    logger.warn("sms.delivery.failed", {
+      messageSid: args.messageSid,
+      status: args.status,
+      errorCode: delivery.errorCode,
+    });
+  }
+
+  return {
+    recorded: true,
+    conversationMessageId: message.message_id,
+    previous: previous?.status ?? null,
+    attributes,
+  };
+}
+
+/** A held callback that never matched a message is dropped after this long. */
+const HELD_STATUS_MAX_AGE_MS = 24 * 60 * 60_000;
+
+/**
+ * Keep a status whose message isn't logged yet (see HeldSmsDeliveryStatus). Several
+ * early callbacks for one sid collapse to the highest-ranked status.
+ */
+export async function holdSmsDeliveryStatus(args: {
+  messageSid: string;
+  status: SmsDeliveryStatus;
+  errorCode?: string | null;
+}): Promise<void> {
+  const held = await prisma.heldSmsDeliveryStatus.findUnique({
+    where: { twilio_sid: args.messageSid },
+  });
+  const heldStatus = held ? parseSmsDeliveryStatus(held.status) : null;
+  if (heldStatus && STATUS_RANK[heldStatus] >= STATUS_RANK[args.status]) return;
+
+  const data = { status: args.status, error_code: args.errorCode?.trim() || null };
+  await prisma.heldSmsDeliveryStatus.upsert({
+    where: { twilio_sid: args.messageSid },
+    update: data,
+    create: { ...data, twilio_sid: args.messageSid, received_at: now() },
+  });
+}
+
+export type HeldSmsDeliveryStatusClaim = {
+  messageSid: string;
+  status: SmsDeliveryStatus;
+  errorCode: string | null;
+};
+
+/**
+ * Take held statuses whose message has been logged since, oldest first. Each row is
+ * deleted as it is claimed, so concurrent workers never apply the same one twice.
+ * Rows still unmatched after a day are dropped on the way.
+ */
+export async function claimMatchedHeldSmsDeliveryStatuses(args: {
+  limit: number;
+}): Promise<HeldSmsDeliveryStatusClaim[]> {
+  const nowMs = now().getTime();
+
+  const expired = await prisma.heldSmsDeliveryStatus.deleteMany({
+    where: { received_at: { lt: new Date(nowMs - HELD_STATUS_MAX_AGE_MS) } },
+  });
+  if (expired.count > 0) {
+    logger.warn("sms.delivery.held_expired", { count: expired.count });
+  }
+
+  const held = await prisma.$queryRaw<{ twilio_sid: string; status: string; error_code: string | null }[]>`
+    SELECT h."twilio_sid", h."status", h."error_code"
+    FROM "public"."HeldSmsDeliveryStatus" AS h
+    JOIN "public"."ConversationMessage" AS m ON m."twilio_sid" = h."twilio_sid"
+    ORDER BY h."received_at" ASC
+    LIMIT ${args.limit}`;
+
+  const claims: HeldSmsDeliveryStatusClaim[] = [];
+  for (const h of held) {
+    const status = parseSmsDeliveryStatus(h.status);
+    if (!status) continue;
+
+    const res = await prisma.heldSmsDeliveryStatus.deleteMany({
+      where: { twilio_sid: h.twilio_sid },
+    });
+    if (res.count === 0) continue;
+
+    claims.push({ messageSid: h.twilio_sid, status, errorCode: h.error_code });
+  }
+  return claims;
+}
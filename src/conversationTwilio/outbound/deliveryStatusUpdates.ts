@@ -0,0 +1,65 @@
+import logger from "../../utils/logger";
+import { onMemberInviteUndelivered } from "../coordinator/coordinator";
+import {
+  claimMatchedHeldSmsDeliveryStatuses,
+  holdSmsDeliveryStatus,
+  isFailedDeliveryStatus,
+  recordSmsDeliveryStatus,
+  type RecordDeliveryStatusResult,
+  type SmsDeliveryStatus,
+} from "./deliveryStatus";
+
+/**
+ * Record a delivery status and act on it: an undelivered invite goes to the
+ * coordinator (backfill + creator notice).
+ */
+export async function applySmsDeliveryStatus(args: {
+  messageSid: string;
+  status: SmsDeliveryStatus;
+  errorCode: string | null;
+}): Promise<RecordDeliveryStatusResult> {
+  const result = await recordSmsDeliveryStatus(args);
+
+  const attrs = result.recorded ? result.attributes : null;
+  if (
+    attrs &&
+    isFailedDeliveryStatus(args.status) &&
+    attrs.kind === "member_invite" &&
+    typeof attrs.eventId === "string" &&
+    typeof attrs.memberId === "string"
+  ) {
+    await onMemberInviteUndelivered({
+      eventId: attrs.eventId,
+      memberId: attrs.memberId,
+      errorCode: args.errorCode,
+    });
+  }
+  return result;
+}
+
+/**
+ * Apply statuses held back because they beat their message's insert (see
+ * `holdSmsDeliveryStatus`), now that the message is logged.
+ */
+export async function applyHeldSmsDeliveryStatuses(args?: { limit?: number }): Promise<void> {
+  const claims = await claimMatchedHeldSmsDeliveryStatuses({ limit: args?.limit ?? 100 });
+
+  for (const claim of claims) {
+    try {
+      const result = await applySmsDeliveryStatus(claim);
+      logger.info("sms.delivery.held_applied", {
+        messageSid: claim.messageSid,
+        status: claim.status,
+        ...(result.recorded ? {} : { skipped: result.reason }),
+      });
+    } catch (err: any) {
+      // Hold it again so the next pass retries.
+      await holdSmsDeliveryStatus(claim).catch(() => void 0);
+      logger.error("sms.delivery.held_apply_failed", {
+        messageSid: claim.messageSid,
+        errorMessage: err?.message ?? String(err),
+        stack: err?.stack,
+      });
+    }
+  }
+}
@@ -0,0 +1,440 @@
+import { Prisma, PrismaClient, type OutboundSms } from "@prisma/client";
+import { DateTime } from "luxon";
+import logger from "../../utils/logger";
+import { now } from "../../utils/clock";
+import { sendSms } from "../../utils/twilioClient";
+import { nextSendWindowStart, type QuietHours } from "../../domain/quietHours";
+import { isPhoneOptedOut } from "../consent/smsConsent";
+import { scheduleJob } from "../jobs/scheduledJobs";
+
+const prisma = new PrismaClient();
+
+/** Total tries (first send included) before a row is marked failed. */
+export const MAX_SEND_ATTEMPTS = 5;
+
+/** Wait before retry N (1-based); the last entry repeats. */
+const RETRY_BACKOFF_MS = [60_000, 5 * 60_000, 15 * 60_000, 60 * 60_000];
+
+/** Clears a worker's lease once a row's outcome is recorded. */
+const RELEASED_LEASE = { locked_by: null, locked_until: null };
+
+function retryBackoffMs(attempt: number): number {
+  return RETRY_BACKOFF_MS[Math.min(attempt, RETRY_BACKOFF_MS.length) - 1];
+}
+
+function errorText(err: any): string {
+  return String(err?.message ?? err).slice(0, 1000);
+}
+
+export type SendOrQueueSmsResult =
+  | { status: "sent"; sid: string }
+  | { status: "queued" | "retrying"; outboundSmsId: string; sendAfter: Date };
+
+/**
+ * Send a coordinator SMS now, or hold it in OutboundSms until the recipient's quiet
+ * hours end. Either way the message is logged on `conversationId` once it goes out.
+ *
+ * `latestSendAt` (usually the event start) caps the wait: if the window would open
+ * after it, the text goes out now rather than arriving too late to matter.
+ *
+ * A failed immediate send doesn't throw: it is queued for retry ("retrying") and the
+ * scheduled-job worker takes it from there (see `deliverDueQueuedSms`).
+ */
+export async function sendOrQueueSms(args: {
+  to: string;
+  body: string;
+  quietHours: QuietHours;
+  conversationId: string;
+  attributes?: Prisma.InputJsonValue;
+  eventId?: string | null;
+  memberId?: string | null;
+  latestSendAt?: Date | null;
+}): Promise<SendOrQueueSmsResult> {
+  const nowDt = DateTime.fromJSDate(now());
+  const sendAfter = nextSendWindowStart(nowDt, args.quietHours);
+
+  const deferred =
+    sendAfter > nowDt &&
+    !(args.latestSendAt && sendAfter.toMillis() >= args.latestSendAt.getTime());
+
+  if (deferred) {
+    const row = await prisma.outboundSms.create({
+      data: {
+        to_phone: args.to,
+        body: args.body,
+        send_after: sendAfter.toJSDate(),
+        conversation_id: args.conversationId,
+        event_id: args.eventId ?? null,
+        member_id: args.memberId ?? null,
+        attributes: args.attributes ?? Prisma.JsonNull,
+      },
+      select: { outbound_sms_id: true, send_after: true },
+    });
+
+    logger.info("outboundSms:queued", {
+      outboundSmsId: row.outbound_sms_id,
+      eventId: args.eventId ?? null,
+      memberId: args.memberId ?? null,
+      sendAfterIso: row.send_after.toISOString(),
+    });
+
+    return { status: "queued", outboundSmsId: row.outbound_sms_id, sendAfter: row.send_after };
+  }
+
+  let sid: string;
+  try {
+    sid = await sendSms(args.to, args.body);
+  } catch (err: any) {
+    const retryAt = nextSendWindowStart(
+      nowDt.plus({ milliseconds: retryBackoffMs(1) }),
+      args.quietHours,
+    );
+    const row = await prisma.outboundSms.create({
+      data: {
+        to_phone: args.to,
+        body: args.body,
+        send_after: retryAt.toJSDate(),
+        conversation_id: args.conversationId,
+        event_id: args.eventId ?? null,
+        member_id: args.memberId ?? null,
+        attributes: args.attributes ?? Prisma.JsonNull,
+        attempt_count: 1,
+        last_attempt_at: nowDt.toJSDate(),
+        error: errorText(err),
+      },
+      select: { outbound_sms_id: true, send_after: true },
+    });
+
+    logger.warn("outboundSms:send_failed_will_retry", {
+      outboundSmsId: row.outbound_sms_id,
+      eventId: args.eventId ?? null,
+      memberId: args.memberId ?? null,
+      retryAtIso: row.send_after.toISOString(),
+      errorMessage: err?.message ?? String(err),
+    });
+
+    return { status: "retrying", outboundSmsId: row.outbound_sms_id, sendAfter: row.send_after };
+  }
+
+  await prisma.conversationMessage.create({
+    data: {
+      conversation_id: args.conversationId,
+      role: "assistant",
+      direction: "outbound",
+      content: args.body,
+      twilio_sid: sid,
+      attributes: args.attributes ?? undefined,
+    },
+  });
+
+  return { status: "sent", sid };
+}
+
+/** Drop queued (not yet sent) SMS for an event, e.g. invites for an event that was cancelled. */
+export async function cancelQueuedSmsForEvent(args: { eventId: string }): Promise<number> {
+  const res = await prisma.outboundSms.updateMany({
+    where: { event_id: args.eventId, status: "pending" },
+    data: { status: "cancelled" },
+  });
+
+  if (res.count > 0) {
+    logger.info("outboundSms:cancelled_for_event", { eventId: args.eventId, count: res.count });
+  }
+  return res.count;
+}
+
+/** Drop queued (not yet sent) SMS to a homie, e.g. one the creator just removed. */
+export async function cancelQueuedSmsForMember(args: { memberId: string }): Promise<number> {
+  const res = await prisma.outboundSms.updateMany({
+    where: { member_id: args.memberId, status: "pending" },
+    data: { status: "cancelled" },
+  });
+
+  if (res.count > 0) {
+    logger.info("outboundSms:cancelled_for_member", { memberId: args.memberId, count: res.count });
+  }
+  return res.count;
+}
+
+/**
+ * Drop the invites still waiting in the queue for an event (e.g. the event was
+ * rescheduled and they carry the old time). Returns the homies whose invite was dropped.
+ */
+export async function cancelQueuedInvitesForEvent(args: { eventId: string }): Promise<string[]> {
+  const rows = await prisma.outboundSms.findMany({
+    where: {
+      event_id: args.eventId,
+      status: "pending",
+      attributes: { path: ["kind"], equals: "member_invite" },
+    },
+    select: { outbound_sms_id: true, member_id: true },
+  });
+  if (rows.length === 0) return [];
+
+  const res = await prisma.outboundSms.updateMany({
+    where: { outbound_sms_id: { in: rows.map((r) => r.outbound_sms_id) }, status: "pending" },
+    data: { status: "cancelled" },
+  });
+
+  logger.info("outboundSms:cancelled_invites_for_event", { eventId: args.eventId, count: res.count });
+  return Array.from(new Set(rows.flatMap((r) => (r.member_id ? [r.member_id] : []))));
+}
+
+/**
+ * Lease up to `limit` due queue rows for this worker (status=sending).
+ *
+ * Same scheme as `leaseDueJobs`: `FOR UPDATE SKIP LOCKED` gives concurrent workers
+ * disjoint batches, and a row whose lease ran out (worker died mid-send) is due again.
+ */
+export async function leaseDueOutboundSms(args: {
+  workerId: string;
+  limit: number;
+  leaseMs: number;
+}): Promise<OutboundSms[]> {
+  const nowDate = now();
+  const leaseUntil = new Date(nowDate.getTime() + args.leaseMs);
+
+  return prisma.$queryRaw<OutboundSms[]>`
+    UPDATE "public"."OutboundSms" AS o
+    SET "status" = 'sending',
+        "locked_by" = ${args.workerId},
+        "locked_until" = ${leaseUntil},
+        "updated_at" = ${nowDate}
+    WHERE o."outbound_sms_id" IN (
+      SELECT "outbound_sms_id" FROM "public"."OutboundSms"
+      WHERE ("status" = 'pending' AND "send_after" <= ${nowDate})
+         OR ("status" = 'sending' AND "locked_until" < ${nowDate})
+      ORDER BY "send_after" ASC
+      LIMIT ${args.limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING o.*`;
+}
+
+/**
+ * Lease and send due queue rows until none are left.
+ *
+ * A row that throws goes back to pending with backoff (see `releaseErroredSms`)
+ * instead of ending the batch.
+ */
+export async function deliverDueQueuedSms(args: {
+  workerId: string;
+  batchSize: number;
+  leaseMs: number;
+  /** Checked between rows so a stopping worker can bail out early. */
+  shouldStop?: () => boolean;
+}): Promise<void> {
+  const limit = Math.max(1, Math.trunc(args.batchSize));
+
+  for (;;) {
+    const rows = await leaseDueOutboundSms({
+      workerId: args.workerId,
+      limit,
+      leaseMs: args.leaseMs,
+    });
+    if (rows.length === 0) return;
+
+    logger.info("outboundSms:leased", { count: rows.length, workerId: args.workerId });
+
+    for (const row of rows) {
+      // Unstarted leases simply expire and get picked up again.
+      if (args.shouldStop?.()) return;
+
+      try {
+        await deliverQueuedSms(row);
+      } catch (err: any) {
+        await releaseErroredSms(row, args.workerId, err);
+      }
+    }
+
+    // A short batch means the queue is drained for now.
+    if (rows.length < limit) return;
+  }
+}
+
+/**
+ * A row that threw before it could record its outcome: count the attempt and put
+ * it back in the queue with backoff, or mark it failed once attempts run out.
+ * Only touches the row while this worker still holds the lease.
+ */
+async function releaseErroredSms(row: OutboundSms, workerId: string, err: any): Promise<void> {
+  const attempt = row.attempt_count + 1;
+  const attemptedAt = now();
+  const giveUp = attempt >= MAX_SEND_ATTEMPTS;
+
+  try {
+    await prisma.outboundSms.updateMany({
+      where: { outbound_sms_id: row.outbound_sms_id, status: "sending", locked_by: workerId },
+      data: {
+        ...RELEASED_LEASE,
+        status: giveUp ? "failed" : "pending",
+        ...(giveUp ? {} : { send_after: new Date(attemptedAt.getTime() + retryBackoffMs(attempt)) }),
+        attempt_count: attempt,
+        last_attempt_at: attemptedAt,
+        error: errorText(err),
+      },
+    });
+  } catch (releaseErr: any) {
+    // Still leased: it comes back once the lease runs out.
+    logger.error("outboundSms:release_failed", {
+      outboundSmsId: row.outbound_sms_id,
+      errorMessage: releaseErr?.message ?? String(releaseErr),
+    });
+  }
+
+  const meta = {
+    outboundSmsId: row.outbound_sms_id,
+    attempt,
+    errorMessage: err?.message ?? String(err),
+    stack: err?.stack,
+  };
+  if (giveUp) logger.error("outboundSms:failed", meta);
+  else logger.warn("outboundSms:errored_will_retry", meta);
+}
+
+/**
+ * Send one leased queue row (status=sending) and record the outcome.
+ *
+ * Opted-out recipients are cancelled instead of sent. A failed send goes back to
+ * pending with a backed-off `send_after`; after `MAX_SEND_ATTEMPTS` it is marked
+ * failed, and a failed invite is flagged so a backup is invited right away.
+ */
+export async function deliverQueuedSms(row: OutboundSms): Promise<void> {
+  if (await isPhoneOptedOut(row.to_phone)) {
+    await prisma.outboundSms.update({
+      where: { outbound_sms_id: row.outbound_sms_id },
+      data: { ...RELEASED_LEASE, status: "cancelled", error: "recipient opted out" },
+    });
+    logger.info("outboundSms:skipped_opted_out", { outboundSmsId: row.outbound_sms_id });
+    return;
+  }
+
+  const attempt = row.attempt_count + 1;
+  const attemptedAt = now();
+
+  let sid: string;
+  try {
+    sid = await sendSms(row.to_phone, row.body);
+  } catch (err: any) {
+    if (attempt < MAX_SEND_ATTEMPTS) {
+      const retryAt = new Date(attemptedAt.getTime() + retryBackoffMs(attempt));
+      await prisma.outboundSms.update({
+        where: { outbound_sms_id: row.outbound_sms_id },
+        data: {
+          ...RELEASED_LEASE,
+          status: "pending",
+          send_after: retryAt,
+          attempt_count: attempt,
+          last_attempt_at: attemptedAt,
+          error: errorText(err),
+        },
+      });
+      logger.warn("outboundSms:send_failed_will_retry", {
+        outboundSmsId: row.outbound_sms_id,
+        attempt,
+        retryAtIso: retryAt.toISOString(),
+        errorMessage: err?.message ?? String(err),
+      });
+      return;
+    }
+
+    await prisma.outboundSms.update({
+      where: { outbound_sms_id: row.outbound_sms_id },
+      data: {
+        ...RELEASED_LEASE,
+        status: "failed",
+        attempt_count: attempt,
+        last_attempt_at: attemptedAt,
+        error: errorText(err),
+      },
+    });
+    logger.error("outboundSms:failed", {
+      outboundSmsId: row.outbound_sms_id,
+      attempt,
+      errorMessage: err?.message ?? String(err),
+      stack: err?.stack,
+    });
+
+    await markInviteSendFailed(row);
+    return;
+  }
+
+  try {
+    await prisma.outboundSms.update({
+      where: { outbound_sms_id: row.outbound_sms_id },
+      data: {
+        ...RELEASED_LEASE,
+        status: "sent",
+        twilio_sid: sid,
+        sent_at: attemptedAt,
+        attempt_count: attempt,
+        last_attempt_at: attemptedAt,
+        error: null,
+      },
+    });
+
+    if (row.conversation_id) {
+      await prisma.conversationMessage.create({
+        data: {
+          conversation_id: row.conversation_id,
+          role: "assistant",
+          direction: "outbound",
+          content: row.body,
+          twilio_sid: sid,
+          attributes: (row.attributes ?? undefined) as Prisma.InputJsonValue | undefined,
+        },
+      });
+    }
+
+    logger.info("outboundSms:sent", {
+      outboundSmsId: row.outbound_sms_id,
+      eventId: row.event_id,
+      memberId: row.member_id,
+      messageSid: sid,
+    });
+  } catch (err: any) {
+    // The text went out; only the bookkeeping failed, so don't retry it here. If the
+    // row itself couldn't be marked sent, its lease runs out and it goes out again:
+    // a duplicate beats a lost invite.
+    logger.error("outboundSms:record_sent_failed", {
+      outboundSmsId: row.outbound_sms_id,
+      messageSid: sid,
+      errorMessage: err?.message ?? String(err),
+      stack: err?.stack,
+    });
+  }
+}
+
+/**
+ * A homie whose invite never went out shouldn't hold their spot until expiry:
+ * flag the invite and expire it now so its expiry job invites a backup.
+ */
+async function markInviteSendFailed(row: OutboundSms): Promise<void> {
+  const kind = (row.attributes as { kind?: unknown } | null)?.kind;
+  if (kind !== "member_invite" || !row.event_id || !row.member_id) return;
+
+  const failedAt = now();
+  const res = await prisma.eventMember.updateMany({
+    where: {
+      event_id: row.event_id,
+      member_id: row.member_id,
+      status: "invited",
+      invite_timed_out: false,
+    },
+    data: { invite_failed_at: failedAt, invite_expires_at: failedAt },
+  });
+
+  if (res.count > 0) {
+    await scheduleJob({
+      kind: "invite_expiry",
+      runAt: failedAt,
+      eventId: row.event_id,
+      memberId: row.member_id,
+    });
+    logger.warn("outboundSms:invite_marked_failed", {
+      outboundSmsId: row.outbound_sms_id,
+      eventId: row.event_id,
+      memberId: row.member_id,
+    });
+  }
+}
@@ -0,0 +1,59 @@
+import type { Request, Response } from "express";
+import logger, { setLogContext } from "../utils/logger";
+import { holdSmsDeliveryStatus, parseSmsDeliveryStatus } from "./outbound/deliveryStatus";
+import { applySmsDeliveryStatus } from "./outbound/deliveryStatusUpdates";
+import type { TwilioStatusCallbackBody } from "./types";
+
+/**
+ * Twilio `StatusCallback` for outbound messages.
+ *
+ * Records the delivery status onto the matching ConversationMessage, and hands
+ * undelivered invites to the coordinator (backfill + creator notice). A callback
+ * that beats its message's insert is held (202) and applied by the scheduled-job
+ * worker once the message is logged. Well-formed callbacks get a 2xx so Twilio
+ * doesn't retry.
+ */
+export async function twilioStatusCallbackHandler(req: Request, res: Response): Promise<void> {
+  const body = (req.body ?? {}) as TwilioStatusCallbackBody;
+  const messageSid = (body.MessageSid ?? "").trim();
+  const status = parseSmsDeliveryStatus(body.MessageStatus);
+
+  if (!messageSid) {
+    res.status(400).send("MessageSid is required");
+    return;
+  }
+  setLogContext({ messageSid });
+
+  if (!status) {
+    logger.info("twilio.status.ignored", { messageStatus: body.MessageStatus ?? null });
+    res.status(200).send("OK");
+    return;
+  }
+
+  try {
+    const errorCode = body.ErrorCode ?? null;
+    const result = await applySmsDeliveryStatus({ messageSid, status, errorCode });
+
+    if (!result.recorded && result.reason === "unknown_message") {
+      await holdSmsDeliveryStatus({ messageSid, status, errorCode });
+      logger.info("twilio.status.held", { status, errorCode });
+      res.status(202).send("Accepted");
+      return;
+    }
+
+    logger.info("twilio.status.received", {
+      status,
+      errorCode,
+      ...(result.recorded ? {} : { skipped: result.reason }),
+    });
+    res.status(200).send("OK");
+  } catch (err: any) {
+    logger.error("twilio.status.failed", {
+      errorMessage: err?.message ?? String(err),
+      stack: err?.stack,
+    });
+    // 500, not 200: a retried callback (Twilio's, when the callback URL asks for
+    // retries) isn't treated as a replay, since only 2xx answers mark the signature seen.
+    res.status(500).send("Error");
+  }
+}
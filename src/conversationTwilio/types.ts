@@ -3,6 +3,8 @@ export type TwilioInboundWebhookBody = {
   To?: string;
   Body?: string;
   MessageSid?: string;
+  /** Set by Twilio Advanced Opt-Out when the body is a STOP/START/HELP keyword. */
+  OptOutType?: string;
 };
 
 export type InboundTwilioMessageContext = {
@@ -32,3 +34,12 @@ export type InboundTwilioMessageContext = {
   /** Present only when senderType === "member" (the inferred event being discussed). */
   eventId?: string;
 };
+
+/** Twilio `StatusCallback` body for an outbound message (form-encoded). */
+export type TwilioStatusCallbackBody = {
+  MessageSid?: string;
+  /** queued | sending | sent | delivered | undelivered | failed (plus a few rarer values). */
+  MessageStatus?: string;
+  ErrorCode?: string;
+  To?: string;
+};
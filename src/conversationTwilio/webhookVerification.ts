@@ -0,0 +1,170 @@
+import { PrismaClient } from "@prisma/client";
+import type { NextFunction, Request, Response } from "express";
+import { validateRequest } from "twilio";
+import logger from "../utils/logger";
+
+const prisma = new PrismaClient();
+
+/**
+ * How long we remember a signature we've already handled.
+ *
+ * A signature is reserved while its request is in flight (so a concurrent copy is
+ * turned away) and only kept once we've answered it with a 2xx: Twilio's retry of a
+ * request we failed (timeout or 5xx) is re-signed identically and must get through,
+ * while a repeat of one we handled is a replay.
+ */
+const REPLAY_WINDOW_MS = 10 * 60_000;
+
+/** Upper bound on remembered signatures so a flood can't grow memory forever. */
+const REPLAY_CACHE_MAX_ENTRIES = 5_000;
+
+const seenSignatures = new Map<string, number>();
+
+function pruneSeenSignatures(nowMs: number): void {
+  for (const [sig, seenAt] of seenSignatures) {
+    // Map iteration order is insertion order, so we can stop at the first fresh entry.
+    if (nowMs - seenAt < REPLAY_WINDOW_MS && seenSignatures.size <= REPLAY_CACHE_MAX_ENTRIES) {
+      break;
+    }
+    seenSignatures.delete(sig);
+  }
+}
+
+/** Returns true if this signature is in flight or was handled inside the replay window. */
+function wasSignatureSeen(signature: string): boolean {
+  const nowMs = Date.now();
+  pruneSeenSignatures(nowMs);
+
+  const seenAt = seenSignatures.get(signature);
+  return typeof seenAt === "number" && nowMs - seenAt < REPLAY_WINDOW_MS;
+}
+
+function rememberSignature(signature: string): void {
+  seenSignatures.delete(signature);
+  seenSignatures.set(signature, Date.now());
+}
+
+function forgetSignature(signature: string): void {
+  seenSignatures.delete(signature);
+}
+
+/**
+ * Dev bypass: only honored when DEV=1 so a stray env var can't disable
+ * verification in production.
+ */
+function isSignatureCheckBypassed(): boolean {
+  return process.env.DEV === "1" && process.env.TWILIO_WEBHOOK_SIGNATURE_CHECK === "0";
+}
+
+/**
+ * Twilio signs the exact URL configured in the console, which is the public URL,
+ * not whatever host/port express sees behind a proxy.
+ */
+function buildSignedUrl(req: Request): string | null {
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL || process.env.PUBLIC_BASE_URL;
+  if (!baseUrl) return null;
+  return new URL(req.originalUrl, baseUrl).toString();
+}
+
+function reject(
+  res: Response,
+  statusCode: number,
+  reason: string,
+  meta?: Record<string, unknown>,
+): void {
+  logger.warn("twilio.webhook.rejected", { reason, statusCode, ...(meta ?? {}) });
+  res.status(statusCode).send("Rejected");
+}
+
+/**
+ * Express middleware that verifies a Twilio webhook before any handler work runs.
+ *
+ * Checks, in order:
+ * 1) `X-Twilio-Signature` is present and valid for TWILIO_AUTH_TOKEN + the public URL.
+ * 2) The signature isn't in flight and hasn't been handled (answered 2xx) inside
+ *    the replay window.
+ * 3) (optional) The MessageSid hasn't already been persisted (as a ConversationMessage
+ *    or a ProcessedInboundSms), which catches stale replays that outlive the in-memory
+ *    window (e.g. across restarts).
+ *
+ * Dev bypass: DEV=1 + TWILIO_WEBHOOK_SIGNATURE_CHECK=0.
+ */
+export function verifyTwilioWebhook(options?: {
+  /** Reject requests whose MessageSid is already stored (see check 3). */
+  rejectKnownMessageSid?: boolean;
+}) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    if (isSignatureCheckBypassed()) {
+      logger.warn("twilio.webhook.signature_check_bypassed", { path: req.originalUrl });
+      next();
+      return;
+    }
+
+    const authToken = process.env.TWILIO_AUTH_TOKEN || "";
+    if (!authToken) {
+      reject(res, 500, "missing_auth_token");
+      return;
+    }
+
+    const signature = (req.header("x-twilio-signature") ?? "").trim();
+    if (!signature) {
+      reject(res, 403, "missing_signature");
+      return;
+    }
+
+    const url = buildSignedUrl(req);
+    if (!url) {
+      reject(res, 500, "missing_public_base_url");
+      return;
+    }
+
+    const params = (req.body ?? {}) as Record<string, unknown>;
+    if (!validateRequest(authToken, signature, url, params)) {
+      reject(res, 403, "invalid_signature", { url });
+      return;
+    }
+
+    const messageSid = typeof params.MessageSid === "string" ? params.MessageSid : undefined;
+
+    if (wasSignatureSeen(signature)) {
+      reject(res, 409, "replayed_signature", { messageSid });
+      return;
+    }
+    // Reserve before any await so a concurrent copy is rejected; only a 2xx keeps it.
+    rememberSignature(signature);
+    res.on("finish", () => {
+      if (res.statusCode < 200 || res.statusCode >= 300) forgetSignature(signature);
+    });
+    res.on("close", () => {
+      if (!res.writableFinished) forgetSignature(signature);
+    });
+
+    if (options?.rejectKnownMessageSid && messageSid) {
+      try {
+        const [message, processed] = await Promise.all([
+          prisma.conversationMessage.findUnique({
+            where: { twilio_sid: messageSid },
+            select: { message_id: true },
+          }),
+          prisma.processedInboundSms.findUnique({
+            where: { twilio_sid: messageSid },
+            select: { twilio_sid: true },
+          }),
+        ]);
+        if (message || processed) {
+          reject(res, 409, "stale_message_sid", { messageSid });
+          return;
+        }
+      } catch (err: any) {
+        // Don't drop real messages because the dedupe lookup failed; the handler
+        // still dedupes on the unique twilio_sid keys.
+        logger.error("twilio.webhook.replay_lookup_failed", {
+          messageSid,
+          errorMessage: err?.message ?? String(err),
+        });
+      }
+    }
+
+    next();
+  };
+}
@@ -1,16 +1,19 @@
-import type { Event, EventMemberStatus } from "@prisma/client";
+import type { Event, EventMember, EventMemberStatus, Prisma } from "@prisma/client";
 
 /**
  * Capacity rules for `Event.max_participants`.
  *
- * `Event.max_participants` is the maximum number of *homies* (EventMembers)
- * that may be in an “accepted” state. It NEVER includes the event creator.
+ * `Event.max_participants` is the maximum number of *seats* taken by homies
+ * (EventMembers) in an “accepted” state plus the guests they bring. It NEVER
+ * includes the event creator.
  *
  * Per product decision:
- * - only `accepted` counts toward capacity
+ * - only `accepted` counts toward capacity, as 1 + `guest_count` seats
  * - `declined` does NOT count toward capacity (replacements allowed)
  * - `listed` does NOT count toward capacity (can maintain a large backup pool)
  * - `invited` / `messaged` do NOT count toward capacity (invites may exceed capacity)
+ * - `maybe` does NOT count toward capacity (tentative; nudged later, then backfilled)
+ * - `waitlisted` does NOT count toward capacity (said yes once full; promoted when a spot frees)
  */
 
 export function statusCountsTowardCapacity(status: EventMemberStatus): boolean {
@@ -22,6 +25,24 @@ export const ACTIVE_CAPACITY_STATUSES = [
   "accepted",
 ] as const satisfies readonly EventMemberStatus[];
 
+/** Seats one EventMember takes: themselves plus their guests, if their status counts. */
+export function seatsForEventMember(em: Pick<EventMember, "status" | "guest_count">): number {
+  return statusCountsTowardCapacity(em.status) ? 1 + Math.max(0, em.guest_count) : 0;
+}
+
+/** Seats currently taken on an event (accepted homies + their guests). */
+export async function countActiveSeats(
+  db: Pick<Prisma.TransactionClient, "eventMember">,
+  eventId: string,
+): Promise<number> {
+  const agg = await db.eventMember.aggregate({
+    where: { event_id: eventId, status: { in: [...ACTIVE_CAPACITY_STATUSES] } },
+    _count: { _all: true },
+    _sum: { guest_count: true },
+  });
+  return agg._count._all + (agg._sum.guest_count ?? 0);
+}
+
 export function normalizeMaxParticipants(max: Event["max_participants"]): number | null {
   if (max === null || typeof max === "undefined") return null;
   if (typeof max !== "number" || !Number.isFinite(max)) return null;
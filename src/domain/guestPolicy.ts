@@ -0,0 +1,82 @@
+import type { Event, User } from "@prisma/client";
+
+/**
+ * Plus-ones: homies may ask to bring guests, up to a per-event limit set by the
+ * creator (`Event.max_guests_per_member`, null => `User.default_max_guests_per_member`).
+ *
+ * Per product decision:
+ * - 0 means no plus-ones (the default)
+ * - guests only hold seats while their homie is accepted
+ * - a request is granted as far as the limit and open seats allow; the homie is told
+ *   what they got and why
+ * - lowering the limit later doesn't take back guests already granted
+ */
+
+export const MAX_GUESTS_PER_MEMBER = 10;
+
+export type GuestGrant = {
+  requested: number;
+  granted: number;
+  /** Why fewer than requested were granted (null => all of them). */
+  limitedBy: "not_allowed" | "limit" | "full" | null;
+};
+
+export function clampMaxGuestsPerMember(n: number): number {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(MAX_GUESTS_PER_MEMBER, Math.trunc(n)));
+}
+
+export function resolveMaxGuestsPerMember(args: {
+  event: Pick<Event, "max_guests_per_member">;
+  user: Pick<User, "default_max_guests_per_member">;
+}): number {
+  return clampMaxGuestsPerMember(
+    args.event.max_guests_per_member ?? args.user.default_max_guests_per_member ?? 0,
+  );
+}
+
+export function validateMaxGuestsPerMemberValue(
+  value: unknown,
+  field: string,
+  opts?: { nullable?: boolean },
+): { ok: true; value: number | null } | { ok: false; reason: string } {
+  const nullable = opts?.nullable ?? true;
+  if (value === null || typeof value === "undefined") {
+    return nullable ? { ok: true, value: null } : { ok: false, reason: `${field} is required` };
+  }
+
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) {
+    return { ok: false, reason: `${field} must be a number${nullable ? " or null" : ""}` };
+  }
+
+  const v = Math.trunc(n);
+  if (v < 0 || v > MAX_GUESTS_PER_MEMBER) {
+    return {
+      ok: false,
+      reason: `${field} must be between 0 and ${MAX_GUESTS_PER_MEMBER}${nullable ? " (or null)" : ""}`,
+    };
+  }
+  return { ok: true, value: v };
+}
+
+/**
+ * How many of the requested guests fit. `seatsLeft` is the room left for guests once
+ * the homie's own seat is counted (null => no capacity limit).
+ */
+export function grantGuests(args: {
+  requested: number;
+  maxPerMember: number;
+  seatsLeft: number | null;
+}): GuestGrant {
+  const requested = Math.max(0, Math.trunc(args.requested));
+  if (requested === 0) return { requested, granted: 0, limitedBy: null };
+  if (args.maxPerMember <= 0) return { requested, granted: 0, limitedBy: "not_allowed" };
+
+  const byLimit = Math.min(requested, args.maxPerMember);
+  const granted =
+    args.seatsLeft === null ? byLimit : Math.max(0, Math.min(byLimit, Math.trunc(args.seatsLeft)));
+
+  const limitedBy = granted === requested ? null : granted < byLimit ? "full" : "limit";
+  return { requested, granted, limitedBy };
+}
@@ -0,0 +1,136 @@
+import type { Event, User } from "@prisma/client";
+import { DateTime } from "luxon";
+import { nextSendWindowStart, type QuietHours } from "./quietHours";
+
+/**
+ * How long a homie gets to answer an invite.
+ *
+ * Resolution order:
+ * - `Event.invite_response_minutes` (set by the creator for this event)
+ * - `User.default_invite_response_minutes` (the creator's default)
+ * - 5% of the time until the event starts
+ *
+ * Whatever the source, the window is clamped to [MIN, MAX], pushed past the
+ * recipient's quiet hours, and never runs past the event start.
+ */
+
+export const MIN_INVITE_RESPONSE_MINUTES = 15;
+export const MAX_INVITE_RESPONSE_MINUTES = 7 * 24 * 60;
+
+/** Share of the time-until-start used when nobody picked a window. */
+const DEFAULT_WINDOW_FRACTION = 0.05;
+
+/** Reminder goes out this long before expiry (or halfway through a shorter window). */
+export const INVITE_REMINDER_LEAD_MS = 30 * 60_000;
+
+export function clampInviteResponseMinutes(minutes: number): number {
+  return Math.min(
+    MAX_INVITE_RESPONSE_MINUTES,
+    Math.max(MIN_INVITE_RESPONSE_MINUTES, Math.round(minutes)),
+  );
+}
+
+/** API validation for `invite_response_minutes` / `default_invite_response_minutes`. */
+export function validateInviteResponseMinutesValue(value: unknown, field: string):
+  | { ok: true; value: number | null }
+  | { ok: false; reason: string } {
+  if (value === null || typeof value === "undefined") return { ok: true, value: null };
+
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) {
+    return { ok: false, reason: `${field} must be a number of minutes or null` };
+  }
+
+  const v = Math.trunc(n);
+  if (v < MIN_INVITE_RESPONSE_MINUTES || v > MAX_INVITE_RESPONSE_MINUTES) {
+    return {
+      ok: false,
+      reason: `${field} must be between ${MIN_INVITE_RESPONSE_MINUTES} and ${MAX_INVITE_RESPONSE_MINUTES} minutes (or null)`,
+    };
+  }
+  return { ok: true, value: v };
+}
+
+/** The creator's chosen window for this event, or null for the 5% rule. */
+export function resolveInviteResponseMinutes(args: {
+  event: Pick<Event, "invite_response_minutes">;
+  user: Pick<User, "default_invite_response_minutes">;
+}): number | null {
+  return args.event.invite_response_minutes ?? args.user.default_invite_response_minutes ?? null;
+}
+
+/**
+ * Invite deadline for an invite landing at `now`: the response window (see above),
+ * pushed to the end of quiet hours when it would land inside them, and never past
+ * the start.
+ */
+export function computeInviteExpiresAt(args: {
+  now: DateTime;
+  eventStart: DateTime;
+  quietHours: QuietHours;
+  /** From `resolveInviteResponseMinutes`; null => 5% of the time until start. */
+  responseMinutes?: number | null;
+}): DateTime {
+  const nowTz = args.now.setZone(args.quietHours.timeZone);
+  const startTz = args.eventStart.setZone(args.quietHours.timeZone);
+
+  // Defensive: if start isn't in the future, expire immediately.
+  if (startTz <= nowTz) return nowTz;
+
+  const minutes =
+    typeof args.responseMinutes === "number"
+      ? args.responseMinutes
+      : ((startTz.toMillis() - nowTz.toMillis()) * DEFAULT_WINDOW_FRACTION) / 60_000;
+  const raw = nowTz.plus({ minutes: clampInviteResponseMinutes(minutes) });
+
+  // Nobody should have to answer during quiet hours; give them until the window opens.
+  const deadline = nextSendWindowStart(raw, args.quietHours);
+
+  // Still ensure we don't exceed event start (e.g. event starts before quiet hours end).
+  return deadline <= startTz ? deadline : startTz;
+}
+
+/** After a "maybe" is nudged, how long they get to answer before a backup is invited. */
+export const MAYBE_FOLLOW_UP_GRACE_MINUTES = 60;
+
+/**
+ * When to nudge a homie who said "maybe": the time they said they'd know, else when
+ * their invite would have expired. Never in the past, and early enough that the grace
+ * period ends before the event starts.
+ */
+export function computeMaybeFollowUpAt(args: {
+  now: Date;
+  eventStart: Date;
+  decideBy: Date | null;
+  inviteExpiresAt: Date | null;
+}): Date {
+  const nowMs = args.now.getTime();
+  const fallbackMs =
+    args.inviteExpiresAt && args.inviteExpiresAt.getTime() > nowMs
+      ? args.inviteExpiresAt.getTime()
+      : nowMs + MAYBE_FOLLOW_UP_GRACE_MINUTES * 60_000;
+  const wantedMs = args.decideBy ? args.decideBy.getTime() : fallbackMs;
+  const latestMs = args.eventStart.getTime() - MAYBE_FOLLOW_UP_GRACE_MINUTES * 60_000;
+
+  return new Date(Math.max(nowMs, Math.min(wantedMs, latestMs)));
+}
+
+/** How long before expiry the reminder goes out for a window opening at `invitedAt`. */
+export function inviteReminderLeadMs(args: { invitedAt: Date; expiresAt: Date }): number {
+  const windowMs = args.expiresAt.getTime() - args.invitedAt.getTime();
+  return Math.max(0, Math.min(INVITE_REMINDER_LEAD_MS, Math.floor(windowMs / 2)));
+}
+
+/** "2 hours", "45 minutes", "1 day 6 hours" for SMS copy. */
+export function formatInviteResponseWindow(minutes: number): string {
+  const m = Math.round(minutes);
+  const days = Math.floor(m / (24 * 60));
+  const hours = Math.floor((m % (24 * 60)) / 60);
+  const mins = m % 60;
+
+  const parts: string[] = [];
+  if (days) parts.push(`${days} day${days === 1 ? "" : "s"}`);
+  if (hours) parts.push(`${hours} hour${hours === 1 ? "" : "s"}`);
+  if (mins) parts.push(`${mins} minute${mins === 1 ? "" : "s"}`);
+  return parts.join(" ") || "0 minutes";
+}
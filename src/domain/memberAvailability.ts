@@ -0,0 +1,160 @@
+import type { Member, MemberAvailabilityRule, Prisma, User } from "@prisma/client";
+import { DateTime } from "luxon";
+
+/**
+ * Homie availability: temporary blackouts ("away until the 20th") and weekly windows
+ * ("never before 8am", "no Sundays"), stored as `MemberAvailabilityRule`.
+ *
+ * Weekly windows are read in the homie's timezone (`Member.timezone`, else the owning
+ * user's). A homie counts as unavailable for a plan only when every candidate time
+ * hits one of their rules; with several options they can still vote for the others.
+ */
+
+export type AvailabilityRule = Pick<
+  MemberAvailabilityRule,
+  "kind" | "starts_at" | "ends_at" | "weekdays" | "start_minute" | "end_minute"
+>;
+
+export type AvailabilitySlot = { start: Date; end: Date };
+
+const MINUTES_PER_DAY = 24 * 60;
+
+const WEEKDAY_NAMES = ["Mondays", "Tuesdays", "Wednesdays", "Thursdays", "Fridays", "Saturdays", "Sundays"];
+
+/** The homie's timezone, falling back to the owning user's. */
+export function timeZoneForMember(member: Pick<Member, "timezone">, user: Pick<User, "timezone">): string {
+  const tz = (member.timezone ?? "").trim();
+  return tz && DateTime.now().setZone(tz).isValid ? tz : user.timezone;
+}
+
+/** Weekly window as [start, end) minutes; null bounds mean the whole day. */
+function weeklyWindow(rule: AvailabilityRule): { start: number; end: number } {
+  const start = rule.start_minute ?? 0;
+  const end = rule.end_minute ?? MINUTES_PER_DAY;
+  return { start, end: end > start ? end : end + MINUTES_PER_DAY };
+}
+
+/** True when [start, end) overlaps the rule. */
+export function ruleCoversTime(args: {
+  rule: AvailabilityRule;
+  timeZone: string;
+  start: Date;
+  end: Date;
+}): boolean {
+  const { rule } = args;
+  const startMs = args.start.getTime();
+  const endMs = Math.max(args.end.getTime(), startMs + 1);
+
+  if (rule.kind === "blackout") {
+    const from = rule.starts_at?.getTime() ?? Number.NEGATIVE_INFINITY;
+    const until = rule.ends_at?.getTime() ?? Number.POSITIVE_INFINITY;
+    return from < endMs && until > startMs;
+  }
+
+  const window = weeklyWindow(rule);
+  // Start a day early so a window wrapping past midnight is seen from its own day.
+  let day = DateTime.fromMillis(startMs).setZone(args.timeZone).startOf("day").minus({ days: 1 });
+  while (day.toMillis() < endMs) {
+    if (rule.weekdays.length === 0 || rule.weekdays.includes(day.weekday)) {
+      const from = day.plus({ minutes: window.start }).toMillis();
+      const until = day.plus({ minutes: window.end }).toMillis();
+      if (from < endMs && until > startMs) return true;
+    }
+    day = day.plus({ days: 1 });
+  }
+  return false;
+}
+
+/** Every slot hits at least one rule (no slots => available). */
+export function isUnavailableForSlots(args: {
+  rules: AvailabilityRule[];
+  timeZone: string;
+  slots: AvailabilitySlot[];
+}): boolean {
+  if (args.rules.length === 0 || args.slots.length === 0) return false;
+  return args.slots.every((slot) =>
+    args.rules.some((rule) => ruleCoversTime({ rule, timeZone: args.timeZone, ...slot })),
+  );
+}
+
+/** Ids of the homies who can't make any of `slots`. */
+export function unavailableMemberIdsForSlots(args: {
+  members: Pick<Member, "member_id" | "timezone">[];
+  user: Pick<User, "timezone">;
+  rulesByMemberId: Map<string, AvailabilityRule[]>;
+  slots: AvailabilitySlot[];
+}): Set<string> {
+  const out = new Set<string>();
+  for (const m of args.members) {
+    const rules = args.rulesByMemberId.get(m.member_id) ?? [];
+    if (isUnavailableForSlots({ rules, timeZone: timeZoneForMember(m, args.user), slots: args.slots })) {
+      out.add(m.member_id);
+    }
+  }
+  return out;
+}
+
+/** Availability rules for each of `memberIds` (homies without any get no entry). */
+export async function loadMemberAvailabilityRules(
+  db: Pick<Prisma.TransactionClient, "memberAvailabilityRule">,
+  memberIds: string[],
+): Promise<Map<string, MemberAvailabilityRule[]>> {
+  const rules = await db.memberAvailabilityRule.findMany({
+    where: { member_id: { in: memberIds } },
+    orderBy: { created_at: "asc" },
+  });
+
+  const byMember = new Map<string, MemberAvailabilityRule[]>();
+  for (const rule of rules) {
+    const list = byMember.get(rule.member_id) ?? [];
+    list.push(rule);
+    byMember.set(rule.member_id, list);
+  }
+  return byMember;
+}
+
+function formatMinuteOfDay(minute: number): string {
+  const m = ((minute % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  const h24 = Math.floor(m / 60);
+  const mm = m % 60;
+  const h12 = h24 % 12 === 0 ? 12 : h24 % 12;
+  return `${h12}${mm ? `:${String(mm).padStart(2, "0")}` : ""}${h24 < 12 ? "am" : "pm"}`;
+}
+
+function describeWeekdays(weekdays: number[]): string {
+  const days = Array.from(new Set(weekdays)).sort((a, b) => a - b);
+  if (days.join() === "6,7") return "on weekends";
+  if (days.join() === "1,2,3,4,5") return "on weekdays";
+  return `on ${days.map((d) => WEEKDAY_NAMES[d - 1]).filter(Boolean).join(", ")}`;
+}
+
+/**
+ * Short SMS wording for a rule: "away until Fri, Mar 20", "not before 8am",
+ * "not after 9pm on weekdays", "not on Sundays".
+ */
+export function describeAvailabilityRule(args: {
+  rule: AvailabilityRule;
+  timeZone: string;
+  now: Date;
+}): string {
+  const { rule } = args;
+  const day = (d: Date) => DateTime.fromJSDate(d).setZone(args.timeZone).toFormat("ccc, LLL d");
+
+  if (rule.kind === "blackout") {
+    const from =
+      rule.starts_at && rule.starts_at.getTime() > args.now.getTime() ? ` from ${day(rule.starts_at)}` : "";
+    return rule.ends_at ? `away${from} until ${day(rule.ends_at)}` : `away${from} until further notice`;
+  }
+
+  const { start, end } = weeklyWindow(rule);
+  const time =
+    start === 0 && end === MINUTES_PER_DAY
+      ? ""
+      : start === 0
+        ? `before ${formatMinuteOfDay(end)}`
+        : end === MINUTES_PER_DAY
+          ? `after ${formatMinuteOfDay(start)}`
+          : `${formatMinuteOfDay(start)}–${formatMinuteOfDay(end)}`;
+  const days = rule.weekdays.length ? describeWeekdays(rule.weekdays) : "";
+  return `not ${[time, days].filter(Boolean).join(" ") || "available"}`;
+}
@@ -0,0 +1,117 @@
+import type { EventMember, EventMemberStatus, Prisma } from "@prisma/client";
+
+/**
+ * Homie reliability, from their invite history with one creator.
+ *
+ * - no-show rate: accepted homies the creator marked as not showing, out of those
+ *   with attendance recorded (post-event check-in)
+ * - response rate / latency: invites answered (yes / no / maybe / vote) before they
+ *   timed out, and how long that took (`invited_at` -> `responded_at`)
+ *
+ * Rates are null until there is something to measure, so a new homie isn't ranked
+ * as flaky (or as perfect).
+ */
+
+export type MemberReliability = {
+  member_id: string;
+  invites: number;
+  responses: number;
+  response_rate: number | null;
+  median_response_minutes: number | null;
+  accepted: number;
+  attended: number;
+  no_shows: number;
+  no_show_rate: number | null;
+};
+
+type ReliabilityRow = Pick<
+  EventMember,
+  "member_id" | "status" | "invited_at" | "responded_at" | "attended"
+>;
+
+/** Statuses that mean the homie got an invite (listed backups never did). */
+const INVITED_STATUSES: ReadonlySet<EventMemberStatus> = new Set<EventMemberStatus>([
+  "invited",
+  "messaged",
+  "accepted",
+  "declined",
+  "waitlisted",
+  "maybe",
+]);
+
+/** Weight of attendance vs responsiveness in `reliabilityScore`. */
+const SHOW_UP_WEIGHT = 0.7;
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function ratio(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 1000 : null;
+}
+
+export function computeMemberReliability(memberId: string, rows: ReliabilityRow[]): MemberReliability {
+  const invited = rows.filter((r) => INVITED_STATUSES.has(r.status));
+  const responded = invited.filter((r) => r.responded_at);
+  const latencies = responded
+    .filter((r) => r.invited_at && r.responded_at!.getTime() >= r.invited_at.getTime())
+    .map((r) => (r.responded_at!.getTime() - r.invited_at!.getTime()) / 60_000);
+
+  const accepted = rows.filter((r) => r.status === "accepted").length;
+  const attended = rows.filter((r) => r.attended === true).length;
+  const noShows = rows.filter((r) => r.attended === false).length;
+
+  const medianLatency = median(latencies);
+  return {
+    member_id: memberId,
+    invites: invited.length,
+    responses: responded.length,
+    response_rate: ratio(responded.length, invited.length),
+    median_response_minutes: medianLatency === null ? null : Math.round(medianLatency),
+    accepted,
+    attended,
+    no_shows: noShows,
+    no_show_rate: ratio(noShows, attended + noShows),
+  };
+}
+
+/**
+ * 0..1, higher is more reliable; a homie with no history scores 0.5 on each part.
+ * Used to order backups when the creator opted in.
+ */
+export function reliabilityScore(r: MemberReliability | undefined): number {
+  const showUp = r && r.no_show_rate !== null ? 1 - r.no_show_rate : 0.5;
+  const responsive = r && r.response_rate !== null ? r.response_rate : 0.5;
+  return SHOW_UP_WEIGHT * showUp + (1 - SHOW_UP_WEIGHT) * responsive;
+}
+
+/** Reliability for each of `memberIds` (homies without history get zeroed stats). */
+export async function loadMemberReliability(
+  db: Pick<Prisma.TransactionClient, "eventMember">,
+  memberIds: string[],
+): Promise<Map<string, MemberReliability>> {
+  const rows = await db.eventMember.findMany({
+    where: { member_id: { in: memberIds }, event: { cancelled_at: null } },
+    select: {
+      member_id: true,
+      status: true,
+      invited_at: true,
+      responded_at: true,
+      attended: true,
+    },
+  });
+
+  const byMember = new Map<string, ReliabilityRow[]>();
+  for (const row of rows) {
+    const list = byMember.get(row.member_id) ?? [];
+    list.push(row);
+    byMember.set(row.member_id, list);
+  }
+
+  return new Map(
+    memberIds.map((id) => [id, computeMemberReliability(id, byMember.get(id) ?? [])] as const),
+  );
+}
@@ -0,0 +1,131 @@
+import type { Event, User } from "@prisma/client";
+
+/**
+ * Event-day reminders to accepted homies (and the creator): where, the note, and
+ * who's coming.
+ *
+ * Two of them, each resolved event-first, then the creator's default:
+ * - day-before: 24h before the start (`Event.day_before_reminder`, null =>
+ *   `User.default_day_before_reminder`)
+ * - soon: N minutes before the start (`Event.pre_event_reminder_minutes`, null =>
+ *   `User.default_pre_event_reminder_minutes`; 0 => off)
+ *
+ * A reminder whose time has already passed when it's scheduled is skipped (no
+ * "tomorrow!" text for an event made this afternoon), and the day-before one is
+ * dropped once the "soon" one is due so homies don't get both back to back.
+ */
+
+export type PreEventReminderKind = "day_before" | "soon";
+
+export const DAY_BEFORE_REMINDER_LEAD_MINUTES = 24 * 60;
+export const MAX_PRE_EVENT_REMINDER_MINUTES = 12 * 60;
+
+/** Accepted homies can say they're running late from this long before the start until the end. */
+export const RUNNING_LATE_WINDOW_MINUTES = 3 * 60;
+
+export type PreEventReminderSettings = {
+  dayBefore: boolean;
+  /** 0 => no "soon" reminder. */
+  minutesBefore: number;
+};
+
+export function clampPreEventReminderMinutes(n: number): number {
+  if (!Number.isFinite(n)) return 0;
+  return Math.max(0, Math.min(MAX_PRE_EVENT_REMINDER_MINUTES, Math.trunc(n)));
+}
+
+export function resolvePreEventReminderSettings(args: {
+  event: Pick<Event, "day_before_reminder" | "pre_event_reminder_minutes">;
+  user: Pick<User, "default_day_before_reminder" | "default_pre_event_reminder_minutes">;
+}): PreEventReminderSettings {
+  return {
+    dayBefore: args.event.day_before_reminder ?? args.user.default_day_before_reminder ?? true,
+    minutesBefore: clampPreEventReminderMinutes(
+      args.event.pre_event_reminder_minutes ?? args.user.default_pre_event_reminder_minutes ?? 0,
+    ),
+  };
+}
+
+/** API validation for `pre_event_reminder_minutes` / `default_pre_event_reminder_minutes`. */
+export function validatePreEventReminderMinutesValue(
+  value: unknown,
+  field: string,
+  opts?: { nullable?: boolean },
+): { ok: true; value: number | null } | { ok: false; reason: string } {
+  const nullable = opts?.nullable ?? true;
+  if (value === null || typeof value === "undefined") {
+    return nullable ? { ok: true, value: null } : { ok: false, reason: `${field} is required` };
+  }
+
+  const n = typeof value === "number" ? value : Number(value);
+  if (!Number.isFinite(n)) {
+    return { ok: false, reason: `${field} must be a number of minutes${nullable ? " or null" : ""}` };
+  }
+
+  const v = Math.trunc(n);
+  if (v < 0 || v > MAX_PRE_EVENT_REMINDER_MINUTES) {
+    return {
+      ok: false,
+      reason: `${field} must be between 0 and ${MAX_PRE_EVENT_REMINDER_MINUTES} minutes${nullable ? " (or null)" : ""}`,
+    };
+  }
+  return { ok: true, value: v };
+}
+
+/** API validation for `day_before_reminder` / `default_day_before_reminder`. */
+export function validateDayBeforeReminderValue(
+  value: unknown,
+  field: string,
+  opts?: { nullable?: boolean },
+): { ok: true; value: boolean | null } | { ok: false; reason: string } {
+  const nullable = opts?.nullable ?? true;
+  if (value === null || typeof value === "undefined") {
+    return nullable ? { ok: true, value: null } : { ok: false, reason: `${field} is required` };
+  }
+  if (typeof value !== "boolean") {
+    return { ok: false, reason: `${field} must be true or false${nullable ? " (or null)" : ""}` };
+  }
+  return { ok: true, value };
+}
+
+/** When the reminder should go out, or null when it's turned off. */
+export function preEventReminderRunAt(args: {
+  kind: PreEventReminderKind;
+  eventStart: Date;
+  settings: PreEventReminderSettings;
+}): Date | null {
+  const leadMinutes =
+    args.kind === "day_before"
+      ? args.settings.dayBefore
+        ? DAY_BEFORE_REMINDER_LEAD_MINUTES
+        : 0
+      : args.settings.minutesBefore;
+  if (leadMinutes <= 0) return null;
+  return new Date(args.eventStart.getTime() - leadMinutes * 60_000);
+}
+
+/**
+ * Whether a due reminder is still worth sending: the event hasn't started, and a
+ * day-before reminder hasn't been overtaken by the "soon" one.
+ */
+export function isPreEventReminderStillUseful(args: {
+  kind: PreEventReminderKind;
+  now: Date;
+  eventStart: Date;
+  settings: PreEventReminderSettings;
+}): boolean {
+  if (args.now.getTime() >= args.eventStart.getTime()) return false;
+  if (args.kind === "soon") return true;
+
+  const soonAt = preEventReminderRunAt({
+    kind: "soon",
+    eventStart: args.eventStart,
+    settings: args.settings,
+  });
+  return !soonAt || args.now.getTime() < soonAt.getTime();
+}
+
+export function isRunningLateWindowOpen(args: { now: Date; start: Date; end: Date }): boolean {
+  const opensAt = args.start.getTime() - RUNNING_LATE_WINDOW_MINUTES * 60_000;
+  return args.now.getTime() >= opensAt && args.now.getTime() <= args.end.getTime();
+}
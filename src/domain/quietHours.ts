@@ -0,0 +1,82 @@
+import type { Member, User } from "@prisma/client";
+import { DateTime } from "luxon";
+
+/**
+ * Quiet hours: a daily window, in the recipient's timezone, when coordinator SMS
+ * must not go out.
+ *
+ * Stored as minutes after midnight on `User` (required, defaults 22:00–07:00) and
+ * optionally overridden per `Member` (null => inherit the owning user's values).
+ * The window is [start, end) and may wrap midnight; start == end means no quiet hours.
+ */
+export type QuietHours = {
+  timeZone: string;
+  startMinute: number;
+  endMinute: number;
+};
+
+export const DEFAULT_QUIET_HOURS_START_MINUTE = 22 * 60;
+export const DEFAULT_QUIET_HOURS_END_MINUTE = 7 * 60;
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function normalizeMinute(m: number | null | undefined, fallback: number): number {
+  if (typeof m !== "number" || !Number.isFinite(m)) return fallback;
+  return ((Math.trunc(m) % MINUTES_PER_DAY) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+}
+
+export function quietHoursForUser(
+  user: Pick<User, "timezone" | "quiet_hours_start_minute" | "quiet_hours_end_minute">,
+): QuietHours {
+  return {
+    timeZone: user.timezone,
+    startMinute: normalizeMinute(user.quiet_hours_start_minute, DEFAULT_QUIET_HOURS_START_MINUTE),
+    endMinute: normalizeMinute(user.quiet_hours_end_minute, DEFAULT_QUIET_HOURS_END_MINUTE),
+  };
+}
+
+/** A homie's quiet hours: their own overrides/timezone, falling back to the owning user's. */
+export function quietHoursForMember(
+  member: Pick<Member, "timezone" | "quiet_hours_start_minute" | "quiet_hours_end_minute">,
+  user: Pick<User, "timezone" | "quiet_hours_start_minute" | "quiet_hours_end_minute">,
+): QuietHours {
+  const fallback = quietHoursForUser(user);
+  const timeZone = (member.timezone ?? "").trim();
+  return {
+    timeZone: timeZone && DateTime.now().setZone(timeZone).isValid ? timeZone : fallback.timeZone,
+    startMinute: normalizeMinute(member.quiet_hours_start_minute, fallback.startMinute),
+    endMinute: normalizeMinute(member.quiet_hours_end_minute, fallback.endMinute),
+  };
+}
+
+/** Quiet hours used when there's no user/member to read them from. */
+export function defaultQuietHours(timeZone: string): QuietHours {
+  return {
+    timeZone,
+    startMinute: DEFAULT_QUIET_HOURS_START_MINUTE,
+    endMinute: DEFAULT_QUIET_HOURS_END_MINUTE,
+  };
+}
+
+export function isWithinQuietHours(at: DateTime, qh: QuietHours): boolean {
+  if (qh.startMinute === qh.endMinute) return false;
+
+  const local = at.setZone(qh.timeZone);
+  const minute = local.hour * 60 + local.minute;
+
+  return qh.startMinute < qh.endMinute
+    ? minute >= qh.startMinute && minute < qh.endMinute
+    : minute >= qh.startMinute || minute < qh.endMinute;
+}
+
+/**
+ * Earliest moment at/after `at` outside quiet hours (i.e. `at` itself when the
+ * window is open). Returned in the quiet-hours timezone.
+ */
+export function nextSendWindowStart(at: DateTime, qh: QuietHours): DateTime {
+  const local = at.setZone(qh.timeZone);
+  if (!isWithinQuietHours(local, qh)) return local;
+
+  const endToday = local.startOf("day").plus({ minutes: qh.endMinute });
+  return endToday > local ? endToday : endToday.plus({ days: 1 });
+}
@@ -0,0 +1,156 @@
+import type { EventSeries, RecurrenceFrequency } from "@prisma/client";
+import { DateTime } from "luxon";
+
+/**
+ * Recurring events ("every Tuesday 6am", "first Friday of the month").
+ *
+ * A series is anchored on its first occurrence: every later one keeps that weekday and
+ * wall-clock time in the series timezone (so 6am stays 6am across DST).
+ * - weekly: every `interval` weeks
+ * - monthly: the `week_of_month`-th of that weekday (1-4, -1 => last), every
+ *   `interval` months
+ */
+
+export type RecurrenceRule = Pick<
+  EventSeries,
+  "frequency" | "interval" | "week_of_month" | "anchor_start" | "timezone"
+>;
+
+export const DEFAULT_SERIES_INVITE_LEAD_MINUTES = 2 * 24 * 60;
+export const MIN_SERIES_INVITE_LEAD_MINUTES = 60;
+export const MAX_SERIES_INVITE_LEAD_MINUTES = 14 * 24 * 60;
+export const MAX_RECURRENCE_INTERVAL = 12;
+
+const WEEKDAY_NAMES = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+const ORDINALS: Record<number, string> = { 1: "first", 2: "second", 3: "third", 4: "fourth", [-1]: "last" };
+
+export function clampSeriesInviteLeadMinutes(n: number): number {
+  if (!Number.isFinite(n)) return DEFAULT_SERIES_INVITE_LEAD_MINUTES;
+  return Math.max(
+    MIN_SERIES_INVITE_LEAD_MINUTES,
+    Math.min(MAX_SERIES_INVITE_LEAD_MINUTES, Math.trunc(n)),
+  );
+}
+
+export function clampRecurrenceInterval(n: number): number {
+  if (!Number.isFinite(n)) return 1;
+  return Math.max(1, Math.min(MAX_RECURRENCE_INTERVAL, Math.trunc(n)));
+}
+
+/** Which week of its month `start` falls in: 1-4, or -1 when it's past the 28th. */
+export function weekOfMonthFor(start: Date, timeZone: string): number {
+  const day = DateTime.fromJSDate(start, { zone: timeZone }).day;
+  return day > 28 ? -1 : Math.ceil(day / 7);
+}
+
+function nthWeekdayOfMonth(args: {
+  month: DateTime;
+  weekday: number;
+  weekOfMonth: number;
+  time: DateTime;
+}): DateTime {
+  const first = args.month.startOf("month");
+  let day: number;
+  if (args.weekOfMonth < 0) {
+    const last = first.endOf("month");
+    day = last.day - ((last.weekday - args.weekday + 7) % 7);
+  } else {
+    day = 1 + ((args.weekday - first.weekday + 7) % 7) + (args.weekOfMonth - 1) * 7;
+  }
+  return first.set({
+    day,
+    hour: args.time.hour,
+    minute: args.time.minute,
+    second: 0,
+    millisecond: 0,
+  });
+}
+
+/** The k-th occurrence (0 => the anchor itself). */
+function occurrenceAt(rule: RecurrenceRule, anchor: DateTime, k: number): DateTime {
+  if (k === 0) return anchor;
+  const interval = clampRecurrenceInterval(rule.interval);
+  if (rule.frequency === "weekly") return anchor.plus({ weeks: k * interval });
+
+  return nthWeekdayOfMonth({
+    month: anchor.startOf("month").plus({ months: k * interval }),
+    weekday: anchor.weekday,
+    weekOfMonth: rule.week_of_month ?? weekOfMonthFor(rule.anchor_start, rule.timezone),
+    time: anchor,
+  });
+}
+
+/** First occurrence that starts strictly after `after`. */
+export function nextOccurrenceStart(rule: RecurrenceRule, after: Date): Date {
+  const anchor = DateTime.fromJSDate(rule.anchor_start, { zone: rule.timezone });
+  const afterDt = DateTime.fromJSDate(after, { zone: rule.timezone });
+  const interval = clampRecurrenceInterval(rule.interval);
+
+  // Jump close, then step: DST and month lengths make the estimate off by one at most.
+  let k: number;
+  if (rule.frequency === "weekly") {
+    k = Math.floor(afterDt.diff(anchor, "weeks").weeks / interval) - 1;
+  } else {
+    const months = (afterDt.year - anchor.year) * 12 + (afterDt.month - anchor.month);
+    k = Math.floor(months / interval) - 1;
+  }
+  k = Math.max(0, k);
+
+  for (;; k++) {
+    const candidate = occurrenceAt(rule, anchor, k);
+    if (candidate.toMillis() > after.getTime()) return candidate.toJSDate();
+  }
+}
+
+function intervalPhrase(frequency: RecurrenceFrequency, interval: number): string {
+  const unit = frequency === "weekly" ? "week" : "month";
+  if (interval === 1) return `every ${unit}`;
+  if (interval === 2) return `every other ${unit}`;
+  return `every ${interval} ${unit}s`;
+}
+
+/** Creator-facing wording, e.g. "every Tuesday", "the last Friday of every month". */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const anchor = DateTime.fromJSDate(rule.anchor_start, { zone: rule.timezone });
+  const weekday = WEEKDAY_NAMES[anchor.weekday - 1];
+  const interval = clampRecurrenceInterval(rule.interval);
+
+  if (rule.frequency === "weekly") {
+    if (interval === 1) return `every ${weekday}`;
+    if (interval === 2) return `every other ${weekday}`;
+    return `every ${interval} weeks on ${weekday}`;
+  }
+
+  const weekOfMonth = rule.week_of_month ?? weekOfMonthFor(rule.anchor_start, rule.timezone);
+  return `the ${ORDINALS[weekOfMonth] ?? "first"} ${weekday} of ${intervalPhrase("monthly", interval)}`;
+}
+
+/** e.g. "2 days", "36 hours", "1 day". */
+export function formatSeriesInviteLead(minutes: number): string {
+  const m = clampSeriesInviteLeadMinutes(minutes);
+  if (m % (24 * 60) === 0) {
+    const days = m / (24 * 60);
+    return `${days} day${days === 1 ? "" : "s"}`;
+  }
+  const hours = Math.round(m / 60);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+}
+
+/** API validation for `invite_lead_minutes`. */
+export function validateSeriesInviteLeadMinutesValue(
+  value: unknown,
+): { ok: true; value: number } | { ok: false; reason: string } {
+  const n = typeof value === "number" ? value : Number(value);
+  if (value === null || typeof value === "undefined" || !Number.isFinite(n)) {
+    return { ok: false, reason: "invite_lead_minutes must be a number of minutes" };
+  }
+
+  const v = Math.trunc(n);
+  if (v < MIN_SERIES_INVITE_LEAD_MINUTES || v > MAX_SERIES_INVITE_LEAD_MINUTES) {
+    return {
+      ok: false,
+      reason: `invite_lead_minutes must be between ${MIN_SERIES_INVITE_LEAD_MINUTES} and ${MAX_SERIES_INVITE_LEAD_MINUTES} minutes`,
+    };
+  }
+  return { ok: true, value: v };
+}
@@ -0,0 +1,38 @@
+import type { EventMemberStatus } from "@prisma/client";
+
+/**
+ * RSVP changes: a homie who already answered (accepted or declined) flipping their
+ * answer over text.
+ *
+ * Per product decision:
+ * - accepted -> declined frees the spot (waitlist first, then a backup invite)
+ * - declined -> accepted is allowed while there is room (else waitlisted)
+ * - within `RSVP_CHANGE_CUTOFF_MINUTES` of the start, changes are refused and the
+ *   homie is pointed at the creator; the first answer to an invite is never refused
+ */
+
+export const RSVP_CHANGE_CUTOFF_MINUTES = 120;
+
+export type RsvpChange = "accepted_to_declined" | "declined_to_accepted";
+
+export function rsvpChangeFor(args: {
+  currentStatus: EventMemberStatus;
+  decision: "accepted" | "declined";
+}): RsvpChange | null {
+  if (args.currentStatus === "accepted" && args.decision === "declined") {
+    return "accepted_to_declined";
+  }
+  if (args.currentStatus === "declined" && args.decision === "accepted") {
+    return "declined_to_accepted";
+  }
+  return null;
+}
+
+/** The moment after which RSVP changes are refused. */
+export function rsvpChangeCutoffAt(eventStart: Date): Date {
+  return new Date(eventStart.getTime() - RSVP_CHANGE_CUTOFF_MINUTES * 60_000);
+}
+
+export function isRsvpChangeClosed(args: { now: Date; eventStart: Date }): boolean {
+  return args.now.getTime() >= rsvpChangeCutoffAt(args.eventStart).getTime();
+}
@@ -9,13 +9,17 @@ import path from "path";
 import userRouter from "./routes/user";
 import activityRouter from "./routes/activity";
 import memberRouter from "./routes/member";
+import memberGroupRouter from "./routes/memberGroup";
+import memberAvailabilityRuleRouter from "./routes/memberAvailabilityRule";
 import eventRouter from "./routes/event";
+import eventSeriesRouter from "./routes/eventSeries";
+import eventTemplateRouter from "./routes/eventTemplate";
 import eventMemberRouter from "./routes/eventMember";
 import timeSlotRouter from "./routes/timeSlot";
 import conversationRouter from "./routes/conversation";
 import twilioRouter from "./routes/twilio";
-import { startInviteTimeoutPoller } from "./conversationTwilio/pollers/inviteTimeoutPoller";
-import { startInviteReminderPoller } from "./conversationTwilio/pollers/inviteReminderPoller";
+import smsConsentRouter from "./routes/smsConsent";
+import { startScheduledJobWorker } from "./conversationTwilio/jobs/scheduledJobWorker";
 
 const app = express();
 const prisma = new PrismaClient();
@@ -73,11 +77,16 @@ app.use("/public", express.static(path.join(process.cwd(), "public")));
 app.use("/users", userRouter);
 app.use("/activities", activityRouter);
 app.use("/members", memberRouter);
+app.use("/memberGroups", memberGroupRouter);
+app.use("/memberAvailabilityRules", memberAvailabilityRuleRouter);
 app.use("/events", eventRouter);
+app.use("/eventSeries", eventSeriesRouter);
+app.use("/eventTemplates", eventTemplateRouter);
 app.use("/eventMembers", eventMemberRouter);
 app.use("/timeSlots", timeSlotRouter);
 app.use("/conversations", conversationRouter);
 app.use("/twilio", twilioRouter);
+app.use("/smsConsent", smsConsentRouter);
 
 app.get("/", (req: express.Request, res: express.Response) => {
   res.status(200).sendFile(path.join(process.cwd(), "public", "index.html"));
@@ -103,24 +112,15 @@ const port = Number(process.env.PORT ?? (process.env.DEV === '1' ? 3000 : 80));
 app.listen(port, () => {
   logger.info(`Server running on port ${port}`);
 
-  // Background poller: marks expired invites as timed out and backfills from listed pool.
-  // Kill switch: set INVITE_TIMEOUT_POLLER=0 to disable.
-  if (process.env.INVITE_TIMEOUT_POLLER !== "0") {
-    const intervalMsRaw = process.env.INVITE_TIMEOUT_POLLER_INTERVAL_MS;
+  // Background worker: runs scheduled jobs (invite expiry + backfill, invite reminders,
+  // event start) at their due time, and sends coordinator SMS held back for quiet hours
+  // or retry. Safe to run on every instance (rows are leased).
+  // Kill switch: set SCHEDULED_JOB_WORKER=0 to disable.
+  if (process.env.SCHEDULED_JOB_WORKER !== "0") {
+    const intervalMsRaw = process.env.SCHEDULED_JOB_WORKER_INTERVAL_MS;
     const intervalMsParsed = intervalMsRaw ? Number(intervalMsRaw) : NaN;
-    const intervalMs = Number.isFinite(intervalMsParsed) ? intervalMsParsed : 60_000;
+    const intervalMs = Number.isFinite(intervalMsParsed) ? intervalMsParsed : 5_000;
 
-    startInviteTimeoutPoller({ intervalMs });
-  }
-
-  // Background poller: sends one reminder SMS for invited members when their invite is nearing expiry.
-  // Strict policy: `reminder_sent` is set once per (event,member) row ever.
-  // Kill switch: set INVITE_REMINDER_POLLER=0 to disable.
-  if (process.env.INVITE_REMINDER_POLLER !== "0") {
-    const intervalMsRaw = process.env.INVITE_REMINDER_POLLER_INTERVAL_MS;
-    const intervalMsParsed = intervalMsRaw ? Number(intervalMsRaw) : NaN;
-    const intervalMs = Number.isFinite(intervalMsParsed) ? intervalMsParsed : 60_000;
-
-    startInviteReminderPoller({ intervalMs });
+    startScheduledJobWorker({ intervalMs });
   }
 });
@@ -1,9 +1,86 @@
-import { Router } from "express";
-import { twilioWebhookHandler } from "../conversationTwilio/webhookHandler";
+import { Router, type Request, type Response } from "express";
+import {
+  processTwilioInboundMessage,
+  twilioWebhookHandler,
+} from "../conversationTwilio/webhookHandler";
+import { twilioStatusCallbackHandler } from "../conversationTwilio/statusCallbackHandler";
+import { verifyTwilioWebhook } from "../conversationTwilio/webhookVerification";
+import {
+  clearFakeSmsMessages,
+  listFakeSmsMessages,
+  recordFakeInboundSms,
+} from "../utils/fakeSmsTransport";
+import logger from "../utils/logger";
+import { normalizeUsPhoneToE164 } from "../utils/phoneNumber";
+import { configuredSmsTransportName } from "../utils/smsTransport";
 
 const router = Router();
 
-// Twilio inbound webhook
-router.post("/webhook", twilioWebhookHandler);
+// Twilio inbound webhook (signature + replay checks run before the handler).
+router.post(
+  "/webhook",
+  verifyTwilioWebhook({ rejectKnownMessageSid: true }),
+  twilioWebhookHandler,
+);
+
+// Twilio delivery status callbacks for messages we sent (same signature + replay checks).
+router.post("/status", verifyTwilioWebhook(), twilioStatusCallbackHandler);
+
+/**
+ * -------------------------
+ * Fake SMS transport (SMS_TRANSPORT=fake only)
+ * -------------------------
+ * Lets you drive a full conversation locally without Twilio:
+ * - POST /conversations/twilio/fake/inbound  { "from": "...", "body": "...", "to"?: "..." }
+ * - GET  /conversations/twilio/fake/outbound?to=+1...
+ * - DELETE /conversations/twilio/fake/messages
+ */
+if (configuredSmsTransportName() === "fake") {
+  // Inbound goes through the same pipeline as the real webhook, but we await it so
+  // the caller can immediately read the replies.
+  router.post("/fake/inbound", async (req: Request, res: Response) => {
+    const { from, to, body } = req.body ?? {};
+    if (typeof from !== "string" || typeof body !== "string" || !body.trim()) {
+      res.status(400).json({ error: "from and body are required" });
+      return;
+    }
+
+    let fromE164: string;
+    try {
+      fromE164 = normalizeUsPhoneToE164(from);
+    } catch (err: any) {
+      res.status(400).json({ error: err?.message ?? "Invalid phone number" });
+      return;
+    }
+
+    try {
+      const inbound = recordFakeInboundSms({
+        from: fromE164,
+        to: typeof to === "string" ? to : undefined,
+        body,
+      });
+      await processTwilioInboundMessage(inbound);
+
+      const outbound = listFakeSmsMessages({ direction: "outbound-api", to: fromE164 });
+      res.status(200).json({ messageSid: inbound.MessageSid, outbound });
+    } catch (err: any) {
+      logger.error("twilio.fake_inbound.failed", {
+        errorMessage: err?.message ?? String(err),
+        stack: err?.stack,
+      });
+      res.status(500).json({ error: "Failed to process fake inbound SMS" });
+    }
+  });
+
+  router.get("/fake/outbound", (req: Request, res: Response) => {
+    const to = typeof req.query.to === "string" ? req.query.to : undefined;
+    res.json(listFakeSmsMessages({ direction: "outbound-api", to }));
+  });
+
+  router.delete("/fake/messages", (_req: Request, res: Response) => {
+    clearFakeSmsMessages();
+    res.status(204).send();
+  });
+}
 
 export default router;
@@ -2,9 +2,28 @@ import { Router, Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import logger from "../utils/logger";
 import {
-  ACTIVE_CAPACITY_STATUSES,
+  deliveryFromAttributes,
+  isFailedDeliveryStatus,
+  isUnreachableNumberErrorCode,
+} from "../conversationTwilio/outbound/deliveryStatus";
+import {
+  countActiveSeats,
+  seatsForEventMember,
   validateMaxParticipantsValue,
 } from "../domain/eventCapacity";
+import {
+  resolveMaxGuestsPerMember,
+  validateMaxGuestsPerMemberValue,
+} from "../domain/guestPolicy";
+import { validateInviteResponseMinutesValue } from "../domain/inviteExpiryPolicy";
+import {
+  validateDayBeforeReminderValue,
+  validatePreEventReminderMinutesValue,
+} from "../domain/preEventReminders";
+import {
+  refreshPreEventReminders,
+  setEventInviteResponseWindow,
+} from "../conversationTwilio/coordinator/eventChanges";
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -26,6 +45,7 @@ router.get("/:id/details", async (req: Request, res: Response) => {
     const event = await prisma.event.findUnique({
       where: { event_id: req.params.id },
       include: {
+        createdBy: { select: { default_max_guests_per_member: true } },
         activity: true,
         timeSlots: {
           orderBy: { start_time: "asc" },
@@ -47,16 +67,52 @@ router.get("/:id/details", async (req: Request, res: Response) => {
 
     if (!event) return res.status(404).json({ error: "Event not found" });
 
-    const earliestTimeSlot = event.timeSlots?.[0] ?? null;
+    // Multi-option events keep the candidates that lost the vote as declined slots.
+    const earliestTimeSlot =
+      event.timeSlots?.find((ts) => ts.status !== "declined") ?? null;
+
+    // Invite texts Twilio reported as undelivered/failed (via the status callback).
+    const inviteMessages = await prisma.conversationMessage.findMany({
+      where: {
+        conversation: { event_id: event.event_id },
+        direction: "outbound",
+        attributes: { path: ["kind"], equals: "member_invite" },
+      },
+      include: { conversation: { select: { member_id: true } } },
+      orderBy: { created_at: "asc" },
+    });
+    const undeliveredInvites = inviteMessages.flatMap((m) => {
+      const delivery = deliveryFromAttributes(m.attributes);
+      if (!delivery || !isFailedDeliveryStatus(delivery.status)) return [];
+      return [
+        {
+          member_id: m.conversation.member_id,
+          message_id: m.message_id,
+          delivery_status: delivery.status,
+          error_code: delivery.errorCode,
+          number_unreachable: isUnreachableNumberErrorCode(delivery.errorCode),
+          sent_at: m.created_at,
+        },
+      ];
+    });
 
     // Return a single object containing:
     // - all Event scalar fields
     // - included relations (activity, timeSlots, eventMembers)
-    // - computed start/end derived from earliest timeslot
+    // - computed start/end derived from earliest live timeslot
+    // - undelivered invite texts
+    // - seats taken (accepted homies + their plus-ones) and the effective plus-one limit
+    const { createdBy, ...eventFields } = event;
     res.json({
-      ...event,
+      ...eventFields,
       start_time: earliestTimeSlot?.start_time ?? null,
       end_time: earliestTimeSlot?.end_time ?? null,
+      undelivered_invites: undeliveredInvites,
+      seats_taken: event.eventMembers.reduce((sum, em) => sum + seatsForEventMember(em), 0),
+      guest_count: event.eventMembers
+        .filter((em) => em.status === "accepted")
+        .reduce((sum, em) => sum + em.guest_count, 0),
+      effective_max_guests_per_member: resolveMaxGuestsPerMember({ event, user: createdBy }),
     });
   } catch (error: any) {
     logger.error("event.details.failed", { error });
@@ -76,28 +132,59 @@ router.post("/", async (req: Request, res: Response) => {
       return res.status(400).json({ error: maxCheck.reason });
     }
 
+    const windowCheck = validateInviteResponseMinutesValue(
+      (req.body ?? {}).invite_response_minutes,
+      "invite_response_minutes"
+    );
+    if (!windowCheck.ok) {
+      return res.status(400).json({ error: windowCheck.reason });
+    }
+
+    const guestsCheck = validateMaxGuestsPerMemberValue(
+      (req.body ?? {}).max_guests_per_member,
+      "max_guests_per_member"
+    );
+    if (!guestsCheck.ok) {
+      return res.status(400).json({ error: guestsCheck.reason });
+    }
+
+    const dayBeforeCheck = validateDayBeforeReminderValue(
+      (req.body ?? {}).day_before_reminder,
+      "day_before_reminder"
+    );
+    if (!dayBeforeCheck.ok) {
+      return res.status(400).json({ error: dayBeforeCheck.reason });
+    }
+
+    const reminderCheck = validatePreEventReminderMinutesValue(
+      (req.body ?? {}).pre_event_reminder_minutes,
+      "pre_event_reminder_minutes"
+    );
+    if (!reminderCheck.ok) {
+      return res.status(400).json({ error: reminderCheck.reason });
+    }
+
     // Use a transaction so if nested EventMember writes exceed capacity, we rollback.
     const event = await prisma.$transaction(async (tx) => {
       const created = await tx.event.create({
         data: {
           ...(req.body ?? {}),
           max_participants: maxCheck.value,
+          invite_response_minutes: windowCheck.value,
+          max_guests_per_member: guestsCheck.value,
+          day_before_reminder: dayBeforeCheck.value,
+          pre_event_reminder_minutes: reminderCheck.value,
         },
       });
 
       const max = created.max_participants;
       if (typeof max === "number") {
-        const activeCount = await tx.eventMember.count({
-          where: {
-            event_id: created.event_id,
-            // accepted-only counts; invited/messaged/listed/declined do not.
-            status: { in: [...ACTIVE_CAPACITY_STATUSES] },
-          },
-        });
+        // accepted homies (+ their guests) count; invited/messaged/listed/declined do not.
+        const activeSeats = await countActiveSeats(tx, created.event_id);
 
-        if (activeCount > max) {
+        if (activeSeats > max) {
           throw new Error(
-            `${CAPACITY_ERR_PREFIX} Event has ${activeCount} active homies but max_participants is ${max}.`
+            `${CAPACITY_ERR_PREFIX} Event has ${activeSeats} seats taken but max_participants is ${max}.`
           );
         }
       }
@@ -157,6 +244,53 @@ router.put("/:id", async (req: Request, res: Response) => {
       data.max_participants = maxCheck.value;
     }
 
+    const settingWindow = Object.prototype.hasOwnProperty.call(data, "invite_response_minutes");
+    if (settingWindow) {
+      const windowCheck = validateInviteResponseMinutesValue(
+        data.invite_response_minutes,
+        "invite_response_minutes"
+      );
+      if (!windowCheck.ok) {
+        return res.status(400).json({ error: windowCheck.reason });
+      }
+      data.invite_response_minutes = windowCheck.value;
+    }
+
+    if (Object.prototype.hasOwnProperty.call(data, "max_guests_per_member")) {
+      const guestsCheck = validateMaxGuestsPerMemberValue(
+        data.max_guests_per_member,
+        "max_guests_per_member"
+      );
+      if (!guestsCheck.ok) {
+        return res.status(400).json({ error: guestsCheck.reason });
+      }
+      data.max_guests_per_member = guestsCheck.value;
+    }
+
+    const settingDayBefore = Object.prototype.hasOwnProperty.call(data, "day_before_reminder");
+    if (settingDayBefore) {
+      const dayBeforeCheck = validateDayBeforeReminderValue(
+        data.day_before_reminder,
+        "day_before_reminder"
+      );
+      if (!dayBeforeCheck.ok) {
+        return res.status(400).json({ error: dayBeforeCheck.reason });
+      }
+      data.day_before_reminder = dayBeforeCheck.value;
+    }
+
+    const settingReminder = Object.prototype.hasOwnProperty.call(data, "pre_event_reminder_minutes");
+    if (settingReminder) {
+      const reminderCheck = validatePreEventReminderMinutesValue(
+        data.pre_event_reminder_minutes,
+        "pre_event_reminder_minutes"
+      );
+      if (!reminderCheck.ok) {
+        return res.status(400).json({ error: reminderCheck.reason });
+      }
+      data.pre_event_reminder_minutes = reminderCheck.value;
+    }
+
     const event = await prisma.$transaction(async (tx) => {
       const updated = await tx.event.update({
         where: { event_id: req.params.id },
@@ -165,16 +299,11 @@ router.put("/:id", async (req: Request, res: Response) => {
 
       const max = updated.max_participants;
       if (typeof max === "number") {
-        const activeCount = await tx.eventMember.count({
-          where: {
-            event_id: updated.event_id,
-            status: { in: [...ACTIVE_CAPACITY_STATUSES] },
-          },
-        });
+        const activeSeats = await countActiveSeats(tx, updated.event_id);
 
-        if (activeCount > max) {
+        if (activeSeats > max) {
           throw new Error(
-            `${CAPACITY_ERR_PREFIX} Event has ${activeCount} active homies but max_participants is ${max}.`
+            `${CAPACITY_ERR_PREFIX} Event has ${activeSeats} seats taken but max_participants is ${max}.`
           );
         }
       }
@@ -182,6 +311,18 @@ router.put("/:id", async (req: Request, res: Response) => {
       return updated;
     });
 
+    // Re-time invites still waiting on a reply so the new window applies to them too.
+    if (settingWindow && typeof event.invite_response_minutes === "number") {
+      await setEventInviteResponseWindow({
+        eventId: event.event_id,
+        minutes: event.invite_response_minutes,
+      });
+    }
+
+    if (settingDayBefore || settingReminder) {
+      await refreshPreEventReminders({ eventId: event.event_id });
+    }
+
     return res.json(event);
   } catch (error) {
     if (isCapacityError(error)) {
@@ -238,6 +379,7 @@ router.get(
       const events = await prisma.event.findMany({
         where: {
           created_by_user_id: userId,
+          cancelled_at: null,
           timeSlots: {
             some: {
               end_time: {
@@ -1,10 +1,11 @@
 import { Router, Request, Response } from "express";
 import { PrismaClient, type EventMemberStatus } from "@prisma/client";
 import {
-  ACTIVE_CAPACITY_STATUSES,
+  countActiveSeats,
   normalizeMaxParticipants,
-  statusCountsTowardCapacity,
+  seatsForEventMember,
 } from "../domain/eventCapacity";
+import { validateMaxGuestsPerMemberValue } from "../domain/guestPolicy";
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -25,6 +26,8 @@ const ALL_EVENT_MEMBER_STATUSES: readonly EventMemberStatus[] = [
   "accepted",
   "declined",
   "messaged",
+  "waitlisted",
+  "maybe",
 ];
 
 function parseEventMemberStatus(input: unknown): EventMemberStatus | null {
@@ -52,9 +55,18 @@ router.post("/", async (req: Request, res: Response) => {
     const desiredStatus: EventMemberStatus =
       parseEventMemberStatus(body.status) ?? "listed";
 
+    const guestCheck = validateMaxGuestsPerMemberValue(body.guest_count ?? 0, "guest_count", {
+      nullable: false,
+    });
+    if (!guestCheck.ok) {
+      return res.status(400).json({ error: guestCheck.reason });
+    }
+    const guestCount = guestCheck.value ?? 0;
+    const seats = seatsForEventMember({ status: desiredStatus, guest_count: guestCount });
+
     const eventMember = await prisma.$transaction(async (tx) => {
       // Only enforce capacity for statuses that count.
-      if (statusCountsTowardCapacity(desiredStatus)) {
+      if (seats > 0) {
         const event = await tx.event.findUnique({
           where: { event_id: eventId },
           select: { max_participants: true },
@@ -65,15 +77,10 @@ router.post("/", async (req: Request, res: Response) => {
 
         const max = normalizeMaxParticipants(event.max_participants);
         if (typeof max === "number") {
-          const activeCount = await tx.eventMember.count({
-            where: {
-              event_id: eventId,
-              status: { in: [...ACTIVE_CAPACITY_STATUSES] },
-            },
-          });
-
-          // If we're creating an EventMember with status=accepted, it contributes 1.
-          if (activeCount + 1 > max) {
+          const activeSeats = await countActiveSeats(tx, eventId);
+
+          // An accepted EventMember takes 1 seat plus one per guest.
+          if (activeSeats + seats > max) {
             throw new Error(
               `${CAPACITY_ERR_PREFIX} Event is at capacity (${max}) — cannot add another active homie.`
             );
@@ -85,6 +92,7 @@ router.post("/", async (req: Request, res: Response) => {
         data: {
           ...body,
           status: desiredStatus,
+          guest_count: guestCount,
         },
       });
     });
@@ -144,22 +152,43 @@ router.put("/:id", async (req: Request, res: Response) => {
       desiredStatus = parsed;
     }
 
+    // Attendance from the post-event check-in can also be corrected here.
+    if (
+      Object.prototype.hasOwnProperty.call(body, "attended") &&
+      body.attended !== null &&
+      typeof body.attended !== "boolean"
+    ) {
+      return res.status(400).json({ error: "attended must be true, false or null" });
+    }
+
+    let desiredGuestCount: number | undefined;
+    if (Object.prototype.hasOwnProperty.call(body, "guest_count")) {
+      const guestCheck = validateMaxGuestsPerMemberValue(body.guest_count, "guest_count", {
+        nullable: false,
+      });
+      if (!guestCheck.ok) {
+        return res.status(400).json({ error: guestCheck.reason });
+      }
+      desiredGuestCount = guestCheck.value ?? 0;
+    }
+
     const eventMember = await prisma.$transaction(async (tx) => {
       const existing = await tx.eventMember.findUnique({
         where: { event_member_id: req.params.id },
-        select: { event_id: true, status: true },
+        select: { event_id: true, status: true, guest_count: true },
       });
       if (!existing) {
         throw new Error(`${CAPACITY_ERR_PREFIX} Event member not found`);
       }
 
-      const nextStatus = desiredStatus ?? existing.status;
-
-      // Only enforce if the status transition affects capacity.
-      const prevCounts = statusCountsTowardCapacity(existing.status);
-      const nextCounts = statusCountsTowardCapacity(nextStatus);
+      // Only enforce if the change takes more seats (status and/or guests).
+      const prevSeats = seatsForEventMember(existing);
+      const nextSeats = seatsForEventMember({
+        status: desiredStatus ?? existing.status,
+        guest_count: desiredGuestCount ?? existing.guest_count,
+      });
 
-      if (prevCounts !== nextCounts) {
+      if (nextSeats > prevSeats) {
         const event = await tx.event.findUnique({
           where: { event_id: existing.event_id },
           select: { max_participants: true },
@@ -170,17 +199,10 @@ router.put("/:id", async (req: Request, res: Response) => {
 
         const max = normalizeMaxParticipants(event.max_participants);
         if (typeof max === "number") {
-          const activeCount = await tx.eventMember.count({
-            where: {
-              event_id: existing.event_id,
-              status: { in: [...ACTIVE_CAPACITY_STATUSES] },
-            },
-          });
-
-          const attemptedActiveCount =
-            activeCount - (prevCounts ? 1 : 0) + (nextCounts ? 1 : 0);
+          const activeSeats = await countActiveSeats(tx, existing.event_id);
+          const attemptedActiveSeats = activeSeats - prevSeats + nextSeats;
 
-          if (attemptedActiveCount > max) {
+          if (attemptedActiveSeats > max) {
             throw new Error(
               `${CAPACITY_ERR_PREFIX} Event is at capacity (${max}) — cannot set this homie to an active status.`
             );
@@ -193,6 +215,7 @@ router.put("/:id", async (req: Request, res: Response) => {
         data: {
           ...body,
           ...(desiredStatus ? { status: desiredStatus } : {}),
+          ...(typeof desiredGuestCount === "number" ? { guest_count: desiredGuestCount } : {}),
         },
       });
     });
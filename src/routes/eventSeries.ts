@@ -0,0 +1,100 @@
+import { Router, Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+import logger from "../utils/logger";
+import { describeRecurrence, validateSeriesInviteLeadMinutesValue } from "../domain/recurrence";
+import {
+  endEventSeries,
+  pauseEventSeries,
+  resumeEventSeries,
+} from "../conversationTwilio/coordinator/eventSeries";
+import { skipNextSeriesOccurrence } from "../conversationTwilio/coordinator/eventChanges";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const SERIES_INCLUDE = {
+  activity: true,
+  events: {
+    include: {
+      timeSlots: {
+        where: { status: { not: "declined" as const } },
+        orderBy: { start_time: "asc" as const },
+        take: 1,
+      },
+    },
+  },
+};
+
+// List a User's recurring events (ended ones included)
+// NOTE: Keep this route BEFORE `/:id` to avoid shadowing.
+router.get("/by-user/:userId", async (req: Request, res: Response) => {
+  try {
+    const series = await prisma.eventSeries.findMany({
+      where: { created_by_user_id: req.params.userId },
+      include: SERIES_INCLUDE,
+      orderBy: { created_at: "asc" },
+    });
+    res.json(series.map((s) => ({ ...s, description: describeRecurrence(s) })));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch event series by user" });
+  }
+});
+
+// Get EventSeries by ID (with its occurrences)
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const series = await prisma.eventSeries.findUnique({
+      where: { series_id: req.params.id },
+      include: SERIES_INCLUDE,
+    });
+    if (!series) return res.status(404).json({ error: "Event series not found" });
+    res.json({ ...series, description: describeRecurrence(series) });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch event series" });
+  }
+});
+
+// Update EventSeries by ID (how far ahead each occurrence's invites go out)
+router.put("/:id", async (req: Request, res: Response) => {
+  try {
+    const leadCheck = validateSeriesInviteLeadMinutesValue((req.body ?? {}).invite_lead_minutes);
+    if (!leadCheck.ok) {
+      return res.status(400).json({ error: leadCheck.reason });
+    }
+
+    const series = await prisma.eventSeries.update({
+      where: { series_id: req.params.id },
+      data: { invite_lead_minutes: leadCheck.value },
+    });
+    res.json(series);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update event series" });
+  }
+});
+
+// Skip the next occurrence / pause / resume / end an EventSeries (same as by SMS)
+router.post("/:id/:action(skip|pause|resume|end)", async (req: Request, res: Response) => {
+  try {
+    const seriesId = req.params.id;
+    const action = req.params.action;
+    const result =
+      action === "skip"
+        ? await skipNextSeriesOccurrence({ seriesId })
+        : action === "pause"
+          ? await pauseEventSeries({ seriesId })
+          : action === "resume"
+            ? await resumeEventSeries({ seriesId })
+            : await endEventSeries({ seriesId });
+
+    if (!result.ok) {
+      const status = result.reason === "series_not_found" || result.reason === "event_not_found" ? 404 : 409;
+      return res.status(status).json({ error: result.reason });
+    }
+    res.json({ ok: true, message: result.sms });
+  } catch (error: any) {
+    logger.error("eventSeries.action.failed", { error });
+    res.status(500).json({ error: "Failed to update event series" });
+  }
+});
+
+export default router;
@@ -0,0 +1,69 @@
+import { Router, Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+// Create EventTemplate
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const template = await prisma.eventTemplate.create({ data: req.body });
+    res.status(201).json(template);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create event template" });
+  }
+});
+
+// List EventTemplates by user_id (foreign key)
+// NOTE: Keep this route BEFORE `/:id` to avoid shadowing.
+router.get("/by-user/:userId", async (req: Request, res: Response) => {
+  try {
+    const templates = await prisma.eventTemplate.findMany({
+      where: { user_id: req.params.userId },
+      include: { activity: true },
+      orderBy: { name: "asc" },
+    });
+    res.json(templates);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch event templates by user" });
+  }
+});
+
+// Get EventTemplate by ID
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const template = await prisma.eventTemplate.findUnique({
+      where: { template_id: req.params.id },
+      include: { activity: true },
+    });
+    if (!template) return res.status(404).json({ error: "Event template not found" });
+    res.json(template);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch event template" });
+  }
+});
+
+// Update EventTemplate by ID
+router.put("/:id", async (req: Request, res: Response) => {
+  try {
+    const template = await prisma.eventTemplate.update({
+      where: { template_id: req.params.id },
+      data: req.body,
+    });
+    res.json(template);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update event template" });
+  }
+});
+
+// Delete EventTemplate by ID
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    await prisma.eventTemplate.delete({ where: { template_id: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete event template" });
+  }
+});
+
+export default router;
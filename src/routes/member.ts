@@ -1,6 +1,7 @@
 import { Router, Request, Response } from "express";
 import { PrismaClient } from "@prisma/client";
 import { normalizeUsPhoneToE164 } from "../utils/phoneNumber";
+import { loadMemberReliability } from "../domain/memberReliability";
 
 const prisma = new PrismaClient();
 const router = Router();
@@ -47,6 +48,39 @@ router.get("/by-user/:userId", async (req: Request, res: Response) => {
   }
 });
 
+// Reliability stats (no-show rate, response latency) for all of a user's Members
+router.get("/by-user/:userId/reliability", async (req: Request, res: Response) => {
+  try {
+    const members = await prisma.member.findMany({
+      where: { user_id: req.params.userId },
+      select: { member_id: true },
+    });
+    const reliability = await loadMemberReliability(
+      prisma,
+      members.map((m) => m.member_id)
+    );
+    res.json([...reliability.values()]);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch member reliability by user" });
+  }
+});
+
+// Reliability stats (no-show rate, response latency) for one Member
+router.get("/:id/reliability", async (req: Request, res: Response) => {
+  try {
+    const member = await prisma.member.findUnique({
+      where: { member_id: req.params.id },
+      select: { member_id: true },
+    });
+    if (!member) return res.status(404).json({ error: "Member not found" });
+
+    const reliability = await loadMemberReliability(prisma, [member.member_id]);
+    res.json(reliability.get(member.member_id));
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch member reliability" });
+  }
+});
+
 // Get Member by ID
 router.get("/:id", async (req: Request, res: Response) => {
   try {
@@ -0,0 +1,114 @@
+import { Router, Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const MINUTES_PER_DAY = 24 * 60;
+
+function isMinute(v: unknown, max: number): boolean {
+  return v === null || v === undefined || (Number.isInteger(v) && (v as number) >= 0 && (v as number) <= max);
+}
+
+/** The rule as it would be saved is a usable blackout / weekly window, or why not. */
+function validateRule(rule: Record<string, any>): string | null {
+  if (rule.kind === "blackout") {
+    const startsAt = rule.starts_at ? new Date(rule.starts_at).getTime() : null;
+    const endsAt = rule.ends_at ? new Date(rule.ends_at).getTime() : null;
+    if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) return "starts_at / ends_at must be ISO dates";
+    if (endsAt === null) return "a blackout needs ends_at";
+    if (startsAt !== null && endsAt <= startsAt) return "ends_at must be after starts_at";
+    return null;
+  }
+
+  if (rule.kind === "weekly") {
+    const weekdays = rule.weekdays ?? [];
+    if (!Array.isArray(weekdays) || weekdays.some((d) => !Number.isInteger(d) || d < 1 || d > 7)) {
+      return "weekdays must be ISO weekdays (1 = Monday ... 7 = Sunday)";
+    }
+    if (!isMinute(rule.start_minute, MINUTES_PER_DAY - 1) || !isMinute(rule.end_minute, MINUTES_PER_DAY)) {
+      return "start_minute / end_minute must be minutes after midnight";
+    }
+    const wholeDay = rule.start_minute == null && rule.end_minute == null;
+    if (wholeDay && weekdays.length === 0) return "a weekly rule needs weekdays or a time window";
+    return null;
+  }
+
+  return "kind must be blackout or weekly";
+}
+
+// Create MemberAvailabilityRule
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const data = { ...req.body };
+    const invalid = validateRule(data);
+    if (invalid) return res.status(400).json({ error: invalid });
+
+    const rule = await prisma.memberAvailabilityRule.create({ data });
+    res.status(201).json(rule);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create member availability rule" });
+  }
+});
+
+// List MemberAvailabilityRules by member_id (foreign key)
+// NOTE: Keep this route BEFORE `/:id` to avoid shadowing.
+router.get("/by-member/:memberId", async (req: Request, res: Response) => {
+  try {
+    const rules = await prisma.memberAvailabilityRule.findMany({
+      where: { member_id: req.params.memberId },
+      orderBy: { created_at: "asc" },
+    });
+    res.json(rules);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch member availability rules by member" });
+  }
+});
+
+// Get MemberAvailabilityRule by ID
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const rule = await prisma.memberAvailabilityRule.findUnique({
+      where: { member_availability_rule_id: req.params.id },
+    });
+    if (!rule) return res.status(404).json({ error: "Member availability rule not found" });
+    res.json(rule);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch member availability rule" });
+  }
+});
+
+// Update MemberAvailabilityRule by ID
+router.put("/:id", async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.memberAvailabilityRule.findUnique({
+      where: { member_availability_rule_id: req.params.id },
+    });
+    if (!existing) return res.status(404).json({ error: "Member availability rule not found" });
+
+    const invalid = validateRule({ ...existing, ...req.body });
+    if (invalid) return res.status(400).json({ error: invalid });
+
+    const rule = await prisma.memberAvailabilityRule.update({
+      where: { member_availability_rule_id: existing.member_availability_rule_id },
+      data: req.body,
+    });
+    res.json(rule);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update member availability rule" });
+  }
+});
+
+// Delete MemberAvailabilityRule by ID
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    await prisma.memberAvailabilityRule.delete({
+      where: { member_availability_rule_id: req.params.id },
+    });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete member availability rule" });
+  }
+});
+
+export default router;
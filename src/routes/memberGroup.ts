@@ -0,0 +1,163 @@
+import { Router, Request, Response } from "express";
+import { PrismaClient } from "@prisma/client";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+const GROUP_INCLUDE = {
+  memberships: { include: { member: true } },
+};
+
+/** Member ids from a request body, or an error if any isn't one of the user's homies. */
+async function validateMemberIds(
+  userId: string,
+  raw: unknown,
+): Promise<{ ok: true; memberIds: string[] } | { ok: false; reason: string }> {
+  if (raw === undefined) return { ok: true, memberIds: [] };
+  if (!Array.isArray(raw) || raw.some((id) => typeof id !== "string")) {
+    return { ok: false, reason: "member_ids must be an array of member ids" };
+  }
+
+  const memberIds = Array.from(new Set(raw as string[]));
+  const owned = await prisma.member.count({
+    where: { user_id: userId, member_id: { in: memberIds } },
+  });
+  if (owned !== memberIds.length) {
+    return { ok: false, reason: "member_ids must all be homies of the group's user" };
+  }
+  return { ok: true, memberIds };
+}
+
+// Create MemberGroup (optionally with its first member_ids)
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const { member_ids, ...data } = req.body ?? {};
+    const check = await validateMemberIds(data.user_id, member_ids);
+    if (!check.ok) return res.status(400).json({ error: check.reason });
+
+    const group = await prisma.memberGroup.create({
+      data: {
+        ...data,
+        memberships: { create: check.memberIds.map((member_id) => ({ member_id })) },
+      },
+      include: GROUP_INCLUDE,
+    });
+    res.status(201).json(group);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to create member group" });
+  }
+});
+
+// List MemberGroups by user_id (foreign key)
+// NOTE: Keep this route BEFORE `/:id` to avoid shadowing.
+router.get("/by-user/:userId", async (req: Request, res: Response) => {
+  try {
+    const groups = await prisma.memberGroup.findMany({
+      where: { user_id: req.params.userId },
+      include: GROUP_INCLUDE,
+      orderBy: { name: "asc" },
+    });
+    res.json(groups);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch member groups by user" });
+  }
+});
+
+// Get MemberGroup by ID (with its homies)
+router.get("/:id", async (req: Request, res: Response) => {
+  try {
+    const group = await prisma.memberGroup.findUnique({
+      where: { member_group_id: req.params.id },
+      include: GROUP_INCLUDE,
+    });
+    if (!group) return res.status(404).json({ error: "Member group not found" });
+    res.json(group);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch member group" });
+  }
+});
+
+// Update MemberGroup by ID; `member_ids`, when given, replaces the whole membership.
+// A group stays with its user (its homies belong to them), so `user_id` is ignored.
+router.put("/:id", async (req: Request, res: Response) => {
+  try {
+    const existing = await prisma.memberGroup.findUnique({
+      where: { member_group_id: req.params.id },
+    });
+    if (!existing) return res.status(404).json({ error: "Member group not found" });
+
+    const { member_ids, user_id: _userId, member_group_id: _groupId, ...data } = req.body ?? {};
+    const check = await validateMemberIds(existing.user_id, member_ids);
+    if (!check.ok) return res.status(400).json({ error: check.reason });
+
+    const group = await prisma.memberGroup.update({
+      where: { member_group_id: existing.member_group_id },
+      data: {
+        ...data,
+        ...(member_ids !== undefined
+          ? {
+              memberships: {
+                deleteMany: {},
+                create: check.memberIds.map((member_id) => ({ member_id })),
+              },
+            }
+          : {}),
+      },
+      include: GROUP_INCLUDE,
+    });
+    res.json(group);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update member group" });
+  }
+});
+
+// Delete MemberGroup by ID (events/series that drew from it fall back to all homies)
+router.delete("/:id", async (req: Request, res: Response) => {
+  try {
+    await prisma.memberGroup.delete({ where: { member_group_id: req.params.id } });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to delete member group" });
+  }
+});
+
+// Add a Member to a MemberGroup
+router.post("/:id/members", async (req: Request, res: Response) => {
+  try {
+    const group = await prisma.memberGroup.findUnique({
+      where: { member_group_id: req.params.id },
+    });
+    if (!group) return res.status(404).json({ error: "Member group not found" });
+
+    const check = await validateMemberIds(group.user_id, [req.body?.member_id]);
+    if (!check.ok) return res.status(400).json({ error: check.reason });
+
+    const membership = await prisma.memberGroupMembership.upsert({
+      where: {
+        member_group_id_member_id: {
+          member_group_id: group.member_group_id,
+          member_id: check.memberIds[0],
+        },
+      },
+      create: { member_group_id: group.member_group_id, member_id: check.memberIds[0] },
+      update: {},
+    });
+    res.status(201).json(membership);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to add member to group" });
+  }
+});
+
+// Remove a Member from a MemberGroup
+router.delete("/:id/members/:memberId", async (req: Request, res: Response) => {
+  try {
+    await prisma.memberGroupMembership.deleteMany({
+      where: { member_group_id: req.params.id, member_id: req.params.memberId },
+    });
+    res.status(204).send();
+  } catch (error) {
+    res.status(500).json({ error: "Failed to remove member from group" });
+  }
+});
+
+export default router;
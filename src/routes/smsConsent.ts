@@ -0,0 +1,92 @@
+import { Router, Request, Response } from "express";
+import { PrismaClient, type SmsConsentStatus } from "@prisma/client";
+import { normalizeUsPhoneToE164 } from "../utils/phoneNumber";
+import { recordSmsOptIn, recordSmsOptOut } from "../conversationTwilio/consent/smsConsent";
+import { onMemberPhoneOptedOut } from "../conversationTwilio/coordinator/coordinator";
+
+const prisma = new PrismaClient();
+const router = Router();
+
+function parseSmsConsentStatus(input: unknown): SmsConsentStatus | null {
+  return input === "opted_in" || input === "opted_out" ? input : null;
+}
+
+// List consent rows (optionally ?status=opted_out)
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const status = parseSmsConsentStatus(req.query.status);
+    if (req.query.status !== undefined && !status) {
+      return res.status(400).json({ error: "status must be opted_in or opted_out" });
+    }
+
+    const rows = await prisma.smsConsent.findMany({
+      where: status ? { status } : {},
+      orderBy: { updated_at: "desc" },
+    });
+    res.json(rows);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch SMS consent" });
+  }
+});
+
+// Get consent for one phone number (no row => opted in)
+router.get("/:phone", async (req: Request, res: Response) => {
+  let phone: string;
+  try {
+    phone = normalizeUsPhoneToE164(req.params.phone);
+  } catch (e: any) {
+    return res.status(400).json({ error: e?.message ?? "Invalid phone number" });
+  }
+
+  try {
+    const row = await prisma.smsConsent.findUnique({ where: { phone_number: phone } });
+    const members = await prisma.member.findMany({
+      where: { phone_number: phone },
+      select: { member_id: true, user_id: true, first_name: true, last_name: true },
+    });
+    res.json({
+      phone_number: phone,
+      status: row?.status ?? "opted_in",
+      consent: row,
+      members,
+    });
+  } catch (error) {
+    res.status(500).json({ error: "Failed to fetch SMS consent" });
+  }
+});
+
+/**
+ * Reset consent for a phone number.
+ * Body: { "status": "opted_in" | "opted_out" } (defaults to opted_in).
+ *
+ * Only use opted_in when the person has re-consented outside SMS; carriers keep
+ * blocking a number that replied STOP until it sends START.
+ */
+router.put("/:phone", async (req: Request, res: Response) => {
+  let phone: string;
+  try {
+    phone = normalizeUsPhoneToE164(req.params.phone);
+  } catch (e: any) {
+    return res.status(400).json({ error: e?.message ?? "Invalid phone number" });
+  }
+
+  const status = parseSmsConsentStatus(req.body?.status ?? "opted_in");
+  if (!status) {
+    return res.status(400).json({ error: "status must be opted_in or opted_out" });
+  }
+
+  try {
+    if (status === "opted_out") {
+      const changed = await recordSmsOptOut({ phone, source: "api" });
+      if (changed) await onMemberPhoneOptedOut({ phone });
+    } else {
+      await recordSmsOptIn({ phone, source: "api" });
+    }
+    const row = await prisma.smsConsent.findUnique({ where: { phone_number: phone } });
+    res.json(row);
+  } catch (error) {
+    res.status(500).json({ error: "Failed to update SMS consent" });
+  }
+});
+
+export default router;
@@ -3,14 +3,88 @@ import { Prisma, PrismaClient } from "@prisma/client";
 import { sendMms, sendSms } from "../utils/twilioClient";
 import logger from "../utils/logger";
 import { buildInvitePolicyExplainerLines } from "../conversationTwilio/domain/inviteBranding";
+import { validateInviteResponseMinutesValue } from "../domain/inviteExpiryPolicy";
+import { validateMaxGuestsPerMemberValue } from "../domain/guestPolicy";
+import {
+  validateDayBeforeReminderValue,
+  validatePreEventReminderMinutesValue,
+} from "../domain/preEventReminders";
 
 const prisma = new PrismaClient();
 const router = Router();
 
+/** Validates `default_invite_response_minutes` in place; returns an error message if invalid. */
+function normalizeDefaultInviteResponseMinutes(data: any): string | null {
+  if (!Object.prototype.hasOwnProperty.call(data, "default_invite_response_minutes")) return null;
+  const check = validateInviteResponseMinutesValue(
+    data.default_invite_response_minutes,
+    "default_invite_response_minutes"
+  );
+  if (!check.ok) return check.reason;
+  data.default_invite_response_minutes = check.value;
+  return null;
+}
+
+/** Validates `default_max_guests_per_member` in place; returns an error message if invalid. */
+function normalizeDefaultMaxGuestsPerMember(data: any): string | null {
+  if (!Object.prototype.hasOwnProperty.call(data, "default_max_guests_per_member")) return null;
+  const check = validateMaxGuestsPerMemberValue(
+    data.default_max_guests_per_member,
+    "default_max_guests_per_member",
+    { nullable: false }
+  );
+  if (!check.ok) return check.reason;
+  data.default_max_guests_per_member = check.value;
+  return null;
+}
+
+/** Validates the default event-day reminder settings in place; returns an error message if invalid. */
+function normalizeDefaultPreEventReminders(data: any): string | null {
+  if (Object.prototype.hasOwnProperty.call(data, "default_day_before_reminder")) {
+    const check = validateDayBeforeReminderValue(
+      data.default_day_before_reminder,
+      "default_day_before_reminder",
+      { nullable: false }
+    );
+    if (!check.ok) return check.reason;
+    data.default_day_before_reminder = check.value;
+  }
+
+  if (Object.prototype.hasOwnProperty.call(data, "default_pre_event_reminder_minutes")) {
+    const check = validatePreEventReminderMinutesValue(
+      data.default_pre_event_reminder_minutes,
+      "default_pre_event_reminder_minutes",
+      { nullable: false }
+    );
+    if (!check.ok) return check.reason;
+    data.default_pre_event_reminder_minutes = check.value;
+  }
+  return null;
+}
+
+/** Validates `order_backups_by_reliability` in place; returns an error message if invalid. */
+function normalizeOrderBackupsByReliability(data: any): string | null {
+  if (!Object.prototype.hasOwnProperty.call(data, "order_backups_by_reliability")) return null;
+  if (typeof data.order_backups_by_reliability !== "boolean") {
+    return "order_backups_by_reliability must be true or false";
+  }
+  return null;
+}
+
 // Create User
 router.post("/", async (req: Request, res: Response) => {
   try {
-    const user = await prisma.user.create({ data: req.body });
+    const data: any = { ...(req.body ?? {}) };
+    const windowError = normalizeDefaultInviteResponseMinutes(data);
+    if (windowError) return res.status(400).json({ error: windowError });
+    const guestsError = normalizeDefaultMaxGuestsPerMember(data);
+    if (guestsError) return res.status(400).json({ error: guestsError });
+    const remindersError = normalizeDefaultPreEventReminders(data);
+    if (remindersError) return res.status(400).json({ error: remindersError });
+    const backupOrderError = normalizeOrderBackupsByReliability(data);
+    if (backupOrderError) return res.status(400).json({ error: backupOrderError });
+
+    const user = await prisma.user.create({ data });
     res.status(201).json(user);
   } catch (error: any) {
     if (
@@ -66,9 +140,19 @@ router.get("/phone/:phoneNumber", async (req: Request, res: Response) => {
 // Update User by ID
 router.put("/:id", async (req: Request, res: Response) => {
   try {
+    const data: any = { ...(req.body ?? {}) };
+    const windowError = normalizeDefaultInviteResponseMinutes(data);
+    if (windowError) return res.status(400).json({ error: windowError });
+    const guestsError = normalizeDefaultMaxGuestsPerMember(data);
+    if (guestsError) return res.status(400).json({ error: guestsError });
+    const remindersError = normalizeDefaultPreEventReminders(data);
+    if (remindersError) return res.status(400).json({ error: remindersError });
+    const backupOrderError = normalizeOrderBackupsByReliability(data);
+    if (backupOrderError) return res.status(400).json({ error: backupOrderError });
+
     const user = await prisma.user.update({
       where: { user_id: req.params.id },
-      data: req.body,
+      data,
     });
     res.json(user);
   } catch (error) {
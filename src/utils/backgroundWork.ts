@@ -0,0 +1,29 @@
+import logger from "./logger";
+
+/**
+ * Fire-and-forget work that shouldn't block the current request/handler.
+ *
+ * Tracked so scenario runs can wait for it to settle before asserting
+ * (see `waitForBackgroundWork`). Errors are logged, never thrown.
+ */
+const pending = new Set<Promise<void>>();
+
+export function runInBackground(label: string, fn: () => Promise<void>): void {
+  const task = new Promise<void>((resolve) => setImmediate(resolve))
+    .then(fn)
+    .catch((err: any) => {
+      logger.error(`${label} failed: ${err?.message ?? err}`, { stack: err?.stack });
+    })
+    .finally(() => {
+      pending.delete(task);
+    });
+
+  pending.add(task);
+}
+
+/** Resolves once all background work (including work started while waiting) has finished. */
+export async function waitForBackgroundWork(): Promise<void> {
+  while (pending.size > 0) {
+    await Promise.all(Array.from(pending));
+  }
+}
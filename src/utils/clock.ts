@@ -0,0 +1,36 @@
+import { Settings } from "luxon";
+
+/**
+ * App clock.
+ *
+ * Scheduling code (invite expiry, reminders, "is this event in the past?") reads the
+ * time through here instead of `new Date()` so scenario runs can pin and advance it.
+ * In normal runs it is just the wall clock.
+ *
+ * Luxon's `DateTime.now()` is routed through the same clock while a virtual time is set.
+ */
+let virtualNowMs: number | null = null;
+
+export function nowMs(): number {
+  return virtualNowMs ?? Date.now();
+}
+
+export function now(): Date {
+  return new Date(nowMs());
+}
+
+/** Pin the clock to a fixed instant (pass null to go back to wall-clock time). */
+export function setVirtualNow(at: Date | null): void {
+  virtualNowMs = at ? at.getTime() : null;
+  Settings.now = at ? () => nowMs() : () => Date.now();
+}
+
+/** Move a pinned clock forward. Pins it to wall-clock time first if it isn't pinned yet. */
+export function advanceVirtualClock(ms: number): Date {
+  setVirtualNow(new Date(nowMs() + ms));
+  return now();
+}
+
+export function isVirtualClock(): boolean {
+  return virtualNowMs !== null;
+}
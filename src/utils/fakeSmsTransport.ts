@@ -0,0 +1,177 @@
+import fs from "fs";
+import path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { now } from "./clock";
+import logger from "./logger";
+import {
+  sortMessagesByDateCreated,
+  type SmsTransport,
+  type TwilioMessageSummary,
+} from "./smsTransport";
+
+/**
+ * Offline SMS transport.
+ *
+ * - Outbound sends are captured instead of hitting Twilio.
+ * - Inbound messages can be injected (see `recordFakeInboundSms`) and then fed
+ *   through the normal webhook processing path.
+ *
+ * Env vars (all optional):
+ * - FAKE_SMS_FROM_NUMBER: number we "send" from (defaults to TWILIO_FROM_NUMBER or a Twilio magic number)
+ * - FAKE_SMS_FILE: JSONL file to append every message to (and reload on startup)
+ */
+export type FakeSmsMessage = TwilioMessageSummary & {
+  direction: "inbound" | "outbound-api";
+  mediaUrls?: string[];
+};
+
+const messages: FakeSmsMessage[] = [];
+let loadedFromFile = false;
+
+/** Sends still to fail, per recipient (see `failFakeSmsSends`). */
+const failuresByRecipient = new Map<string, number>();
+
+function fakeSid(): string {
+  // Same shape as a Twilio sid (SM + 32 hex) so nothing downstream special-cases it.
+  return `SM${uuidv4().replace(/-/g, "")}`;
+}
+
+function storePath(): string | null {
+  const raw = (process.env.FAKE_SMS_FILE ?? "").trim();
+  return raw ? path.resolve(process.cwd(), raw) : null;
+}
+
+function loadFromFileOnce(): void {
+  if (loadedFromFile) return;
+  loadedFromFile = true;
+
+  const file = storePath();
+  if (!file || !fs.existsSync(file)) return;
+
+  const lines = fs.readFileSync(file, "utf8").split("\n");
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    try {
+      messages.push(JSON.parse(line) as FakeSmsMessage);
+    } catch {
+      // Ignore partial lines (e.g. a crash mid-append).
+    }
+  }
+}
+
+function append(message: FakeSmsMessage): void {
+  loadFromFileOnce();
+  messages.push(message);
+
+  const file = storePath();
+  if (!file) return;
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.appendFileSync(file, `${JSON.stringify(message)}\n`);
+  } catch (err: any) {
+    logger.warn("fake.sms.persist_failed", { file, errorMessage: err?.message ?? String(err) });
+  }
+}
+
+function defaultFromNumber(): string {
+  return (
+    process.env.FAKE_SMS_FROM_NUMBER ||
+    process.env.TWILIO_FROM_NUMBER ||
+    // Twilio's documented "valid" magic test number.
+    "+15005550006"
+  );
+}
+
+let transport: SmsTransport | null = null;
+
+export function getFakeSmsTransport(): SmsTransport {
+  if (transport) return transport;
+
+  transport = {
+    name: "fake",
+    defaultFromNumber: defaultFromNumber(),
+
+    async send(req) {
+      const failuresLeft = failuresByRecipient.get(req.to) ?? 0;
+      if (failuresLeft > 0) {
+        failuresByRecipient.set(req.to, failuresLeft - 1);
+        logger.info("fake.sms.failed", { to: req.to, failuresLeft: failuresLeft - 1 });
+        throw new Error("Fake SMS transport: simulated send failure");
+      }
+
+      const sid = fakeSid();
+      append({
+        sid,
+        direction: "outbound-api",
+        from: req.from,
+        to: req.to,
+        body: req.body,
+        status: "delivered",
+        dateCreated: now().toISOString(),
+        ...(req.mediaUrls && req.mediaUrls.length ? { mediaUrls: req.mediaUrls } : {}),
+      });
+      logger.info("fake.sms.captured", { messageSid: sid, to: req.to });
+      return sid;
+    },
+
+    async listMessagesForNumber(phoneE164, limit) {
+      loadFromFileOnce();
+      const matching = messages.filter((m) => m.to === phoneE164 || m.from === phoneE164);
+      return sortMessagesByDateCreated(matching).slice(-limit);
+    },
+  };
+
+  return transport;
+}
+
+/**
+ * Record an inbound SMS as if Twilio received it.
+ *
+ * Returns the webhook-shaped fields so the caller can hand them to the same
+ * processing path Twilio's webhook uses.
+ */
+export function recordFakeInboundSms(args: {
+  from: string;
+  to?: string;
+  body: string;
+}): { From: string; To: string; Body: string; MessageSid: string } {
+  const to = args.to || defaultFromNumber();
+  const sid = fakeSid();
+
+  append({
+    sid,
+    direction: "inbound",
+    from: args.from,
+    to,
+    body: args.body,
+    status: "received",
+    dateCreated: now().toISOString(),
+  });
+
+  return { From: args.from, To: to, Body: args.body, MessageSid: sid };
+}
+
+/** Captured messages (oldest-first). Optionally filter by direction / recipient. */
+export function listFakeSmsMessages(filter?: {
+  direction?: FakeSmsMessage["direction"];
+  to?: string;
+}): FakeSmsMessage[] {
+  loadFromFileOnce();
+  return messages.filter(
+    (m) =>
+      (!filter?.direction || m.direction === filter.direction) &&
+      (!filter?.to || m.to === filter.to),
+  );
+}
+
+/** Forget captured messages (memory only; the JSONL file is left as an audit trail). */
+export function clearFakeSmsMessages(): void {
+  loadFromFileOnce();
+  messages.length = 0;
+  failuresByRecipient.clear();
+}
+
+/** Make the next `count` sends to `to` throw, like a Twilio API error would. */
+export function failFakeSmsSends(args: { to: string; count: number }): void {
+  failuresByRecipient.set(args.to, Math.max(0, Math.trunc(args.count)));
+}
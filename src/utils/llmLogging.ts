@@ -1,4 +1,5 @@
 import logger from "./logger";
+import type { LlmProviderName } from "./llmProvider";
 
 export type LlmChatMessage = {
   role: "system" | "user" | "assistant";
@@ -9,7 +10,7 @@ export const shouldLogLlmIo = process.env.LOG_LLM_IO === "1" || process.env.LOG_
 
 export function logLlmRequest(args: {
   tag: string;
-  provider: "openai";
+  provider: LlmProviderName;
   model: string;
   temperature?: number;
   system?: string;
@@ -30,7 +31,7 @@ export function logLlmRequest(args: {
 
 export function logLlmResponse(args: {
   tag: string;
-  provider: "openai";
+  provider: LlmProviderName;
   text: string;
   usage?: unknown;
   finishReason?: string;
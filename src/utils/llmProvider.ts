@@ -0,0 +1,64 @@
+import logger from "./logger";
+import type { LlmChatMessage } from "./llmLogging";
+import { createOpenAiLlmProvider } from "./openAiLlmProvider";
+import { getStubLlmProvider } from "./stubLlmProvider";
+
+export type LlmCompletionRequest = {
+  /** Correlation tag from the call-site (e.g. "analyzeInviteResponse"). */
+  tag: string;
+  model: string;
+  /** Already normalized: system message (if any) first. */
+  messages: LlmChatMessage[];
+  temperature?: number;
+  max_tokens?: number;
+  top_p?: number;
+  store?: boolean;
+};
+
+export type LlmCompletion = {
+  text: string;
+  rawResponse?: unknown;
+  usage?: unknown;
+  finishReason?: string;
+};
+
+/**
+ * Everything `chat()` needs from a model backend.
+ *
+ * `openAiClient.ts` owns message normalization + logging and calls whichever
+ * provider is configured, so analyzers never know which one is live.
+ */
+export type LlmProvider = {
+  name: "openai" | "stub";
+  complete(req: LlmCompletionRequest): Promise<LlmCompletion>;
+};
+
+export type LlmProviderName = LlmProvider["name"];
+
+/**
+ * Selected via LLM_PROVIDER:
+ * - "openai" (default): OpenAI Chat Completions
+ * - "stub": fixture-driven canned responses (no network)
+ */
+export function configuredLlmProviderName(): LlmProviderName {
+  const raw = (process.env.LLM_PROVIDER ?? "").trim().toLowerCase();
+  return raw === "stub" ? "stub" : "openai";
+}
+
+let provider: LlmProvider | null = null;
+
+/**
+ * Lazily build the configured provider.
+ *
+ * Built on first use (not at import) so modules that import analyzers can load
+ * without an OpenAI key.
+ */
+export function getLlmProvider(): LlmProvider {
+  if (provider) return provider;
+
+  provider =
+    configuredLlmProviderName() === "stub" ? getStubLlmProvider() : createOpenAiLlmProvider();
+
+  logger.info("llm.provider.selected", { provider: provider.name });
+  return provider;
+}
@@ -1,21 +1,8 @@
-import OpenAI from "openai";
 import logger from "./logger";
 import { logLlmRequest, logLlmResponse, shouldLogLlmIo } from "./llmLogging";
+import { getLlmProvider } from "./llmProvider";
 
-/**
- * OpenAI client singleton.
- *
- * Env var required:
- * - OPEN_AI_API_KEY
- */
-const apiKey = process.env.OPEN_AI_API_KEY || "";
-
-if (!apiKey) {
-  // Mirror the fail-fast behavior used in twilioClient.ts
-  throw new Error("OPENAI_API_KEY is not set in environment variables");
-}
-
-export const openai = new OpenAI({ apiKey });
+// The model backend is picked by LLM_PROVIDER (see llmProvider.ts); OpenAI by default.
 
 export type ChatRole = "system" | "user" | "assistant";
 
@@ -101,7 +88,7 @@ function normalizeMessages(req: ChatRequest): ChatMessage[] {
 }
 
 /**
- * Convenience wrapper around OpenAI Chat Completions.
+ * Convenience wrapper around the configured LLM provider (OpenAI Chat Completions by default).
  *
  * Example:
  * ```ts
@@ -123,10 +110,11 @@ export async function chat(req: ChatRequest): Promise<ChatResponse> {
   // Existing call-sites already call logLlmInput/logLlmOutput in many cases;
   // this ensures *all* calls are logged when LOG_LLM_IO is enabled.
   const tag = (req as any).tag as string | undefined;
+  const provider = getLlmProvider();
   if (shouldLogLlmIo) {
     logLlmRequest({
       tag: tag ?? "openAiClient.chat",
-      provider: "openai",
+      provider: provider.name,
       model,
       temperature: req.temperature,
       system: (req as any).system,
@@ -136,7 +124,8 @@ export async function chat(req: ChatRequest): Promise<ChatResponse> {
   }
 
   try {
-    const response = await openai.chat.completions.create({
+    const completion = await provider.complete({
+      tag: tag ?? "openAiClient.chat",
       model,
       messages,
       temperature: req.temperature,
@@ -145,27 +134,25 @@ export async function chat(req: ChatRequest): Promise<ChatResponse> {
       store: req.store,
     });
 
-    const text = response.choices?.[0]?.message?.content ?? "";
-    const finishReason = response.choices?.[0]?.finish_reason ?? undefined;
-    const usage = (response as any).usage;
+    const text = completion.text;
 
     if (shouldLogLlmIo) {
       logLlmResponse({
         tag: tag ?? "openAiClient.chat",
-        provider: "openai",
+        provider: provider.name,
         text,
-        usage,
-        finishReason,
+        usage: completion.usage,
+        finishReason: completion.finishReason,
       });
     }
 
     if (req.includeRawResponse) {
-      return { text, rawResponse: response };
+      return { text, rawResponse: completion.rawResponse };
     }
 
     return { text };
   } catch (err: any) {
-    logger.error(`OpenAI chat completion failed: ${err?.message ?? err}`);
+    logger.error(`LLM chat completion failed (${provider.name}): ${err?.message ?? err}`);
     throw err;
   }
 }
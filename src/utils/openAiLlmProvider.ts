@@ -0,0 +1,41 @@
+import OpenAI from "openai";
+import type { LlmProvider } from "./llmProvider";
+
+/**
+ * OpenAI-backed provider.
+ *
+ * Env var required:
+ * - OPEN_AI_API_KEY
+ */
+export function createOpenAiLlmProvider(): LlmProvider {
+  const apiKey = process.env.OPEN_AI_API_KEY || "";
+
+  if (!apiKey) {
+    // Mirror the fail-fast behavior used in twilioSmsTransport.ts
+    throw new Error("OPENAI_API_KEY is not set in environment variables");
+  }
+
+  const openai = new OpenAI({ apiKey });
+
+  return {
+    name: "openai",
+
+    async complete(req) {
+      const response = await openai.chat.completions.create({
+        model: req.model,
+        messages: req.messages,
+        temperature: req.temperature,
+        max_tokens: req.max_tokens,
+        top_p: req.top_p,
+        store: req.store,
+      });
+
+      return {
+        text: response.choices?.[0]?.message?.content ?? "",
+        finishReason: response.choices?.[0]?.finish_reason ?? undefined,
+        usage: (response as any).usage,
+        rawResponse: response,
+      };
+    },
+  };
+}
@@ -0,0 +1,78 @@
+import logger from "./logger";
+import { getFakeSmsTransport } from "./fakeSmsTransport";
+import { createTwilioSmsTransport } from "./twilioSmsTransport";
+
+export type TwilioMessageSummary = {
+  sid: string;
+  direction?: string;
+  from: string;
+  to: string;
+  body?: string | null;
+  status?: string;
+  dateCreated?: string;
+};
+
+export type OutboundSmsRequest = {
+  from: string;
+  to: string;
+  body: string;
+  mediaUrls?: string[];
+};
+
+/**
+ * Everything the app needs from an SMS provider.
+ *
+ * `twilioClient.ts` exposes the app-facing helpers (sendSms, sendMms, ...) on top
+ * of whichever transport is configured, so call-sites never know which one is live.
+ */
+export type SmsTransport = {
+  name: "twilio" | "fake";
+  /** Number we send from when the caller doesn't pick one (E.164). */
+  defaultFromNumber: string;
+  /** Sends a message and returns the provider message sid. */
+  send(req: OutboundSmsRequest): Promise<string>;
+  listMessagesForNumber(phoneE164: string, limit: number): Promise<TwilioMessageSummary[]>;
+};
+
+export type SmsTransportName = SmsTransport["name"];
+
+/**
+ * Selected via SMS_TRANSPORT:
+ * - "twilio" (default): real Twilio API
+ * - "fake": in-memory / file-backed capture for offline runs
+ */
+export function configuredSmsTransportName(): SmsTransportName {
+  const raw = (process.env.SMS_TRANSPORT ?? "").trim().toLowerCase();
+  return raw === "fake" ? "fake" : "twilio";
+}
+
+let transport: SmsTransport | null = null;
+
+/**
+ * Lazily build the configured transport.
+ *
+ * Built on first use (not at import) so modules that merely import the SMS helpers
+ * can load without Twilio credentials.
+ */
+export function getSmsTransport(): SmsTransport {
+  if (transport) return transport;
+
+  transport =
+    configuredSmsTransportName() === "fake"
+      ? getFakeSmsTransport()
+      : createTwilioSmsTransport();
+
+  logger.info("sms.transport.selected", { transport: transport.name });
+  return transport;
+}
+
+/** Sort helper shared by transports so timelines read oldest-first. */
+export function sortMessagesByDateCreated(
+  messages: TwilioMessageSummary[],
+): TwilioMessageSummary[] {
+  return [...messages].sort((a, b) => {
+    const aT = a.dateCreated ? Date.parse(a.dateCreated) : 0;
+    const bT = b.dateCreated ? Date.parse(b.dateCreated) : 0;
+    return aT - bT;
+  });
+}
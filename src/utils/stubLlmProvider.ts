@@ -0,0 +1,165 @@
+import fs from "fs";
+import path from "path";
+import logger from "./logger";
+import type { LlmCompletionRequest, LlmProvider } from "./llmProvider";
+
+/**
+ * Deterministic, fixture-driven LLM stub.
+ *
+ * A fixture file is a JSON array of rules:
+ * ```json
+ * [
+ *   {
+ *     "tag": "analyzeInviteResponse",
+ *     "match": "\\b(yes|i'?m in)\\b",
+ *     "response": { "decision": "accepted", "summary": "They said they're in." }
+ *   }
+ * ]
+ * ```
+ *
+ * - `tag`: exact chat() tag, or "*" / omitted for any tag.
+ * - `match`: case-insensitive regex tested against the latest user message (omit to match anything).
+ * - `response`: string returned verbatim, or an object returned as JSON text.
+ * - `times`: optional; rule stops matching after this many uses (for scripted sequences).
+ *
+ * Rules are checked in order and the first match wins. Rules registered in code
+ * (`registerStubLlmRule`) are checked before fixture files so a scenario can
+ * override a shared fixture.
+ *
+ * When nothing matches we throw, which every analyzer already treats as an LLM
+ * outage (logs a warning and falls back to its safe default).
+ *
+ * Env vars:
+ * - LLM_STUB_FIXTURES: comma-separated list of fixture files or directories (*.json)
+ */
+export type StubLlmRule = {
+  tag?: string;
+  match?: string;
+  response: string | Record<string, unknown> | unknown[];
+  times?: number;
+};
+
+export type StubLlmCall = {
+  tag: string;
+  lastUserMessage: string;
+  matched: boolean;
+  text?: string;
+};
+
+type LoadedRule = StubLlmRule & { pattern: RegExp | null; uses: number; source: string };
+
+let fixtureRules: LoadedRule[] | null = null;
+const registeredRules: LoadedRule[] = [];
+const calls: StubLlmCall[] = [];
+
+function toLoadedRule(rule: StubLlmRule, source: string): LoadedRule {
+  if (rule.response === undefined) {
+    throw new Error(`stub LLM rule in ${source} is missing "response"`);
+  }
+  return {
+    ...rule,
+    pattern: rule.match ? new RegExp(rule.match, "i") : null,
+    uses: 0,
+    source,
+  };
+}
+
+function fixtureFiles(): string[] {
+  const raw = (process.env.LLM_STUB_FIXTURES ?? "").trim();
+  if (!raw) return [];
+
+  const files: string[] = [];
+  for (const entry of raw.split(",")) {
+    if (!entry.trim()) continue;
+    const p = path.resolve(process.cwd(), entry.trim());
+    if (fs.statSync(p).isDirectory()) {
+      for (const name of fs.readdirSync(p).sort()) {
+        if (name.endsWith(".json")) files.push(path.join(p, name));
+      }
+    } else {
+      files.push(p);
+    }
+  }
+  return files;
+}
+
+function loadFixtureRules(): LoadedRule[] {
+  if (fixtureRules) return fixtureRules;
+
+  const loaded: LoadedRule[] = [];
+  for (const file of fixtureFiles()) {
+    const parsed = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (!Array.isArray(parsed)) {
+      throw new Error(`stub LLM fixture ${file} must be a JSON array of rules`);
+    }
+    for (const rule of parsed) loaded.push(toLoadedRule(rule as StubLlmRule, file));
+  }
+
+  logger.info("llm.stub.fixtures_loaded", { rules: loaded.length });
+  fixtureRules = loaded;
+  return fixtureRules;
+}
+
+function latestUserMessage(req: LlmCompletionRequest): string {
+  for (let i = req.messages.length - 1; i >= 0; i -= 1) {
+    if (req.messages[i].role === "user") return req.messages[i].content;
+  }
+  return "";
+}
+
+function findRule(tag: string, text: string): LoadedRule | null {
+  for (const rule of [...registeredRules, ...loadFixtureRules()]) {
+    if (rule.tag && rule.tag !== "*" && rule.tag !== tag) continue;
+    if (typeof rule.times === "number" && rule.uses >= rule.times) continue;
+    if (rule.pattern && !rule.pattern.test(text)) continue;
+    return rule;
+  }
+  return null;
+}
+
+let provider: LlmProvider | null = null;
+
+export function getStubLlmProvider(): LlmProvider {
+  if (provider) return provider;
+
+  provider = {
+    name: "stub",
+
+    async complete(req) {
+      const lastUserMessage = latestUserMessage(req);
+      const rule = findRule(req.tag, lastUserMessage);
+
+      if (!rule) {
+        calls.push({ tag: req.tag, lastUserMessage, matched: false });
+        logger.warn("llm.stub.no_match", { tag: req.tag, lastUserMessage });
+        throw new Error(`stub LLM: no fixture matched tag=${req.tag}`);
+      }
+
+      rule.uses += 1;
+      const text =
+        typeof rule.response === "string" ? rule.response : JSON.stringify(rule.response);
+
+      calls.push({ tag: req.tag, lastUserMessage, matched: true, text });
+      return { text, finishReason: "stop" };
+    },
+  };
+
+  return provider;
+}
+
+/** Add a rule ahead of fixture rules (later registrations win over earlier ones). */
+export function registerStubLlmRule(rule: StubLlmRule): void {
+  registeredRules.unshift(toLoadedRule(rule, "registerStubLlmRule"));
+}
+
+/** Drop registered rules, reset `times` counters and the call log. Fixture files are kept. */
+export function resetStubLlm(): void {
+  registeredRules.length = 0;
+  for (const rule of fixtureRules ?? []) rule.uses = 0;
+  calls.length = 0;
+}
+
+/** Every completion the stub answered (or failed to), oldest-first. */
+export function listStubLlmCalls(): StubLlmCall[] {
+  return [...calls];
+}
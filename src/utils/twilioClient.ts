@@ -1,49 +1,21 @@
-import { Twilio } from "twilio";
 import logger from "./logger";
+import { getSmsTransport, type TwilioMessageSummary } from "./smsTransport";
 
-const accountSid = process.env.TWILIO_ACCOUNT_SID || "";
-const authToken = process.env.TWILIO_AUTH_TOKEN || "";
+// App-facing SMS helpers. The provider behind them is picked by SMS_TRANSPORT
+// (see smsTransport.ts), so call-sites work the same against Twilio or the fake.
+export type { TwilioMessageSummary };
 
-const isDev = process.env.DEV === "1";
-const fromNumber = (isDev
-  ? process.env.DEV_TWILIO_FROM_NUMBER
-  : process.env.TWILIO_FROM_NUMBER) || "";
-
-const missingVars: string[] = [];
-if (!accountSid) missingVars.push("TWILIO_ACCOUNT_SID");
-if (!authToken) missingVars.push("TWILIO_AUTH_TOKEN");
-if (!fromNumber) {
-  missingVars.push(isDev ? "DEV_TWILIO_FROM_NUMBER" : "TWILIO_FROM_NUMBER");
-}
-
-if (missingVars.length > 0) {
-  throw new Error(
-    `Twilio env vars missing: ${missingVars.join(", ")}. (DEV=${process.env.DEV || ""})`
-  );
+function toMediaUrls(mediaUrl: string | string[]): string[] {
+  return Array.isArray(mediaUrl) ? mediaUrl : [mediaUrl];
 }
 
-const client = new Twilio(accountSid, authToken);
-
-export type TwilioMessageSummary = {
-  sid: string;
-  direction?: string;
-  from: string;
-  to: string;
-  body?: string | null;
-  status?: string;
-  dateCreated?: string;
-};
-
 export async function sendSms(to: string, body: string): Promise<string> {
   try {
-    const message = await client.messages.create({
-      body,
-      from: fromNumber,
-      to,
-    });
+    const transport = getSmsTransport();
+    const sid = await transport.send({ body, from: transport.defaultFromNumber, to });
     // Use logger so message sends are correlated with requestId/conversationId.
-    logger.info("twilio.sms.sent", { messageSid: message.sid });
-    return message.sid;
+    logger.info("twilio.sms.sent", { messageSid: sid, transport: transport.name });
+    return sid;
   } catch (error) {
     logger.error("twilio.sms.failed", { error });
     throw error;
@@ -53,9 +25,10 @@ export async function sendSms(to: string, body: string): Promise<string> {
 /** Send an SMS from a specific Twilio number (E.164). */
 export async function sendSmsFrom(from: string, to: string, body: string): Promise<string> {
   try {
-    const message = await client.messages.create({ body, from, to });
-    logger.info("twilio.sms.sent", { messageSid: message.sid, from });
-    return message.sid;
+    const transport = getSmsTransport();
+    const sid = await transport.send({ body, from, to });
+    logger.info("twilio.sms.sent", { messageSid: sid, from, transport: transport.name });
+    return sid;
   } catch (error) {
     logger.error("twilio.sms.failed", { error, from });
     throw error;
@@ -68,15 +41,16 @@ export async function sendMms(
   mediaUrl: string | string[],
 ): Promise<string> {
   try {
-    const message = await client.messages.create({
+    const transport = getSmsTransport();
+    const sid = await transport.send({
       body,
-      from: fromNumber,
+      from: transport.defaultFromNumber,
       to,
-      mediaUrl: Array.isArray(mediaUrl) ? mediaUrl : [mediaUrl],
+      mediaUrls: toMediaUrls(mediaUrl),
     });
 
-    logger.info("twilio.mms.sent", { messageSid: message.sid });
-    return message.sid;
+    logger.info("twilio.mms.sent", { messageSid: sid, transport: transport.name });
+    return sid;
   } catch (error) {
     logger.error("twilio.mms.failed", { error });
     throw error;
@@ -91,15 +65,11 @@ export async function sendMmsFrom(
   mediaUrl: string | string[],
 ): Promise<string> {
   try {
-    const message = await client.messages.create({
-      body,
-      from,
-      to,
-      mediaUrl: Array.isArray(mediaUrl) ? mediaUrl : [mediaUrl],
-    });
+    const transport = getSmsTransport();
+    const sid = await transport.send({ body, from, to, mediaUrls: toMediaUrls(mediaUrl) });
 
-    logger.info("twilio.mms.sent", { messageSid: message.sid, from });
-    return message.sid;
+    logger.info("twilio.mms.sent", { messageSid: sid, from, transport: transport.name });
+    return sid;
   } catch (error) {
     logger.error("twilio.mms.failed", { error, from });
     throw error;
@@ -107,37 +77,11 @@ export async function sendMmsFrom(
 }
 
 /**
- * Lists recent messages associated with a Twilio number by polling Twilio's API.
- *
- * We query both inbound (to=number) and outbound (from=number) and merge results.
+ * Lists recent messages associated with a number (inbound + outbound), oldest-first.
  */
 export async function listMessagesForNumber(
   phoneE164: string,
   limit = 50,
 ): Promise<TwilioMessageSummary[]> {
-  // Twilio's list API supports filtering by "to" and "from".
-  // We query both to show a full chat-like timeline.
-  const [inbound, outbound] = await Promise.all([
-    client.messages.list({ to: phoneE164, limit }),
-    client.messages.list({ from: phoneE164, limit }),
-  ]);
-
-  const bySid = new Map<string, TwilioMessageSummary>();
-  for (const m of [...inbound, ...outbound]) {
-    bySid.set(m.sid, {
-      sid: m.sid,
-      direction: m.direction,
-      from: m.from,
-      to: m.to,
-      body: m.body,
-      status: m.status,
-      dateCreated: m.dateCreated ? m.dateCreated.toISOString() : undefined,
-    });
-  }
-
-  return Array.from(bySid.values()).sort((a, b) => {
-    const aT = a.dateCreated ? Date.parse(a.dateCreated) : 0;
-    const bT = b.dateCreated ? Date.parse(b.dateCreated) : 0;
-    return aT - bT;
-  });
+  return getSmsTransport().listMessagesForNumber(phoneE164, limit);
 }
@@ -0,0 +1,95 @@
+import { Twilio } from "twilio";
+import {
+  sortMessagesByDateCreated,
+  type SmsTransport,
+  type TwilioMessageSummary,
+} from "./smsTransport";
+
+/**
+ * Twilio-backed transport.
+ *
+ * Env vars required:
+ * - TWILIO_ACCOUNT_SID
+ * - TWILIO_AUTH_TOKEN
+ * - TWILIO_FROM_NUMBER (or DEV_TWILIO_FROM_NUMBER when DEV=1)
+ *
+ * Delivery status callbacks go to TWILIO_STATUS_CALLBACK_URL, or
+ * `/conversations/twilio/status` on TWILIO_WEBHOOK_BASE_URL / PUBLIC_BASE_URL.
+ * With none of those set, Twilio isn't asked for callbacks.
+ */
+export function createTwilioSmsTransport(): SmsTransport {
+  const accountSid = process.env.TWILIO_ACCOUNT_SID || "";
+  const authToken = process.env.TWILIO_AUTH_TOKEN || "";
+
+  const isDev = process.env.DEV === "1";
+  const fromNumber = (isDev
+    ? process.env.DEV_TWILIO_FROM_NUMBER
+    : process.env.TWILIO_FROM_NUMBER) || "";
+
+  const missingVars: string[] = [];
+  if (!accountSid) missingVars.push("TWILIO_ACCOUNT_SID");
+  if (!authToken) missingVars.push("TWILIO_AUTH_TOKEN");
+  if (!fromNumber) {
+    missingVars.push(isDev ? "DEV_TWILIO_FROM_NUMBER" : "TWILIO_FROM_NUMBER");
+  }
+
+  if (missingVars.length > 0) {
+    throw new Error(
+      `Twilio env vars missing: ${missingVars.join(", ")}. (DEV=${process.env.DEV || ""})`
+    );
+  }
+
+  const client = new Twilio(accountSid, authToken);
+  const statusCallback = statusCallbackUrl();
+
+  return {
+    name: "twilio",
+    defaultFromNumber: fromNumber,
+
+    async send(req) {
+      const message = await client.messages.create({
+        body: req.body,
+        from: req.from,
+        to: req.to,
+        ...(req.mediaUrls && req.mediaUrls.length ? { mediaUrl: req.mediaUrls } : {}),
+        ...(statusCallback ? { statusCallback } : {}),
+      });
+      return message.sid;
+    },
+
+    /**
+     * Lists recent messages associated with a Twilio number by polling Twilio's API.
+     *
+     * We query both inbound (to=number) and outbound (from=number) and merge results.
+     */
+    async listMessagesForNumber(phoneE164, limit) {
+      const [inbound, outbound] = await Promise.all([
+        client.messages.list({ to: phoneE164, limit }),
+        client.messages.list({ from: phoneE164, limit }),
+      ]);
+
+      const bySid = new Map<string, TwilioMessageSummary>();
+      for (const m of [...inbound, ...outbound]) {
+        bySid.set(m.sid, {
+          sid: m.sid,
+          direction: m.direction,
+          from: m.from,
+          to: m.to,
+          body: m.body,
+          status: m.status,
+          dateCreated: m.dateCreated ? m.dateCreated.toISOString() : undefined,
+        });
+      }
+
+      return sortMessagesByDateCreated(Array.from(bySid.values()));
+    },
+  };
+}
+
+function statusCallbackUrl(): string | null {
+  const explicit = (process.env.TWILIO_STATUS_CALLBACK_URL ?? "").trim();
+  if (explicit) return explicit;
+
+  const baseUrl = process.env.TWILIO_WEBHOOK_BASE_URL || process.env.PUBLIC_BASE_URL;
+  return baseUrl ? new URL("/conversations/twilio/status", baseUrl).toString() : null;
+}
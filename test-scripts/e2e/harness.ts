@@ -0,0 +1,389 @@
+/**
+ * Scenario harness for end-to-end conversation tests.
+ *
+ * Seeds a throwaway user/activity/homies in Prisma, replays inbound SMS through the
+ * same pipeline as the Twilio webhook, drives the pollers against a virtual clock,
+ * and asserts on captured outbound SMS + DB state.
+ *
+ * Always runs with the fake SMS transport and the stub LLM provider.
+ */
+import { PrismaClient, type EventMemberStatus } from "@prisma/client";
+import type { Request, Response } from "express";
+import { inspect } from "util";
+import { onEventCreated } from "../../src/conversationTwilio/coordinator/coordinator";
+import { scheduleNextSeriesOccurrence } from "../../src/conversationTwilio/coordinator/eventSeries";
+import {
+  asConversationState,
+  type ConversationState,
+} from "../../src/conversationTwilio/domain/conversationState";
+import {
+  runDueOutboundSms,
+  runDueScheduledJobs,
+} from "../../src/conversationTwilio/jobs/scheduledJobWorker";
+import { twilioStatusCallbackHandler } from "../../src/conversationTwilio/statusCallbackHandler";
+import { processTwilioInboundMessage } from "../../src/conversationTwilio/webhookHandler";
+import { waitForBackgroundWork } from "../../src/utils/backgroundWork";
+import { advanceVirtualClock, now, setVirtualNow } from "../../src/utils/clock";
+import {
+  clearFakeSmsMessages,
+  failFakeSmsSends,
+  listFakeSmsMessages,
+  recordFakeInboundSms,
+  type FakeSmsMessage,
+} from "../../src/utils/fakeSmsTransport";
+import {
+  registerStubLlmRule,
+  resetStubLlm,
+  type StubLlmRule,
+} from "../../src/utils/stubLlmProvider";
+
+const prisma = new PrismaClient();
+
+export type ScenarioFixtures = {
+  user: { firstName: string; lastName?: string; timezone?: string };
+  activityName: string;
+  /** Homie first names; last names/phones are generated. */
+  homies: string[];
+  /** Homie groups: name => member first names. */
+  groups?: Record<string, string[]>;
+};
+
+export type Scenario = {
+  name: string;
+  /** Virtual "now" the scenario starts at. */
+  startAt: Date;
+  fixtures: ScenarioFixtures;
+  run: (h: ScenarioHarness) => Promise<void>;
+};
+
+export class ScenarioAssertionError extends Error {}
+
+function fail(message: string, details?: unknown): never {
+  const suffix = details === undefined ? "" : `\n${inspect(details, { depth: 6 })}`;
+  throw new ScenarioAssertionError(`${message}${suffix}`);
+}
+
+function randomPhone(): string {
+  // 555 prefix keeps seeded rows obvious in the DB.
+  const digits = Math.floor(Math.random() * 10_000_000)
+    .toString()
+    .padStart(7, "0");
+  return `+1555${digits}`;
+}
+
+/** "90m", "2h", "1d" or raw milliseconds. */
+export function parseDuration(input: string | number): number {
+  if (typeof input === "number") return input;
+  const m = input.trim().match(/^(\d+(?:\.\d+)?)\s*(ms|s|m|h|d)$/i);
+  if (!m) throw new Error(`Invalid duration: ${input}`);
+  const n = Number(m[1]);
+  const unit = m[2].toLowerCase();
+  const mult =
+    unit === "ms" ? 1 : unit === "s" ? 1_000 : unit === "m" ? 60_000 : unit === "h" ? 3_600_000 : 86_400_000;
+  return Math.round(n * mult);
+}
+
+export type ScenarioHarness = Awaited<ReturnType<typeof createScenarioHarness>>;
+
+export async function createScenarioHarness(scenario: Scenario) {
+  setVirtualNow(scenario.startAt);
+  clearFakeSmsMessages();
+  resetStubLlm();
+
+  const user = await prisma.user.create({
+    data: {
+      first_name: scenario.fixtures.user.firstName,
+      last_name: scenario.fixtures.user.lastName ?? "Scenario",
+      timezone: scenario.fixtures.user.timezone ?? "America/Denver",
+      phone_number: randomPhone(),
+    },
+  });
+
+  const activity = await prisma.activity.create({
+    data: { user_id: user.user_id, name: scenario.fixtures.activityName },
+  });
+
+  const homies = new Map<string, { member_id: string; phone_number: string }>();
+  for (const firstName of scenario.fixtures.homies) {
+    const member = await prisma.member.create({
+      data: {
+        user_id: user.user_id,
+        first_name: firstName,
+        last_name: "Homie",
+        phone_number: randomPhone(),
+      },
+    });
+    homies.set(firstName.toLowerCase(), {
+      member_id: member.member_id,
+      phone_number: member.phone_number!,
+    });
+  }
+
+  const userPhone = user.phone_number!;
+
+  const homie = (name: string) => {
+    const h = homies.get(name.toLowerCase());
+    if (!h) throw new Error(`Unknown homie in scenario: ${name}`);
+    return h;
+  };
+
+  for (const [name, members] of Object.entries(scenario.fixtures.groups ?? {})) {
+    await prisma.memberGroup.create({
+      data: {
+        user_id: user.user_id,
+        name,
+        memberships: { create: members.map((m) => ({ member_id: homie(m).member_id })) },
+      },
+    });
+  }
+
+  const phoneFor = (who: string): string => (who === "user" ? userPhone : homie(who).phone_number);
+
+  // Outbound SMS already asserted on (per recipient) so each expectation reads "the next text".
+  const consumedSids = new Set<string>();
+  // Sids given status callbacks; any still held are cleared on cleanup.
+  const reportedSids = new Set<string>();
+
+  const unreadTo = (who: string): FakeSmsMessage[] =>
+    listFakeSmsMessages({ direction: "outbound-api", to: phoneFor(who) }).filter(
+      (m) => !consumedSids.has(m.sid),
+    );
+
+  async function userConversationState(): Promise<ConversationState> {
+    const conversation = await prisma.conversation.findUnique({
+      where: { user_id: user.user_id },
+      select: { state: true },
+    });
+    return asConversationState(conversation?.state ?? null);
+  }
+
+  async function settle(): Promise<void> {
+    await waitForBackgroundWork();
+  }
+
+  async function send(from: string, body: string): Promise<void> {
+    const inbound = recordFakeInboundSms({ from, body });
+    await processTwilioInboundMessage(inbound);
+    await settle();
+  }
+
+  return {
+    user,
+    activity,
+
+    memberId(name: string): string {
+      return homie(name).member_id;
+    },
+
+    now,
+
+    stubLlm(rule: StubLlmRule): void {
+      registerStubLlmRule(rule);
+    },
+
+    /** Inbound SMS from the event creator. */
+    userSays(text: string): Promise<void> {
+      return send(userPhone, text);
+    },
+
+    /** Inbound SMS from a homie (by first name). */
+    homieSays(name: string, text: string): Promise<void> {
+      return send(homie(name).phone_number, text);
+    },
+
+    /** Make the next `count` SMS to `who` fail to send (Twilio API error). */
+    failNextSms(who: string, count: number): void {
+      failFakeSmsSends({ to: phoneFor(who), count });
+    },
+
+    advance(by: string | number): Date {
+      return advanceVirtualClock(parseDuration(by));
+    },
+
+    /** Run due scheduled jobs, then send due queued SMS, at the current virtual time. */
+    async runPollers(): Promise<void> {
+      await runDueScheduledJobs();
+      await runDueOutboundSms();
+      await settle();
+    },
+
+    /**
+     * Twilio status callback for an outbound SMS, through the same handler as the
+     * /status route. Returns the HTTP status code it answered with.
+     */
+    async reportDelivery(messageSid: string, status: string, errorCode?: string): Promise<number> {
+      reportedSids.add(messageSid);
+      let statusCode = 0;
+      const res = {
+        status(code: number) {
+          statusCode = code;
+          return res;
+        },
+        send() {
+          return res;
+        },
+      };
+      await twilioStatusCallbackHandler(
+        { body: { MessageSid: messageSid, MessageStatus: status, ErrorCode: errorCode } } as Request,
+        res as unknown as Response,
+      );
+      await settle();
+      return statusCode;
+    },
+
+    /**
+     * Seed an event directly (skipping the scheduling conversation) and run the
+     * coordinator exactly like a confirmed draft would.
+     */
+    async createEvent(args: {
+      startsIn: string | number;
+      durationMinutes?: number;
+      maxParticipants: number;
+      invite: string[];
+      backups?: string[];
+      location?: string;
+      /** Extra candidate times (same duration); homies vote before the creator locks one in. */
+      alternateStartsIn?: Array<string | number>;
+      /** Make this the first occurrence of a weekly series (invited homies are the named ones). */
+      weekly?: { inviteLeadMinutes?: number };
+    }): Promise<string> {
+      const durationMs = (args.durationMinutes ?? 120) * 60_000;
+      const slotAt = (startsIn: string | number) => {
+        const start = new Date(now().getTime() + parseDuration(startsIn));
+        return { start_time: start, end_time: new Date(start.getTime() + durationMs) };
+      };
+      const alternates = args.alternateStartsIn ?? [];
+      const ordered = [...args.invite, ...(args.backups ?? [])];
+
+      const series = args.weekly
+        ? await prisma.eventSeries.create({
+            data: {
+              created_by_user_id: user.user_id,
+              activity_id: activity.activity_id,
+              frequency: "weekly",
+              anchor_start: slotAt(args.startsIn).start_time,
+              duration_minutes: durationMs / 60_000,
+              timezone: user.timezone,
+              invite_policy: "prioritized",
+              preferred_member_ids: args.invite.map((name) => homie(name).member_id),
+              invite_lead_minutes: args.weekly.inviteLeadMinutes,
+            },
+          })
+        : null;
+
+      const event = await prisma.event.create({
+        data: {
+          created_by_user_id: user.user_id,
+          activity_id: activity.activity_id,
+          location: args.location ?? "The usual spot",
+          max_participants: args.maxParticipants,
+          invite_policy: "prioritized",
+          preferred_member_ids: series?.preferred_member_ids,
+          series_id: series?.series_id ?? null,
+          timeSlots: {
+            create: [args.startsIn, ...alternates].map((startsIn) => ({
+              ...slotAt(startsIn),
+              status: alternates.length ? ("suggested" as const) : ("invites" as const),
+            })),
+          },
+          eventMembers: {
+            create: ordered.map((name, idx) => ({
+              member_id: homie(name).member_id,
+              status: idx < args.invite.length ? ("invited" as const) : ("listed" as const),
+              priority_rank: idx + 1,
+            })),
+          },
+        },
+        select: { event_id: true },
+      });
+
+      await onEventCreated(event.event_id);
+      // Like a confirmed draft: with times up for a vote, the lock-in lines up the next one.
+      if (series && !alternates.length) {
+        await scheduleNextSeriesOccurrence({ seriesId: series.series_id });
+      }
+      await settle();
+      return event.event_id;
+    },
+
+    /** Outbound SMS to `who` not yet consumed by an expectation. */
+    unreadSms(who: string): FakeSmsMessage[] {
+      return unreadTo(who);
+    },
+
+    /** Assert the next unread SMS to `who` ("user" or a homie name) matches. */
+    expectSms(who: string, pattern: RegExp): FakeSmsMessage {
+      const unread = unreadTo(who);
+      const hit = unread.find((m) => pattern.test(m.body ?? ""));
+      if (!hit) {
+        fail(`Expected an SMS to ${who} matching ${pattern}`, unread.map((m) => m.body));
+      }
+      // Everything up to (and including) the match counts as read.
+      for (const m of unread) {
+        consumedSids.add(m.sid);
+        if (m.sid === hit.sid) break;
+      }
+      return hit;
+    },
+
+    expectNoSms(who: string): void {
+      const unread = unreadTo(who);
+      if (unread.length > 0) {
+        fail(`Expected no new SMS to ${who}`, unread.map((m) => m.body));
+      }
+    },
+
+    async expectStatuses(eventId: string, expected: Record<string, EventMemberStatus>): Promise<void> {
+      const rows = await prisma.eventMember.findMany({
+        where: { event_id: eventId },
+        select: { member_id: true, status: true },
+      });
+      const byMember = new Map(rows.map((r) => [r.member_id, r.status] as const));
+
+      const mismatches: Record<string, { expected: string; actual: string | undefined }> = {};
+      for (const [name, status] of Object.entries(expected)) {
+        const actual = byMember.get(homie(name).member_id);
+        if (actual !== status) mismatches[name] = { expected: status, actual };
+      }
+      if (Object.keys(mismatches).length > 0) {
+        fail(`EventMember.status mismatch for event ${eventId}`, mismatches);
+      }
+    },
+
+    userConversationState,
+
+    async expectConversationState(
+      description: string,
+      predicate: (state: ConversationState) => boolean,
+    ): Promise<ConversationState> {
+      const state = await userConversationState();
+      if (!predicate(state)) fail(`Conversation.state check failed: ${description}`, state);
+      return state;
+    },
+
+    /** Remove everything this scenario seeded. */
+    async cleanup(): Promise<void> {
+      // Held SMS rows aren't linked by FK, so clear them by recipient before the cascade.
+      await prisma.outboundSms.deleteMany({
+        where: {
+          to_phone: { in: [userPhone, ...[...homies.values()].map((h) => h.phone_number)] },
+        },
+      });
+      // Events restrict user deletion, so drop them first (cascades members/slots/conversations).
+      await prisma.event.deleteMany({ where: { created_by_user_id: user.user_id } });
+      await prisma.user.delete({ where: { user_id: user.user_id } });
+      await prisma.heldSmsDeliveryStatus.deleteMany({
+        where: { twilio_sid: { in: [...reportedSids] } },
+      });
+      // Consent is keyed by phone number, not by member, so it survives the cascade.
+      await prisma.smsConsent.deleteMany({
+        where: { phone_number: { in: [...homies.values()].map((h) => h.phone_number) } },
+      });
+      setVirtualNow(null);
+    },
+  };
+}
+
+export async function disconnectHarness(): Promise<void> {
+  await prisma.$disconnect();
+}
@@ -0,0 +1,111 @@
+/**
+ * End-to-end conversation scenarios (fake SMS + stub LLM + virtual clock).
+ *
+ * Needs DATABASE_URL pointing at a migrated, disposable database; each scenario
+ * seeds its own user/homies and deletes them afterwards.
+ *
+ * Run:
+ *   npm run test:e2e
+ *   npm run test:e2e -- invite_reminder_then_timeout
+ */
+import "dotenv/config";
+
+import path from "path";
+
+// Force the offline providers before anything sends an SMS or calls the LLM.
+process.env.SMS_TRANSPORT = "fake";
+process.env.LLM_PROVIDER = "stub";
+process.env.LLM_STUB_FIXTURES ??= path.join(__dirname, "..", "fixtures", "llm");
+
+import { createScenarioHarness, disconnectHarness, type Scenario } from "./harness";
+import activityChoice from "./scenarios/activityChoice";
+import attendanceCheck from "./scenarios/attendanceCheck";
+import availabilityWithRsvp from "./scenarios/availabilityWithRsvp";
+import eventChangeFollowUps from "./scenarios/eventChangeFollowUps";
+import groupInviteTarget from "./scenarios/groupInviteTarget";
+import homieManagement from "./scenarios/homieManagement";
+import homieNameDidYouMean from "./scenarios/homieNameDidYouMean";
+import homieOptOut from "./scenarios/homieOptOut";
+import inviteAcceptDeclineBackfill from "./scenarios/inviteAcceptDeclineBackfill";
+import inviteReminderThenTimeout from "./scenarios/inviteReminderThenTimeout";
+import inviteResponseWindowBySms from "./scenarios/inviteResponseWindowBySms";
+import maybeFollowUpBackfill from "./scenarios/maybeFollowUpBackfill";
+import plusOneCapacity from "./scenarios/plusOneCapacity";
+import preEventReminderRunningLate from "./scenarios/preEventReminderRunningLate";
+import quietHoursDeferral from "./scenarios/quietHoursDeferral";
+import rescheduleThenCancel from "./scenarios/rescheduleThenCancel";
+import rsvpChangeCutoff from "./scenarios/rsvpChangeCutoff";
+import sameAsLastTime from "./scenarios/sameAsLastTime";
+import scheduleEventViaSms from "./scenarios/scheduleEventViaSms";
+import sendRetryBackoff from "./scenarios/sendRetryBackoff";
+import seriesSkipPause from "./scenarios/seriesSkipPause";
+import slotVotingLockIn from "./scenarios/slotVotingLockIn";
+import undeliveredInviteBackfill from "./scenarios/undeliveredInviteBackfill";
+import waitlistPromotion from "./scenarios/waitlistPromotion";
+
+const SCENARIOS: Scenario[] = [
+  activityChoice,
+  attendanceCheck,
+  availabilityWithRsvp,
+  eventChangeFollowUps,
+  groupInviteTarget,
+  homieManagement,
+  homieNameDidYouMean,
+  homieOptOut,
+  inviteAcceptDeclineBackfill,
+  inviteReminderThenTimeout,
+  inviteResponseWindowBySms,
+  maybeFollowUpBackfill,
+  plusOneCapacity,
+  preEventReminderRunningLate,
+  quietHoursDeferral,
+  rescheduleThenCancel,
+  rsvpChangeCutoff,
+  sameAsLastTime,
+  scheduleEventViaSms,
+  sendRetryBackoff,
+  seriesSkipPause,
+  slotVotingLockIn,
+  undeliveredInviteBackfill,
+  waitlistPromotion,
+];
+
+async function runScenario(scenario: Scenario): Promise<boolean> {
+  const h = await createScenarioHarness(scenario);
+  try {
+    await scenario.run(h);
+    console.log(`PASS ${scenario.name}`);
+    return true;
+  } catch (err: any) {
+    console.error(`FAIL ${scenario.name}\n${err?.message ?? err}`);
+    return false;
+  } finally {
+    await h.cleanup();
+  }
+}
+
+async function main(): Promise<void> {
+  const only = process.argv.slice(2);
+  const selected = only.length ? SCENARIOS.filter((s) => only.includes(s.name)) : SCENARIOS;
+
+  if (selected.length === 0) {
+    console.error(`No scenarios matched: ${only.join(", ")}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  let failed = 0;
+  for (const scenario of selected) {
+    if (!(await runScenario(scenario))) failed += 1;
+  }
+
+  console.log(`\n${selected.length - failed}/${selected.length} scenarios passed`);
+  if (failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((err) => {
+    console.error(err);
+    process.exitCode = 1;
+  })
+  .finally(() => disconnectHarness());
@@ -0,0 +1,87 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator plans something that isn't on their list ("Frisbee ...") and it's added on
+ * the spot. Once there are two activities, a plan that names neither gets "Which
+ * activity is this for?", and "new: Pickleball" adds a third and carries on drafting it.
+ */
+const scenario: Scenario = {
+  name: "activity_choice",
+  // Monday 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jake", "Sara"],
+  },
+
+  async run(h) {
+    h.stubLlm({
+      tag: "analyzeActivitySelection",
+      match: "frisbee",
+      response: { activityName: "Frisbee", isNew: true, confidence: "high", reason: "stub: new" },
+    });
+    h.stubLlm({
+      tag: "analyzeInvitePolicyIntent",
+      response: { policy: "exact", confidence: "high", reason: "stub: names only" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationLocation",
+      match: "wash park",
+      response: { eventLocationProvided: true, eventLocation: "Wash Park" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationHomies",
+      match: "jake",
+      response: { homies: ["Jake"], maxHomies: 1 },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationHomies",
+      match: "sara",
+      response: { homies: ["Sara"], maxHomies: 1 },
+    });
+    h.stubLlm({ tag: "analyzeConversationInviteMessage", response: { inviteMessage: null } });
+    h.stubLlm({
+      tag: "summarizeConversationMemory",
+      response: { summary: "Casey plays tennis, frisbee and pickleball at Wash Park." },
+    });
+
+    await h.userSays("Frisbee tomorrow from 6pm to 8pm at Wash Park, invite Jake");
+    h.expectSms("user", /Draft: Frisbee[\s\S]*Where: Wash Park/);
+    await h.userSays("looks good");
+    const frisbee = await h.expectConversationState(
+      "frisbee event created",
+      (s) => Boolean(s.lastCreatedEventId) && !s.pendingEvent && !s.activeDraft,
+    );
+    h.expectSms("Jake", /Frisbee[\s\S]*Where: Wash Park/);
+    await h.expectStatuses(frisbee.lastCreatedEventId!, { Jake: "invited" });
+
+    // Nothing in this names an activity, and there are two to pick from now.
+    await h.userSays("let's set something up for saturday");
+    h.expectSms("user", /Which activity is this for\?\n- Frisbee\n- Tennis\nOr reply “new: <name>” to add one\./);
+    await h.expectConversationState(
+      "waiting on which activity",
+      (s) => Boolean(s.pendingActivityChoice) && !s.activeDraft,
+    );
+
+    await h.userSays("new: Pickleball");
+    h.expectSms("user", /^Added Pickleball to your activities\. Let’s schedule your Pickleball\./);
+    await h.expectConversationState(
+      "question answered and a pickleball draft started",
+      (s) => !s.pendingActivityChoice && s.activeDraft?.status === "collecting_details",
+    );
+
+    await h.userSays("tomorrow from 7am to 9am at Wash Park, invite Sara");
+    h.expectSms("user", /Draft: Pickleball[\s\S]*Where: Wash Park/);
+    await h.userSays("looks good");
+    const pickleball = await h.expectConversationState(
+      "pickleball event created",
+      (s) => Boolean(s.lastCreatedEventId) && s.lastCreatedEventId !== frisbee.lastCreatedEventId,
+    );
+    h.expectSms("Sara", /Pickleball[\s\S]*Where: Wash Park/);
+    h.expectNoSms("Jake");
+    await h.expectStatuses(pickleball.lastCreatedEventId!, { Sara: "invited" });
+  },
+};
+
+export default scenario;
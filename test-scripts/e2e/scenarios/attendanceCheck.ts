@@ -0,0 +1,51 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Once the event ends the creator is asked who actually showed, and their answer
+ * is saved per homie.
+ */
+const scenario: Scenario = {
+  name: "attendance_check",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      durationMinutes: 120,
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    await h.homieSays("Jake", "yes I'm in");
+    await h.homieSays("Sara", "yes I'm in");
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "accepted" });
+    h.expectSms("user", /Sara Homie is in for Pickleball/);
+
+    // Not over yet at the start.
+    h.advance("1d");
+    await h.runPollers();
+    h.expectNoSms("user");
+
+    h.advance("2h");
+    await h.runPollers();
+    h.expectSms("user", /Who actually showed to Pickleball[\s\S]*Said yes:\n- Jake Homie\n- Sara Homie/);
+
+    // Asked once.
+    await h.runPollers();
+    h.expectNoSms("user");
+
+    await h.userSays("Sara didn't show");
+    h.expectSms("user", /saved attendance for Pickleball\. 1 showed\. No-shows: Sara Homie\./);
+    h.expectNoSms("Jake");
+    h.expectNoSms("Sara");
+  },
+};
+
+export default scenario;
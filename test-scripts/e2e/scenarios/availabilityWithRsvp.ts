@@ -0,0 +1,41 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Homies mention their availability while answering an invite. A reply that also
+ * RSVPs ("yes! I'm away next week though") saves the note and still counts as a yes;
+ * a note on its own ("never before 8am") is saved and leaves the invite open.
+ */
+const scenario: Scenario = {
+  name: "availability_with_rsvp",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Sara", "Jake"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 2,
+      invite: ["Sara", "Jake"],
+    });
+    h.expectSms("Sara", /Where: The usual spot/);
+    h.expectSms("Jake", /Where: The usual spot/);
+
+    await h.homieSays("Sara", "yes! I'm away next week though");
+    h.expectSms("Sara", /away from Mon, Jun 17 until Mon, Jun 24\. I’ll hold off on invites/);
+    h.expectSms("Sara", /see you there|you’re in|Glad you can make it/);
+    h.expectSms("user", /Sara Homie is in for Pickleball/);
+    await h.expectStatuses(eventId, { Sara: "accepted", Jake: "invited" });
+
+    // Tomorrow at 10am isn't before 8am, so this only updates Jake's availability.
+    await h.homieSays("Jake", "never before 8am");
+    h.expectSms("Jake", /not before 8am\. I’ll hold off on invites/);
+    h.expectNoSms("Jake");
+    h.expectNoSms("user");
+    await h.expectStatuses(eventId, { Sara: "accepted", Jake: "invited" });
+  },
+};
+
+export default scenario;
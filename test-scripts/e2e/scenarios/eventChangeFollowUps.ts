@@ -0,0 +1,55 @@
+import type { Scenario } from "../harness";
+
+/**
+ * The creator's answers to "Which one should I cancel?" and "What time should I move it
+ * to?" finish the change they asked for instead of starting a new plan.
+ */
+const scenario: Scenario = {
+  name: "event_change_follow_ups",
+  // Monday 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara"],
+  },
+
+  async run(h) {
+    const tuesdayId = await h.createEvent({ startsIn: "1d", maxParticipants: 1, invite: ["Jake"] });
+    await h.createEvent({ startsIn: "3d", maxParticipants: 1, invite: ["Sara"] });
+    h.expectSms("Jake", /Where: The usual spot/);
+    h.expectSms("Sara", /Where: The usual spot/);
+
+    await h.userSays("cancel it");
+    h.expectSms("user", /Which one should I cancel\?/);
+    await h.expectConversationState(
+      "waiting on which event",
+      (s) => s.pendingEventChange?.candidateEventIds?.length === 2,
+    );
+
+    await h.userSays("the one on thursday");
+    h.expectSms("user", /Cancelled Pickleball/);
+    h.expectSms("Sara", /cancelled/);
+    h.expectNoSms("Jake");
+    await h.expectConversationState("question answered", (s) => !s.pendingEventChange);
+
+    await h.userSays("move it");
+    h.expectSms("user", /What time should I move it to\?/);
+    await h.expectConversationState(
+      "waiting on the new time",
+      (s) => s.pendingEventChange?.eventId === tuesdayId,
+    );
+
+    await h.userSays("7pm");
+    h.expectSms("user", /Moved Pickleball to .*7:00/);
+    h.expectSms("Jake", /moved Pickleball[\s\S]*(Can you make it|Are you in)\?/);
+    h.expectNoSms("Sara");
+    await h.expectConversationState(
+      "no draft started from the answer",
+      (s) => !s.pendingEventChange && !s.activeDraft && !s.pendingEvent,
+    );
+    await h.expectStatuses(tuesdayId, { Jake: "invited" });
+  },
+};
+
+export default scenario;
@@ -0,0 +1,73 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator draws an open invite from a group ("1 from trail crew"). The invite and every
+ * backfill after a decline stay inside the group; homies outside it never hear a thing.
+ */
+const scenario: Scenario = {
+  name: "group_invite_target",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jake", "Sara", "Mia", "Leo"],
+    groups: { "Trail Crew": ["Sara", "Mia"] },
+  },
+
+  async run(h) {
+    h.stubLlm({
+      tag: "analyzeInvitePolicyIntent",
+      response: { policy: "max_only", confidence: "high", reason: "stub: count only" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationLocation",
+      match: "wash park",
+      response: { eventLocationProvided: true, eventLocation: "Wash Park" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationHomies",
+      match: "trail crew",
+      response: { homies: [], maxHomies: 1, group: "Trail Crew" },
+    });
+    h.stubLlm({ tag: "analyzeConversationInviteMessage", response: { inviteMessage: null } });
+    h.stubLlm({
+      tag: "summarizeConversationMemory",
+      response: { summary: "Casey plays tennis at Wash Park with the Trail Crew." },
+    });
+
+    await h.userSays("Tennis tomorrow from 6pm to 8pm at Wash Park, open invite 1 from trail crew");
+    h.expectSms("user", /Draft: Tennis[\s\S]*Where: Wash Park[\s\S]*From: Trail Crew/);
+
+    await h.userSays("looks good");
+    const state = await h.expectConversationState(
+      "event created and planning state cleared",
+      (s) => Boolean(s.lastCreatedEventId) && !s.pendingEvent && !s.activeDraft,
+    );
+    const eventId = state.lastCreatedEventId!;
+
+    const invited = ["Sara", "Mia"].filter((name) =>
+      h.unreadSms(name).some((m) => /Where: Wash Park/.test(m.body ?? "")),
+    );
+    if (invited.length !== 1) {
+      throw new Error(`Expected 1 Trail Crew invite for event ${eventId}, got ${invited.join(", ") || "none"}`);
+    }
+    const [first] = invited;
+    const backup = first === "Sara" ? "Mia" : "Sara";
+    h.expectNoSms("Jake");
+    h.expectNoSms("Leo");
+    await h.expectStatuses(eventId, { [first]: "invited", [backup]: "listed" });
+
+    // A decline backfills from the group...
+    await h.homieSays(first, "can't make it");
+    h.expectSms(backup, /Where: Wash Park/);
+    await h.expectStatuses(eventId, { [first]: "declined", [backup]: "invited" });
+
+    // ...and once the group is used up, nobody outside it is pulled in.
+    await h.homieSays(backup, "can't make it");
+    await h.expectStatuses(eventId, { [first]: "declined", [backup]: "declined" });
+    h.expectNoSms("Jake");
+    h.expectNoSms("Leo");
+  },
+};
+
+export default scenario;
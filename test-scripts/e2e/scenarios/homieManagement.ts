@@ -0,0 +1,69 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator manages homies by SMS: add (a duplicate name is turned away), update a
+ * number, list, and remove. Removing a homie with event history asks YES/NO first;
+ * NO keeps them, YES deletes them and gives their upcoming spot to the backup.
+ */
+const scenario: Scenario = {
+  name: "homie_management",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Mia"],
+    });
+    h.expectSms("Jake", /Where: The usual spot/);
+
+    await h.userSays("add Leo Smith 303-555-0142");
+    h.expectSms("user", /Added Leo Smith \(\(303\) 555-0142\) to your homies\./);
+
+    await h.userSays("add Sara Homie 720-555-0199");
+    h.expectSms("user", /You already have a homie named Sara Homie\./);
+
+    await h.userSays("update Leo's number to 720-555-0123");
+    h.expectSms("user", /Updated Leo Smith’s number to \(720\) 555-0123\./);
+
+    await h.userSays("send me my homies");
+    h.expectSms("user", /Here are your homies:[\s\S]*- Leo Smith/);
+
+    // No event history: removed straight away.
+    await h.userSays("remove Leo");
+    h.expectSms("user", /Removed Leo Smith from your homies\./);
+
+    await h.userSays("remove Jake");
+    h.expectSms(
+      "user",
+      /Jake Homie is on 1 event\. One is coming up; I’ll give their spot to the next homie\.[\s\S]*Reply YES to remove, or NO to keep them\./,
+    );
+    await h.expectConversationState(
+      "waiting on the removal confirmation",
+      (s) => s.pendingHomieRemoval?.memberId === h.memberId("Jake"),
+    );
+
+    await h.userSays("no");
+    h.expectSms("user", /Okay, I kept Jake Homie\./);
+    await h.expectConversationState("confirmation answered", (s) => !s.pendingHomieRemoval);
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "listed" });
+    h.expectNoSms("Mia");
+
+    await h.userSays("remove Jake");
+    h.expectSms("user", /Reply YES to remove, or NO to keep them\./);
+    await h.userSays("yes");
+    h.expectSms("user", /Removed Jake Homie from your homies\./);
+    h.expectSms("user", /Jake Homie is off Pickleball \([^)]*\) since you removed them from your homies\./);
+    h.expectSms("Mia", /Where: The usual spot/);
+    await h.expectStatuses(eventId, { Mia: "invited" });
+    await h.expectConversationState("confirmation answered", (s) => !s.pendingHomieRemoval);
+  },
+};
+
+export default scenario;
@@ -0,0 +1,61 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator misspells a homie ("Jock"). Only a close spelling fits, so the draft asks
+ * "Did you mean Jack Homie?" instead of guessing; "yes" picks him and the draft goes on
+ * to the preview and the invites.
+ */
+const scenario: Scenario = {
+  name: "homie_name_did_you_mean",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jack", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    // No `match`: the answer to the question re-runs the analyzers on "yes".
+    h.stubLlm({
+      tag: "analyzeInvitePolicyIntent",
+      response: { policy: "prioritized", confidence: "high", reason: "stub: name + count" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationLocation",
+      response: { eventLocationProvided: true, eventLocation: "Wash Park" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationHomies",
+      response: { homies: ["Jock"], maxHomies: 2 },
+    });
+    h.stubLlm({ tag: "analyzeConversationInviteMessage", response: { inviteMessage: null } });
+    h.stubLlm({
+      tag: "summarizeConversationMemory",
+      response: { summary: "Casey plays tennis at Wash Park with Jack." },
+    });
+
+    await h.userSays("Tennis tomorrow from 6pm to 8pm at Wash Park, invite Jock and 1 other");
+    h.expectSms("user", /Did you mean Jack Homie\?/);
+    await h.expectConversationState(
+      "draft waiting on which homie",
+      (s) => s.activeDraft?.pendingHomieChoice?.name === "Jock",
+    );
+
+    await h.userSays("yes");
+    h.expectSms("user", /Draft: Tennis[\s\S]*Jack Homie/);
+    await h.expectConversationState(
+      "choice remembered and draft awaiting confirmation",
+      (s) => s.pendingEvent?.status === "awaiting_confirmation",
+    );
+
+    await h.userSays("looks good");
+    const state = await h.expectConversationState(
+      "event created and planning state cleared",
+      (s) => Boolean(s.lastCreatedEventId) && !s.pendingEvent && !s.activeDraft,
+    );
+    h.expectSms("Jack", /Where: Wash Park/);
+    await h.expectStatuses(state.lastCreatedEventId!, { Jack: "invited" });
+  },
+};
+
+export default scenario;
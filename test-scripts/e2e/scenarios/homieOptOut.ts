@@ -0,0 +1,46 @@
+import type { Scenario } from "../harness";
+
+/**
+ * A homie replies STOP to an open invite: they're taken off it, the creator is told
+ * why, the next backup is invited, and later invites to that number are skipped.
+ */
+const scenario: Scenario = {
+  name: "homie_opt_out",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Sara", "Mia"],
+    });
+
+    h.expectSms("Jake", /Where: The usual spot/);
+
+    await h.homieSays("Jake", "STOP");
+    h.expectNoSms("Jake");
+    h.expectSms("user", /Jake Homie opted out of texts/);
+    await h.expectStatuses(eventId, { Jake: "declined", Sara: "invited", Mia: "listed" });
+    h.expectSms("Sara", /Where: The usual spot/);
+
+    // A new event skips Jake at invite time and goes straight to the backup.
+    const secondEventId = await h.createEvent({
+      startsIn: "2d",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Mia"],
+    });
+    h.expectNoSms("Jake");
+    h.expectSms("user", /skipped their invite/);
+    await h.expectStatuses(secondEventId, { Jake: "declined", Mia: "invited" });
+  },
+};
+
+export default scenario;
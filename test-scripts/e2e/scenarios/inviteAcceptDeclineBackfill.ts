@@ -0,0 +1,44 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Two invited homies: one accepts, one declines, and the decline pulls in the
+ * first backup.
+ */
+const scenario: Scenario = {
+  name: "invite_accept_decline_backfill",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia", "Leo"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia", "Leo"],
+    });
+
+    h.expectSms("Jake", /Where: The usual spot/);
+    h.expectSms("Sara", /Where: The usual spot/);
+    h.expectNoSms("Mia");
+    await h.expectStatuses(eventId, { Jake: "invited", Sara: "invited", Mia: "listed", Leo: "listed" });
+
+    await h.homieSays("Jake", "yes I'm in");
+    h.expectSms("Jake", /see you there|you’re in|Glad you can make it/);
+    h.expectSms("user", /Jake Homie is in for Pickleball/);
+    await h.expectStatuses(eventId, { Jake: "accepted" });
+
+    await h.homieSays("Sara", "can't make it, sorry");
+    h.expectSms("Sara", /next time/i);
+    h.expectSms("user", /Sara Homie declined Pickleball/);
+    await h.expectStatuses(eventId, { Sara: "declined", Mia: "invited", Leo: "listed" });
+    h.expectSms("Mia", /Where: The usual spot/);
+    h.expectNoSms("Leo");
+  },
+};
+
+export default scenario;
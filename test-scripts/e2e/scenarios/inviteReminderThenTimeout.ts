@@ -0,0 +1,49 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Silent invitee gets one reminder shortly before expiry, then times out and the
+ * backup is invited.
+ *
+ * Event starts 24h out, so the invite expires 5% of the way there (72 min).
+ */
+const scenario: Scenario = {
+  name: "invite_reminder_then_timeout",
+  // 10:00 in America/Denver, so the expiry lands inside the 07:00-22:00 window.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jake", "Sara"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "24h",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Sara"],
+    });
+    h.expectSms("Jake", /Where: The usual spot/);
+
+    // Not yet inside the 30 minute reminder threshold.
+    h.advance("30m");
+    await h.runPollers();
+    h.expectNoSms("Jake");
+
+    // 20 minutes before expiry: reminder goes out once.
+    h.advance("22m");
+    await h.runPollers();
+    h.expectSms("Jake", /quick reminder from BuckFifty/);
+    await h.runPollers();
+    h.expectNoSms("Jake");
+
+    // Past expiry: Jake stays `invited` (timed out) and Sara is invited.
+    h.advance("25m");
+    await h.runPollers();
+    await h.expectStatuses(eventId, { Jake: "invited", Sara: "invited" });
+    h.expectSms("Sara", /Where: The usual spot/);
+    h.expectNoSms("Jake");
+  },
+};
+
+export default scenario;
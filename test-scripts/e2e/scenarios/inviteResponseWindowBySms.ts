@@ -0,0 +1,67 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator sets the invite answer window by text. "give them 3 hours to reply" re-times
+ * the open invite on their upcoming event (no backup at the default ~72 minutes), and
+ * "by default …" carries over to the next plan.
+ */
+const scenario: Scenario = {
+  name: "invite_response_window_by_sms",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Mia", "Sara", "Leo"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Mia"],
+    });
+    h.expectSms("Jake", /Where: The usual spot/);
+
+    await h.userSays("give them 3 hours to reply");
+    h.expectSms(
+      "user",
+      /Got it: homies get 3 hours to reply to invites for Pickleball \([^)]*\)\. I restarted the clock for the homie still deciding\./,
+    );
+
+    // Past the default 5% window (~72 minutes): Jake still has time.
+    h.advance("80m");
+    await h.runPollers();
+    h.expectNoSms("Mia");
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "listed" });
+
+    // Reminder 30 minutes before the 3 hours are up, backup right after.
+    h.advance("75m");
+    await h.runPollers();
+    h.expectSms("Jake", /quick reminder from BuckFifty/);
+    h.expectNoSms("Mia");
+
+    h.advance("30m");
+    await h.runPollers();
+    h.expectSms("Mia", /Where: The usual spot/);
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "invited" });
+
+    await h.userSays("by default give homies a day to respond");
+    h.expectSms("user", /Got it: from now on homies get 1 day to reply to your invites\./);
+
+    // Three days out the default would be ~3.6 hours; a day-long window outlasts it.
+    const nextId = await h.createEvent({
+      startsIn: "3d",
+      maxParticipants: 1,
+      invite: ["Sara"],
+      backups: ["Leo"],
+    });
+    h.expectSms("Sara", /Where: The usual spot/);
+    h.advance("5h");
+    await h.runPollers();
+    h.expectNoSms("Leo");
+    await h.expectStatuses(nextId, { Sara: "invited", Leo: "listed" });
+  },
+};
+
+export default scenario;
@@ -0,0 +1,62 @@
+import type { Scenario } from "../harness";
+
+/**
+ * A "maybe, I'll know by 2pm" holds the invite without taking a spot; the homie is
+ * nudged at 2pm, and when the nudge goes unanswered the backup is invited.
+ */
+const scenario: Scenario = {
+  name: "maybe_follow_up_backfill",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara"],
+  },
+
+  async run(h) {
+    h.stubLlm({
+      tag: "analyzeInviteResponse",
+      match: "^\\s*maybe\\b",
+      response: {
+        decision: "maybe",
+        summary: "They'll know by 2pm.",
+        decide_by: "2030-06-10T14:00:00-06:00",
+        guests: null,
+      },
+    });
+
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Sara"],
+    });
+    h.expectSms("Jake", /Where: The usual spot/);
+
+    await h.homieSays("Jake", "maybe, I'll know by 2pm");
+    h.expectSms("Jake", /check back/);
+    h.expectSms("user", /Jake Homie is a maybe for Pickleball[\s\S]*Maybe:\n- Jake Homie/);
+    await h.expectStatuses(eventId, { Jake: "maybe", Sara: "listed" });
+
+    // The original invite window passes; a maybe isn't timed out on it.
+    h.advance("2h");
+    await h.runPollers();
+    h.expectNoSms("Jake");
+    h.expectNoSms("Sara");
+
+    // 2pm: the nudge, with an hour to answer.
+    h.advance("2h");
+    await h.runPollers();
+    h.expectSms("Jake", /Checking back on Pickleball[\s\S]*offer your spot to someone else/);
+    h.expectNoSms("Sara");
+
+    // No answer: the backup gets the invite.
+    h.advance("61m");
+    await h.runPollers();
+    h.expectSms("Sara", /Where: The usual spot/);
+    await h.expectStatuses(eventId, { Jake: "maybe", Sara: "invited" });
+  },
+};
+
+export default scenario;
@@ -0,0 +1,47 @@
+import type { Scenario } from "../harness";
+
+/**
+ * The creator allows a plus-one; the first homie brings one, and the second is
+ * told there's no room left for theirs. Guests count against the spots.
+ */
+const scenario: Scenario = {
+  name: "plus_one_capacity",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    h.stubLlm({
+      tag: "analyzeInviteResponse",
+      match: "\\+1|bring a friend",
+      response: { decision: "accepted", summary: "They're in and want to bring one.", guests: 1 },
+    });
+
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 3,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    await h.userSays("allow 1 plus one");
+    h.expectSms("user", /Got it: homies can bring up to 1 plus-one for Pickleball/);
+
+    await h.homieSays("Jake", "yes +1");
+    h.expectSms("Jake", /You’re down for \+1\./);
+    h.expectSms("user", /Jake Homie is in for Pickleball .*\(\+1\)\.[\s\S]*1 open spot[\s\S]*Jake Homie \(\+1\)/);
+
+    // Jake and his guest hold two of the three spots, so Sara comes alone.
+    await h.homieSays("Sara", "yes! can I bring a friend?");
+    h.expectSms("Sara", /no room for extra guests right now, so it’s just you/);
+    h.expectSms("user", /Sara Homie is in for Pickleball[\s\S]*no more open spots/);
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "accepted", Mia: "listed" });
+    h.expectNoSms("Mia");
+  },
+};
+
+export default scenario;
@@ -0,0 +1,51 @@
+import type { Scenario } from "../harness";
+
+/**
+ * The day before, accepted homies get a reminder with who's coming and the creator
+ * gets the roster; on the day, a "running late" reply is relayed to the creator.
+ */
+const scenario: Scenario = {
+  name: "pre_event_reminder_running_late",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "2d",
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    await h.homieSays("Jake", "yes I'm in");
+    await h.homieSays("Sara", "yes I'm in");
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "accepted", Mia: "listed" });
+    h.expectSms("user", /Sara Homie is in for Pickleball/);
+
+    // 24h before the start.
+    h.advance("1d");
+    await h.runPollers();
+    h.expectSms("Jake", /Pickleball is tomorrow[\s\S]*Where: The usual spot[\s\S]*Coming: Sara Homie/);
+    h.expectSms("Sara", /Pickleball is tomorrow[\s\S]*Coming: Jake Homie/);
+    h.expectSms("user", /Pickleball is tomorrow .* at The usual spot[\s\S]*Coming:\n- Jake Homie\n- Sara Homie/);
+    h.expectNoSms("Mia");
+
+    // Only one reminder per kind.
+    await h.runPollers();
+    h.expectNoSms("Jake");
+
+    // 90 minutes before the start.
+    h.advance("1350m");
+    await h.homieSays("Jake", "running 10 min late");
+    h.expectSms("user", /Heads up: Jake Homie is running late for Pickleball \(about 10 min\)/);
+    h.expectSms("Jake", /Casey/);
+    await h.expectStatuses(eventId, { Jake: "accepted" });
+  },
+};
+
+export default scenario;
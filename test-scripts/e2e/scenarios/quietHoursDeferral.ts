@@ -0,0 +1,51 @@
+import type { Scenario } from "../harness";
+
+/**
+ * A plan made late at night: invites wait out quiet hours (22:00–07:00 by default)
+ * and go out when the window opens, and the answer window starts then too, so no
+ * backup is invited overnight.
+ */
+const scenario: Scenario = {
+  name: "quiet_hours_deferral",
+  // Monday 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Mia"],
+  },
+
+  async run(h) {
+    // Monday 23:00, for Tuesday 18:00.
+    h.advance("13h");
+    const eventId = await h.createEvent({
+      startsIn: "19h",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Mia"],
+    });
+    h.expectNoSms("Jake");
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "listed" });
+
+    // 06:00: still quiet.
+    h.advance("7h");
+    await h.runPollers();
+    h.expectNoSms("Jake");
+    h.expectNoSms("Mia");
+
+    // 07:00: the held invite goes out; Jake's window starts now.
+    h.advance("1h");
+    await h.runPollers();
+    h.expectSms("Jake", /Where: The usual spot/);
+    h.expectNoSms("Mia");
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "listed" });
+
+    // 5% of the 11h left is ~33 minutes; past that the backup is invited.
+    h.advance("40m");
+    await h.runPollers();
+    h.expectSms("Mia", /Where: The usual spot/);
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "invited" });
+  },
+};
+
+export default scenario;
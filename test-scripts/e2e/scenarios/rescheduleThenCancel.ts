@@ -0,0 +1,48 @@
+import type { Scenario } from "../harness";
+
+/**
+ * The creator moves an event that already went out, then calls it off. Accepted and
+ * pending homies hear about both; backups never do.
+ */
+const scenario: Scenario = {
+  name: "reschedule_then_cancel",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    await h.homieSays("Jake", "yes I'm in");
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "invited" });
+
+    await h.userSays("push it an hour later");
+    h.expectSms("user", /Moved Pickleball to .*11:00/);
+    h.expectSms("Jake", /moved Pickleball[\s\S]*You’re still in/);
+    h.expectSms("Sara", /moved Pickleball[\s\S]*(Can you make it|Are you in)\?/);
+    h.expectNoSms("Mia");
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "invited", Mia: "listed" });
+
+    await h.userSays("cancel it");
+    h.expectSms("user", /Cancelled Pickleball/);
+    h.expectSms("Jake", /cancelled/);
+    h.expectSms("Sara", /cancelled/);
+    h.expectNoSms("Mia");
+
+    // A decline after the cancellation doesn't pull in the backup.
+    await h.homieSays("Sara", "can't make it");
+    h.expectNoSms("Mia");
+    await h.expectStatuses(eventId, { Mia: "listed" });
+  },
+};
+
+export default scenario;
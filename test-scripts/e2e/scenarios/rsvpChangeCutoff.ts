@@ -0,0 +1,48 @@
+import type { Scenario } from "../harness";
+
+/**
+ * A homie flips their answer twice the day before (the freed spot goes to a backup),
+ * then tries to drop out inside the two-hour cutoff and is pointed at the creator.
+ */
+const scenario: Scenario = {
+  name: "rsvp_change_cutoff",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    await h.homieSays("Jake", "yes I'm in");
+    h.expectSms("user", /Jake Homie is in for Pickleball/);
+
+    await h.homieSays("Jake", "can't make it anymore, sorry");
+    h.expectSms("Jake", /next time/i);
+    h.expectSms("user", /Jake Homie changed their RSVP and can’t make Pickleball anymore/);
+    await h.expectStatuses(eventId, { Jake: "declined", Sara: "invited", Mia: "invited" });
+    h.expectSms("Mia", /Where: The usual spot/);
+
+    await h.homieSays("Jake", "yes I'm in after all");
+    h.expectSms("Jake", /see you there|you’re in|Glad you can make it/);
+    h.expectSms("user", /Jake Homie changed their RSVP and is in for Pickleball/);
+    await h.expectStatuses(eventId, { Jake: "accepted" });
+
+    // 90 minutes before the start: too late to drop out by text.
+    h.advance("1350m");
+    await h.homieSays("Jake", "can't make it, sorry");
+    h.expectSms("Jake", /too close to start time[\s\S]*still down as in/);
+    h.expectSms("user", /Heads up: Jake Homie says they can’t make Pickleball/);
+    await h.expectStatuses(eventId, { Jake: "accepted" });
+  },
+};
+
+export default scenario;
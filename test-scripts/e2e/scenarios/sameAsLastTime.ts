@@ -0,0 +1,81 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator reuses an earlier plan: "same as last time, tonight at 7pm" copies the place,
+ * the homies and the two-hour length, and only the time is new. The plan saved with
+ * "save this as tennis night" drafts the same way from its name.
+ */
+const scenario: Scenario = {
+  name: "same_as_last_time",
+  // Monday 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    h.stubLlm({
+      tag: "analyzeInvitePolicyIntent",
+      response: { policy: "exact", confidence: "high", reason: "stub: names only" },
+    });
+    // Later messages name neither a place nor homies; those come from the copied plan.
+    h.stubLlm({
+      tag: "analyzeConversationLocation",
+      response: { eventLocationProvided: false, eventLocation: null },
+    });
+    h.stubLlm({ tag: "analyzeConversationHomies", response: { homies: [], maxHomies: null } });
+    h.stubLlm({
+      tag: "analyzeConversationLocation",
+      match: "wash park",
+      response: { eventLocationProvided: true, eventLocation: "Wash Park" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationHomies",
+      match: "jake and sara",
+      response: { homies: ["Jake", "Sara"], maxHomies: 2 },
+    });
+    h.stubLlm({ tag: "analyzeConversationInviteMessage", response: { inviteMessage: null } });
+    h.stubLlm({
+      tag: "summarizeConversationMemory",
+      response: { summary: "Casey plays tennis at Wash Park with Jake and Sara." },
+    });
+
+    await h.userSays("Tennis tomorrow from 6pm to 8pm at Wash Park, invite Jake and Sara");
+    h.expectSms("user", /Draft: Tennis[\s\S]*Where: Wash Park/);
+    await h.userSays("looks good");
+    const first = await h.expectConversationState(
+      "first event created",
+      (s) => Boolean(s.lastCreatedEventId) && !s.pendingEvent && !s.activeDraft,
+    );
+    const firstId = first.lastCreatedEventId!;
+    h.expectSms("Jake", /Where: Wash Park/);
+    h.expectSms("Sara", /Where: Wash Park/);
+    await h.expectStatuses(firstId, { Jake: "invited", Sara: "invited" });
+
+    await h.userSays("save this as tennis night");
+    h.expectSms("user", /Saved “tennis night”\. Next time, text “same as tennis night”/);
+
+    await h.userSays("same as last time, tonight at 7pm");
+    h.expectSms("user", /Draft: Tennis\nWhen: Mon, Jun 10 7:00 PM - 9:00 PM\nWhere: Wash Park/);
+    await h.userSays("looks good");
+    const second = await h.expectConversationState(
+      "second event created from the last one",
+      (s) => Boolean(s.lastCreatedEventId) && s.lastCreatedEventId !== firstId && !s.pendingEvent,
+    );
+    h.expectSms("Jake", /Where: Wash Park/);
+    h.expectSms("Sara", /Where: Wash Park/);
+    h.expectNoSms("Mia");
+    await h.expectStatuses(second.lastCreatedEventId!, { Jake: "invited", Sara: "invited" });
+
+    await h.userSays("same as tennis night, tomorrow at 9am");
+    h.expectSms("user", /Draft: Tennis\nWhen: Tue, Jun 11 9:00 AM - 11:00 AM\nWhere: Wash Park/);
+    await h.expectConversationState(
+      "template draft awaiting confirmation",
+      (s) => s.pendingEvent?.status === "awaiting_confirmation",
+    );
+  },
+};
+
+export default scenario;
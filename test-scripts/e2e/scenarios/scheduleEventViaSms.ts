@@ -0,0 +1,60 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Creator schedules by text: one message with every detail, then "looks good".
+ * Checks the draft/confirmation state machine and that invites go out.
+ */
+const scenario: Scenario = {
+  name: "schedule_event_via_sms",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    h.stubLlm({
+      tag: "analyzeInvitePolicyIntent",
+      response: { policy: "max_only", confidence: "high", reason: "stub: count only" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationLocation",
+      match: "wash park",
+      response: { eventLocationProvided: true, eventLocation: "Wash Park" },
+    });
+    h.stubLlm({
+      tag: "analyzeConversationHomies",
+      match: "2 homies",
+      response: { homies: [], maxHomies: 2 },
+    });
+    h.stubLlm({ tag: "analyzeConversationInviteMessage", response: { inviteMessage: null } });
+    h.stubLlm({
+      tag: "summarizeConversationMemory",
+      response: { summary: "Casey plays tennis at Wash Park." },
+    });
+
+    await h.userSays("Tennis tomorrow from 6pm to 8pm at Wash Park, invite 2 homies");
+    h.expectSms("user", /Draft: Tennis[\s\S]*Where: Wash Park/);
+    await h.expectConversationState(
+      "draft awaiting confirmation",
+      (s) => s.pendingEvent?.status === "awaiting_confirmation",
+    );
+
+    await h.userSays("looks good");
+    const state = await h.expectConversationState(
+      "event created and planning state cleared",
+      (s) => Boolean(s.lastCreatedEventId) && !s.pendingEvent && !s.activeDraft,
+    );
+
+    const eventId = state.lastCreatedEventId!;
+    const invited = ["Jake", "Sara", "Mia"].filter((name) =>
+      h.unreadSms(name).some((m) => /Where: Wash Park/.test(m.body ?? "")),
+    );
+    if (invited.length !== 2) {
+      throw new Error(`Expected 2 invite SMS for event ${eventId}, got ${invited.join(", ") || "none"}`);
+    }
+  },
+};
+
+export default scenario;
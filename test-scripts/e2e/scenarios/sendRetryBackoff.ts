@@ -0,0 +1,61 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Twilio errors on invite sends. A failed send is queued and retried with backoff
+ * (1m, 5m, 15m, 1h); one that goes through on a retry is a normal invite, and one
+ * that runs out of attempts is marked failed so the backup is invited right away.
+ */
+const scenario: Scenario = {
+  name: "send_retry_backoff",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    h.failNextSms("Jake", 2);
+    h.failNextSms("Sara", 5);
+
+    // Three days out: a ~3.5h answer window, longer than all of Sara's retries.
+    const eventId = await h.createEvent({
+      startsIn: "3d",
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+    h.expectNoSms("Jake");
+    h.expectNoSms("Sara");
+
+    // Attempt 2 after a minute: both fail again.
+    h.advance("1m");
+    await h.runPollers();
+    h.expectNoSms("Jake");
+    h.expectNoSms("Sara");
+
+    // Attempt 3 five minutes later: Jake's goes through.
+    h.advance("5m");
+    await h.runPollers();
+    h.expectSms("Jake", /Where: The usual spot/);
+    h.expectNoSms("Sara");
+
+    // Attempt 4 after 15 more minutes, attempt 5 an hour after that: Sara's is given up on.
+    h.advance("15m");
+    await h.runPollers();
+    h.expectNoSms("Sara");
+    h.expectNoSms("Mia");
+
+    h.advance("1h");
+    await h.runPollers();
+    h.expectNoSms("Sara");
+
+    // The failed invite expires on the next pass and Mia takes the spot.
+    await h.runPollers();
+    h.expectSms("Mia", /Where: The usual spot/);
+    h.expectNoSms("Jake");
+    await h.expectStatuses(eventId, { Jake: "invited", Sara: "invited", Mia: "invited" });
+  },
+};
+
+export default scenario;
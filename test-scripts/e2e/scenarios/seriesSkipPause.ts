@@ -0,0 +1,57 @@
+import type { Scenario } from "../harness";
+
+/**
+ * A weekly plan: the creator skips this week's (invited homies hear it's off), pauses
+ * the series so next week's invites never go out, then resumes and the following
+ * occurrence invites as usual.
+ */
+const scenario: Scenario = {
+  name: "series_skip_pause",
+  // Monday 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Sara", "Jack"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 2,
+      invite: ["Sara", "Jack"],
+      weekly: { inviteLeadMinutes: 2 * 24 * 60 },
+    });
+    h.expectSms("Sara", /Pickleball/);
+    h.expectSms("Jack", /Pickleball/);
+
+    await h.homieSays("Sara", "yes I'm in");
+    await h.expectStatuses(eventId, { Sara: "accepted", Jack: "invited" });
+
+    await h.userSays("skip this week");
+    h.expectSms("user", /Skipping Pickleball \(Tue, Jun 11[^)]*\)[\s\S]*Next one: Tue, Jun 18/);
+    h.expectSms("Sara", /cancelled/);
+    h.expectSms("Jack", /cancelled/);
+
+    await h.userSays("pause pickleball");
+    h.expectSms("user", /Paused Pickleball \(every Tuesday\)/);
+
+    // Jun 18's invites were due Jun 16; paused, nothing goes out.
+    h.advance("7d");
+    await h.runPollers();
+    h.expectNoSms("Sara");
+    h.expectNoSms("Jack");
+    h.expectNoSms("user");
+
+    await h.userSays("resume pickleball");
+    h.expectSms("user", /Pickleball is back on, every Tuesday\.[\s\S]*Next one: Tue, Jun 25/);
+
+    h.advance("7d");
+    await h.runPollers();
+    h.expectSms("Sara", /Pickleball/);
+    h.expectSms("Jack", /Pickleball/);
+    h.expectSms("user", /Invites are out for Pickleball \(Tue, Jun 25[^)]*\), your every Tuesday plan/);
+  },
+};
+
+export default scenario;
@@ -0,0 +1,51 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Two candidate times: homies vote by number, the creator sees the tally and locks
+ * in the winner, and voters are accepted/declined against the locked time.
+ */
+const scenario: Scenario = {
+  name: "slot_voting_lock_in",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Tennis",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      alternateStartsIn: ["2d"],
+      maxParticipants: 2,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    h.expectSms("Jake", /1\) .*\n2\) /);
+    h.expectSms("Sara", /Which work for you\?/);
+    h.expectNoSms("Mia");
+
+    await h.homieSays("Jake", "1 and 2");
+    h.expectSms("Jake", /1, 2/);
+    h.expectSms("user", /Jake Homie can do #1, #2 for Tennis/);
+    await h.expectStatuses(eventId, { Jake: "messaged", Sara: "invited" });
+
+    await h.homieSays("Sara", "2");
+    h.expectSms("user", /Everyone’s voted\. Option 2 wins\./);
+
+    await h.userSays("lock in 2");
+    h.expectSms("user", /Locked in option 2 for Tennis/);
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "accepted", Mia: "listed" });
+    h.expectSms("Jake", /You’re in/);
+    h.expectSms("Sara", /You’re in/);
+    h.expectNoSms("Mia");
+
+    // Voting is closed; a second lock-in is rejected.
+    await h.userSays("lock in 1");
+    h.expectSms("user", /don’t see an event with times up for a vote/);
+  },
+};
+
+export default scenario;
@@ -0,0 +1,52 @@
+import type { Scenario } from "../harness";
+
+/**
+ * Twilio reports an invite as undelivered to a landline: the creator hears the number
+ * can't take texts, and the backup is invited right away instead of after the
+ * invite window. Late or early callbacks are kept, not dropped.
+ */
+const scenario: Scenario = {
+  name: "undelivered_invite_backfill",
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 1,
+      invite: ["Jake"],
+      backups: ["Mia"],
+    });
+    const invite = h.expectSms("Jake", /Where: The usual spot/);
+
+    if ((await h.reportDelivery(invite.sid, "sent")) !== 200) {
+      throw new Error("Expected 200 for a known message's status");
+    }
+    h.expectNoSms("user");
+
+    // 30006: landline or unreachable carrier.
+    await h.reportDelivery(invite.sid, "undelivered", "30006");
+    h.expectSms("user", /my invite for Pickleball \([^)]*\) couldn’t reach Jake Homie/);
+    h.expectNoSms("Mia");
+
+    // The expiry job runs now, not at the end of Jake's window.
+    await h.runPollers();
+    h.expectSms("Mia", /Where: The usual spot/);
+    await h.expectStatuses(eventId, { Jake: "invited", Mia: "invited" });
+
+    // A late "sent" doesn't undo the failure or notify anyone again.
+    await h.reportDelivery(invite.sid, "sent");
+    h.expectNoSms("user");
+    h.expectNoSms("Mia");
+
+    // A callback for a message we haven't logged yet is held for later, not dropped.
+    const held = await h.reportDelivery("SM00000000000000000000000000000000", "delivered");
+    if (held !== 202) throw new Error(`Expected 202 for an unknown sid, got ${held}`);
+  },
+};
+
+export default scenario;
@@ -0,0 +1,43 @@
+import type { Scenario } from "../harness";
+
+/**
+ * A "yes" after the event filled up lands on the waitlist; when an accepted homie
+ * drops out, the waitlisted homie is moved up and both sides are told.
+ */
+const scenario: Scenario = {
+  name: "waitlist_promotion",
+  // 10:00 in America/Denver.
+  startAt: new Date("2030-06-10T16:00:00Z"),
+  fixtures: {
+    user: { firstName: "Casey" },
+    activityName: "Pickleball",
+    homies: ["Jake", "Sara", "Mia"],
+  },
+
+  async run(h) {
+    const eventId = await h.createEvent({
+      startsIn: "1d",
+      maxParticipants: 1,
+      invite: ["Jake", "Sara"],
+      backups: ["Mia"],
+    });
+
+    await h.homieSays("Jake", "yes I'm in");
+    h.expectSms("user", /Jake Homie is in for Pickleball/);
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "invited" });
+
+    await h.homieSays("Sara", "yes I'm in");
+    h.expectSms("Sara", /waitlist/);
+    h.expectSms("user", /Sara Homie said yes for Pickleball[\s\S]*on the waitlist[\s\S]*Waitlist:\n- Sara Homie/);
+    await h.expectStatuses(eventId, { Jake: "accepted", Sara: "waitlisted", Mia: "listed" });
+
+    // Jake drops out: the spot goes to Sara, not to the backup.
+    await h.homieSays("Jake", "can't make it anymore, sorry");
+    h.expectSms("Sara", /off the waitlist for Pickleball[\s\S]*You’re in/);
+    h.expectSms("user", /Jake Homie changed their RSVP[\s\S]*Sara Homie moved up from the waitlist and is in/);
+    await h.expectStatuses(eventId, { Jake: "declined", Sara: "accepted", Mia: "listed" });
+    h.expectNoSms("Mia");
+  },
+};
+
+export default scenario;
@@ -50,7 +50,7 @@ for (let i = 0; i < 15; i++) {
 console.log("\n\n===============================\nCreator roster SMS samples\n===============================");
 
 const creatorRosterSms = (
-  decision: "accepted" | "declined" | "declined_full",
+  decision: "accepted" | "declined" | "waitlisted",
   openSpots: number,
 ) =>
   buildCreatorRosterAfterMemberDecisionSms({
@@ -71,19 +71,21 @@ const creatorRosterSms = (
     roster: {
       accepted: ["Sam Smith", "Nina Patel"],
       pending: ["Akshay Gupta", "Mike Jones"],
+      maybe: ["Riley Park"],
       declined: ["Ben Lee"],
+      waitlisted: decision === "waitlisted" ? ["Anish"] : [],
       backups: ["Chris Kim", "Taylor Ray", "Jordan Wu", "Alex Chen", "Priya Shah", "Dana Fox", "Morgan Yu"],
     },
   });
 
-for (const d of ["accepted", "declined", "declined_full"] as const) {
+for (const d of ["accepted", "declined", "waitlisted"] as const) {
   console.log(`\n--- Creator (${d}) ---`);
   console.log(creatorRosterSms(d, 1));
 }
 
 console.log("\n\n===============================\nCreator roster SMS samples (0 open spots)\n===============================");
 
-for (const d of ["accepted", "declined", "declined_full"] as const) {
+for (const d of ["accepted", "declined", "waitlisted"] as const) {
   console.log(`\n--- Creator (${d}) ---`);
   console.log(creatorRosterSms(d, 0));
 }